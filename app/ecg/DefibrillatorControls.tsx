@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Zap } from 'lucide-react';
+import {
+  ConversionProbabilities, DEFAULT_CONVERSION_PROBABILITIES, DEFAULT_SHOCK_ENERGY, RECOMMENDED_ENERGY, SHOCKABLE_RHYTHMS,
+  SHOCK_ENERGIES, SHOCK_OUTCOME_LABELS, ShockRecord, ShockRequest, ShockableRhythm, chargeTime,
+} from '@/lib/ecg/defibrillator';
+
+type ChargeState = 'idle' | 'charging' | 'charged';
+
+type DefibrillatorControlsProps = {
+  available: boolean;    // 실시간 모니터에서만 충격을 줄 수 있음
+  synchronized: boolean;
+  onSynchronizedChange: (synchronized: boolean) => void;
+  pending: boolean;      // 동기화 충격이 R파를 기다리는 중
+  lastShock: ShockRecord | null;
+  onShock: (request: ShockRequest) => void;
+  onCancel: () => void;
+};
+
+const RHYTHM_LABELS: Record<ShockableRhythm, string> = {
+  vfib: '심실 세동 (VF)',
+  vtach: '심실 빈맥 (VT)',
+  afib: '심방 세동 (AF)',
+};
+
+/**
+ * 제세동기 패널: 에너지 선택 → 충전 → 충격, 동기화(Sync) 모드와 결과 확률 설정
+ * 충전 중이나 충전된 상태에서 에너지를 바꾸면 실제 장비처럼 충전을 해제합니다.
+ */
+export default function DefibrillatorControls({
+  available, synchronized, onSynchronizedChange, pending, lastShock, onShock, onCancel,
+}: DefibrillatorControlsProps) {
+  const [energy, setEnergy] = useState(DEFAULT_SHOCK_ENERGY);
+  const [charge, setCharge] = useState<ChargeState>('idle');
+  const [probabilities, setProbabilities] = useState<ConversionProbabilities>(DEFAULT_CONVERSION_PROBABILITIES);
+  const chargeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearChargeTimer = () => {
+    if (chargeTimerRef.current) clearTimeout(chargeTimerRef.current);
+    chargeTimerRef.current = null;
+  };
+
+  useEffect(() => clearChargeTimer, []);
+
+  const disarm = () => {
+    clearChargeTimer();
+    setCharge('idle');
+    if (pending) onCancel();
+  };
+
+  const startCharge = () => {
+    clearChargeTimer();
+    setCharge('charging');
+    chargeTimerRef.current = setTimeout(() => {
+      chargeTimerRef.current = null;
+      setCharge('charged');
+    }, chargeTime(energy) * 1000);
+  };
+
+  const changeEnergy = (value: number) => {
+    setEnergy(value);
+    disarm();
+  };
+
+  const shock = () => {
+    onShock({ energy, synchronized, probabilities });
+    setCharge('idle');
+  };
+
+  const updateProbability = (key: keyof ConversionProbabilities, value: number) => {
+    setProbabilities(prev => ({ ...prev, [key]: value }));
+  };
+
+  if (!available) {
+    return <p className="text-xs text-gray-500">실시간 모니터 모드에서 충전하고 충격을 줄 수 있습니다.</p>;
+  }
+
+  const status = pending
+    ? '동기화 대기 중: 다음 R파에 전달됩니다'
+    : charge === 'charging'
+      ? `충전 중... (${chargeTime(energy).toFixed(1)}초)`
+      : charge === 'charged'
+        ? `${energy} J 충전 완료`
+        : '대기';
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-600">에너지 (Energy)</span>
+        <select
+          value={energy}
+          onChange={(e) => changeEnergy(Number(e.target.value))}
+          className="p-1 border rounded text-xs"
+        >
+          {SHOCK_ENERGIES.map(value => <option key={value} value={value}>{value} J</option>)}
+        </select>
+        <button
+          onClick={() => onSynchronizedChange(!synchronized)}
+          className={`px-2 py-1 rounded font-bold ${synchronized ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+        >
+          SYNC
+        </button>
+        <button
+          onClick={startCharge}
+          disabled={charge !== 'idle' || pending}
+          className="px-3 py-1 rounded font-bold bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-40"
+        >
+          충전 (Charge)
+        </button>
+        <button
+          onClick={shock}
+          disabled={charge !== 'charged' || pending}
+          className="px-3 py-1 rounded font-bold bg-red-600 text-white hover:bg-red-700 disabled:opacity-40 flex items-center gap-1"
+        >
+          <Zap className="w-3 h-3" /> 충격 (Shock)
+        </button>
+        <button
+          onClick={disarm}
+          disabled={charge === 'idle' && !pending}
+          className="px-2 py-1 rounded bg-white text-gray-600 border hover:bg-gray-100 disabled:opacity-40"
+        >
+          해제 (Disarm)
+        </button>
+        <span className={`font-semibold ${pending || charge === 'charged' ? 'text-red-600' : 'text-gray-500'}`}>{status}</span>
+      </div>
+
+      {lastShock && (
+        <div className="text-gray-700">
+          마지막 충격: {lastShock.time.toFixed(1)}초, {lastShock.energy} J {lastShock.synchronized ? '동기화' : '비동기'}
+          {lastShock.onTWave ? ' · T파 위' : ''} → <span className="font-bold">{SHOCK_OUTCOME_LABELS[lastShock.outcome]}</span>
+        </div>
+      )}
+      {pending && (
+        <div className="text-amber-700">
+          세동이나 무수축처럼 R파가 없는 리듬에서는 동기화 충격이 전달되지 않습니다. SYNC를 끄고 다시 충전하세요.
+        </div>
+      )}
+
+      <details>
+        <summary className="cursor-pointer font-medium text-gray-600">결과 확률 설정 (Conversion Probabilities)</summary>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 mt-2">
+          {SHOCKABLE_RHYTHMS.map(rhythm => (
+            <div key={rhythm}>
+              <label className="block text-gray-600 mb-1">
+                {RHYTHM_LABELS[rhythm]} 전환: {Math.round(probabilities[rhythm] * 100)}% (권장 {RECOMMENDED_ENERGY[rhythm]} J 이상)
+              </label>
+              <input
+                type="range" min="0" max="1" step="0.05"
+                value={probabilities[rhythm]}
+                onChange={(e) => updateProbability(rhythm, Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-gray-600 mb-1">전환 후 무수축: {Math.round(probabilities.postShockAsystole * 100)}%</label>
+            <input
+              type="range" min="0" max="1" step="0.05"
+              value={probabilities.postShockAsystole}
+              onChange={(e) => updateProbability('postShockAsystole', Number(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">T파 위 충격의 VF 유발 (R-on-T): {Math.round(probabilities.rOnT * 100)}%</label>
+            <input
+              type="range" min="0" max="1" step="0.05"
+              value={probabilities.rOnT}
+              onChange={(e) => updateProbability('rOnT', Number(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        </div>
+        <p className="text-gray-500 mt-2">권장 에너지보다 낮으면 전환 확률이 에너지에 비례해서 줄어듭니다.</p>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { STRIP_HEIGHT_MM, STRIP_WIDTH_MM } from './paper';
+
+const range = (count: number) => Array.from({ length: count + 1 }, (_, i) => i);
+
+/**
+ * 심전도 기록지 모눈 (1mm 작은 칸, 5mm 큰 칸)
+ * viewBox를 mm 단위로 잡아 차트 영역과 같은 크기로 늘리므로 칸이 데이터 눈금과 정확히 맞습니다.
+ */
+export default function EcgPaper() {
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${STRIP_WIDTH_MM} ${STRIP_HEIGHT_MM}`}
+      preserveAspectRatio="none"
+    >
+      {range(STRIP_WIDTH_MM).map(mm => (
+        <line
+          key={`v${mm}`}
+          x1={mm} y1={0} x2={mm} y2={STRIP_HEIGHT_MM}
+          stroke="#f87171"
+          strokeOpacity={mm % 5 === 0 ? 0.4 : 0.12}
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {range(STRIP_HEIGHT_MM).map(mm => (
+        <line
+          key={`h${mm}`}
+          x1={0} y1={mm} x2={STRIP_WIDTH_MM} y2={mm}
+          stroke="#f87171"
+          strokeOpacity={mm % 5 === 0 ? 0.4 : 0.12}
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  ReferenceArea, ReferenceLine,
+} from 'recharts';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { EcgParams } from '@/lib/ecg/model';
+import { SignalRequest } from '@/lib/signals';
+import { ECG_SAMPLING_RATE } from '@/lib/signals/ecg';
+import { useGeneratedSignal } from '@/lib/signals/useGeneratedSignal';
+import { HF_BAND, LF_BAND, computeHrv, rrIntervalsFromAnnotations } from './hrv';
+
+// 분석 구간 선택지 (초). 주파수 영역 지표는 2분 이상, 표준은 5분
+const HRV_DURATIONS = [60, 120, 300];
+
+type HrvPanelProps = {
+  params: EcgParams;
+  seed: number;
+  duration: number;
+  onDurationChange: (duration: number) => void;
+};
+
+const formatMetric = (value: number | null | undefined, digits = 1) =>
+  value === null || value === undefined ? '-' : value.toFixed(digits);
+
+/**
+ * 심박 변이도 패널: RR 타코그램, 푸앵카레 도표, 파워 스펙트럼과 주요 지표
+ * 이소성·조율 박동이 낀 간격은 지표 계산에서 빠지며 타코그램에는 회색 점으로 남깁니다.
+ * 분석 구간(최대 5분)은 화면 스레드를 막지 않도록 신호 생성 워커에서 만들고, 박동 주석에서 RR 간격을 읽습니다.
+ */
+export default function HrvPanel({ params, seed, duration, onDurationChange }: HrvPanelProps) {
+  const generator = params.generator ?? 'gaussian';
+  const request = useMemo((): SignalRequest => ({
+    modality: 'ecg', params, duration, samplingRate: ECG_SAMPLING_RATE, seed,
+  }), [params, seed, duration]);
+  const { signal, generating, error } = useGeneratedSignal(request);
+
+  const intervals = useMemo(() => (signal ? rrIntervalsFromAnnotations(signal.annotations) : []), [signal]);
+  const metrics = useMemo(() => computeHrv(intervals), [intervals]);
+
+  const tachogram = useMemo(() => intervals.map(interval => ({
+    time: interval.time,
+    nn: interval.normal ? interval.rr : null,
+    other: interval.normal ? null : interval.rr,
+  })), [intervals]);
+
+  // 타코그램과 푸앵카레 도표의 RR 눈금 (푸앵카레는 가로/세로를 같게 두어야 구름 모양을 비교할 수 있음)
+  const rrDomain = useMemo((): [number, number] => {
+    if (intervals.length === 0) return [0, 1500];
+    const values = intervals.map(interval => interval.rr);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const pad = Math.max(50, (max - min) * 0.1);
+    return [Math.max(0, Math.floor((min - pad) / 50) * 50), Math.ceil((max + pad) / 50) * 50];
+  }, [intervals]);
+
+  const cards = [
+    { label: '평균 HR', value: formatMetric(metrics?.meanHr, 0), unit: 'BPM' },
+    { label: 'SDNN', value: formatMetric(metrics?.sdnn), unit: 'ms' },
+    { label: 'RMSSD', value: formatMetric(metrics?.rmssd), unit: 'ms' },
+    { label: 'pNN50', value: formatMetric(metrics?.pnn50), unit: '%' },
+    { label: 'SD1 / SD2', value: `${formatMetric(metrics?.sd1)} / ${formatMetric(metrics?.sd2)}`, unit: 'ms' },
+    { label: 'LF / HF', value: formatMetric(metrics?.lfHfRatio, 2), unit: `${formatMetric(metrics?.lf, 0)} / ${formatMetric(metrics?.hf, 0)} ms²` },
+  ];
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-semibold text-gray-700">분석 구간 (Window)</span>
+        {HRV_DURATIONS.map(seconds => (
+          <button
+            key={seconds}
+            onClick={() => onDurationChange(seconds)}
+            className={`px-2 py-1 rounded font-bold ${duration === seconds ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+          >
+            {seconds / 60}분
+          </button>
+        ))}
+        <span className="text-gray-500">
+          NN 간격 {metrics?.count ?? 0}개{metrics && metrics.excluded > 0 ? ` · 이소성/조율 박동으로 ${metrics.excluded}개 제외` : ''}
+        </span>
+        {generating && (
+          <span className="text-gray-500 flex items-center gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            생성 중…
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-xs rounded p-2 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+
+      {signal && !metrics ? (
+        <div className="bg-white p-4 rounded-lg border shadow-sm text-sm text-gray-500">
+          정상 박동(N) 사이의 간격이 부족해 HRV를 계산할 수 없습니다. (심실 리듬, 조율 리듬, 무수축 등)
+        </div>
+      ) : metrics && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+            {cards.map(card => (
+              <div key={card.label} className="bg-white p-3 rounded-lg border shadow-sm">
+                <div className="text-xs text-gray-500">{card.label}</div>
+                <div className="text-lg font-bold text-gray-800 font-mono">{card.value}</div>
+                <div className="text-xs text-gray-400">{card.unit}</div>
+              </div>
+            ))}
+          </div>
+          {generator === 'gaussian' && metrics.sdnn < 1 && (
+            <div className="text-xs text-gray-500">
+              가우스 모델의 동리듬은 RR 간격이 일정해 변이도가 0에 가깝습니다. 호흡성 동부정맥과 Mayer파가 담긴 RR은 ECGSYN 모델에서 볼 수 있습니다.
+            </div>
+          )}
+        </>
+      )}
+
+      {/* RR 타코그램 */}
+      <div className="bg-white p-4 rounded-lg border shadow-sm h-56">
+        <h3 className="text-sm font-bold text-gray-500 mb-2">RR 타코그램 (Tachogram)</h3>
+        <ResponsiveContainer width="100%" height="85%">
+          <LineChart data={tachogram} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" type="number" domain={[0, duration]} unit="s" tick={{ fontSize: 10 }} />
+            <YAxis unit="ms" domain={rrDomain} tick={{ fontSize: 10 }} />
+            <Tooltip
+              labelFormatter={(label) => `${Number(label).toFixed(1)} s`}
+              formatter={(value) => `${Number(value).toFixed(0)} ms`}
+            />
+            <Line type="linear" dataKey="nn" name="NN" stroke="#3b82f6" strokeWidth={1.5} dot={false} connectNulls={false} isAnimationActive={false} />
+            <Line type="linear" dataKey="other" name="이소성/조율" stroke="none" dot={{ r: 2, fill: '#9ca3af' }} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* 푸앵카레 도표: 대각선에 수직인 폭이 SD1, 대각선 방향 길이가 SD2 */}
+        <div className="bg-white p-4 rounded-lg border shadow-sm aspect-square relative">
+          <h3 className="text-sm font-bold text-gray-500 mb-2 absolute top-4 left-4">Poincaré Plot (RRn vs RRn+1)</h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 30, right: 20, bottom: 20, left: 0 }}>
+              <CartesianGrid />
+              <XAxis type="number" dataKey="rr" name="RRn" unit="ms" domain={rrDomain} tick={{ fontSize: 10 }} />
+              <YAxis type="number" dataKey="nextRr" name="RRn+1" unit="ms" domain={rrDomain} tick={{ fontSize: 10 }} />
+              <ReferenceLine segment={[{ x: rrDomain[0], y: rrDomain[0] }, { x: rrDomain[1], y: rrDomain[1] }]} stroke="#9ca3af" strokeDasharray="4 4" />
+              <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+              <Scatter name="NN" data={metrics?.poincare ?? []} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* 파워 스펙트럼 */}
+        <div className="bg-white p-4 rounded-lg border shadow-sm aspect-square relative">
+          <h3 className="text-sm font-bold text-gray-500 mb-2 absolute top-4 left-4">RR 스펙트럼 (PSD)</h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={metrics?.spectrum ?? []} margin={{ top: 30, right: 20, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="frequency" type="number" domain={[0, 0.5]} unit="Hz" tick={{ fontSize: 10 }} />
+              <YAxis tick={{ fontSize: 10 }} />
+              <ReferenceArea x1={LF_BAND[0]} x2={LF_BAND[1]} fill="#f59e0b" fillOpacity={0.15} label={{ value: 'LF', position: 'insideTop', fontSize: 10 }} />
+              <ReferenceArea x1={HF_BAND[0]} x2={HF_BAND[1]} fill="#22c55e" fillOpacity={0.15} label={{ value: 'HF', position: 'insideTop', fontSize: 10 }} />
+              <Tooltip
+                labelFormatter={(label) => `${Number(label).toFixed(3)} Hz`}
+                formatter={(value) => [`${Number(value).toFixed(0)} ms²/Hz`, 'PSD']}
+              />
+              <Line type="monotone" dataKey="power" stroke="#8b5cf6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+          {duration < 120 && (
+            <div className="absolute bottom-8 right-6 text-xs text-amber-600 bg-white/80 px-1">LF는 2분 이상 구간에서 신뢰할 수 있음</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { EcgParams } from '@/lib/ecg/model';
+import { EcgFilterSettings } from '@/lib/ecg/filters';
+import { LEAD_NAMES } from '@/lib/ecg/leads';
+import { SignalRequest } from '@/lib/signals';
+import { ExportAnnotation } from '@/lib/export';
+import { WaveformGrid } from '@/components/WaveformCanvas';
+import LongRecording, { LongRecordingChannel } from '@/components/LongRecording';
+
+// 기록 길이 선택지 (초)
+const TRACE_DURATIONS = [30, 60, 120, 300, 600];
+// 샘플링 주파수 선택지 (Hz). 진단용 기록기는 보통 500 Hz
+const TRACE_SAMPLING_RATES = [100, 250, 500];
+
+const TRACE_COLOR = '#4ade80';
+// 기록지 모눈: 작은 칸 0.04 s × 0.1 mV
+const TRACE_GRID: WaveformGrid = { time: 0.04, value: 0.1, color: '#ef4444' };
+
+// 유도별 표시 설정. 렌더링마다 새 객체가 생기지 않도록 모듈 상수로 둠
+const SINGLE_LEAD_CHANNELS: Record<string, LongRecordingChannel> = {
+  II: { color: TRACE_COLOR, range: [-1.5, 2.5], height: 220 },
+};
+const TWELVE_LEAD_RANGE: [number, number] = [-1.5, 1.5];
+const TWELVE_LEAD_CHANNELS: Record<string, LongRecordingChannel> = Object.fromEntries(
+  LEAD_NAMES.map(lead => [lead, { color: TRACE_COLOR, range: TWELVE_LEAD_RANGE, height: 64 }]),
+);
+
+// 미니맵 표시: 정상(N) 외의 박동과 차단된 P파
+const BEAT_MARK_COLORS: Record<string, string> = {
+  V: '#f87171',
+  A: '#facc15',
+  P: '#60a5fa',
+};
+const markBeat = (annotation: ExportAnnotation) =>
+  annotation.text === 'N' ? null : BEAT_MARK_COLORS[annotation.text] ?? '#e5e7eb';
+
+type LongTraceViewProps = {
+  params: EcgParams;
+  seed: number;
+  filter: EcgFilterSettings;
+};
+
+/**
+ * 긴 기록 화면: 수 분 길이의 고해상도 ECG를 Web Worker에서 생성해 캔버스에 그립니다.
+ * 미니맵에 이소성 박동과 차단된 P파를 표시해 간헐적인 사건을 찾아갈 수 있습니다.
+ */
+export default function LongTraceView({ params, seed, filter }: LongTraceViewProps) {
+  const [twelveLead, setTwelveLead] = useState(false);
+
+  const buildRequest = useCallback((duration: number, samplingRate: number): SignalRequest => ({
+    modality: 'ecg', params, duration, samplingRate, seed, twelveLead, filter,
+  }), [params, seed, twelveLead, filter]);
+
+  return (
+    <div className="mb-6">
+      <LongRecording
+        buildRequest={buildRequest}
+        channels={twelveLead ? TWELVE_LEAD_CHANNELS : SINGLE_LEAD_CHANNELS}
+        durations={TRACE_DURATIONS}
+        samplingRates={TRACE_SAMPLING_RATES}
+        defaultDuration={60}
+        defaultSamplingRate={250}
+        background="#111827"
+        grid={TRACE_GRID}
+        markAnnotation={markBeat}
+        controls={(
+          <>
+            <span className="ml-2 font-semibold text-gray-700">유도</span>
+            <button
+              onClick={() => setTwelveLead(false)}
+              className={`px-2 py-1 rounded font-bold ${!twelveLead ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+            >
+              II
+            </button>
+            <button
+              onClick={() => setTwelveLead(true)}
+              className={`px-2 py-1 rounded font-bold ${twelveLead ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+            >
+              12유도
+            </button>
+          </>
+        )}
+      />
+    </div>
+  );
+}
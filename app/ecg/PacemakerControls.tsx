@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import { Pacemaker, PacerFault, PacingMode, pacemakerSettings } from '@/lib/ecg/model';
+import { PACER_FAULTS, PACER_FAULT_LABELS, PACING_MODES, PACING_MODE_LABELS, pacesChamber } from '@/lib/ecg/pacemaker';
+
+type PacemakerControlsProps = {
+  pacemaker?: Pacemaker;
+  onChange: (pacemaker: Pacemaker | undefined) => void;
+};
+
+/**
+ * 심박조율기 모드, 하한 박동수, 방실 지연, 감지 역치, 오작동 선택
+ * 모드에서 쓰지 않는 방의 설정은 비활성화합니다.
+ */
+export default function PacemakerControls({ pacemaker, onChange }: PacemakerControlsProps) {
+  const update = (settings: Partial<Pacemaker>) => {
+    if (pacemaker) onChange({ ...pacemaker, ...settings });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+      <div className="grid grid-cols-2 gap-2 sm:col-span-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">모드 (Mode)</label>
+          <select
+            value={pacemaker?.mode ?? ''}
+            onChange={(e) => onChange(e.target.value
+              ? pacemakerSettings({ ...pacemaker, mode: e.target.value as PacingMode })
+              : undefined)}
+            className="w-full p-1 border rounded text-xs"
+          >
+            <option value="">없음</option>
+            {PACING_MODES.map(mode => <option key={mode} value={mode}>{PACING_MODE_LABELS[mode]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">오작동 (Malfunction)</label>
+          <select
+            value={pacemaker?.fault ?? 'none'}
+            disabled={!pacemaker}
+            onChange={(e) => update({ fault: e.target.value as PacerFault })}
+            className="w-full p-1 border rounded text-xs disabled:opacity-40"
+          >
+            {PACER_FAULTS.map(fault => <option key={fault} value={fault}>{PACER_FAULT_LABELS[fault]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">하한 박동수 (Lower Rate): {pacemaker?.lowerRate ?? '-'} BPM</label>
+        <input
+          type="range" min="30" max="120" step="5"
+          value={pacemaker?.lowerRate ?? 60}
+          disabled={!pacemaker}
+          onChange={(e) => update({ lowerRate: Number(e.target.value) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">방실 지연 (AV Delay): {pacemaker ? `${pacemaker.avDelay.toFixed(2)} s` : '-'}</label>
+        <input
+          type="range" min="0.1" max="0.3" step="0.01"
+          value={pacemaker?.avDelay ?? 0.16}
+          disabled={pacemaker?.mode !== 'DDD'}
+          onChange={(e) => update({ avDelay: Number(e.target.value) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">심방 감지 역치 (A Sense): {pacemaker ? `${pacemaker.atrialSensitivity} mV` : '-'}</label>
+        <input
+          type="range" min="0.25" max="5" step="0.25"
+          value={pacemaker?.atrialSensitivity ?? 0.5}
+          disabled={!pacemaker || !pacesChamber(pacemaker.mode, 'A')}
+          onChange={(e) => update({ atrialSensitivity: Number(e.target.value) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">심실 감지 역치 (V Sense): {pacemaker ? `${pacemaker.ventricularSensitivity} mV` : '-'}</label>
+        <input
+          type="range" min="1" max="15" step="0.5"
+          value={pacemaker?.ventricularSensitivity ?? 2.5}
+          disabled={!pacemaker || !pacesChamber(pacemaker.mode, 'V')}
+          onChange={(e) => update({ ventricularSensitivity: Number(e.target.value) })}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+        />
+      </div>
+    </div>
+  );
+}
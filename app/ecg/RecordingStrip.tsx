@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer } from 'recharts';
+import { EcgPoint } from '@/lib/ecg/model';
+import { analyzeEcg } from './analysis';
+import { PaperGain, PaperSpeed, calibrationPulse, paperStyle, timeDomain, voltageDomain } from './paper';
+import EcgPaper from './EcgPaper';
+
+type RecordingStripProps = {
+  data: EcgPoint[];
+  label: string;   // 기록 이름 · 유도
+  speed: PaperSpeed;
+  gain: PaperGain;
+};
+
+export const RECORDING_COLOR = '#22d3ee';
+
+/**
+ * 불러온 실제 기록을 합성 파형과 같은 기록지 눈금으로 보여주는 스트립
+ * 합성 파형 아래에 나란히 놓고 칸을 세어 비교할 수 있습니다.
+ */
+export default function RecordingStrip({ data, label, speed, gain }: RecordingStripProps) {
+  const { measurements } = useMemo(() => analyzeEcg(data), [data]);
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 mb-6 relative border border-gray-700">
+      <div className="relative w-full" style={paperStyle}>
+        <EcgPaper />
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
+            <XAxis dataKey="time" type="number" domain={timeDomain(speed)} allowDataOverflow hide />
+            <YAxis domain={voltageDomain(gain)} allowDataOverflow hide />
+            <Line type="linear" dataKey="voltage" stroke={RECORDING_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line
+              data={calibrationPulse(speed)}
+              type="linear"
+              dataKey="voltage"
+              stroke={RECORDING_COLOR}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="absolute top-4 left-1/4 text-xs font-mono font-bold pointer-events-none" style={{ color: RECORDING_COLOR }}>
+        {label}
+      </div>
+      <div className="absolute top-4 right-4 font-mono text-sm flex flex-col items-end pointer-events-none" style={{ color: RECORDING_COLOR }}>
+        <span className="text-lg font-bold">HR: {measurements.heartRate !== null ? Math.round(measurements.heartRate) : '---'} BPM</span>
+        <span>QRS: {measurements.qrs !== null ? Math.round(measurements.qrs * 1000) : '---'} ms</span>
+      </div>
+    </div>
+  );
+}
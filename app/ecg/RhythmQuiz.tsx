@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer } from 'recharts';
+import { CheckCircle2, XCircle, ArrowRight, RotateCcw, Trophy } from 'lucide-react';
+import { EcgPoint, PRESETS, PresetKey } from '@/lib/ecg/model';
+import { createEcgStream, readEcgSamples } from '@/lib/ecg/stream';
+import { DEFAULT_GAIN, DEFAULT_SPEED, calibrationPulse, paperStyle, timeDomain, voltageDomain } from './paper';
+import {
+  QUIZ_KEYS, QUIZ_ROW_DURATION, QUIZ_SAMPLING_RATE, QUIZ_STRIP_ROWS, QuizQuestion, QuizStats,
+  createQuizQuestion, loadQuizStats, quizWeight, recordQuizAnswer, saveQuizStats,
+} from './quiz';
+import { createRandom } from '@/lib/random';
+import EcgPaper from './EcgPaper';
+
+// 리듬별 정답률 문자열 (아직 풀지 않은 리듬은 -)
+const accuracyText = (stats: QuizStats, key: PresetKey) => {
+  const record = stats[key];
+  if (!record || record.attempts === 0) return '-';
+  return `${Math.round((record.correct / record.attempts) * 100)}% (${record.correct}/${record.attempts})`;
+};
+
+/**
+ * 리듬 판독 퀴즈
+ * 프리셋 이름을 숨긴 채 변형된 파형을 보여주고 리듬을 고르게 합니다.
+ * 리듬별 정답률은 브라우저(localStorage)에 저장되고, 자주 틀리는 리듬이 더 자주 출제됩니다.
+ */
+export default function RhythmQuiz() {
+  const [stats, setStats] = useState<QuizStats>({});
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [answer, setAnswer] = useState<PresetKey | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  // 저장된 성적을 불러와 첫 문제 출제 (localStorage는 브라우저에서만 읽을 수 있음)
+  useEffect(() => {
+    const startQuiz = () => {
+      const loaded = loadQuizStats();
+      setStats(loaded);
+      setQuestion(createQuizQuestion(loaded));
+    };
+
+    startQuiz();
+  }, []);
+
+  // 문제 파형: 기록지 한 줄 길이씩 나눠 여러 줄로 표시
+  const rows = useMemo(() => {
+    if (!question) return [];
+    const rowDuration = QUIZ_ROW_DURATION;
+    const stream = createEcgStream(QUIZ_SAMPLING_RATE, question.params, createRandom(question.seed));
+    const samples = readEcgSamples(stream, question.params, QUIZ_STRIP_ROWS * rowDuration * QUIZ_SAMPLING_RATE);
+    return Array.from({ length: QUIZ_STRIP_ROWS }, (_, row): EcgPoint[] =>
+      samples
+        .filter(p => p.time >= row * rowDuration && p.time < (row + 1) * rowDuration)
+        .map(p => ({ time: p.time - row * rowDuration, voltage: p.voltage })));
+  }, [question]);
+
+  const handleAnswer = (key: PresetKey) => {
+    if (!question || answer) return;
+    const correct = key === question.key;
+    const nextStats = recordQuizAnswer(stats, question.key, correct);
+    setAnswer(key);
+    setStats(nextStats);
+    saveQuizStats(nextStats);
+    setScore(prev => ({ correct: prev.correct + (correct ? 1 : 0), total: prev.total + 1 }));
+  };
+
+  const handleNext = () => {
+    setQuestion(createQuizQuestion(stats, question?.key));
+    setAnswer(null);
+  };
+
+  const handleResetStats = () => {
+    setStats({});
+    saveQuizStats({});
+    setScore({ correct: 0, total: 0 });
+  };
+
+  const weakest = [...QUIZ_KEYS].sort((a, b) => quizWeight(stats[b]) - quizWeight(stats[a]));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-gray-700">이 리듬은 무엇일까요? (Lead II, 25 mm/s · 10 mm/mV)</span>
+        <span className="font-mono font-bold text-gray-700 flex items-center gap-1">
+          <Trophy className="w-4 h-4 text-amber-500" />
+          {score.correct} / {score.total}
+        </span>
+      </div>
+
+      {/* 문제 파형 */}
+      <div className="bg-gray-900 rounded-lg p-4 border border-gray-700 space-y-2">
+        {rows.map((row, i) => (
+          <div key={i} className="relative w-full" style={paperStyle}>
+            <EcgPaper />
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={row} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
+                <XAxis dataKey="time" type="number" domain={timeDomain(DEFAULT_SPEED)} allowDataOverflow hide />
+                <YAxis domain={voltageDomain(DEFAULT_GAIN)} allowDataOverflow hide />
+                <Line type="monotone" dataKey="voltage" stroke="#00ff00" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line
+                  data={calibrationPulse(DEFAULT_SPEED)}
+                  type="linear"
+                  dataKey="voltage"
+                  stroke="#00ff00"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </div>
+
+      {/* 보기 */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {QUIZ_KEYS.map(key => {
+          const isAnswer = answer !== null && key === question?.key;
+          const isWrongPick = answer === key && key !== question?.key;
+          return (
+            <button
+              key={key}
+              onClick={() => handleAnswer(key)}
+              disabled={answer !== null}
+              className={`text-left p-2 rounded-lg text-xs font-bold border transition-all ${
+                isAnswer
+                  ? 'bg-green-50 border-green-500 text-green-800 ring-1 ring-green-500'
+                  : isWrongPick
+                    ? 'bg-red-50 border-red-500 text-red-800 ring-1 ring-red-500'
+                    : 'bg-gray-50 border-gray-200 text-gray-800 hover:bg-gray-100 disabled:hover:bg-gray-50'
+              }`}
+            >
+              {PRESETS[key].label}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* 정답 해설 */}
+      {question && answer && (
+        <div className={`p-3 rounded-lg border text-sm flex items-start gap-3 ${answer === question.key ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+          {answer === question.key
+            ? <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+            : <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />}
+          <div className="flex-1">
+            <div className="font-bold text-gray-800">
+              {answer === question.key ? '정답입니다!' : '오답입니다.'} 정답: {PRESETS[question.key].label}
+            </div>
+            <div className="text-gray-600 mt-1">{PRESETS[question.key].description}</div>
+            <div className="text-xs text-gray-400 mt-1 font-mono">
+              심박수 설정 {question.params.bpm} BPM · 시드 {question.seed}
+            </div>
+          </div>
+          <button
+            onClick={handleNext}
+            className="px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-1 bg-blue-600 text-white self-center"
+          >
+            다음 문제
+            <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* 리듬별 누적 정답률 */}
+      <div className="p-3 border rounded-lg bg-gray-50 text-xs">
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-semibold text-gray-700">리듬별 정답률 (약한 리듬부터, 더 자주 출제됨)</span>
+          <button onClick={handleResetStats} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+            <RotateCcw className="w-3 h-3" />
+            기록 초기화
+          </button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+          {weakest.map(key => (
+            <div key={key} className="flex justify-between gap-2">
+              <span className="text-gray-600 truncate">{PRESETS[key].label}</span>
+              <span className="font-mono text-gray-800 flex-shrink-0">{accuracyText(stats, key)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { LeadName, TwelveLeadPoint } from '@/lib/ecg/leads';
+
+// 표준 3×4 배열: 각 행은 2.5초씩 네 개의 유도를 이어서 표시
+const LAYOUT: LeadName[][] = [
+  ['I', 'aVR', 'V1', 'V4'],
+  ['II', 'aVL', 'V2', 'V5'],
+  ['III', 'aVF', 'V3', 'V6'],
+];
+
+const COLUMN_KEYS = ['c0', 'c1', 'c2', 'c3'] as const;
+
+type RowPoint = {
+  time: number;
+  c0: number | null;
+  c1: number | null;
+  c2: number | null;
+  c3: number | null;
+};
+
+type TwelveLeadViewProps = {
+  data: TwelveLeadPoint[];
+  duration: number; // 전체 기록 길이 (초, 보통 10초)
+};
+
+/**
+ * 12유도 심전도 화면 (3×4 배열 + II 유도 리듬 스트립)
+ * 각 행은 하나의 차트로 그리고, 열마다 해당 구간에서만 값을 갖는 별도 시리즈로 나눕니다.
+ */
+export default function TwelveLeadView({ data, duration }: TwelveLeadViewProps) {
+  const columnSeconds = duration / COLUMN_KEYS.length;
+
+  const rows = useMemo(() => LAYOUT.map(leads =>
+    data.map(point => {
+      const column = Math.min(Math.floor(point.time / columnSeconds), COLUMN_KEYS.length - 1);
+      const row: RowPoint = { time: point.time, c0: null, c1: null, c2: null, c3: null };
+      row[COLUMN_KEYS[column]] = point[leads[column]];
+      return row;
+    })
+  ), [data, columnSeconds]);
+
+  const boundaries = [1, 2, 3].map(i => i * columnSeconds);
+
+  return (
+    <div className="space-y-1">
+      {LAYOUT.map((leads, rowIndex) => (
+        <div key={leads.join('-')} className="relative h-24">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows[rowIndex]} margin={{ top: 4, right: 0, left: 0, bottom: 4 }}>
+              <XAxis dataKey="time" type="number" domain={[0, duration]} hide />
+              <YAxis domain={[-1.8, 2.2]} hide />
+              {boundaries.map(x => (
+                <ReferenceLine key={x} x={x} stroke="#4b5563" strokeDasharray="2 4" />
+              ))}
+              {COLUMN_KEYS.map(key => (
+                <Line key={key} type="monotone" dataKey={key} stroke="#00ff00" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+          {leads.map((lead, column) => (
+            <span
+              key={lead}
+              className="absolute top-1 text-xs font-mono font-bold text-green-300 pointer-events-none"
+              style={{ left: `calc(${column * 25}% + 4px)` }}
+            >
+              {lead}
+            </span>
+          ))}
+        </div>
+      ))}
+
+      {/* 리듬 스트립: II 유도 전체 구간 */}
+      <div className="relative h-24 border-t border-gray-700 pt-1">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 4, right: 0, left: 0, bottom: 4 }}>
+            <XAxis dataKey="time" type="number" domain={[0, duration]} hide />
+            <YAxis domain={[-1.8, 2.2]} hide />
+            <Line type="monotone" dataKey="II" stroke="#00ff00" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+        <span className="absolute top-2 left-1 text-xs font-mono font-bold text-green-300 pointer-events-none">II (Rhythm)</span>
+      </div>
+    </div>
+  );
+}
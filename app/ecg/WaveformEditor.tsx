@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { DEFAULT_WAVE_SHAPE, ECG_PARAMS_SCHEMA, EcgParams, waveShape } from '@/lib/ecg/model';
+import { LEAD_VECTORS, NORMAL_AXIS, Vector3, beatGeometry, dot } from '@/lib/ecg/leads';
+import { DEFAULT_PR_INTERVAL } from '@/lib/ecg/rhythm';
+import { beatTemplate, stCenter } from '@/lib/ecg/stream';
+import { ParamField } from '@/lib/paramSchema';
+
+type WaveformEditorProps = {
+  params: EcgParams;
+  onChange: (changes: Partial<EcgParams>) => void;
+};
+
+type WaveKey = 'P' | 'Q' | 'R' | 'S' | 'ST' | 'T' | 'U';
+type HandleKind = 'peak' | 'width';
+
+/**
+ * 편집 가능한 파형 하나 (화면 좌표는 R파 기준 시간과 II 유도 전압)
+ * set*는 끌어 놓은 위치를 파라미터 변경으로 바꿉니다. 없으면 그 방향으로는 움직이지 않음
+ */
+type EditableWave = {
+  key: WaveKey;
+  color: string;
+  center: number;  // 초
+  amp: number;     // mV (II 유도에서 보이는 크기)
+  width?: number;  // 초 (표준편차)
+  setCenter?: (time: number) => Partial<EcgParams>;
+  setAmp: (voltage: number) => Partial<EcgParams>;
+  setWidth?: (width: number) => Partial<EcgParams>;
+};
+
+// 보이는 범위: 가장 긴 PR 간격의 P파부터 U파까지
+const TIME_MIN = -0.5;
+const TIME_MAX = 0.8;
+const VOLTAGE_MIN = -1.5;
+const VOLTAGE_MAX = 2.5;
+const VIEW_WIDTH = 650;
+const VIEW_HEIGHT = 200;
+const CURVE_SAMPLES = 260;
+const HANDLE_RADIUS = 6;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+// 공유 링크나 프리셋 파일에서 거부되지 않도록 편집 결과를 파라미터 스키마의 범위 안으로 제한
+const clampToSchema = (value: number, field: ParamField) =>
+  field.type === 'number' ? clamp(value, field.min ?? -Infinity, field.max ?? Infinity) : value;
+
+const toX = (time: number) => ((time - TIME_MIN) / (TIME_MAX - TIME_MIN)) * VIEW_WIDTH;
+const toY = (voltage: number) => ((VOLTAGE_MAX - voltage) / (VOLTAGE_MAX - VOLTAGE_MIN)) * VIEW_HEIGHT;
+
+const range = (from: number, to: number, step: number) =>
+  Array.from({ length: Math.floor((to - from) / step + 1e-9) + 1 }, (_, i) => round(from + i * step, 3));
+
+/**
+ * 현재 파라미터에서 편집할 파형들의 위치를 계산합니다.
+ * 파형 성분은 3차원 벡터 방향으로 더해지므로, II 유도에 투영된 비율(gain)로 나눠 파라미터 진폭을 구합니다.
+ * @param {EcgParams} params - ECG 파라미터
+ */
+const editableWaves = (params: EcgParams): EditableWave[] => {
+  const geometry = beatGeometry(params.conduction ?? 'normal', params.axis ?? NORMAL_AXIS, params.stTerritory);
+  const shape = waveShape(params);
+  const mult = (params.qrsWidthScale || 1) * geometry.widthScale;
+  const pr = params.prInterval ?? DEFAULT_PR_INTERVAL;
+  const tCenter = shape.tOffset + 0.04 * (mult - 1);
+
+  const gain = (dir: Vector3) => dot(dir, LEAD_VECTORS.II);
+  // 화면 전압 → 파라미터 진폭 (II 유도에 거의 안 보이는 성분은 그대로 둠)
+  // gain이 작으면 조금만 끌어도 진폭이 커지므로 스키마 범위로 자름
+  const amplitude = (dir: Vector3, voltage: number, current: number, field: ParamField) =>
+    Math.abs(gain(dir)) < 0.05 ? current : round(clampToSchema(clamp(voltage, VOLTAGE_MIN, VOLTAGE_MAX) / gain(dir), field), 3);
+
+  return [
+    {
+      key: 'P', color: '#2563eb', center: -pr, amp: params.pAmp * gain(geometry.p), width: params.pWidth,
+      setCenter: time => ({ prInterval: round(clamp(-time, 0.08, 0.4), 3) }),
+      setAmp: voltage => ({ pAmp: amplitude(geometry.p, voltage, params.pAmp, ECG_PARAMS_SCHEMA.pAmp) }),
+      setWidth: width => ({ pWidth: round(clamp(width, 0.01, 0.1), 3) }),
+    },
+    {
+      key: 'Q', color: '#7c3aed', center: shape.qOffset * mult, amp: params.qAmp * gain(geometry.q), width: shape.qWidth * mult,
+      setCenter: time => ({ qOffset: round(clamp(time / mult, -0.12, -0.01), 3) }),
+      setAmp: voltage => ({ qAmp: amplitude(geometry.q, voltage, params.qAmp, ECG_PARAMS_SCHEMA.qAmp) }),
+      setWidth: width => ({ qWidth: round(clamp(width / mult, 0.005, 0.06), 3) }),
+    },
+    {
+      key: 'R', color: '#dc2626', center: 0, amp: params.rAmp * gain(geometry.r), width: shape.rWidth * mult,
+      setAmp: voltage => ({ rAmp: amplitude(geometry.r, voltage, params.rAmp, ECG_PARAMS_SCHEMA.rAmp) }),
+      setWidth: width => ({ rWidth: round(clamp(width / mult, 0.005, 0.08), 3) }),
+    },
+    {
+      key: 'S', color: '#7c3aed', center: shape.sOffset * mult, amp: params.sAmp * gain(geometry.s), width: shape.sWidth * mult,
+      setCenter: time => ({ sOffset: round(clamp(time / mult, 0.01, 0.12), 3) }),
+      setAmp: voltage => ({ sAmp: amplitude(geometry.s, voltage, params.sAmp, ECG_PARAMS_SCHEMA.sAmp) }),
+      setWidth: width => ({ sWidth: round(clamp(width / mult, 0.005, 0.08), 3) }),
+    },
+    {
+      key: 'ST', color: '#ea580c', center: stCenter(shape), amp: params.stElevation * gain(geometry.st),
+      setAmp: voltage => ({ stElevation: amplitude(geometry.st, voltage, params.stElevation, ECG_PARAMS_SCHEMA.stElevation) }),
+    },
+    {
+      key: 'T', color: '#059669', center: tCenter, amp: params.tAmp * gain(geometry.t), width: params.tWidth,
+      setCenter: time => ({ tOffset: round(clamp(time - 0.04 * (mult - 1), 0.15, 0.5), 3) }),
+      setAmp: voltage => ({ tAmp: amplitude(geometry.t, voltage, params.tAmp, ECG_PARAMS_SCHEMA.tAmp) }),
+      setWidth: width => ({ tWidth: round(clamp(width, 0.02, 0.2), 3) }),
+    },
+    {
+      key: 'U', color: '#0891b2', center: tCenter + shape.uOffset, amp: params.uAmp * gain(geometry.t), width: shape.uWidth,
+      setCenter: time => ({ uOffset: round(clamp(time - tCenter, 0.1, 0.4), 3) }),
+      setAmp: voltage => ({ uAmp: amplitude(geometry.t, voltage, params.uAmp, ECG_PARAMS_SCHEMA.uAmp) }),
+      setWidth: width => ({ uWidth: round(clamp(width, 0.02, 0.15), 3) }),
+    },
+  ];
+};
+
+/**
+ * 한 박동을 크게 보여 주고 파형마다 손잡이를 끌어 모양을 바꾸는 편집기
+ * 동그라미는 중심(좌우)과 진폭(위아래), 네모는 폭을 바꿉니다. 변경은 바로 리듬 스트립에 반영됩니다.
+ */
+export default function WaveformEditor({ params, onChange }: WaveformEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<{ wave: WaveKey; kind: HandleKind } | null>(null);
+  const [selected, setSelected] = useState<WaveKey>('R');
+
+  const waves = useMemo(() => editableWaves(params), [params]);
+  const curve = useMemo(() => {
+    const times = Array.from({ length: CURVE_SAMPLES }, (_, i) => TIME_MIN + ((TIME_MAX - TIME_MIN) * i) / (CURVE_SAMPLES - 1));
+    const values = beatTemplate(params, times);
+    return times.map((t, i) => `${i === 0 ? 'M' : 'L'}${toX(t).toFixed(1)},${toY(clamp(values[i], VOLTAGE_MIN, VOLTAGE_MAX)).toFixed(1)}`).join(' ');
+  }, [params]);
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const wave = drag && waves.find(w => w.key === drag.wave);
+    if (!svg || !drag || !wave) return;
+    const rect = svg.getBoundingClientRect();
+    const time = TIME_MIN + ((e.clientX - rect.left) / rect.width) * (TIME_MAX - TIME_MIN);
+    const voltage = VOLTAGE_MAX - ((e.clientY - rect.top) / rect.height) * (VOLTAGE_MAX - VOLTAGE_MIN);
+
+    if (drag.kind === 'width') {
+      if (wave.setWidth) onChange(wave.setWidth(Math.abs(time - wave.center)));
+    } else {
+      onChange({ ...wave.setAmp(voltage), ...wave.setCenter?.(time) });
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent, wave: WaveKey, kind: HandleKind) => {
+    e.preventDefault();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ wave, kind });
+    setSelected(wave);
+  };
+
+  const current = waves.find(w => w.key === selected);
+
+  return (
+    <div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        className="w-full h-auto bg-white border rounded touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDrag(null)}
+        onPointerCancel={() => setDrag(null)}
+      >
+        {/* 기록지 모눈: 0.04초 / 0.1mV 작은 칸, 0.2초 / 0.5mV 큰 칸 */}
+        {range(-0.48, TIME_MAX, 0.04).map(t => (
+          <line key={`t${t}`} x1={toX(t)} y1={0} x2={toX(t)} y2={VIEW_HEIGHT} stroke="#f87171" strokeOpacity={Math.round(t * 100) % 20 === 0 ? 0.4 : 0.12} />
+        ))}
+        {range(VOLTAGE_MIN, VOLTAGE_MAX, 0.1).map(v => (
+          <line key={`v${v}`} x1={0} y1={toY(v)} x2={VIEW_WIDTH} y2={toY(v)} stroke="#f87171" strokeOpacity={Math.round(v * 10) % 5 === 0 ? 0.4 : 0.12} />
+        ))}
+        <line x1={0} y1={toY(0)} x2={VIEW_WIDTH} y2={toY(0)} stroke="#9ca3af" strokeDasharray="4 3" />
+
+        <path d={curve} fill="none" stroke="#111827" strokeWidth={2} />
+
+        {waves.map(wave => {
+          const x = toX(wave.center);
+          const y = toY(clamp(wave.amp, VOLTAGE_MIN, VOLTAGE_MAX));
+          const widthY = toY(clamp(wave.amp * 0.61, VOLTAGE_MIN, VOLTAGE_MAX));
+          const active = wave.key === selected;
+          return (
+            <g key={wave.key}>
+              {wave.width !== undefined && (
+                <>
+                  {/* 폭 손잡이: 중심에서 표준편차만큼 떨어진 곳 (진폭의 약 60% 높이) */}
+                  <line x1={x} y1={widthY} x2={toX(wave.center + wave.width)} y2={widthY} stroke={wave.color} strokeOpacity={0.5} />
+                  <rect
+                    x={toX(wave.center + wave.width) - 4} y={widthY - 4} width={8} height={8}
+                    fill="white" stroke={wave.color} strokeWidth={2}
+                    className="cursor-ew-resize"
+                    onPointerDown={(e) => startDrag(e, wave.key, 'width')}
+                  />
+                </>
+              )}
+              <circle
+                cx={x} cy={y} r={active ? HANDLE_RADIUS + 1 : HANDLE_RADIUS}
+                fill={active ? wave.color : 'white'} stroke={wave.color} strokeWidth={2}
+                className={wave.setCenter ? 'cursor-move' : 'cursor-ns-resize'}
+                onPointerDown={(e) => startDrag(e, wave.key, 'peak')}
+              />
+              <text x={x} y={wave.amp >= 0 ? y - 10 : y + 18} textAnchor="middle" fontSize={11} fontWeight="bold" fill={wave.color}>
+                {wave.key}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-1 text-xs text-gray-600">
+        {current && (
+          <span className="font-mono">
+            {current.key}: 중심 {current.center >= 0 ? '+' : ''}{current.center.toFixed(3)} s · 진폭 {current.amp.toFixed(2)} mV
+            {current.width !== undefined && ` · 폭 ${current.width.toFixed(3)} s`}
+          </span>
+        )}
+        <button
+          onClick={() => onChange({ ...DEFAULT_WAVE_SHAPE })}
+          className="px-2 py-0.5 rounded bg-white text-gray-600 border hover:bg-gray-50"
+        >
+          위치·폭 초기화
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { RhythmEvent } from '@/lib/ecg/rhythm';
+import { EcgStream } from '@/lib/ecg/stream';
+import { AlarmCheck } from '@/lib/alarms';
+
+/**
+ * ECG 모니터 알람 조건
+ * 실제 모니터처럼 치명적 부정맥(무수축, 심실 세동, 심실 빈맥)이 있으면
+ * 심박수 상/하한 알람은 띄우지 않고, 전극이 떨어진 동안에는 리듬 알람 대신 기술 알람만 띄웁니다.
+ */
+
+// 알람 판정에 필요한 스트림의 스냅샷 (이벤트 배열은 복사해 둠)
+export type EcgAlarmInput = {
+  events: RhythmEvent[];
+  now: number;       // 초
+  fibLevel: number;  // 심실 세동파 세기 (0~1)
+  leadOff: boolean;  // 전극이 떨어져 신호가 끊긴 상태
+};
+
+export type EcgAlarmLimits = {
+  hrLow: number;   // BPM
+  hrHigh: number;  // BPM
+};
+
+export const DEFAULT_ECG_ALARM_LIMITS: EcgAlarmLimits = { hrLow: 50, hrHigh: 120 };
+
+const ASYSTOLE_SECONDS = 4;   // 이 시간 동안 QRS가 없으면 무수축
+const MIN_ALARM_SECONDS = 2;  // 판정에 필요한 최소 기록 길이
+const VT_RUN = 3;             // 심실성 박동이 이만큼 연속되면 심실 빈맥
+const VT_MIN_RATE = 100;      // BPM
+const HR_BEATS = 8;           // 심박수 계산에 쓰는 최근 박동 수
+const VF_LEVEL = 0.5;
+
+/**
+ * 스트림에서 알람 판정용 스냅샷을 만듦
+ * @param {EcgStream} stream - ECG 스트림
+ */
+export const ecgAlarmInput = (stream: EcgStream): EcgAlarmInput => ({
+  events: stream.events.slice(),
+  now: stream.sampleIndex / stream.samplingRate,
+  fibLevel: stream.fibLevel,
+  leadOff: stream.sampleIndex / stream.samplingRate < stream.artifacts.leadOffUntil,
+});
+
+/**
+ * ECG 알람 조건 계산
+ * @param {EcgAlarmInput | null} input - 스트림 스냅샷 (아직 없으면 null)
+ * @param {EcgAlarmLimits} limits - 심박수 한계값
+ */
+export const evaluateEcgAlarms = (input: EcgAlarmInput | null, limits: EcgAlarmLimits): AlarmCheck[] => {
+  const leadOff = input?.leadOff ?? false;
+  const ready = input !== null && input.now >= MIN_ALARM_SECONDS && !leadOff;
+  const now = input?.now ?? 0;
+  // 이미 그려진 QRS만 사용 (리듬 엔진은 조금 앞의 박동까지 미리 예약함)
+  const qrs = (input?.events ?? []).filter(e => e.wave === 'QRS' && !e.blocked && e.time <= now);
+
+  const vf = ready && input.fibLevel >= VF_LEVEL;
+  const window = Math.min(ASYSTOLE_SECONDS, now);
+  const asystole = ready && !vf && !qrs.some(e => e.time > now - window);
+
+  const run = qrs.slice(-VT_RUN);
+  const runRate = run.length === VT_RUN ? (60 * (VT_RUN - 1)) / (run[VT_RUN - 1].time - run[0].time) : 0;
+  const vt = ready && !vf && !asystole && run.length === VT_RUN && run.every(e => e.beatType === 'V') && runRate > VT_MIN_RATE;
+
+  const recent = qrs.slice(-HR_BEATS);
+  const heartRate = recent.length >= 2 ? Math.round((60 * (recent.length - 1)) / (recent[recent.length - 1].time - recent[0].time)) : null;
+  const lethal = vf || asystole || vt;
+  const rateReady = ready && !lethal && heartRate !== null;
+
+  return [
+    { id: 'LEADS_OFF', label: '전극 떨어짐 (LEADS OFF)', priority: 'low', active: leadOff },
+    { id: 'ASYSTOLE', label: '무수축 (ASYSTOLE)', priority: 'high', active: asystole },
+    { id: 'VFIB', label: '심실 세동 (VFIB)', priority: 'high', active: vf },
+    { id: 'VTACH', label: '심실 빈맥 (VTACH)', priority: 'high', active: vt, detail: vt ? `${Math.round(runRate)} BPM` : undefined },
+    {
+      id: 'HR_LOW',
+      label: '서맥 (HR LOW)',
+      priority: 'medium',
+      active: rateReady && heartRate < limits.hrLow,
+      detail: heartRate !== null ? `HR ${heartRate} < ${limits.hrLow}` : undefined,
+    },
+    {
+      id: 'HR_HIGH',
+      label: '빈맥 (HR HIGH)',
+      priority: 'medium',
+      active: rateReady && heartRate > limits.hrHigh,
+      detail: heartRate !== null ? `HR ${heartRate} > ${limits.hrHigh}` : undefined,
+    },
+  ];
+};
@@ -0,0 +1,291 @@
+import { EcgPoint } from '@/lib/ecg/model';
+
+/**
+ * 한 박동에서 찾은 기준점 (Fiducial Points, 초 단위 시각)
+ * 찾지 못한 파형(P파 없는 심방세동, 평탄한 T파 등)은 null
+ */
+export type BeatFiducials = {
+  rPeak: number;
+  qrsOnset: number;
+  qrsOffset: number;   // J점
+  pOnset: number | null;
+  tPeak: number | null;
+  tEnd: number | null;
+};
+
+export type FiducialKind = 'P_ON' | 'QRS_ON' | 'R' | 'J' | 'T_END';
+
+// 차트에 찍을 기준점 (시각과 그 시점의 전압)
+export type FiducialPoint = {
+  kind: FiducialKind;
+  time: number;
+  voltage: number;
+};
+
+/**
+ * 측정값 (초 단위, 심박수는 BPM)
+ * 구간 측정은 박동별 값의 중앙값을 사용하여 이소성 박동 하나에 흔들리지 않게 합니다.
+ */
+export type IntervalMeasurements = {
+  heartRate: number | null;
+  rr: number | null;
+  pr: number | null;
+  qrs: number | null;
+  qt: number | null;
+  qtcBazett: number | null;      // QT / √RR
+  qtcFridericia: number | null;  // QT / ∛RR
+};
+
+export type EcgAnalysis = {
+  beats: BeatFiducials[];
+  fiducials: FiducialPoint[];
+  measurements: IntervalMeasurements;
+};
+
+const EMPTY_MEASUREMENTS: IntervalMeasurements = {
+  heartRate: null, rr: null, pr: null, qrs: null, qt: null, qtcBazett: null, qtcFridericia: null,
+};
+
+// 검출 설정 (초 / mV 단위)
+const INTEGRATION_WINDOW = 0.15;  // QRS 에너지 적분 창 (Pan-Tompkins)
+const R_REFRACTORY = 0.2;         // R파 검출 후 다음 검출까지의 최소 간격
+const QRS_SEARCH = 0.2;           // R파 기준 QRS 시작/끝을 찾는 최대 범위
+const MIN_QRS_SLOPE = 5;          // 이보다 완만하면 QRS로 보지 않음 (mV/s)
+const MIN_WAVE_AMP = 0.05;        // P파, T파로 인정할 최소 진폭 (mV)
+const PACE_PULSE_AMP = 0.5;       // 한 샘플만 이만큼 튀면 조율 스파이크로 보고 제거 (mV)
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * 등전위선(기저선) 추정: 가장 많은 샘플이 모여 있는 전압 구간의 중앙값
+ * P-QRS-T 사이의 평평한 구간이 가장 자주 나타나는 값이라는 점을 이용합니다.
+ */
+const isoelectricLevel = (x: number[]): number => {
+  const BIN = 0.02; // mV
+  const counts = new Map<number, number>();
+  x.forEach(v => {
+    const bin = Math.round(v / BIN);
+    counts.set(bin, (counts.get(bin) ?? 0) + 1);
+  });
+  let modeBin = 0;
+  let modeCount = -1;
+  counts.forEach((count, bin) => {
+    if (count > modeCount) {
+      modeBin = bin;
+      modeCount = count;
+    }
+  });
+  return median(x.filter(v => Math.abs(v - modeBin * BIN) <= BIN));
+};
+
+const medianOrNull = (values: number[]): number | null => (values.length > 0 ? median(values) : null);
+
+// 구간 [from, to]에서 score가 가장 큰 인덱스
+const argMax = (from: number, to: number, score: (i: number) => number): number => {
+  let best = from;
+  for (let i = from + 1; i <= to; i++) {
+    if (score(i) > score(best)) best = i;
+  }
+  return best;
+};
+
+/**
+ * II 유도 파형에서 R파, 각 파형의 시작/끝을 찾고 구간을 측정합니다.
+ * 시간 간격이 일정한 샘플이라고 가정합니다.
+ * @param {EcgPoint[]} points - 분석할 파형 (시간 순)
+ */
+export const analyzeEcg = (points: EcgPoint[]): EcgAnalysis => {
+  const n = points.length;
+  if (n < 3) return { beats: [], fiducials: [], measurements: EMPTY_MEASUREMENTS };
+
+  const fs = 1 / (points[1].time - points[0].time);
+  const samples = (seconds: number) => Math.max(1, Math.round(seconds * fs));
+  const clampIndex = (i: number) => Math.min(n - 1, Math.max(0, i));
+  const timeAt = (i: number) => points[0].time + i / fs;
+
+  // 0. 조율 스파이크 제거 (pace pulse rejection): 한 샘플 폭의 펄스는 심장 파형일 수 없으므로
+  //    양옆 샘플의 평균으로 바꿔 QRS로 잘못 검출하거나 QRS 폭에 포함하지 않게 함
+  const raw = points.map((p, i) => {
+    if (i === 0 || i === n - 1) return p.voltage;
+    const neighbors = (points[i - 1].voltage + points[i + 1].voltage) / 2;
+    return Math.abs(p.voltage - neighbors) > PACE_PULSE_AMP ? neighbors : p.voltage;
+  });
+
+  // 1. 3점 이동평균으로 노이즈를 줄이고 기울기(mV/s)를 구함
+  const x = raw.map((_, i) => (raw[clampIndex(i - 1)] + raw[i] + raw[clampIndex(i + 1)]) / 3);
+  const d = x.map((_, i) => ((x[clampIndex(i + 1)] - x[clampIndex(i - 1)]) * fs) / 2);
+  const iso = isoelectricLevel(x);
+  const dev = (i: number) => Math.abs(x[i] - iso);
+  // 평활화로 걸러진 성분의 크기로 노이즈를 추정 (평평한 구간 판정, P파/T파 최소 진폭에 사용)
+  const noiseAmp = median(raw.map((v, i) => Math.abs(v - x[i])));
+  const noiseSlope = noiseAmp * fs;
+  const waveThr = Math.max(MIN_WAVE_AMP, 5 * noiseAmp);
+
+  // 2. 기울기 제곱을 이동 적분한 에너지로 QRS 구간 검출
+  const win = samples(INTEGRATION_WINDOW);
+  const energy: number[] = [];
+  let acc = 0;
+  for (let i = 0; i < n; i++) {
+    acc += d[i] * d[i];
+    if (i >= win) acc -= d[i - win] * d[i - win];
+    energy.push(acc / win);
+  }
+  const threshold = Math.max(0.3 * Math.max(...energy), MIN_QRS_SLOPE * MIN_QRS_SLOPE);
+
+  // 임계값을 넘는 에너지 봉우리마다 |전압 - 기저선|이 가장 큰 지점을 R파로 선택
+  // (빠른 심실 빈맥처럼 에너지가 기저선으로 내려오지 않는 경우에도 봉우리는 박동마다 생김)
+  const rIndices: number[] = [];
+  for (let i = 1; i < n - 1; i++) {
+    if (energy[i] < threshold || energy[i] < energy[i - 1] || energy[i] < energy[i + 1]) continue;
+    // 적분 창만큼 검출이 늦어지므로 창 앞쪽에서 찾음
+    const peak = argMax(clampIndex(i - win), i, dev);
+    const last = rIndices[rIndices.length - 1];
+    if (last === undefined || peak - last >= samples(R_REFRACTORY)) {
+      rIndices.push(peak);
+    } else if (dev(peak) > dev(last)) {
+      rIndices[rIndices.length - 1] = peak;
+    }
+  }
+
+  // 3. 박동별 기준점
+  const beats: BeatFiducials[] = [];
+  const fiducials: FiducialPoint[] = [];
+  const mark = (kind: FiducialKind, i: number) => fiducials.push({ kind, time: timeAt(i), voltage: points[i].voltage });
+
+  rIndices.forEach((r, k) => {
+    const search = samples(QRS_SEARCH);
+    const qrsFrom = clampIndex(r - search);
+    const qrsTo = clampIndex(r + search);
+    // 경계에 걸린 박동은 파형이 잘려 측정이 부정확하므로 제외
+    if (r - search < 0 || r + search > n - 1) return;
+
+    const maxSlope = Math.abs(d[argMax(clampIndex(r - samples(0.1)), clampIndex(r + samples(0.1)), i => Math.abs(d[i]))]);
+    const slopeThr = Math.max(0.25 * maxSlope, 2 * noiseSlope);
+    const ampThr = Math.max(0.05, 0.1 * dev(r));
+    const flat = (i: number) => Math.abs(d[i]) < slopeThr;
+
+    // Q파/S파의 골(반대 방향 극값)을 건너뛴 뒤, 기울기가 평평해지는 지점을 찾음
+    const sign = Math.sign(x[r] - iso) || 1;
+    const opposite = (i: number) => -sign * (x[i] - iso);
+    const qTrough = argMax(qrsFrom, r, opposite);
+    const sTrough = argMax(r, qrsTo, opposite);
+    const onsetStart = opposite(qTrough) > ampThr ? qTrough - 1 : r;
+    const offsetStart = opposite(sTrough) > ampThr ? sTrough + 2 : r;
+
+    // 시작점에서 바깥쪽으로 가며 기울기가 평평해지는 첫 지점
+    const findOnset = (start: number) => {
+      for (let i = start; i > qrsFrom; i--) {
+        if (flat(i) && flat(i - 1)) return i;
+      }
+      return qrsFrom;
+    };
+    const findOffset = (start: number) => {
+      for (let i = start; i < qrsTo - 1; i++) {
+        if (flat(i) && flat(i + 1) && flat(i + 2)) return i;
+      }
+      return qrsTo;
+    };
+    // Q/S파 없이 넓은 QRS(조율 박동 등)는 꼭대기 부근도 평평해 R파 자리에서 바로 멈추므로,
+    // 양쪽 모두 R파 자리에서 멈춘 경우에만 꼭대기를 벗어난 뒤 다시 찾음
+    const leaveApex = (step: number, limit: number) => {
+      let i = r;
+      while (flat(i) && i !== limit) i += step;
+      return i;
+    };
+
+    let onset = findOnset(onsetStart);
+    let offset = findOffset(offsetStart);
+    if (onset === r && offset === r) {
+      onset = findOnset(leaveApex(-1, qrsFrom));
+      offset = findOffset(leaveApex(1, qrsTo));
+    }
+
+    // T파: J점 이후부터 다음 R파 전(최대 0.5초)까지의 가장 큰 편위
+    const nextR = rIndices[k + 1] ?? n - 1;
+    const tFrom = clampIndex(offset + samples(0.04));
+    const tTo = clampIndex(Math.min(offset + samples(0.5), r + Math.floor((nextR - r) * 0.7)));
+    let tPeak: number | null = null;
+    let tEnd: number | null = null;
+    if (tTo > tFrom) {
+      const peak = argMax(tFrom, tTo, dev);
+      if (dev(peak) > waveThr && peak < tTo) {
+        // 접선법: 하강 구간에서 가장 가파른 점의 접선이 기저선과 만나는 곳
+        const steep = argMax(peak, clampIndex(peak + samples(0.2)), i => -Math.sign(x[peak] - iso) * d[i]);
+        if (d[steep] !== 0) {
+          tPeak = peak;
+          tEnd = clampIndex(Math.round(steep + ((iso - x[steep]) / d[steep]) * fs));
+        }
+      }
+    }
+
+    // P파: QRS 시작 전 0.3초 이내 (이전 박동의 T파 이후, T파를 못 찾았으면 J점 0.2초 이후)
+    const prev = beats[beats.length - 1];
+    const prevLimit = prev ? prev.tEnd ?? prev.qrsOffset + 0.2 : null;
+    const pFrom = Math.max(clampIndex(onset - samples(0.3)), prevLimit !== null ? Math.round((prevLimit - points[0].time) * fs) + 1 : 0);
+    const pTo = onset - samples(0.03);
+    let pOnset: number | null = null;
+    if (pTo > pFrom) {
+      const peak = argMax(pFrom, pTo, dev);
+      if (dev(peak) > waveThr && peak > pFrom) {
+        // 상승 구간에서 가장 가파른 점의 접선이 기저선과 만나는 곳
+        const steep = argMax(clampIndex(peak - samples(0.1)), peak, i => Math.sign(x[peak] - iso) * d[i]);
+        if (d[steep] !== 0) {
+          pOnset = clampIndex(Math.round(steep + ((iso - x[steep]) / d[steep]) * fs));
+        }
+      }
+    }
+
+    beats.push({
+      rPeak: timeAt(r),
+      qrsOnset: timeAt(onset),
+      qrsOffset: timeAt(offset),
+      pOnset: pOnset !== null ? timeAt(pOnset) : null,
+      tPeak: tPeak !== null ? timeAt(tPeak) : null,
+      tEnd: tEnd !== null ? timeAt(tEnd) : null,
+    });
+    if (pOnset !== null) mark('P_ON', pOnset);
+    mark('QRS_ON', onset);
+    mark('R', r);
+    mark('J', offset);
+    if (tEnd !== null) mark('T_END', tEnd);
+  });
+
+  return { beats, fiducials, measurements: measureIntervals(rIndices.map(timeAt), beats) };
+};
+
+/**
+ * 박동별 기준점으로부터 심박수와 구간을 계산합니다.
+ * @param {number[]} rTimes - 검출된 모든 R파 시각 (경계에서 잘린 박동 포함)
+ * @param {BeatFiducials[]} beats - 기준점을 찾은 박동들
+ */
+const measureIntervals = (rTimes: number[], beats: BeatFiducials[]): IntervalMeasurements => {
+  if (rTimes.length < 2) return EMPTY_MEASUREMENTS;
+
+  const rrList = rTimes.slice(1).map((t, i) => t - rTimes[i]);
+  const meanRr = rrList.reduce((sum, rr) => sum + rr, 0) / rrList.length;
+  const rr = median(rrList);
+
+  // P파가 앞선 박동이 절반 이상이면 그 박동들(정상 전도 박동)만으로 구간을 측정
+  // (이단맥의 PVC처럼 모양이 다른 박동이 중앙값을 흐리지 않도록)
+  const conducted = beats.filter(b => b.pOnset !== null);
+  const hasP = conducted.length * 2 >= beats.length && conducted.length > 0;
+  const dominant = hasP ? conducted : beats;
+
+  const pr = hasP ? median(conducted.map(b => b.qrsOnset - (b.pOnset as number))) : null;
+  const qrs = medianOrNull(dominant.map(b => b.qrsOffset - b.qrsOnset));
+  const qt = medianOrNull(dominant.flatMap(b => (b.tEnd !== null ? [b.tEnd - b.qrsOnset] : [])));
+
+  return {
+    heartRate: 60 / meanRr,
+    rr,
+    pr,
+    qrs,
+    qt,
+    qtcBazett: qt !== null ? qt / Math.sqrt(rr) : null,
+    qtcFridericia: qt !== null ? qt / Math.cbrt(rr) : null,
+  };
+};
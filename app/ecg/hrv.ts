@@ -0,0 +1,171 @@
+import { ExportAnnotation } from '@/lib/export';
+
+/**
+ * 심박 변이도 (HRV) 분석
+ * 긴 구간을 시뮬레이션해 RR 간격을 모으고, 시간 영역(SDNN, RMSSD, pNN50)과
+ * 주파수 영역(LF/HF) 지표, 푸앵카레 도표의 SD1/SD2를 계산합니다.
+ * 정의는 1996년 ESC/NASPE Task Force 권고안을 따릅니다.
+ */
+
+export type RrInterval = {
+  time: number;     // 간격이 끝나는 R파 시각 (초)
+  rr: number;       // RR 간격 (ms)
+  normal: boolean;  // 양 끝이 모두 정상 박동(N)인 NN 간격인지
+};
+
+export type PoincarePoint = {
+  rr: number;     // RRn (ms)
+  nextRr: number; // RRn+1 (ms)
+};
+
+export type SpectrumPoint = {
+  frequency: number; // Hz
+  power: number;     // ms²/Hz
+};
+
+export type HrvMetrics = {
+  count: number;           // 분석에 쓴 NN 간격 수
+  excluded: number;        // 이소성/조율 박동 때문에 뺀 간격 수
+  meanRr: number;          // ms
+  meanHr: number;          // BPM
+  sdnn: number;            // ms
+  rmssd: number;           // ms
+  pnn50: number;           // %
+  sd1: number;             // 푸앵카레 단축 (ms, 박동 간 변동)
+  sd2: number;             // 푸앵카레 장축 (ms, 장기 변동)
+  lf: number;              // 0.04~0.15 Hz 파워 (ms²)
+  hf: number;              // 0.15~0.4 Hz 파워 (ms²)
+  lfHfRatio: number | null; // HF 파워가 거의 없으면 null
+  poincare: PoincarePoint[];
+  spectrum: SpectrumPoint[];
+};
+
+// 주파수 대역 (Hz)
+export const LF_BAND: [number, number] = [0.04, 0.15];
+export const HF_BAND: [number, number] = [0.15, 0.4];
+// 타코그램 재표본화 주파수 (Hz)
+const RESAMPLE_RATE = 4;
+// 스펙트럼 표시 상한 (Hz)
+const MAX_SPECTRUM_FREQUENCY = 0.5;
+// 이보다 작은 HF 파워는 반올림 오차로 보고 LF/HF를 구하지 않음 (ms²)
+const MIN_BAND_POWER = 1e-3;
+/**
+ * 생성한 긴 ECG의 박동 주석(MIT-BIH 기호)에서 RR 간격을 구합니다.
+ * 긴 구간 생성은 신호 생성 워커에서 하고, 여기서는 주석만 읽습니다. 차단된 P파('P')는 박동이 아니므로 뺍니다.
+ * @param {ExportAnnotation[]} annotations - 시간 순 박동 주석
+ */
+export const rrIntervalsFromAnnotations = (annotations: ExportAnnotation[]): RrInterval[] => {
+  const beats = annotations.filter(annotation => annotation.text !== 'P');
+  return beats.slice(1).map((beat, i) => ({
+    time: beat.onset,
+    rr: (beat.onset - beats[i].onset) * 1000,
+    normal: beat.text === 'N' && beats[i].text === 'N',
+  }));
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// 표본 표준편차
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+/**
+ * NN 타코그램을 등간격으로 재표본화한 뒤 Hann 창 주기도(periodogram)로 파워 스펙트럼을 구합니다.
+ * @param {RrInterval[]} nn - NN 간격 (시간 순)
+ */
+const nnSpectrum = (nn: RrInterval[]): SpectrumPoint[] => {
+  if (nn.length < 4) return [];
+  const start = nn[0].time;
+  const count = Math.floor((nn[nn.length - 1].time - start) * RESAMPLE_RATE) + 1;
+  if (count < 8) return [];
+
+  // 선형 보간
+  const samples: number[] = [];
+  let j = 0;
+  for (let i = 0; i < count; i++) {
+    const t = start + i / RESAMPLE_RATE;
+    while (j < nn.length - 2 && nn[j + 1].time < t) j++;
+    const a = nn[j];
+    const b = nn[j + 1];
+    const ratio = b.time > a.time ? Math.min(Math.max((t - a.time) / (b.time - a.time), 0), 1) : 0;
+    samples.push(a.rr + (b.rr - a.rr) * ratio);
+  }
+
+  const m = mean(samples);
+  const window = samples.map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (count - 1)));
+  const windowPower = window.reduce((sum, w) => sum + w * w, 0);
+  const detrended = samples.map((v, i) => (v - m) * window[i]);
+
+  // 단측 스펙트럼 밀도 (ms²/Hz): 대역 합 × 주파수 간격이 분산과 같아지도록 정규화
+  const spectrum: SpectrumPoint[] = [];
+  const maxBin = Math.min(Math.floor((MAX_SPECTRUM_FREQUENCY * count) / RESAMPLE_RATE), Math.floor(count / 2));
+  for (let k = 1; k <= maxBin; k++) {
+    let re = 0;
+    let im = 0;
+    for (let n = 0; n < count; n++) {
+      const phase = (2 * Math.PI * k * n) / count;
+      re += detrended[n] * Math.cos(phase);
+      im -= detrended[n] * Math.sin(phase);
+    }
+    spectrum.push({
+      frequency: (k * RESAMPLE_RATE) / count,
+      power: (2 * (re * re + im * im)) / (RESAMPLE_RATE * windowPower),
+    });
+  }
+  return spectrum;
+};
+
+// 대역 [from, to) 안의 파워 (ms²)
+const bandPower = (spectrum: SpectrumPoint[], [from, to]: [number, number]) => {
+  if (spectrum.length === 0) return 0;
+  const step = spectrum[0].frequency;
+  return spectrum
+    .filter(point => point.frequency >= from && point.frequency < to)
+    .reduce((sum, point) => sum + point.power * step, 0);
+};
+
+/**
+ * RR 간격에서 HRV 지표를 계산합니다.
+ * 이소성·조율 박동이 낀 간격은 빼고, 연속된 두 NN 간격끼리만 차이(RMSSD, pNN50, 푸앵카레)를 구합니다.
+ * NN 간격이 너무 적으면 null을 반환합니다.
+ * @param {RrInterval[]} intervals - 시간 순 RR 간격
+ */
+export const computeHrv = (intervals: RrInterval[]): HrvMetrics | null => {
+  const nn = intervals.filter(interval => interval.normal);
+  if (nn.length < 3) return null;
+
+  const poincare: PoincarePoint[] = [];
+  intervals.slice(1).forEach((interval, i) => {
+    const prev = intervals[i];
+    if (prev.normal && interval.normal) poincare.push({ rr: prev.rr, nextRr: interval.rr });
+  });
+  const differences = poincare.map(pair => pair.nextRr - pair.rr);
+
+  const meanRr = mean(nn.map(interval => interval.rr));
+  const sdnn = standardDeviation(nn.map(interval => interval.rr));
+  const rmssd = differences.length > 0 ? Math.sqrt(mean(differences.map(d => d * d))) : 0;
+  const sd1 = Math.SQRT1_2 * standardDeviation(differences);
+  const spectrum = nnSpectrum(nn);
+  const lf = bandPower(spectrum, LF_BAND);
+  const hf = bandPower(spectrum, HF_BAND);
+
+  return {
+    count: nn.length,
+    excluded: intervals.length - nn.length,
+    meanRr,
+    meanHr: 60000 / meanRr,
+    sdnn,
+    rmssd,
+    pnn50: differences.length > 0 ? (100 * differences.filter(d => Math.abs(d) > 50).length) / differences.length : 0,
+    sd1,
+    sd2: Math.sqrt(Math.max(0, 2 * sdnn * sdnn - sd1 * sd1)),
+    lf,
+    hf,
+    lfHfRatio: hf > MIN_BAND_POWER ? lf / hf : null,
+    poincare,
+    spectrum,
+  };
+};
@@ -1,125 +1,219 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from 'recharts';
-import { Activity, Settings, RefreshCw, Heart, AlertCircle } from 'lucide-react';
-
-type EcgParams = {
-  bpm: number;
-  pAmp: number;
-  pWidth: number;
-  qAmp: number;
-  rAmp: number;
-  sAmp: number;
-  tAmp: number;
-  tWidth: number;
-  uAmp: number;
-  noise: number;
-  irregularity: number;
-  stElevation: number;
-  qrsWidthScale?: number;
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceArea, ReferenceLine, ReferenceDot } from 'recharts';
+import { Activity, Settings, RefreshCw, Heart, AlertCircle, Play, Square, LayoutGrid, Monitor, Ruler, HeartPulse, Upload, X, GraduationCap, Filter, ListVideo, Zap, ScrollText } from 'lucide-react';
+import { AvBlock, Conduction, DEFAULT_PACEMAKER, ECG_PARAMS_SCHEMA, EcgParams, EcgPoint, Ectopy, PRESETS, PresetKey, RhythmKind, StTerritory } from '@/lib/ecg/model';
+import { LEAD_NAMES, NORMAL_AXIS, TwelveLeadPoint } from '@/lib/ecg/leads';
+import { EcgAnalysis, FiducialKind, FiducialPoint, analyzeEcg } from './analysis';
+import { BEAT_TYPE_LABELS, BeatType, DEFAULT_PR_INTERVAL, RhythmEvent } from '@/lib/ecg/rhythm';
+import { createEcgStream, readEcgSamples, readTwelveLeadSamples } from '@/lib/ecg/stream';
+import { DefibState, SHOCK_OUTCOME_PRESETS, ShockRecord, ShockRequest, armShock, cancelShock } from '@/lib/ecg/defibrillator';
+import { DEFAULT_ECG_ALARM_LIMITS, EcgAlarmInput, EcgAlarmLimits, ecgAlarmInput, evaluateEcgAlarms } from './alarms';
+import { ECG_FILTER_MODES, ECG_FILTER_MODE_LABELS, ECG_FILTER_SCHEMA, EcgFilterSettings, NO_ECG_FILTER, describeEcgFilter } from '@/lib/ecg/filters';
+import { DEFAULT_HR_STD, DEFAULT_LF_HF_RATIO, ECG_GENERATORS, ECG_GENERATOR_LABELS } from '@/lib/ecg/ecgsyn';
+import {
+  DEFAULT_GAIN, DEFAULT_SPEED, PAPER_GAINS, PAPER_SPEEDS, PaperGain, PaperSpeed,
+  calibrationPulse, paperStyle, stripDuration, timeDomain, voltageDomain,
+} from './paper';
+import { Recording, loadRecordingFiles, recordingDuration, recordingWindow } from './recording';
+import { ExportSignal } from '@/lib/export';
+import ExportMenu from '@/components/ExportMenu';
+import ShareControls from '@/components/ShareControls';
+import AlarmPanel from '@/components/AlarmPanel';
+import ArtifactControls from '@/components/ArtifactControls';
+import PresetLibrary from '@/components/PresetLibrary';
+import ScenarioPlayer from '@/components/ScenarioPlayer';
+import { DEFAULT_SEED, createRandom } from '@/lib/random';
+import { buildShareUrl, mergeSharedParams, readShareState } from '@/lib/shareLink';
+import { CustomPreset } from '@/lib/presets';
+import { Scenario } from '@/lib/scenario';
+import TwelveLeadView from './TwelveLeadView';
+import RecordingStrip, { RECORDING_COLOR } from './RecordingStrip';
+import RhythmQuiz from './RhythmQuiz';
+import PacemakerControls from './PacemakerControls';
+import WaveformEditor from './WaveformEditor';
+import HrvPanel from './HrvPanel';
+import LongTraceView from './LongTraceView';
+import DefibrillatorControls from './DefibrillatorControls';
+import EcgPaper from './EcgPaper';
+
+type DisplayMode = 'static' | 'live';
+type ViewMode = 'monitor' | 'twelveLead' | 'hrv' | 'trace';
+type CompareMode = 'sideBySide' | 'overlay';
+
+// 실시간 모니터 화면의 한 칸 (지워진 구간은 null)
+type SweepPoint = {
+  time: number;
+  voltage: number | null;
 };
 
-type Preset = {
+const SAMPLING_RATE = 100; // Hz
+const ERASE_BAR_SECONDS = 0.2; // 스윕 앞쪽의 지우개 막대 폭
+const MIN_SAMPLES_PER_FRAME = 3; // 화면 갱신 빈도 제한 (약 30fps)
+const TWELVE_LEAD_DURATION = 10; // 표준 12유도 기록 길이 (초)
+const LIVE_ANALYSIS_INTERVAL = 1; // 실시간 모드에서 구간을 다시 측정하는 주기 (초)
+const DEFAULT_HRV_DURATION = 120; // 심박 변이도 분석 구간 (초)
+
+// 박동 라벨 (차트 위쪽에 박동 유형 기호를 표시)
+type BeatMarker = {
+  time: number;
   label: string;
-  description: string;
-  params: EcgParams;
+  color: string;
 };
 
-type EcgPoint = {
-  time: string;
-  voltage: number;
+const BEAT_COLORS: Record<BeatType, string> = {
+  N: '#86efac',
+  A: '#fbbf24',
+  V: '#f87171',
+  J: '#67e8f9',
+  E: '#c084fc',
+  '/': '#e5e7eb',
 };
 
 /**
- * 가우스 함수 (Gaussian Function)
- * 특정 시간 t에서의 파형 높이를 반환합니다.
- * @param {number} t - 현재 시간
- * @param {number} center - 파형의 중심 시간 (offset)
- * @param {number} amp - 파형의 진폭 (Amplitude)
- * @param {number} width - 파형의 너비 (Standard Deviation)
+ * 리듬 이벤트 중 화면에 표시할 것(QRS, 차단된 P파)만 골라 라벨로 변환
+ * @param {RhythmEvent[]} events - 스트림에 기록된 이벤트
+ * @param {number} from - 표시 구간 시작 (초, 포함)
+ * @param {number} to - 표시 구간 끝 (초, 제외)
+ * @param {number} wrap - 스윕 화면 길이 (0이면 시간을 그대로 사용)
  */
-const gaussian = (t: number, center: number, amp: number, width: number): number => {
-  if (width === 0) return 0;
-  return amp * Math.exp(-Math.pow(t - center, 2) / (2 * width * width));
+const toBeatMarkers = (events: RhythmEvent[], from: number, to: number, wrap = 0): BeatMarker[] =>
+  events
+    .filter(e => (e.wave === 'QRS' || e.blocked) && e.time >= from && e.time < to)
+    .map(e => ({
+      time: wrap > 0 ? e.time % wrap : e.time,
+      label: e.blocked ? 'P' : e.beatType,
+      color: e.blocked ? '#fbbf24' : BEAT_COLORS[e.beatType],
+    }));
+
+// 동기화 표시: 제세동기가 감지한 R파 위에 찍는 점
+type SyncMarker = {
+  time: number;
+  voltage: number;
 };
 
-const formatVoltageTooltip = (value: number | string | undefined) => {
-  const numericValue = typeof value === 'number' ? value : Number(value ?? 0);
-  return [`${numericValue.toFixed(3)} mV`, 'Voltage'] as const;
+const SHOCK_MARKER_COLOR = '#facc15';
+const SYNC_MARKER_OFFSET = 0.3; // R파 꼭대기보다 위로 띄우는 높이 (mV)
+
+// 측정 기준점 표시 색상
+const FIDUCIAL_COLORS: Record<FiducialKind, string> = {
+  P_ON: '#fbbf24',
+  QRS_ON: '#60a5fa',
+  R: '#f87171',
+  J: '#c084fc',
+  T_END: '#f472b6',
 };
 
-// 문서 내용을 바탕으로 한 프리셋 설정
-const PRESETS: Record<string, Preset> = {
-  NORMAL: {
-    label: "정상 동성 리듬 (Normal Sinus Rhythm)",
-    description: "규칙적인 P-QRS-T 파형. 심박수 60-100bpm.",
-    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, noise: 0.02, irregularity: 0, stElevation: 0 }
-  },
-  TACHYCARDIA: {
-    label: "동성 빈맥 (Sinus Tachycardia)",
-    description: "정상 파형이나 심박수가 100bpm 이상으로 빠름.",
-    params: { bpm: 130, pAmp: 0.15, pWidth: 0.03, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.06, uAmp: 0, noise: 0.02, irregularity: 0, stElevation: 0 }
-  },
-  BRADYCARDIA: {
-    label: "동성 서맥 (Sinus Bradycardia)",
-    description: "정상 파형이나 심박수가 60bpm 미만으로 느림.",
-    params: { bpm: 45, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, noise: 0.02, irregularity: 0, stElevation: 0 }
-  },
-  AFIB: {
-    label: "심방 세동 (Atrial Fibrillation)",
-    description: "P파가 없고 불규칙한 기저선 떨림. RR 간격이 불규칙함.",
-    params: { bpm: 90, pAmp: 0, pWidth: 0, qAmp: -0.1, rAmp: 1.0, sAmp: -0.2, tAmp: 0.2, tWidth: 0.08, uAmp: 0, noise: 0.15, irregularity: 0.8, stElevation: 0 }
-  },
-  PVC: {
-    label: "심실 조기 수축 (PVC)",
-    description: "조기 박동 발생, P파 소실, 넓은 QRS. (시뮬레이션상 불규칙성으로 표현)",
-    params: { bpm: 80, pAmp: 0.1, pWidth: 0.04, qAmp: -0.2, rAmp: 1.3, sAmp: -0.4, tAmp: 0.4, tWidth: 0.1, uAmp: 0, noise: 0.05, irregularity: 0.4, stElevation: 0 }
-  },
-  VTACH: {
-    label: "심실 빈맥 (Ventricular Tachycardia)",
-    description: "매우 빠르고 넓은 QRS 복합체. P파와 T파 구분이 어려움.",
-    params: { bpm: 180, pAmp: 0, pWidth: 0, qAmp: 0, rAmp: 1.5, sAmp: -0.5, tAmp: 0, tWidth: 0, uAmp: 0, noise: 0.05, irregularity: 0.05, stElevation: 0, qrsWidthScale: 3.0 }
-  },
-  VFIB: {
-    label: "심실 세동 (Ventricular Fibrillation)",
-    description: "무질서하고 불규칙한 파형. 심정지 직전 단계.",
-    params: { bpm: 0, pAmp: 0, pWidth: 0, qAmp: 0, rAmp: 0, sAmp: 0, tAmp: 0, tWidth: 0, uAmp: 0, noise: 0.4, irregularity: 1.0, stElevation: 0 }
-  },
-  HYPERKALEMIA: {
-    label: "고칼륨혈증 (Hyperkalemia)",
-    description: "뾰족하고 높은 T파(Tall T), P파 소실 또는 평탄화.",
-    params: { bpm: 70, pAmp: 0.05, pWidth: 0.04, qAmp: -0.15, rAmp: 1.0, sAmp: -0.25, tAmp: 0.9, tWidth: 0.06, uAmp: 0, noise: 0.02, irregularity: 0, stElevation: 0 }
-  },
-  HYPOKALEMIA: {
-    label: "저칼륨혈증 (Hypokalemia)",
-    description: "T파 평탄화 및 U파 출현.",
-    params: { bpm: 70, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.1, tWidth: 0.08, uAmp: 0.15, noise: 0.02, irregularity: 0, stElevation: 0 }
-  },
-  STEMI: {
-    label: "심근경색 (ST Elevation)",
-    description: "ST 분절의 상승 (J-point 상승).",
-    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.3, rAmp: 1.0, sAmp: -0.1, tAmp: 0.4, tWidth: 0.08, uAmp: 0, noise: 0.02, irregularity: 0, stElevation: 0.3 }
-  },
-  ASYSTOLE: {
-    label: "심장 무수축 (Asystole)",
-    description: "거의 평탄한 선 (약간의 노이즈).",
-    params: { bpm: 0, pAmp: 0, pWidth: 0, qAmp: 0, rAmp: 0, sAmp: 0, tAmp: 0, tWidth: 0, uAmp: 0, noise: 0.03, irregularity: 0, stElevation: 0 }
-  }
+const FIDUCIAL_LABELS: Record<FiducialKind, string> = {
+  P_ON: 'P 시작',
+  QRS_ON: 'QRS 시작',
+  R: 'R',
+  J: 'J점',
+  T_END: 'T 끝',
 };
 
-type PresetKey = keyof typeof PRESETS;
+// 초 → ms 문자열 (측정 실패 시 ---)
+const formatMs = (seconds: number | null) => (seconds === null ? '---' : `${Math.round(seconds * 1000)}`);
+
+const formatVoltageTooltip = (value: number | string | undefined) => {
+  const numericValue = typeof value === 'number' ? value : Number(value ?? 0);
+  return [`${numericValue.toFixed(3)} mV`, 'Voltage'] as const;
+};
 
 export default function ECGSimulator() {
   const [selectedPreset, setSelectedPreset] = useState<PresetKey>('NORMAL');
   const [params, setParams] = useState<EcgParams>(PRESETS.NORMAL.params);
   const [data, setData] = useState<EcgPoint[]>([]);
-  const [duration] = useState(4); // 4초 동안의 데이터
+  const [speed, setSpeed] = useState<PaperSpeed>(DEFAULT_SPEED);
+  const [gain, setGain] = useState<PaperGain>(DEFAULT_GAIN);
+  const duration = stripDuration(speed); // 기록지 한 장에 들어가는 시간 (25 mm/s에서 4초)
+  const [mode, setMode] = useState<DisplayMode>('static');
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [view, setView] = useState<ViewMode>('monitor');
+  const [quizMode, setQuizMode] = useState(false);
+  const [twelveLeadData, setTwelveLeadData] = useState<TwelveLeadPoint[]>([]);
+  const [hrvDuration, setHrvDuration] = useState(DEFAULT_HRV_DURATION);
+  const [markers, setMarkers] = useState<BeatMarker[]>([]);
+  const [showFiducials, setShowFiducials] = useState(false);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [recordingLead, setRecordingLead] = useState(0);
+  const [recordingStart, setRecordingStart] = useState(0);
+  const [compareMode, setCompareMode] = useState<CompareMode>('sideBySide');
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [alarmLimits, setAlarmLimits] = useState<EcgAlarmLimits>(DEFAULT_ECG_ALARM_LIMITS);
+  const [staticAlarmInput, setStaticAlarmInput] = useState<EcgAlarmInput | null>(null);
+  const [filter, setFilter] = useState<EcgFilterSettings>(NO_ECG_FILTER);
+  const [customPreset, setCustomPreset] = useState<CustomPreset<EcgParams> | null>(null);
+  const [sweep, setSweep] = useState<{
+    points: SweepPoint[]; head: number; markers: BeatMarker[]; analysis: EcgAnalysis | null; fiducials: FiducialPoint[]; alarmInput: EcgAlarmInput | null;
+    syncMarkers: SyncMarker[]; shockPending: boolean;
+  }>({
+    points: [], head: 0, markers: [], analysis: null, fiducials: [], alarmInput: null, syncMarkers: [], shockPending: false,
+  });
+  const [syncMode, setSyncMode] = useState(false);
+  const [lastShock, setLastShock] = useState<ShockRecord | null>(null);
+  const paramsRef = useRef(params);
+  const filterRef = useRef(filter);
+  const syncModeRef = useRef(syncMode);
+  const defibRef = useRef<DefibState | null>(null); // 실시간 스트림의 제세동기 (실시간 모드에서만)
+  const liveRecordRef = useRef<{ history: EcgPoint[]; events: RhythmEvent[] } | null>(null); // 내보내기용 실시간 기록
 
   // 프리셋 변경 시 파라미터 업데이트
+  const selectPreset = (key: PresetKey) => {
+    setSelectedPreset(key);
+    setCustomPreset(null);
+    setParams(PRESETS[key].params);
+  };
+
+  // 사용자 프리셋 적용 (내장 프리셋 선택은 그대로 두고 파라미터만 바꿈)
+  const applyCustomPreset = (preset: CustomPreset<EcgParams>) => {
+    setCustomPreset(preset);
+    setParams(preset.params);
+  };
+  const presetLabel = customPreset ? customPreset.label : PRESETS[selectedPreset].label;
+
+  // 시나리오 재생: 단계의 프리셋을 목록에 표시하고, 시나리오에 시드가 있으면 그 시드로 생성
+  const applyScenarioFrame = (next: EcgParams, scenario: Scenario, preset?: string) => {
+    setParams(next);
+    setCustomPreset(null);
+    if (preset) setSelectedPreset(preset);
+    if (scenario.seed !== undefined) setSeed(scenario.seed);
+  };
+
+  // 공유 링크로 열었으면 링크의 시나리오(프리셋, 파라미터, 모드, 시드, 필터)를 적용
   useEffect(() => {
-    setParams(PRESETS[selectedPreset].params);
-  }, [selectedPreset]);
+    const applySharedScenario = () => {
+      const shared = readShareState();
+      if (!shared) return;
+      const preset = shared.preset && shared.preset in PRESETS ? shared.preset : 'NORMAL';
+      setSelectedPreset(preset);
+      // 조율기는 프리셋에 없을 수도 있으므로 링크에 있으면 기본 설정 위에 합치고, 없으면 끈 것으로 봄
+      const base = shared.params
+        ? { ...PRESETS[preset].params, pacemaker: shared.params.pacemaker ? DEFAULT_PACEMAKER : undefined }
+        : PRESETS[preset].params;
+      const errors: string[] = [];
+      try {
+        setParams(mergeSharedParams(base, shared.params, ECG_PARAMS_SCHEMA));
+      } catch (e) {
+        setParams(PRESETS[preset].params);
+        errors.push(e instanceof Error ? e.message : String(e));
+      }
+      try {
+        setFilter(mergeSharedParams(NO_ECG_FILTER, shared.filter, ECG_FILTER_SCHEMA));
+      } catch (e) {
+        errors.push(e instanceof Error ? e.message : String(e));
+      }
+      if (errors.length > 0) setShareError(errors.join(' '));
+      if (shared.mode === 'static' || shared.mode === 'live') setMode(shared.mode);
+      if (shared.seed !== undefined) setSeed(shared.seed);
+    };
+
+    applySharedScenario();
+  }, []);
+
+  const buildScenarioUrl = () => buildShareUrl({ preset: selectedPreset, mode, seed, params, filter });
 
   // 파라미터 변경 핸들러
   const handleParamChange = (key: keyof EcgParams, value: number | string) => {
@@ -127,147 +221,660 @@ export default function ECGSimulator() {
     setParams(prev => ({ ...prev, [key]: parsed }));
   };
 
-  // ECG 데이터 생성 로직
+  // ECG 데이터 생성 로직 (정지 화면)
   useEffect(() => {
     const generateData = () => {
-      const samplingRate = 100; // Hz
-      const totalPoints = duration * samplingRate;
-      const newData: EcgPoint[] = [];
-      
-      // 심박수(BPM)를 기반으로 비트 간격 계산 (초 단위)
-      // 불규칙성(irregularity)이 있으면 간격이 랜덤하게 변함
-      const baseInterval = params.bpm > 0 ? 60 / params.bpm : Infinity;
-      
-      let beatTimes: number[] = [];
-      let currentTime = 0.2; // 첫 비트 시작점
-      
-      // 비트 발생 시간 미리 계산
-      while (currentTime < duration + 1) { // 여유분 1초
-        beatTimes.push(currentTime);
-        
-        // 다음 비트까지의 간격 계산
-        let nextInterval = baseInterval;
-        if (params.irregularity > 0) {
-          // 불규칙성 추가 (심방세동 등)
-          const variance = (Math.random() - 0.5) * 2 * params.irregularity * baseInterval * 0.5;
-          nextInterval += variance;
-        }
-        currentTime += Math.max(0.2, nextInterval); // 최소 간격 0.2초
-      }
+      const stream = createEcgStream(SAMPLING_RATE, params, createRandom(seed));
+      setData(readEcgSamples(stream, params, duration * SAMPLING_RATE, filter));
+      setMarkers(toBeatMarkers(stream.events, 0, duration));
+      setStaticAlarmInput(ecgAlarmInput(stream));
+    };
 
-      // 각 샘플링 포인트에 대해 전압 계산
-      for (let i = 0; i < totalPoints; i++) {
-        const t = i / samplingRate;
-        let voltage = 0;
-
-        // V-Fib이나 Asystole 같은 특수 상황 처리
-        if (selectedPreset === 'VFIB') {
-           // 불규칙한 사인파들의 합으로 세동 표현
-           voltage = Math.sin(t * 30) * 0.2 + Math.sin(t * 45) * 0.15 + (Math.random() - 0.5) * params.noise;
-        } else if (selectedPreset === 'ASYSTOLE') {
-           voltage = (Math.random() - 0.5) * params.noise;
-        } else {
-          // 일반적인 리듬 (P-QRS-T 모델)
-          // 현재 시간 t에 영향을 주는 모든 비트의 파형을 합산
-          beatTimes.forEach(beatTime => {
-            const dt = t - beatTime;
-            
-            // 유효 범위 내의 비트만 계산 (최적화)
-            if (dt > -0.5 && dt < 1.0) {
-              const qrsWidthMult = params.qrsWidthScale || 1.0;
-
-              // P Wave (심방 탈분극) - R파보다 약 0.16초 전
-              voltage += gaussian(dt, -0.16, params.pAmp, params.pWidth);
-              
-              // Q Wave (심실 중격 탈분극) - R파 직전
-              voltage += gaussian(dt, -0.04 * qrsWidthMult, params.qAmp, 0.02 * qrsWidthMult);
-              
-              // R Wave (주 심실 탈분극) - 기준점 0
-              voltage += gaussian(dt, 0, params.rAmp, 0.03 * qrsWidthMult);
-              
-              // S Wave (심실 기저부 탈분극) - R파 직후
-              voltage += gaussian(dt, 0.04 * qrsWidthMult, params.sAmp, 0.03 * qrsWidthMult);
-              
-              // ST Segment & T Wave (심실 재분극)
-              // ST Elevation 구현을 위해 S파 이후 T파 이전 구간을 들어올림
-              if (params.stElevation !== 0 && dt > 0.08 && dt < 0.25) {
-                 // 부드러운 ST 상승 곡선
-                 const stShape = Math.exp(-Math.pow(dt - 0.15, 2) / (2 * 0.1 * 0.1));
-                 voltage += params.stElevation * stShape;
-              }
-
-              // T Wave - R파보다 약 0.25초 후
-              voltage += gaussian(dt, 0.25, params.tAmp, params.tWidth);
-
-              // U Wave - T파 후 (저칼륨혈증 등)
-              if (params.uAmp !== 0) {
-                voltage += gaussian(dt, 0.45, params.uAmp, 0.06);
-              }
-            }
-          });
-
-          // 기본 노이즈 및 기저선 변동 추가
-          voltage += (Math.random() - 0.5) * params.noise;
-          
-          // 심방세동(AFIB)의 경우 기저선이 심하게 떨림 (f-waves)
-          if (selectedPreset === 'AFIB') {
-             voltage += Math.sin(t * 50) * 0.05;
-          }
+    generateData();
+  }, [params, duration, seed, filter]);
+
+  // 실제 기록 불러오기 (WFDB 헤더+신호 파일 또는 CSV)
+  const handleRecordingFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    try {
+      const loaded = await loadRecordingFiles(Array.from(fileList));
+      setRecording(loaded);
+      setRecordingLead(0);
+      setRecordingStart(0);
+      setRecordingError(null);
+    } catch (e) {
+      setRecordingError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // 기록지 한 장 분량의 기록 구간
+  const recordingPoints = useMemo(
+    () => (recording ? recordingWindow(recording, recordingLead, recordingStart, duration) : []),
+    [recording, recordingLead, recordingStart, duration],
+  );
+  const recordingMaxStart = recording ? Math.max(0, recordingDuration(recording) - duration) : 0;
+  const recordingLabel = recording ? `${recording.name} · ${recording.leads[recordingLead]}` : '';
+
+  // 내보내기: 모니터 화면은 II 유도와 박동 라벨, 12유도 화면은 12개 유도 전체
+  // 실시간 모드의 모니터 화면은 정지 화면 파형 대신 지금까지 스윕한 최근 한 화면 분량을 내보냄
+  const buildExportSignal = (): ExportSignal => {
+    const exportParams = { preset: selectedPreset, ...params };
+    if (view === 'twelveLead') {
+      return {
+        source: 'ECGSimulator',
+        samplingRate: SAMPLING_RATE,
+        channels: LEAD_NAMES.map(name => ({ name, unit: 'mV', values: twelveLeadData.map(p => p[name]) })),
+        params: exportParams,
+      };
+    }
+    const live = mode === 'live' ? liveRecordRef.current : null;
+    if (live && live.history.length > 0) {
+      const start = live.history[0].time;
+      const end = start + live.history.length / SAMPLING_RATE;
+      return {
+        source: 'ECGSimulator',
+        samplingRate: SAMPLING_RATE,
+        channels: [{ name: 'II', unit: 'mV', values: live.history.map(p => p.voltage) }],
+        params: exportParams,
+        annotations: toBeatMarkers(live.events, start, end).map(m => ({ onset: m.time - start, text: m.label })),
+      };
+    }
+    return {
+      source: 'ECGSimulator',
+      samplingRate: SAMPLING_RATE,
+      channels: [{ name: 'II', unit: 'mV', values: data.map(p => p.voltage) }],
+      params: exportParams,
+      annotations: markers.map(m => ({ onset: m.time, text: m.label })),
+    };
+  };
+
+  // 정지 화면 파형의 자동 측정
+  const staticAnalysis = useMemo(() => analyzeEcg(data), [data]);
+
+  // 12유도 데이터 생성 (10초 기록)
+  useEffect(() => {
+    if (view !== 'twelveLead') return;
+    const generateLeads = () => {
+      const stream = createEcgStream(SAMPLING_RATE, params, createRandom(seed));
+      setTwelveLeadData(readTwelveLeadSamples(stream, params, TWELVE_LEAD_DURATION * SAMPLING_RATE, filter));
+    };
+
+    generateLeads();
+  }, [view, params, seed, filter]);
+
+  // 실시간 루프는 재시작 없이 최신 설정을 읽어야 하므로 ref로 전달
+  useEffect(() => {
+    paramsRef.current = params;
+  }, [params]);
+
+  useEffect(() => {
+    filterRef.current = filter;
+  }, [filter]);
+
+  useEffect(() => {
+    syncModeRef.current = syncMode;
+  }, [syncMode]);
+
+  // 제세동기 충격은 실시간 스트림에 요청하고, 결과는 실시간 루프에서 받아 리듬에 반영
+  const requestShock = (request: ShockRequest) => {
+    if (defibRef.current) armShock(defibRef.current, request);
+  };
+
+  const cancelPendingShock = () => {
+    if (defibRef.current) cancelShock(defibRef.current);
+  };
+
+  // 실시간 모니터 모드: 샘플을 실제 시간에 맞춰 생성하고 왼쪽에서 오른쪽으로 스윕
+  useEffect(() => {
+    if (mode !== 'live' || quizMode) return;
+
+    const slots = duration * SAMPLING_RATE;
+    const eraseSlots = Math.round(ERASE_BAR_SECONDS * SAMPLING_RATE);
+    const stream = createEcgStream(SAMPLING_RATE, paramsRef.current, createRandom(seed));
+    defibRef.current = stream.defib;
+    let handledShocks = 0;
+    const buffer: SweepPoint[] = Array.from({ length: slots }, (_, i) => ({ time: i / SAMPLING_RATE, voltage: null }));
+
+    // 측정용으로 최근 한 화면 분량의 파형을 시간 순서대로 보관
+    let history: EcgPoint[] = [];
+    let analysis: EcgAnalysis | null = null;
+    let alarmInput: EcgAlarmInput | null = null;
+    let nextAnalysisTime = LIVE_ANALYSIS_INTERVAL;
+
+    let frameId = 0;
+    let lastTime = performance.now();
+    let pendingSamples = 0;
+
+    const tick = (now: number) => {
+      // 탭이 숨겨졌다 돌아온 경우 한 화면 분량 이상은 생성하지 않음
+      pendingSamples = Math.min(pendingSamples + ((now - lastTime) / 1000) * SAMPLING_RATE, slots);
+      lastTime = now;
+
+      const count = Math.floor(pendingSamples);
+      if (count >= MIN_SAMPLES_PER_FRAME) {
+        pendingSamples -= count;
+        const startIndex = stream.sampleIndex;
+        const samples = readEcgSamples(stream, paramsRef.current, count, filterRef.current);
+        samples.forEach((point, i) => {
+          const slot = (startIndex + i) % slots;
+          buffer[slot] = { time: slot / SAMPLING_RATE, voltage: point.voltage };
+        });
+        history = history.concat(samples).slice(-slots);
+        liveRecordRef.current = { history, events: stream.events };
+
+        // 새로 전달된 충격의 결과를 리듬에 반영 (다음 프레임부터 바로 쓰이도록 ref도 갱신)
+        stream.defib.shocks.slice(handledShocks).forEach(shock => {
+          setLastShock(shock);
+          const preset = SHOCK_OUTCOME_PRESETS[shock.outcome];
+          if (!preset) return;
+          paramsRef.current = PRESETS[preset].params;
+          setParams(PRESETS[preset].params);
+          setSelectedPreset(preset);
+          setCustomPreset(null);
+        });
+        handledShocks = stream.defib.shocks.length;
+
+        // 기록 헤드 앞쪽을 지워 이전 화면과 구분
+        const head = stream.sampleIndex % slots;
+        for (let i = 0; i < eraseSlots; i++) {
+          const slot = (head + i) % slots;
+          buffer[slot] = { time: slot / SAMPLING_RATE, voltage: null };
+        }
+        // 화면에 남아 있는 구간(지우개 막대 이후 ~ 현재)의 박동 라벨
+        const now = stream.sampleIndex / SAMPLING_RATE;
+        const visibleFrom = now - duration + ERASE_BAR_SECONDS;
+        const visibleMarkers = toBeatMarkers(stream.events, visibleFrom, now, duration).concat(
+          stream.defib.shocks
+            .filter(shock => shock.time >= visibleFrom && shock.time < now)
+            .map(shock => ({ time: shock.time % duration, label: '⚡', color: SHOCK_MARKER_COLOR })),
+        );
+        // 동기화 모드: 화면에 그려진 R파마다 표시
+        const syncMarkers: SyncMarker[] = [];
+        if (syncModeRef.current) {
+          stream.events
+            .filter(e => e.wave === 'QRS' && e.time >= visibleFrom && e.time < now)
+            .forEach(e => {
+              const slot = Math.round(e.time * SAMPLING_RATE) % slots;
+              const voltage = buffer[slot].voltage;
+              if (voltage !== null) syncMarkers.push({ time: slot / SAMPLING_RATE, voltage: voltage + SYNC_MARKER_OFFSET });
+            });
         }
 
-        newData.push({ time: t.toFixed(2), voltage: voltage });
+        // 측정과 알람 판정은 매 프레임이 아니라 일정 주기로만 수행
+        if (now >= nextAnalysisTime) {
+          analysis = analyzeEcg(history);
+          alarmInput = ecgAlarmInput(stream);
+          nextAnalysisTime = now + LIVE_ANALYSIS_INTERVAL;
+        }
+        const visibleFiducials = (analysis?.fiducials ?? [])
+          .filter(f => f.time >= visibleFrom && f.time < now)
+          .map(f => ({ ...f, time: f.time % duration }));
+        setSweep({
+          points: buffer.slice(), head, markers: visibleMarkers, analysis, fiducials: visibleFiducials, alarmInput,
+          syncMarkers, shockPending: stream.defib.pending !== null,
+        });
       }
-      setData(newData);
+      frameId = requestAnimationFrame(tick);
     };
 
-    generateData();
-  }, [params, duration, selectedPreset]);
+    frameId = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frameId);
+      defibRef.current = null;
+      liveRecordRef.current = null;
+    };
+  }, [mode, duration, seed, quizMode]);
+
+  const measurements = (mode === 'live' ? sweep.analysis : staticAnalysis)?.measurements;
+  const fiducials = mode === 'live' ? sweep.fiducials : staticAnalysis.fiducials;
+  const alarmInput = mode === 'live' ? sweep.alarmInput : staticAlarmInput;
+  const alarmChecks = useMemo(() => evaluateEcgAlarms(alarmInput, alarmLimits), [alarmInput, alarmLimits]);
+
+  const filterLabel = describeEcgFilter(filter, params.artifacts.mainsFrequency ?? 60);
+
+  const eraseStart = sweep.head / SAMPLING_RATE;
+  const eraseEnd = Math.min(eraseStart + ERASE_BAR_SECONDS, duration);
+
+  // 제목과 화면 모드 버튼 (퀴즈 화면과 공유)
+  const header = (
+    <div className="mb-6 border-b pb-4 flex justify-between items-center">
+      <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+        <Activity className="text-red-500" />
+        심전도(ECG) 수학적 시뮬레이터
+      </h1>
+      <div className="flex gap-2">
+        <button
+          onClick={() => setQuizMode(v => !v)}
+          className={`px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-1 transition-colors ${quizMode ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+        >
+          <GraduationCap className="w-4 h-4" />
+          판독 퀴즈
+        </button>
+        <div className={`flex gap-2 ${view === 'monitor' && !quizMode ? '' : 'invisible'}`}>
+          <button
+            onClick={() => setMode('static')}
+            className={`px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-1 transition-colors ${mode === 'static' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+          >
+            <Square className="w-4 h-4" />
+            정지 화면
+          </button>
+          <button
+            onClick={() => setMode('live')}
+            className={`px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-1 transition-colors ${mode === 'live' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+          >
+            <Play className="w-4 h-4" />
+            실시간 모니터
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  // 퀴즈 모드: 정답지 역할을 하는 프리셋 목록과 설정을 숨기고 문제만 표시
+  if (quizMode) {
+    return (
+      <div className="w-full max-w-4xl mx-auto p-4 bg-white rounded-xl shadow-lg border border-gray-200">
+        {header}
+        <RhythmQuiz />
+      </div>
+    );
+  }
 
   return (
     <div className="w-full max-w-4xl mx-auto p-4 bg-white rounded-xl shadow-lg border border-gray-200">
-      <div className="mb-6 border-b pb-4">
-        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
-          <Activity className="text-red-500" />
-          심전도(ECG) 수학적 시뮬레이터
-        </h1>
+      {header}
+
+      {/* 시나리오 공유 / 내보내기 */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <ShareControls seed={seed} onSeedChange={setSeed} buildUrl={buildScenarioUrl} error={shareError} />
+        <ExportMenu getSignal={buildExportSignal} />
       </div>
 
-      {/* 그래프 영역 */}
-      <div className="bg-gray-900 rounded-lg p-4 mb-6 relative h-80 border border-gray-700">
-        {/* 모눈종이 효과 */}
-        <div className="absolute inset-0 opacity-20 pointer-events-none" 
-             style={{ 
-               backgroundImage: 'linear-gradient(#444 1px, transparent 1px), linear-gradient(90deg, #444 1px, transparent 1px)', 
-               backgroundSize: '20px 20px' 
-             }}>
-        </div>
-        
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-            <XAxis dataKey="time" type="number" domain={[0, duration]} hide />
-            <YAxis domain={[-1.5, 2.5]} hide />
-            <Tooltip 
-              contentStyle={{ backgroundColor: '#1f2937', border: 'none', color: '#fff' }}
-              labelStyle={{ color: '#9ca3af' }}
-              formatter={formatVoltageTooltip}
+      {/* 모니터 알람 */}
+      <AlarmPanel checks={alarmChecks}>
+        <div className="space-y-2">
+          <div>
+            <label className="block text-gray-600 mb-1">심박수 하한 (HR Low): {alarmLimits.hrLow} BPM</label>
+            <input
+              type="range" min="20" max="100" step="5"
+              value={alarmLimits.hrLow}
+              onChange={(e) => setAlarmLimits(prev => ({ ...prev, hrLow: Number(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
             />
-            <Line 
-              type="monotone" 
-              dataKey="voltage" 
-              stroke="#00ff00" 
-              strokeWidth={2} 
-              dot={false} 
-              isAnimationActive={false} // 실시간 갱신을 위해 애니메이션 끔
+          </div>
+          <div>
+            <label className="block text-gray-600 mb-1">심박수 상한 (HR High): {alarmLimits.hrHigh} BPM</label>
+            <input
+              type="range" min="80" max="250" step="5"
+              value={alarmLimits.hrHigh}
+              onChange={(e) => setAlarmLimits(prev => ({ ...prev, hrHigh: Number(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
             />
-          </LineChart>
-        </ResponsiveContainer>
-        
-        <div className="absolute top-4 right-4 text-green-500 font-mono text-sm flex flex-col items-end">
-          <span>HR: {params.bpm} BPM</span>
-          <span>SPEED: 25 mm/s</span>
+          </div>
+        </div>
+      </AlarmPanel>
+
+      {/* 임상 시나리오: 단계별 리듬 전환과 강사용 알림 */}
+      <div className="mb-4 p-3 border rounded-lg bg-white">
+        <div className="text-xs font-semibold text-gray-700 mb-2 flex items-center gap-1">
+          <ListVideo className="w-4 h-4 text-gray-500" />
+          임상 시나리오 (Scenario)
         </div>
+        <ScenarioPlayer
+          simulator="ecg"
+          schema={ECG_PARAMS_SCHEMA}
+          base={PRESETS.NORMAL.params}
+          params={params}
+          presets={PRESETS}
+          onApply={applyScenarioFrame}
+        />
       </div>
 
+      {/* 제세동기: 충격 결과가 리듬을 바꾸므로 실시간 모니터에서만 사용 */}
+      {view === 'monitor' && (
+        <div className="mb-4 p-3 border rounded-lg bg-white">
+          <div className="text-xs font-semibold text-gray-700 mb-2 flex items-center gap-1">
+            <Zap className="w-4 h-4 text-gray-500" />
+            제세동기 (Defibrillator)
+          </div>
+          <DefibrillatorControls
+            available={mode === 'live'}
+            synchronized={syncMode}
+            onSynchronizedChange={setSyncMode}
+            pending={mode === 'live' && sweep.shockPending}
+            lastShock={lastShock}
+            onShock={requestShock}
+            onCancel={cancelPendingShock}
+          />
+        </div>
+      )}
+
+      {/* 기록지 설정: 기록 속도, 감도, 측정점 */}
+      {view === 'monitor' && (
+        <div className="flex flex-wrap items-center gap-4 mb-2 text-xs">
+          <div className="flex items-center gap-1">
+            <span className="font-medium text-gray-600">속도 (Speed)</span>
+            {PAPER_SPEEDS.map(value => (
+              <button
+                key={value}
+                onClick={() => setSpeed(value)}
+                className={`px-2 py-0.5 rounded font-bold ${speed === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+              >
+                {value}
+              </button>
+            ))}
+            <span className="text-gray-400">mm/s</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="font-medium text-gray-600">감도 (Gain)</span>
+            {PAPER_GAINS.map(value => (
+              <button
+                key={value}
+                onClick={() => setGain(value)}
+                className={`px-2 py-0.5 rounded font-bold ${gain === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+              >
+                {value}
+              </button>
+            ))}
+            <span className="text-gray-400">mm/mV</span>
+          </div>
+          <button
+            onClick={() => setShowFiducials(v => !v)}
+            className={`ml-auto px-2 py-0.5 rounded font-bold flex items-center gap-1 ${showFiducials ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+          >
+            <Ruler className="w-3 h-3" />
+            측정점 표시
+          </button>
+        </div>
+      )}
+
+      {/* 표시 필터: 대역 모드, 전원 노치, 기저선 제거 */}
+      <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+        <span className="font-medium text-gray-600 flex items-center gap-1">
+          <Filter className="w-3 h-3" />
+          필터 (Filter)
+        </span>
+        {ECG_FILTER_MODES.map(value => (
+          <button
+            key={value}
+            onClick={() => setFilter(prev => ({ ...prev, mode: value }))}
+            className={`px-2 py-0.5 rounded font-bold ${filter.mode === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+          >
+            {ECG_FILTER_MODE_LABELS[value]}
+          </button>
+        ))}
+        <button
+          onClick={() => setFilter(prev => ({ ...prev, notch: !prev.notch }))}
+          className={`ml-2 px-2 py-0.5 rounded font-bold ${filter.notch ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+        >
+          {params.artifacts.mainsFrequency ?? 60} Hz 노치
+        </button>
+        <button
+          onClick={() => setFilter(prev => ({ ...prev, baseline: !prev.baseline }))}
+          className={`px-2 py-0.5 rounded font-bold ${filter.baseline ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+        >
+          기저선 제거
+        </button>
+        {filter.mode === 'monitor' && (
+          <span className="text-amber-600 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            모니터 필터는 ST 분절을 왜곡하므로 ST 변화는 진단 모드로 확인하세요.
+          </span>
+        )}
+      </div>
+
+      {/* 화면 선택: 모니터(II 유도) / 12유도 / 심박 변이도 / 긴 기록 */}
+      <div className="flex gap-1 mb-2">
+        <button
+          onClick={() => setView('monitor')}
+          className={`px-3 py-1 rounded-t-lg text-xs font-bold flex items-center gap-1 ${view === 'monitor' ? 'bg-gray-900 text-green-400' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+        >
+          <Monitor className="w-3 h-3" />
+          모니터 (Lead II)
+        </button>
+        <button
+          onClick={() => setView('twelveLead')}
+          className={`px-3 py-1 rounded-t-lg text-xs font-bold flex items-center gap-1 ${view === 'twelveLead' ? 'bg-gray-900 text-green-400' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+        >
+          <LayoutGrid className="w-3 h-3" />
+          12유도 (12-Lead)
+        </button>
+        <button
+          onClick={() => setView('hrv')}
+          className={`px-3 py-1 rounded-t-lg text-xs font-bold flex items-center gap-1 ${view === 'hrv' ? 'bg-gray-900 text-green-400' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+        >
+          <HeartPulse className="w-3 h-3" />
+          심박 변이도 (HRV)
+        </button>
+        <button
+          onClick={() => setView('trace')}
+          className={`px-3 py-1 rounded-t-lg text-xs font-bold flex items-center gap-1 ${view === 'trace' ? 'bg-gray-900 text-green-400' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+        >
+          <ScrollText className="w-3 h-3" />
+          긴 기록 (Long Trace)
+        </button>
+      </div>
+
+      {view === 'trace' && <LongTraceView params={params} seed={seed} filter={filter} />}
+
+      {view === 'hrv' && (
+        <HrvPanel
+          params={params}
+          seed={seed}
+          duration={hrvDuration}
+          onDurationChange={setHrvDuration}
+        />
+      )}
+
+      {view === 'twelveLead' && (
+        <div className="bg-gray-900 rounded-lg p-4 mb-6 relative border border-gray-700">
+          <TwelveLeadView data={twelveLeadData} duration={TWELVE_LEAD_DURATION} />
+          <div className="absolute top-2 right-4 text-green-500 font-mono text-xs">
+            25 mm/s · 10 mm/mV · Axis {params.axis ?? NORMAL_AXIS}° · {filterLabel}
+          </div>
+        </div>
+      )}
+
+      {/* 그래프 영역 */}
+      {view === 'monitor' && (
+        <div className="bg-gray-900 rounded-lg p-4 mb-6 relative border border-gray-700">
+          {/* 기록지: 모눈이 차트의 시간/전압 눈금과 일치하도록 같은 영역에 겹쳐 그림 */}
+          <div className="relative w-full" style={paperStyle}>
+            <EcgPaper />
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={mode === 'live' ? sweep.points : data} margin={{ top: 0, right: 0, left: 0, bottom: 0 }}>
+                <XAxis dataKey="time" type="number" domain={timeDomain(speed)} allowDataOverflow hide />
+                <YAxis domain={voltageDomain(gain)} allowDataOverflow hide />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#1f2937', border: 'none', color: '#fff' }}
+                  labelStyle={{ color: '#9ca3af' }}
+                  formatter={formatVoltageTooltip}
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="voltage" 
+                  stroke="#00ff00" 
+                  strokeWidth={2} 
+                  dot={false} 
+                  isAnimationActive={false} // 실시간 갱신을 위해 애니메이션 끔
+                />
+                {recording && compareMode === 'overlay' && (
+                  // 실제 기록 겹쳐 보기
+                  <Line
+                    data={recordingPoints}
+                    type="linear"
+                    dataKey="voltage"
+                    stroke={RECORDING_COLOR}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                    tooltipType="none"
+                  />
+                )}
+                {/* 1mV 교정 파형 */}
+                <Line
+                  data={calibrationPulse(speed)}
+                  type="linear"
+                  dataKey="voltage"
+                  stroke="#00ff00"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                  tooltipType="none"
+                />
+                {(mode === 'live' ? sweep.markers : markers).map(marker => (
+                  <ReferenceLine
+                    key={`${marker.time}-${marker.label}`}
+                    x={marker.time}
+                    stroke="none"
+                    label={{ value: marker.label, position: 'insideTop', fill: marker.color, fontSize: 11, fontWeight: 'bold' }}
+                  />
+                ))}
+                {mode === 'live' && sweep.syncMarkers.map(marker => (
+                  <ReferenceDot
+                    key={`sync-${marker.time}`}
+                    x={marker.time}
+                    y={marker.voltage}
+                    r={3}
+                    fill={SHOCK_MARKER_COLOR}
+                    stroke="none"
+                    ifOverflow="hidden"
+                  />
+                ))}
+                {showFiducials && fiducials.map(f => (
+                  <ReferenceDot
+                    key={`${f.kind}-${f.time}`}
+                    x={f.time}
+                    y={f.voltage}
+                    r={3}
+                    fill={FIDUCIAL_COLORS[f.kind]}
+                    stroke="none"
+                    ifOverflow="hidden"
+                  />
+                ))}
+                {mode === 'live' && (
+                  // 지우개 막대 (Erase Bar): 새 파형이 그려질 자리를 미리 비움
+                  <ReferenceArea x1={eraseStart} x2={eraseEnd} fill="#111827" fillOpacity={1} stroke="none" ifOverflow="hidden" />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        
+          <div className="absolute top-4 right-4 text-green-500 font-mono text-sm flex flex-col items-end">
+            {mode === 'live' && <span className="text-red-400 animate-pulse">● LIVE</span>}
+            <span className="text-lg font-bold">HR: {measurements?.heartRate != null ? Math.round(measurements.heartRate) : '---'} BPM</span>
+            <span>PR: {formatMs(measurements?.pr ?? null)} ms</span>
+            <span>QRS: {formatMs(measurements?.qrs ?? null)} ms</span>
+            <span>QT: {formatMs(measurements?.qt ?? null)} ms</span>
+            <span>QTc(B): {formatMs(measurements?.qtcBazett ?? null)} ms</span>
+            <span>QTc(F): {formatMs(measurements?.qtcFridericia ?? null)} ms</span>
+            <span>{speed} mm/s · {gain} mm/mV</span>
+            <span className="text-xs">{filterLabel}</span>
+          </div>
+
+          {recording && compareMode === 'overlay' && (
+            <div className="absolute bottom-7 left-4 text-xs font-mono flex gap-3 pointer-events-none">
+              <span className="text-green-400">— {presetLabel}</span>
+              <span style={{ color: RECORDING_COLOR }}>— {recordingLabel}</span>
+            </div>
+          )}
+          {showFiducials && (
+            <div className="absolute top-4 left-1/4 text-[10px] font-mono flex gap-2 pointer-events-none">
+              {(Object.keys(FIDUCIAL_COLORS) as FiducialKind[]).map(kind => (
+                <span key={kind} style={{ color: FIDUCIAL_COLORS[kind] }}>● {FIDUCIAL_LABELS[kind]}</span>
+              ))}
+            </div>
+          )}
+
+          <div className="absolute bottom-2 left-4 text-[10px] font-mono text-gray-400 flex gap-3 pointer-events-none">
+            {(Object.keys(BEAT_COLORS) as BeatType[]).map(type => (
+              <span key={type} style={{ color: BEAT_COLORS[type] }} title={BEAT_TYPE_LABELS[type]}>{type}: {BEAT_TYPE_LABELS[type]}</span>
+            ))}
+            <span className="text-amber-400">P: 차단된 P파</span>
+          </div>
+        </div>
+      )}
+
+      {view === 'monitor' && recording && compareMode === 'sideBySide' && (
+        <RecordingStrip data={recordingPoints} label={recordingLabel} speed={speed} gain={gain} />
+      )}
+
+      {/* 실제 기록 비교 (WFDB / CSV) */}
+      {view === 'monitor' && (
+        <div className="mb-6 p-3 border rounded-lg bg-gray-50 text-xs space-y-2">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-semibold text-gray-700">실제 기록 비교 (Recording)</span>
+            <label className="px-2 py-1 rounded border bg-white text-gray-600 font-bold flex items-center gap-1 cursor-pointer hover:bg-gray-100">
+              <Upload className="w-3 h-3" />
+              파일 선택 (.hea + .dat / .csv)
+              <input
+                type="file"
+                multiple
+                accept=".hea,.dat,.csv,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  handleRecordingFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {recording && (
+              <>
+                <select
+                  value={recordingLead}
+                  onChange={(e) => setRecordingLead(parseInt(e.target.value, 10))}
+                  className="p-1 border rounded"
+                >
+                  {recording.leads.map((lead, i) => (
+                    <option key={`${lead}-${i}`} value={i}>{lead}</option>
+                  ))}
+                </select>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setCompareMode('sideBySide')}
+                    className={`px-2 py-0.5 rounded font-bold ${compareMode === 'sideBySide' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+                  >
+                    나란히
+                  </button>
+                  <button
+                    onClick={() => setCompareMode('overlay')}
+                    className={`px-2 py-0.5 rounded font-bold ${compareMode === 'overlay' ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+                  >
+                    겹쳐 보기
+                  </button>
+                </div>
+                <button
+                  onClick={() => setRecording(null)}
+                  className="ml-auto p-1 rounded text-gray-500 hover:bg-gray-200"
+                  title="기록 닫기"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </>
+            )}
+          </div>
+          {recording && (
+            <div>
+              <label className="block text-gray-600 mb-1">
+                구간 시작 (Window): {recordingStart.toFixed(1)} s / {recordingDuration(recording).toFixed(1)} s · {Math.round(recording.samplingRate)} Hz
+              </label>
+              <input
+                type="range" min="0" max={recordingMaxStart} step="0.1"
+                value={Math.min(recordingStart, recordingMaxStart)}
+                onChange={(e) => setRecordingStart(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          )}
+          {recordingError && (
+            <div className="text-red-600 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" />
+              {recordingError}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 컨트롤 패널 */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* 왼쪽: 프리셋 선택 */}
@@ -280,9 +887,9 @@ export default function ECGSimulator() {
             {Object.entries(PRESETS).map(([key, preset]) => (
               <button
                 key={key}
-                onClick={() => setSelectedPreset(key)}
+                onClick={() => selectPreset(key)}
                 className={`w-full text-left p-3 rounded-lg text-sm transition-all border ${
-                  selectedPreset === key 
+                  !customPreset && selectedPreset === key 
                     ? 'bg-blue-50 border-blue-500 ring-1 ring-blue-500' 
                     : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
                 }`}
@@ -292,6 +899,16 @@ export default function ECGSimulator() {
               </button>
             ))}
           </div>
+          <div className="pt-3 border-t">
+            <PresetLibrary
+              simulator="ecg"
+              schema={ECG_PARAMS_SCHEMA}
+              params={params}
+              activeId={customPreset?.id}
+              onApply={applyCustomPreset}
+              onDelete={(id) => setCustomPreset(prev => (prev?.id === id ? null : prev))}
+            />
+          </div>
         </div>
 
         {/* 오른쪽: 파라미터 미세 조정 */}
@@ -302,7 +919,7 @@ export default function ECGSimulator() {
               파라미터 미세 조정
             </div>
             <button 
-              onClick={() => setParams(PRESETS[selectedPreset].params)}
+              onClick={() => setParams(customPreset ? customPreset.params : PRESETS[selectedPreset].params)}
               className="text-xs flex items-center gap-1 text-blue-600 hover:text-blue-800"
             >
               <RefreshCw className="w-3 h-3" />
@@ -377,23 +994,180 @@ export default function ECGSimulator() {
               />
             </div>
             
-            {/* 노이즈 레벨 */}
+            {/* 파형 생성 모델: 가우스 합 / 동역학 ODE (ECGSYN) */}
+            <div className="sm:col-span-2 grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">파형 모델 (Generator)</label>
+                <div className="flex gap-1 text-xs">
+                  {ECG_GENERATORS.map(generator => (
+                    <button
+                      key={generator}
+                      onClick={() => setParams(p => ({ ...p, generator }))}
+                      className={`flex-1 px-2 py-1 rounded font-bold ${(params.generator ?? 'gaussian') === generator ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+                    >
+                      {ECG_GENERATOR_LABELS[generator]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">심박 변동 (HR SD): {params.hrStd ?? DEFAULT_HR_STD} BPM</label>
+                <input 
+                  type="range" min="0" max="10" step="0.5" 
+                  value={params.hrStd ?? DEFAULT_HR_STD} 
+                  disabled={params.generator !== 'ecgsyn'}
+                  onChange={(e) => handleParamChange('hrStd', e.target.value)}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">LF/HF (Mayer/RSA): {params.lfHfRatio ?? DEFAULT_LF_HF_RATIO}</label>
+                <input 
+                  type="range" min="0.1" max="4" step="0.1" 
+                  value={params.lfHfRatio ?? DEFAULT_LF_HF_RATIO} 
+                  disabled={params.generator !== 'ecgsyn'}
+                  onChange={(e) => handleParamChange('lfHfRatio', e.target.value)}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+                />
+              </div>
+              {params.generator === 'ecgsyn' && (
+                <p className="sm:col-span-3 text-[11px] text-gray-500">
+                  ECGSYN은 동성 리듬만 만듭니다. 기본 리듬, 이소성 박동, 방실 차단, 심박조율기 설정과 파형 편집기의 위치·폭은 적용되지 않습니다.
+                </p>
+              )}
+            </div>
+
+            {/* 리듬 엔진: 기본 리듬, 이소성 박동, 방실 차단 */}
+            <div className="sm:col-span-2 grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">기본 리듬 (Rhythm)</label>
+                <select
+                  value={params.rhythm ?? 'sinus'}
+                  onChange={(e) => setParams(p => ({ ...p, rhythm: e.target.value as RhythmKind }))}
+                  className="w-full p-1 border rounded text-xs"
+                >
+                  <option value="sinus">동성 (Sinus)</option>
+                  <option value="afib">심방 세동 (AF)</option>
+                  <option value="junctional">접합부 (Junctional)</option>
+                  <option value="vtach">심실 빈맥 (VT)</option>
+                  <option value="vfib">심실 세동 (VF)</option>
+                  <option value="asystole">무수축 (Asystole)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">이소성 박동 (Ectopy)</label>
+                <select
+                  value={params.ectopy ?? 'none'}
+                  onChange={(e) => setParams(p => ({ ...p, ectopy: e.target.value as Ectopy }))}
+                  className="w-full p-1 border rounded text-xs"
+                >
+                  <option value="none">없음</option>
+                  <option value="pvc">산발성 PVC</option>
+                  <option value="bigeminy">이단맥 (Bigeminy)</option>
+                  <option value="trigeminy">삼단맥 (Trigeminy)</option>
+                  <option value="pac">산발성 PAC</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">방실 차단 (AV Block)</label>
+                <select
+                  value={params.avBlock ?? 'none'}
+                  onChange={(e) => setParams(p => ({ ...p, avBlock: e.target.value as AvBlock }))}
+                  className="w-full p-1 border rounded text-xs"
+                >
+                  <option value="none">없음</option>
+                  <option value="first">1도</option>
+                  <option value="mobitz1">2도 Mobitz I</option>
+                  <option value="mobitz2">2도 Mobitz II</option>
+                  <option value="complete">3도 (완전)</option>
+                </select>
+              </div>
+            </div>
+
+            {/* PR 간격 */}
             <div>
-              <label className="block text-xs font-medium text-gray-600 mb-1">노이즈 (Artifacts): {params.noise}</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">PR 간격 (PR Interval): {(params.prInterval ?? DEFAULT_PR_INTERVAL).toFixed(2)} s</label>
               <input 
-                type="range" min="0" max="0.5" step="0.01" 
-                value={params.noise} 
-                onChange={(e) => handleParamChange('noise', e.target.value)}
+                type="range" min="0.1" max="0.4" step="0.02" 
+                value={params.prInterval ?? DEFAULT_PR_INTERVAL} 
+                onChange={(e) => handleParamChange('prInterval', e.target.value)}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
               />
             </div>
+
+            {/* 이탈 박동수 (완전 방실 차단) */}
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">이탈 박동수 (Escape Rate): {params.escapeRate ?? 40} BPM</label>
+              <input 
+                type="range" min="20" max="60" step="1" 
+                value={params.escapeRate ?? 40} 
+                disabled={params.avBlock !== 'complete'}
+                onChange={(e) => handleParamChange('escapeRate', e.target.value)}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-40"
+              />
+            </div>
+
+            {/* 전기축 */}
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">QRS 전기축 (Axis): {params.axis ?? NORMAL_AXIS}°</label>
+              <input 
+                type="range" min="-90" max="180" step="5" 
+                value={params.axis ?? NORMAL_AXIS} 
+                onChange={(e) => handleParamChange('axis', e.target.value)}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+
+            {/* 전도 유형 및 ST 부위 (12유도에서 차이가 드러남) */}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">전도 (Conduction)</label>
+                <select
+                  value={params.conduction ?? 'normal'}
+                  onChange={(e) => setParams(p => ({ ...p, conduction: e.target.value as Conduction }))}
+                  className="w-full p-1 border rounded text-xs"
+                >
+                  <option value="normal">정상</option>
+                  <option value="RBBB">우각 차단 (RBBB)</option>
+                  <option value="LBBB">좌각 차단 (LBBB)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">ST 부위 (Territory)</label>
+                <select
+                  value={params.stTerritory ?? ''}
+                  onChange={(e) => setParams(p => ({ ...p, stTerritory: (e.target.value || undefined) as StTerritory | undefined }))}
+                  className="w-full p-1 border rounded text-xs"
+                >
+                  <option value="">II 유도 방향</option>
+                  <option value="inferior">하벽 (II, III, aVF)</option>
+                  <option value="anterior">전벽 (V1-V4)</option>
+                  <option value="lateral">측벽 (I, aVL, V5-V6)</option>
+                </select>
+              </div>
+            </div>
+            {/* 파형 편집기: 한 박동의 P-QRS-T 모양을 손잡이로 직접 바꿈 */}
+            <div className="sm:col-span-2 pt-2 border-t">
+              <div className="text-xs font-semibold text-gray-700 mb-2">파형 편집기 (Waveform Editor)</div>
+              <WaveformEditor params={params} onChange={(changes) => setParams(p => ({ ...p, ...changes }))} />
+            </div>
+            {/* 잡음/인공물: 원인별로 따로 섞음 */}
+            <div className="sm:col-span-2 pt-2 border-t">
+              <div className="text-xs font-semibold text-gray-700 mb-2">잡음 · 인공물 (Artifacts)</div>
+              <ArtifactControls levels={params.artifacts} onChange={(artifacts) => setParams(p => ({ ...p, artifacts }))} />
+            </div>
+            {/* 심박조율기: 리듬 엔진 안의 또 하나의 조율부위 */}
+            <div className="sm:col-span-2 pt-2 border-t">
+              <div className="text-xs font-semibold text-gray-700 mb-2">심박조율기 (Pacemaker)</div>
+              <PacemakerControls pacemaker={params.pacemaker} onChange={(pacemaker) => setParams(p => ({ ...p, pacemaker }))} />
+            </div>
           </div>
 
           <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800 flex items-start gap-2">
             <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
             <p>
               이 시뮬레이터는 문서 내용을 바탕으로 한 수학적 모델입니다. 실제 의료 진단용으로 사용할 수 없습니다.
-              파라미터를 조절하여 문서에 설명된 'R on T', '고칼륨혈증(Tall T)', '저칼륨혈증(U wave)' 등을 재현해볼 수 있습니다.
+              파라미터를 조절하여 문서에 설명된 &apos;R on T&apos;, &apos;고칼륨혈증(Tall T)&apos;, &apos;저칼륨혈증(U wave)&apos; 등을 재현해볼 수 있습니다.
             </p>
           </div>
         </div>
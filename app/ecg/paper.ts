@@ -0,0 +1,63 @@
+import type { CSSProperties } from 'react';
+import { EcgPoint } from '@/lib/ecg/model';
+
+/**
+ * 심전도 기록지 (ECG Paper)
+ * 작은 칸 1mm, 큰 칸 5mm. 기록 속도(mm/s)와 감도(mm/mV)에 따라
+ * 칸 하나가 나타내는 시간과 전압이 정해집니다. (25 mm/s, 10 mm/mV → 작은 칸 0.04초, 0.1mV)
+ */
+export type PaperSpeed = 12.5 | 25 | 50;
+export type PaperGain = 5 | 10 | 20;
+
+export const PAPER_SPEEDS: PaperSpeed[] = [12.5, 25, 50];
+export const PAPER_GAINS: PaperGain[] = [5, 10, 20];
+
+export const DEFAULT_SPEED: PaperSpeed = 25;
+export const DEFAULT_GAIN: PaperGain = 10;
+
+// 화면에 보이는 기록지 크기 (mm). 가로세로 비율이 고정되어 있어 칸이 항상 정사각형입니다.
+export const STRIP_WIDTH_MM = 110;
+export const STRIP_HEIGHT_MM = 40;
+// 스트립 왼쪽의 교정 파형 자리와 기저선 높이 (mm)
+const CALIBRATION_MM = 10;
+const BASELINE_MM = 15;
+
+/**
+ * 교정 파형 뒤에 그려지는 파형 구간의 길이 (초)
+ * @param {PaperSpeed} speed - 기록 속도 (mm/s)
+ */
+export const stripDuration = (speed: PaperSpeed) => (STRIP_WIDTH_MM - CALIBRATION_MM) / speed;
+
+/**
+ * 차트 가로축 범위: 0초 이전은 교정 파형 자리
+ * @param {PaperSpeed} speed - 기록 속도 (mm/s)
+ */
+export const timeDomain = (speed: PaperSpeed): [number, number] => [-CALIBRATION_MM / speed, stripDuration(speed)];
+
+/**
+ * 차트 세로축 범위 (mV): 기저선이 아래에서 BASELINE_MM 높이에 오도록 맞춤
+ * @param {PaperGain} gain - 감도 (mm/mV)
+ */
+export const voltageDomain = (gain: PaperGain): [number, number] => [-BASELINE_MM / gain, (STRIP_HEIGHT_MM - BASELINE_MM) / gain];
+
+/**
+ * 1mV 교정 파형 (Calibration Pulse): 기저선 2mm → 1mV 사각파 5mm → 기저선
+ * 감도가 맞는지 확인하는 기준이므로 높이는 감도에 따라 5/10/20mm로 보입니다.
+ * @param {PaperSpeed} speed - 기록 속도 (mm/s)
+ */
+export const calibrationPulse = (speed: PaperSpeed): EcgPoint[] => {
+  const at = (mm: number) => (mm - CALIBRATION_MM) / speed;
+  return [
+    { time: at(0), voltage: 0 },
+    { time: at(2), voltage: 0 },
+    { time: at(2), voltage: 1 },
+    { time: at(7), voltage: 1 },
+    { time: at(7), voltage: 0 },
+    { time: at(CALIBRATION_MM), voltage: 0 },
+  ];
+};
+
+// 기록지 영역 스타일 (가로세로 비율을 mm 크기에 맞춤)
+export const paperStyle: CSSProperties = {
+  aspectRatio: `${STRIP_WIDTH_MM} / ${STRIP_HEIGHT_MM}`,
+};
@@ -0,0 +1,230 @@
+import { EcgParams, PRESETS, PacerFault, PresetKey } from '@/lib/ecg/model';
+import { PACED_QRS_DELAY, lowerRateInterval } from '@/lib/ecg/pacemaker';
+import { createEcgStream, readEcgSamples } from '@/lib/ecg/stream';
+import { RandomSource, createRandom, randomSeed } from '@/lib/random';
+import { DEFAULT_SPEED, stripDuration } from './paper';
+
+/**
+ * 리듬 판독 퀴즈 (Rhythm Recognition Quiz)
+ * 프리셋을 문제로 쓰되 심박수, 진폭 등을 임상적으로 그럴듯한 범위 안에서 흔들어
+ * 같은 리듬도 매번 조금씩 다른 모양으로 출제합니다.
+ */
+
+// 리듬별 누적 성적 (localStorage에 저장)
+export type QuizRecord = {
+  attempts: number;
+  correct: number;
+};
+
+export type QuizStats = Record<string, QuizRecord>;
+
+// 출제되는 한 문제 (파형은 seed로 다시 만들 수 있음)
+export type QuizQuestion = {
+  key: PresetKey;
+  params: EcgParams;
+  seed: number;
+};
+
+const QUIZ_STORAGE_KEY = 'ecg-quiz-stats';
+
+export const QUIZ_SAMPLING_RATE = 100; // Hz
+export const QUIZ_STRIP_ROWS = 2; // 기록지 두 줄 (25 mm/s에서 8초 리듬 스트립)
+export const QUIZ_ROW_DURATION = stripDuration(DEFAULT_SPEED);
+
+// II 유도 한 줄만으로는 구분할 수 없는 프리셋(전흉부 유도가 필요한 것)은 출제하지 않음
+export const QUIZ_KEYS: PresetKey[] = Object.keys(PRESETS).filter(
+  key => !['ANTERIOR_STEMI', 'RBBB', 'LBBB'].includes(key),
+);
+
+// 리듬 정의를 벗어나지 않는 심박수 범위 (BPM)
+const BPM_RANGES: Record<string, [number, number]> = {
+  NORMAL: [62, 95],
+  TACHYCARDIA: [105, 150],
+  BRADYCARDIA: [38, 55],
+  AFIB: [75, 140],
+  JUNCTIONAL: [40, 58],
+  VTACH: [150, 210],
+  MOBITZ1: [70, 95],
+  MOBITZ2: [70, 95],
+  CHB: [70, 100],
+  PACED_AAI: [35, 55], // 자발 박동이 하한 박동수보다 느려야 조율이 보임
+};
+const DEFAULT_BPM_RANGE: [number, number] = [60, 95];
+
+// 잘 맞히는 리듬도 가끔은 나오도록 하는 최소 가중치
+const MIN_WEIGHT = 0.1;
+
+// 리듬을 정의하는 사건이 스트립에 나오지 않으면 새 시드로 다시 만드는 최대 횟수
+const MAX_QUESTION_ATTEMPTS = 50;
+// 스파이크마다 확률적으로만 나타나는 조율기 오작동
+const RANDOM_PACER_FAULTS: PacerFault[] = ['noCapture', 'oversensing', 'noOutput'];
+// 조율 간격의 이 배수보다 긴 심실 휴지기는 조율이 빠진 것으로 봄 (출력 없음, 과다 감지)
+const PACING_PAUSE_RATIO = 1.2;
+
+const uniform = (random: RandomSource, min: number, max: number) => min + (max - min) * random();
+
+// 진폭을 ±ratio 비율로 흔듦 (부호는 유지)
+const jitter = (random: RandomSource, value: number, ratio: number) => value * uniform(random, 1 - ratio, 1 + ratio);
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * 프리셋 파라미터를 임상적으로 그럴듯한 범위 안에서 무작위로 변형
+ * 리듬을 결정하는 설정(rhythm, ectopy, avBlock 등)은 그대로 두고 모양과 속도만 바꿉니다.
+ * @param {PresetKey} key - 정답 프리셋
+ * @param {RandomSource} random - 난수 생성기
+ */
+export const randomizeQuizParams = (key: PresetKey, random: RandomSource): EcgParams => {
+  const base = PRESETS[key].params;
+  // 심박수가 0인 리듬(심실 세동, 무수축)은 진폭 위주로만 변형
+  if (base.bpm === 0) {
+    return { ...base, artifacts: { ...base.artifacts, emg: round(jitter(random, base.artifacts.emg, 0.2), 3) } };
+  }
+
+  const [minBpm, maxBpm] = BPM_RANGES[key] ?? DEFAULT_BPM_RANGE;
+  const params: EcgParams = {
+    ...base,
+    bpm: Math.round(uniform(random, minBpm, maxBpm)),
+    pAmp: round(jitter(random, base.pAmp, 0.2), 3),
+    qAmp: round(jitter(random, base.qAmp, 0.2), 3),
+    rAmp: round(jitter(random, base.rAmp, 0.2), 3),
+    sAmp: round(jitter(random, base.sAmp, 0.2), 3),
+    tAmp: round(jitter(random, base.tAmp, 0.15), 3),
+    axis: Math.round(uniform(random, 30, 75)),
+  };
+
+  if (base.avBlock === 'first') params.prInterval = round(uniform(random, 0.24, 0.36), 2);
+  if (base.avBlock === 'mobitz1') params.blockRatio = 3 + Math.floor(random() * 3);
+  if (base.avBlock === 'mobitz2') params.blockRatio = 3 + Math.floor(random() * 2);
+  if (base.avBlock === 'complete') params.escapeRate = Math.round(uniform(random, 28, 45));
+  if (base.ectopyRate !== undefined) params.ectopyRate = round(uniform(random, 0.15, 0.3), 2);
+  if (base.stElevation > 0) params.stElevation = round(uniform(random, 0.2, 0.45), 2);
+  return params;
+};
+
+/**
+ * 리듬별 출제 가중치: 틀린 비율이 높을수록 자주 출제
+ * 라플라스 평활로 아직 풀지 않은 리듬은 0.5에서 시작합니다.
+ * @param {QuizRecord | undefined} record - 해당 리듬의 누적 성적
+ */
+export const quizWeight = (record?: QuizRecord): number => {
+  const attempts = record?.attempts ?? 0;
+  const misses = attempts - (record?.correct ?? 0);
+  return Math.max(MIN_WEIGHT, (misses + 1) / (attempts + 2));
+};
+
+/**
+ * 다음 문제의 리듬을 가중치에 따라 선택 (직전 문제와 같은 리듬은 피함)
+ * @param {QuizStats} stats - 리듬별 누적 성적
+ * @param {RandomSource} random - 난수 생성기
+ * @param {PresetKey} previous - 직전 문제의 리듬
+ */
+export const pickQuizKey = (stats: QuizStats, random: RandomSource, previous?: PresetKey): PresetKey => {
+  const candidates = QUIZ_KEYS.filter(key => key !== previous);
+  const weights = candidates.map(key => quizWeight(stats[key]));
+  let target = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < candidates.length; i++) {
+    target -= weights[i];
+    if (target < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+};
+
+/**
+ * 문제 스트립 길이만큼 화면과 같은 시드로 생성했을 때의 리듬 이벤트
+ * @param {EcgParams} params - 문제 파라미터
+ * @param {number} seed - 문제 시드
+ */
+const stripEvents = (params: EcgParams, seed: number) => {
+  const duration = QUIZ_STRIP_ROWS * QUIZ_ROW_DURATION;
+  const stream = createEcgStream(QUIZ_SAMPLING_RATE, params, createRandom(seed));
+  readEcgSamples(stream, params, duration * QUIZ_SAMPLING_RATE);
+  return stream.events.filter(e => e.time < duration);
+};
+
+/**
+ * 문제 스트립에 리듬을 정의하는 사건이 보이는지
+ * 산발성 조기 박동과 조율기 오작동은 확률적으로만 나타나므로, 화면에 없으면 정상 리듬과 구분할 수 없습니다.
+ * @param {QuizQuestion} question - 검사할 문제
+ */
+const showsDefiningEvent = ({ params, seed }: QuizQuestion): boolean => {
+  if (params.ectopy === 'pvc' || params.ectopy === 'pac') {
+    const beatType = params.ectopy === 'pvc' ? 'V' : 'A';
+    return stripEvents(params, seed).some(e => e.wave === 'QRS' && e.beatType === beatType);
+  }
+
+  const pacemaker = params.pacemaker;
+  if (!pacemaker || !RANDOM_PACER_FAULTS.includes(pacemaker.fault)) return true;
+  const events = stripEvents(params, seed);
+  const qrs = events.filter(e => e.wave === 'QRS');
+  if (pacemaker.fault === 'noCapture') {
+    // 스파이크 뒤에 조율된 QRS가 따라오지 않음
+    return events.some(e => e.wave === 'PACE'
+      && !qrs.some(q => Math.abs(q.time - e.time - PACED_QRS_DELAY) < 1e-6)
+      && e.time + PACED_QRS_DELAY < QUIZ_STRIP_ROWS * QUIZ_ROW_DURATION);
+  }
+  // 출력 없음과 과다 감지는 스파이크 없이 조율 간격보다 긴 휴지기로 나타남 (이탈 박동이 먼저 끼어들 수 있음)
+  const pause = lowerRateInterval(pacemaker) * PACING_PAUSE_RATIO;
+  return qrs.some((e, i) => i > 0 && e.time - qrs[i - 1].time > pause);
+};
+
+/**
+ * 새 문제 만들기: 새 시드 하나로 리듬 선택, 파라미터 변형, 파형 노이즈를 모두 결정
+ * 리듬을 정의하는 사건(조기 박동, 조율기 오작동)이 스트립에 없으면 같은 리듬을 새 시드로 다시 만듭니다.
+ * @param {QuizStats} stats - 리듬별 누적 성적
+ * @param {PresetKey} previous - 직전 문제의 리듬
+ */
+export const createQuizQuestion = (stats: QuizStats, previous?: PresetKey): QuizQuestion => {
+  const seed = randomSeed();
+  const random = createRandom(seed);
+  const key = pickQuizKey(stats, random, previous);
+  let question: QuizQuestion = { key, params: randomizeQuizParams(key, random), seed };
+  for (let attempt = 1; attempt < MAX_QUESTION_ATTEMPTS && !showsDefiningEvent(question); attempt++) {
+    const retrySeed = randomSeed();
+    question = { key, params: randomizeQuizParams(key, createRandom(retrySeed)), seed: retrySeed };
+  }
+  return question;
+};
+
+/**
+ * 답안 기록 (원래 객체는 바꾸지 않음)
+ * @param {QuizStats} stats - 리듬별 누적 성적
+ * @param {PresetKey} key - 출제된 리듬
+ * @param {boolean} correct - 정답 여부
+ */
+export const recordQuizAnswer = (stats: QuizStats, key: PresetKey, correct: boolean): QuizStats => {
+  const prev = stats[key] ?? { attempts: 0, correct: 0 };
+  return { ...stats, [key]: { attempts: prev.attempts + 1, correct: prev.correct + (correct ? 1 : 0) } };
+};
+
+/**
+ * 저장된 성적 불러오기 (없거나 손상되었으면 빈 성적)
+ */
+export const loadQuizStats = (): QuizStats => {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(QUIZ_STORAGE_KEY) ?? '{}');
+    if (!parsed || typeof parsed !== 'object') return {};
+    const stats: QuizStats = {};
+    Object.entries(parsed as Record<string, unknown>).forEach(([key, value]) => {
+      const record = value as Partial<QuizRecord> | null;
+      if (key in PRESETS && typeof record?.attempts === 'number' && typeof record?.correct === 'number') {
+        stats[key] = { attempts: record.attempts, correct: record.correct };
+      }
+    });
+    return stats;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 성적 저장 (저장 공간이 막혀 있으면 이번 세션에서만 유지)
+ * @param {QuizStats} stats - 리듬별 누적 성적
+ */
+export const saveQuizStats = (stats: QuizStats) => {
+  try {
+    window.localStorage.setItem(QUIZ_STORAGE_KEY, JSON.stringify(stats));
+  } catch {
+    // 사생활 보호 모드 등에서는 저장하지 않음
+  }
+};
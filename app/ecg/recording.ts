@@ -0,0 +1,261 @@
+import { EcgPoint } from '@/lib/ecg/model';
+
+/**
+ * 불러온 실제 심전도 기록
+ * 신호는 유도별로 물리 단위(mV)로 변환해서 보관합니다.
+ */
+export type Recording = {
+  name: string;
+  samplingRate: number;   // Hz
+  leads: string[];        // 유도 이름 (MLII, V5 등)
+  signals: Float32Array[]; // leads와 같은 순서
+  length: number;         // 유도당 샘플 수
+};
+
+/**
+ * WFDB 헤더(.hea)의 신호 한 줄
+ * 예: 100.dat 212 200 11 1024 995 -22131 0 MLII
+ */
+type WfdbSignalSpec = {
+  fileName: string;
+  format: 16 | 212;
+  byteOffset: number;
+  gain: number;      // ADC 단위 / 물리 단위
+  baseline: number;  // 0 mV에 해당하는 ADC 값
+  unitScale: number; // 물리 단위 → mV
+  description: string;
+};
+
+type WfdbHeader = {
+  name: string;
+  samplingRate: number;
+  length: number | null; // 헤더에 없으면 신호 파일 크기로 계산
+  signals: WfdbSignalSpec[];
+};
+
+const DEFAULT_WFDB_RATE = 250;
+const DEFAULT_ADC_GAIN = 200;
+
+// 단위 문자열 → mV 환산 계수
+const UNIT_SCALES: Record<string, number> = { mV: 1, uV: 0.001, 'µV': 0.001, V: 1000 };
+
+/**
+ * WFDB 헤더 파일을 해석합니다. (형식 16, 212만 지원)
+ * @param {string} text - .hea 파일 내용
+ */
+export const parseWfdbHeader = (text: string): WfdbHeader => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'));
+  if (lines.length === 0) throw new Error('헤더 파일이 비어 있습니다.');
+
+  // 레코드 줄: 이름[/세그먼트] 신호수 [주파수[/카운터[(기준)]] [샘플수 ...]]
+  const [recordField, nsigField, fsField, lengthField] = lines[0].split(/\s+/);
+  if (recordField.includes('/')) throw new Error('여러 세그먼트로 나뉜 레코드는 지원하지 않습니다.');
+  const signalCount = parseInt(nsigField, 10);
+  if (!Number.isFinite(signalCount) || signalCount < 1) throw new Error('헤더에 신호 개수가 없습니다.');
+
+  const samplingRate = fsField ? parseFloat(fsField.split('/')[0]) : DEFAULT_WFDB_RATE;
+  const length = lengthField ? parseInt(lengthField, 10) : null;
+
+  const signals = lines.slice(1, 1 + signalCount).map((line, i): WfdbSignalSpec => {
+    const fields = line.split(/\s+/);
+    const [fileName, formatField = '', gainField = ''] = fields;
+
+    // 형식[x샘플수][:스큐][+오프셋]
+    const formatMatch = formatField.match(/^(\d+)(x\d+)?(:\d+)?(\+\d+)?$/);
+    const format = formatMatch ? parseInt(formatMatch[1], 10) : NaN;
+    if (format !== 16 && format !== 212) throw new Error(`지원하지 않는 신호 형식입니다: ${formatField} (16, 212만 가능)`);
+    if (formatMatch?.[2] && formatMatch[2] !== 'x1') throw new Error('프레임당 여러 샘플(x 표기)은 지원하지 않습니다.');
+
+    // ADC 이득[(기준선)][/단위]
+    const gainMatch = gainField.match(/^([\d.eE+-]+)(?:\((-?\d+)\))?(?:\/(\S+))?$/);
+    const parsedGain = gainMatch ? parseFloat(gainMatch[1]) : NaN;
+    const adcZero = fields[4] !== undefined ? parseInt(fields[4], 10) : 0;
+    const baseline = gainMatch?.[2] !== undefined ? parseInt(gainMatch[2], 10) : adcZero;
+    const unit = gainMatch?.[3] ?? 'mV';
+
+    return {
+      fileName,
+      format,
+      byteOffset: formatMatch?.[4] ? parseInt(formatMatch[4].slice(1), 10) : 0,
+      gain: parsedGain > 0 ? parsedGain : DEFAULT_ADC_GAIN,
+      baseline: Number.isFinite(baseline) ? baseline : 0,
+      unitScale: UNIT_SCALES[unit] ?? 1,
+      description: fields.slice(8).join(' ') || `신호 ${i + 1}`,
+    };
+  });
+  if (signals.length < signalCount) throw new Error('헤더의 신호 줄 수가 신호 개수보다 적습니다.');
+
+  return { name: recordField, samplingRate, length, signals };
+};
+
+/**
+ * 한 신호 파일에 교대로(interleaved) 저장된 여러 신호의 ADC 값을 읽습니다.
+ * @param {ArrayBuffer} buffer - .dat 파일 내용
+ * @param {16 | 212} format - 저장 형식
+ * @param {number} byteOffset - 파일 앞부분에서 건너뛸 바이트 수
+ * @param {number} channels - 이 파일에 들어 있는 신호 수
+ */
+const readInterleaved = (buffer: ArrayBuffer, format: 16 | 212, byteOffset: number, channels: number): number[][] => {
+  const bytes = new Uint8Array(buffer, byteOffset);
+  const values: number[] = [];
+
+  if (format === 16) {
+    // 16비트 2의 보수, 리틀 엔디언
+    const view = new DataView(buffer, byteOffset);
+    for (let i = 0; i + 1 < bytes.length; i += 2) values.push(view.getInt16(i, true));
+  } else {
+    // 212: 샘플 두 개(12비트씩)를 3바이트에 묶어 저장
+    const toSigned = (v: number) => (v & 0x800 ? v - 0x1000 : v);
+    for (let i = 0; i + 2 < bytes.length; i += 3) {
+      values.push(toSigned(bytes[i] | ((bytes[i + 1] & 0x0f) << 8)));
+      values.push(toSigned(bytes[i + 2] | ((bytes[i + 1] & 0xf0) << 4)));
+    }
+  }
+
+  const frames = Math.floor(values.length / channels);
+  return Array.from({ length: channels }, (_, c) => {
+    const channel: number[] = new Array(frames);
+    for (let f = 0; f < frames; f++) channel[f] = values[f * channels + c];
+    return channel;
+  });
+};
+
+// 형식별 결측값 (WFDB에서 해당 샘플이 없음을 뜻함)
+const INVALID_SAMPLE: Record<16 | 212, number> = { 16: -32768, 212: -2048 };
+
+/**
+ * WFDB 레코드(헤더 + 신호 파일)를 불러옵니다.
+ * @param {string} headerText - .hea 파일 내용
+ * @param {Record<string, ArrayBuffer>} dataFiles - 파일 이름별 .dat 파일 내용
+ */
+export const parseWfdbRecord = (headerText: string, dataFiles: Record<string, ArrayBuffer>): Recording => {
+  const header = parseWfdbHeader(headerText);
+
+  // 같은 파일을 쓰는 신호끼리 묶어서 한 번에 읽음
+  const fileNames = [...new Set(header.signals.map(s => s.fileName))];
+  const adcBySignal: number[][] = [];
+  fileNames.forEach(fileName => {
+    const specs = header.signals.filter(s => s.fileName === fileName);
+    const buffer = dataFiles[fileName];
+    if (!buffer) throw new Error(`신호 파일 ${fileName}이(가) 없습니다. 헤더와 함께 선택해 주세요.`);
+    const channels = readInterleaved(buffer, specs[0].format, specs[0].byteOffset, specs.length);
+    header.signals.forEach((spec, i) => {
+      if (spec.fileName === fileName) adcBySignal[i] = channels[specs.indexOf(spec)];
+    });
+  });
+
+  const available = Math.min(...adcBySignal.map(channel => channel.length));
+  const length = header.length !== null && header.length > 0 ? Math.min(header.length, available) : available;
+
+  const signals = header.signals.map((spec, i) => {
+    const adc = adcBySignal[i];
+    const signal = new Float32Array(length);
+    let last = 0;
+    for (let k = 0; k < length; k++) {
+      // 결측 샘플은 직전 값으로 채움
+      if (adc[k] !== INVALID_SAMPLE[spec.format]) last = ((adc[k] - spec.baseline) / spec.gain) * spec.unitScale;
+      signal[k] = last;
+    }
+    return signal;
+  });
+
+  return {
+    name: header.name,
+    samplingRate: header.samplingRate,
+    leads: header.signals.map(s => s.description),
+    signals,
+    length,
+  };
+};
+
+// CSV 칸에서 따옴표 제거
+const unquote = (cell: string) => cell.trim().replace(/^['"]|['"]$/g, '').trim();
+
+/**
+ * 시간 칸 해석: 초 단위 숫자 또는 PhysioNet 형식의 [h:]m:ss.mmm
+ */
+const parseTime = (cell: string): number => {
+  if (!cell.includes(':')) return parseFloat(cell);
+  return cell.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+/**
+ * 시간 열이 있는 CSV 기록을 불러옵니다.
+ * 첫 열은 시간(초 또는 m:ss.mmm), 나머지 열은 유도별 전압(mV)입니다.
+ * 머리글 줄과 PhysioNet 내보내기의 단위 줄은 자동으로 건너뜁니다.
+ * @param {string} text - CSV 파일 내용
+ * @param {string} name - 기록 이름 (파일 이름)
+ */
+export const parseCsvRecording = (text: string, name: string): Recording => {
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => line.split(/[,;\t]/).map(unquote));
+
+  const isNumeric = (cell: string) => cell !== '' && Number.isFinite(parseTime(cell));
+  const firstData = rows.findIndex(row => row.length >= 2 && row.every(isNumeric));
+  if (firstData < 0) throw new Error('CSV에서 숫자 데이터를 찾을 수 없습니다.');
+
+  const columnCount = rows[firstData].length;
+  const headerRow = firstData > 0 ? rows[0] : [];
+  const leads = Array.from({ length: columnCount - 1 }, (_, i) => headerRow[i + 1] || `ch${i + 1}`);
+
+  const dataRows = rows.slice(firstData).filter(row => row.length >= columnCount && row.every(isNumeric));
+  const times = dataRows.map(row => parseTime(row[0]));
+
+  // 샘플링 주파수는 시간 간격의 중앙값으로 추정
+  const steps = times.slice(1).map((t, i) => t - times[i]).filter(dt => dt > 0).sort((a, b) => a - b);
+  if (steps.length === 0) throw new Error('시간 열에서 샘플 간격을 알 수 없습니다.');
+  const samplingRate = 1 / steps[Math.floor(steps.length / 2)];
+
+  const signals = leads.map((_, c) => Float32Array.from(dataRows, row => parseFloat(row[c + 1])));
+
+  return { name, samplingRate, leads, signals, length: dataRows.length };
+};
+
+/**
+ * 사용자가 고른 파일들로부터 기록을 불러옵니다.
+ * .hea 파일이 있으면 WFDB 레코드로, 없으면 첫 번째 CSV 파일로 해석합니다.
+ * @param {File[]} files - 파일 선택 창에서 고른 파일들
+ */
+export const loadRecordingFiles = async (files: File[]): Promise<Recording> => {
+  const header = files.find(file => file.name.toLowerCase().endsWith('.hea'));
+  if (header) {
+    const dataFiles: Record<string, ArrayBuffer> = {};
+    for (const file of files) {
+      if (file !== header) dataFiles[file.name] = await file.arrayBuffer();
+    }
+    return parseWfdbRecord(await header.text(), dataFiles);
+  }
+
+  const csv = files.find(file => /\.(csv|txt)$/i.test(file.name));
+  if (!csv) throw new Error('WFDB 헤더(.hea)와 신호 파일(.dat), 또는 CSV 파일을 선택해 주세요.');
+  return parseCsvRecording(await csv.text(), csv.name.replace(/\.[^.]+$/, ''));
+};
+
+/**
+ * 기록의 한 유도에서 원하는 구간을 잘라 차트용 데이터로 만듭니다.
+ * 시간은 구간 시작을 0초로 맞춥니다.
+ * @param {Recording} recording - 불러온 기록
+ * @param {number} lead - 유도 번호
+ * @param {number} start - 구간 시작 (초)
+ * @param {number} length - 구간 길이 (초)
+ */
+export const recordingWindow = (recording: Recording, lead: number, start: number, length: number): EcgPoint[] => {
+  const signal = recording.signals[lead];
+  const from = Math.max(0, Math.floor(start * recording.samplingRate));
+  const to = Math.min(recording.length, from + Math.round(length * recording.samplingRate));
+  const points: EcgPoint[] = [];
+  for (let i = from; i < to; i++) {
+    points.push({ time: (i - from) / recording.samplingRate, voltage: signal[i] });
+  }
+  return points;
+};
+
+/**
+ * 기록 전체 길이 (초)
+ */
+export const recordingDuration = (recording: Recording) => recording.length / recording.samplingRate;
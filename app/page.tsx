@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Activity, HeartPulse, Wind, Play, Pause, Settings, RefreshCw } from 'lucide-react';
+import { PRESETS } from '@/lib/ecg/model';
+import {
+  DEFAULT_PATIENT, MIN_PULSE_RATE, PatientState, isRatelessRhythm, patientEcgParams, patientPpgParams, patientVentilatorSettings,
+  withRhythm,
+} from '@/lib/patient';
+import { estimateBloodPressure, summarizePulseTransit } from '@/lib/pulseTransit';
+import { measureOximetry } from '@/lib/oximetry';
+import { SignalRequest } from '@/lib/signals';
+import { DenseSignal } from '@/lib/signals/dense';
+import { VENTILATOR_SAMPLING_RATE } from '@/lib/signals/ventilator';
+import { useGeneratedSignal } from '@/lib/signals/useGeneratedSignal';
+import { valueRange } from '@/lib/decimate';
+import { DEFAULT_SEED } from '@/lib/random';
+import MonitorTraces, { MonitorChannel } from '@/components/MonitorTraces';
+
+// 미리 생성해 흘려 보낼 버퍼 길이와 화면에 보이는 길이 (초)
+const BUFFER_SECONDS = 60;
+const WINDOW_SECONDS = 6;
+const ECG_SAMPLING_RATE = 250;
+
+const ECG_RANGE: [number, number] = [-1.2, 2];
+const PRESSURE_RANGE: [number, number] = [0, 40];
+const FLOW_RANGE: [number, number] = [-60, 60];
+
+type NumericField = Exclude<keyof PatientState, 'rhythm'>;
+
+// 환자 상태 슬라이더
+const PATIENT_SLIDERS: { key: NumericField; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: 'heartRate', label: '심박수 (Heart Rate)', unit: 'BPM', min: 30, max: 200, step: 1 },
+  { key: 'spO2', label: '산소포화도 (SpO2)', unit: '%', min: 70, max: 100, step: 1 },
+  { key: 'perfusion', label: '말초 관류 (Perfusion)', unit: 'x', min: 0, max: 2, step: 0.1 },
+  { key: 'transitTime', label: '맥파 전달 시간 (PTT)', unit: 's', min: 0.1, max: 0.4, step: 0.01 },
+  { key: 'respRate', label: '호흡수 (Resp. Rate)', unit: '/min', min: 6, max: 40, step: 1 },
+  { key: 'tidalVolume', label: '일회 호흡량 (Vt)', unit: 'mL', min: 200, max: 800, step: 10 },
+  { key: 'peep', label: 'PEEP', unit: 'cmH2O', min: 0, max: 20, step: 1 },
+  { key: 'compliance', label: '폐 유순도 (Compliance)', unit: 'mL/cmH2O', min: 10, max: 100, step: 1 },
+  { key: 'resistance', label: '기도 저항 (Resistance)', unit: 'cmH2O/L/s', min: 5, max: 50, step: 1 },
+];
+
+// 상세 시뮬레이터 화면
+const SIMULATOR_LINKS = [
+  { href: '/ecg', label: 'ECG 시뮬레이터', icon: HeartPulse },
+  { href: '/ppg', label: 'PPG 시뮬레이터', icon: Activity },
+  { href: '/res', label: '인공호흡기 그래프', icon: Wind },
+];
+
+const channelValues = (signal: DenseSignal | null, name: string) =>
+  signal?.channels.find(channel => channel.name === name)?.values ?? null;
+
+const maxOf = (values: ArrayLike<number>) => {
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) max = Math.max(max, values[i]);
+  return max;
+};
+
+type NumericTileProps = {
+  label: string;
+  value: string;
+  unit: string;
+  color: string;
+  detail?: string;
+};
+
+const NumericTile = ({ label, value, unit, color, detail }: NumericTileProps) => (
+  <div className="bg-black rounded-lg p-3 border border-gray-800" style={{ color }}>
+    <div className="flex justify-between text-xs font-bold">
+      <span>{label}</span>
+      <span className="opacity-70">{unit}</span>
+    </div>
+    <div className="text-4xl font-mono font-bold text-right leading-tight">{value}</div>
+    {detail && <div className="text-[11px] font-mono text-right opacity-80">{detail}</div>}
+  </div>
+);
+
+/**
+ * 다중 파라미터 환자 모니터
+ * 하나의 환자 상태로 ECG, 맥파(Pleth), 기도압/유량 파형과 수치를 함께 보여줍니다.
+ * 맥파는 심전도 박동마다 맥파 전달 시간(PTT) 뒤에 오므로, 리듬을 바꾸면 맥박과 맥박 결손까지 같이 바뀝니다.
+ */
+export default function PatientMonitor() {
+  const [patient, setPatient] = useState<PatientState>(DEFAULT_PATIENT);
+  const [running, setRunning] = useState(true);
+
+  // 심전도(II)와 맥파를 한 요청으로 만들어 박동 시각을 맞춤
+  const ppgRequest = useMemo((): SignalRequest => ({
+    modality: 'ppg',
+    params: patientPpgParams(patient),
+    duration: BUFFER_SECONDS,
+    samplingRate: ECG_SAMPLING_RATE,
+    seed: DEFAULT_SEED,
+    ecg: { params: patientEcgParams(patient), transitTime: patient.transitTime },
+  }), [patient]);
+  const ppg = useGeneratedSignal(ppgRequest);
+
+  // 박동수, 맥박수, PTT (맥파가 나오기 전에는 null)
+  const pulseTransit = useMemo(() => {
+    const pleth = channelValues(ppg.signal, 'IR');
+    if (!ppg.signal || !pleth) return null;
+    const rPeaks = ppg.signal.annotations.map(annotation => annotation.onset);
+    return summarizePulseTransit(rPeaks, pleth, ppg.signal.samplingRate, BUFFER_SECONDS);
+  }, [ppg.signal]);
+
+  // SpO2와 관류 지수는 Red/IR 파형에서 잼 (ratio-of-ratios)
+  const oximetry = useMemo(() => {
+    const ir = channelValues(ppg.signal, 'IR');
+    const red = channelValues(ppg.signal, 'Red');
+    return ppg.signal && ir && red ? measureOximetry(ir, red, ppg.signal.samplingRate) : null;
+  }, [ppg.signal]);
+
+  const ventilatorRequest = useMemo((): SignalRequest => ({
+    modality: 'ventilator',
+    params: patientVentilatorSettings(patient),
+    duration: BUFFER_SECONDS,
+    samplingRate: VENTILATOR_SAMPLING_RATE,
+    seed: DEFAULT_SEED,
+  }), [patient]);
+  const ventilator = useGeneratedSignal(ventilatorRequest);
+
+  const channels = useMemo((): MonitorChannel[] => {
+    const result: MonitorChannel[] = [];
+    const ecgValues = channelValues(ppg.signal, 'II');
+    if (ppg.signal && ecgValues) {
+      result.push({ label: 'II', color: '#4ade80', values: ecgValues, samplingRate: ppg.signal.samplingRate, range: ECG_RANGE, height: 120 });
+    }
+    const plethValues = channelValues(ppg.signal, 'IR');
+    if (ppg.signal && plethValues) {
+      result.push({ label: 'Pleth', color: '#22d3ee', values: plethValues, samplingRate: ppg.signal.samplingRate, range: valueRange(plethValues) });
+    }
+    const pressureValues = channelValues(ventilator.signal, 'Pressure');
+    const flowValues = channelValues(ventilator.signal, 'Flow');
+    if (ventilator.signal && pressureValues && flowValues) {
+      result.push({ label: 'Paw', color: '#fbbf24', values: pressureValues, samplingRate: ventilator.signal.samplingRate, range: PRESSURE_RANGE, height: 70 });
+      result.push({ label: 'Flow', color: '#e5e7eb', values: flowValues, samplingRate: ventilator.signal.samplingRate, range: FLOW_RANGE, height: 70 });
+    }
+    return result;
+  }, [ppg.signal, ventilator.signal]);
+
+  // 수치: 맥박이 없으면 SpO2, 맥박수, 혈압은 측정되지 않음 (---)
+  const pulseless = pulseTransit !== null && pulseTransit.pulseRate < MIN_PULSE_RATE;
+  const measuredSpO2 = pulseless ? null : oximetry?.spO2 ?? null;
+  const perfusionIndex = pulseless ? null : oximetry?.perfusionIndex ?? null;
+  const bloodPressure = pulseTransit?.ptt && !pulseless ? estimateBloodPressure(pulseTransit.ptt) : null;
+  const deficit = pulseTransit ? Math.round(pulseTransit.deficit) : 0;
+  const pressure = channelValues(ventilator.signal, 'Pressure');
+  const volume = channelValues(ventilator.signal, 'Volume');
+  const peakPressure = pressure ? maxOf(pressure) : null;
+  const deliveredVolume = volume ? maxOf(volume) : null;
+  const generating = ppg.generating || ventilator.generating;
+
+  const handleChange = (key: NumericField, value: number) => {
+    setPatient(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-6 bg-gray-50 rounded-xl shadow-lg font-sans">
+      {/* 헤더 */}
+      <div className="mb-6 border-b pb-4 flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Activity className="text-green-600" />
+            환자 모니터 (Patient Monitor)
+          </h1>
+          <p className="text-gray-600 text-sm mt-1">
+            하나의 환자 상태로 심전도, 맥파, 호흡 파형과 수치를 함께 보여줍니다.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {SIMULATOR_LINKS.map(({ href, label, icon: Icon }) => (
+            <Link
+              key={href}
+              href={href}
+              className="px-3 py-1.5 rounded-lg border bg-white text-gray-700 text-xs font-bold flex items-center gap-1 hover:bg-gray-100"
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {/* 파형과 수치 */}
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-3 mb-6 bg-gray-900 p-3 rounded-xl">
+        <div className={`lg:col-span-3 ${generating ? 'opacity-80' : ''}`}>
+          {channels.length > 0 ? (
+            <MonitorTraces channels={channels} windowSeconds={WINDOW_SECONDS} running={running} />
+          ) : (
+            <div className="h-80 flex items-center justify-center text-gray-500 text-sm">파형을 생성하는 중입니다…</div>
+          )}
+        </div>
+        <div className="grid grid-cols-2 lg:grid-cols-1 gap-2 content-start">
+          <NumericTile
+            label="HR"
+            value={pulseTransit === null ? '--' : Math.round(pulseTransit.heartRate).toString()}
+            unit="BPM"
+            color="#4ade80"
+            detail={deficit > 0 ? `${PRESETS[patient.rhythm].label} · 결손 ${deficit}` : PRESETS[patient.rhythm].label}
+          />
+          <NumericTile
+            label="SpO2"
+            value={measuredSpO2 === null ? '---' : Math.round(measuredSpO2).toString()}
+            unit="%"
+            color="#22d3ee"
+            detail={`PR ${pulseless || pulseTransit === null ? '---' : Math.round(pulseTransit.pulseRate)} · PI ${perfusionIndex === null ? '-' : perfusionIndex.toFixed(1)}`}
+          />
+          <NumericTile
+            label="BP (PTT)"
+            value={bloodPressure ? `${bloodPressure.systolic.toFixed(0)}/${bloodPressure.diastolic.toFixed(0)}` : '---'}
+            unit="mmHg"
+            color="#f87171"
+            detail={`(${bloodPressure ? bloodPressure.mean.toFixed(0) : '-'}) · PTT ${pulseTransit?.ptt && !pulseless ? (pulseTransit.ptt * 1000).toFixed(0) : '---'} ms`}
+          />
+          <NumericTile label="RR" value={patient.respRate.toString()} unit="/min" color="#fbbf24" />
+          <NumericTile
+            label="Ppeak"
+            value={peakPressure === null ? '--' : peakPressure.toFixed(0)}
+            unit="cmH2O"
+            color="#e5e7eb"
+            detail={`PEEP ${patient.peep} · Vt ${deliveredVolume === null ? '--' : deliveredVolume.toFixed(0)} mL`}
+          />
+        </div>
+      </div>
+
+      {/* 환자 상태 */}
+      <div className="bg-white p-4 rounded-lg border shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="font-bold text-gray-700 flex items-center gap-2">
+            <Settings className="w-5 h-5" /> 환자 상태 (Patient)
+          </h2>
+          <div className="flex gap-2 text-xs">
+            <button
+              onClick={() => setRunning(prev => !prev)}
+              className={`px-3 py-1 rounded font-bold flex items-center gap-1 ${running ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+            >
+              {running ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              {running ? '일시정지' : '재생'}
+            </button>
+            <button
+              onClick={() => setPatient(DEFAULT_PATIENT)}
+              className="px-3 py-1 rounded font-bold flex items-center gap-1 bg-white text-gray-600 border hover:bg-gray-100"
+            >
+              <RefreshCw className="w-3 h-3" />
+              초기화
+            </button>
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-xs font-semibold text-gray-500 mb-1">리듬 (Rhythm)</label>
+          <select
+            value={patient.rhythm}
+            onChange={(e) => setPatient(prev => withRhythm(prev, e.target.value))}
+            className="w-full p-2 border rounded text-sm"
+          >
+            {Object.entries(PRESETS).map(([key, preset]) => (
+              <option key={key} value={key}>{preset.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {PATIENT_SLIDERS.map(({ key, label, unit, min, max, step }) => {
+            const disabled = key === 'heartRate' && isRatelessRhythm(patient.rhythm);
+            return (
+              <div key={key} className={disabled ? 'opacity-40' : ''}>
+                <label className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+                  <span>{label}</span>
+                  <span>{patient[key]} {unit}</span>
+                </label>
+                <input
+                  type="range" min={min} max={max} step={step}
+                  value={patient[key]}
+                  disabled={disabled}
+                  onChange={(e) => handleChange(key, Number(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
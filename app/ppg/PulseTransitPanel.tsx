@@ -0,0 +1,105 @@
+'use client';
+
+import React from 'react';
+import { HeartPulse } from 'lucide-react';
+import { PRESETS, PresetKey } from '@/lib/ecg/model';
+import { PulseTransitSummary, estimateBloodPressure } from '@/lib/pulseTransit';
+
+type PulseTransitPanelProps = {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  rhythm: PresetKey;
+  onRhythmChange: (rhythm: PresetKey) => void;
+  transitTime: number;               // 초
+  onTransitTimeChange: (transitTime: number) => void;
+  summary: PulseTransitSummary | null;
+  analysisDuration: number;          // 지표를 계산한 기록 길이 (초)
+};
+
+const formatRate = (value: number) => Math.round(value).toString();
+
+/**
+ * ECG 동기화 설정과 맥파 전달 시간(PTT)·맥박 결손·추정 혈압
+ * 맥파는 ECG의 R 피크마다 PTT 뒤에 오며, 짧은 RR 뒤의 약한 박동은 맥박으로 세지 않습니다.
+ */
+export default function PulseTransitPanel({
+  enabled, onEnabledChange, rhythm, onRhythmChange, transitTime, onTransitTimeChange, summary, analysisDuration,
+}: PulseTransitPanelProps) {
+  const bp = summary?.ptt ? estimateBloodPressure(summary.ptt) : null;
+
+  const cards = [
+    { label: 'PTT', value: summary?.ptt ? (summary.ptt * 1000).toFixed(0) : '-', unit: 'ms' },
+    { label: '추정 혈압 (cuffless)', value: bp ? `${bp.systolic.toFixed(0)}/${bp.diastolic.toFixed(0)}` : '-', unit: bp ? `(${bp.mean.toFixed(0)}) mmHg` : 'mmHg' },
+    { label: 'HR (ECG)', value: summary ? formatRate(summary.heartRate) : '-', unit: 'BPM' },
+    { label: 'PR (맥파)', value: summary ? formatRate(summary.pulseRate) : '-', unit: 'BPM' },
+    { label: '맥박 결손 (Deficit)', value: summary ? formatRate(summary.deficit) : '-', unit: 'BPM' },
+  ];
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2 font-semibold text-slate-700">
+          <HeartPulse className="w-5 h-5 text-green-600" />
+          ECG 동기화와 맥파 전달 시간 (PTT)
+        </div>
+        <button
+          onClick={() => onEnabledChange(!enabled)}
+          className={`px-3 py-1 rounded text-xs font-bold ${enabled ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+        >
+          {enabled ? 'ECG 동기화 켜짐' : 'ECG 동기화 꺼짐 (규칙적 맥박)'}
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">ECG 리듬 (Rhythm)</label>
+              <select
+                value={rhythm}
+                onChange={(e) => onRhythmChange(e.target.value)}
+                className="w-full p-1 border rounded text-xs"
+              >
+                {Object.entries(PRESETS).map(([key, preset]) => (
+                  <option key={key} value={key}>{preset.label}</option>
+                ))}
+              </select>
+              <p className="text-[10px] text-slate-400 mt-1">
+                심박수 슬라이더가 리듬의 박동수를 정합니다. 조기 수축이나 짧은 RR 뒤의 박동은 심실이 덜 차서 맥파가 작아집니다.
+              </p>
+            </div>
+            <div>
+              <label className="flex justify-between text-xs font-medium text-slate-600 mb-1">
+                <span>맥파 전달 시간 (PTT)</span>
+                <span>{(transitTime * 1000).toFixed(0)} ms</span>
+              </label>
+              <input
+                type="range" min="0.1" max="0.4" step="0.01"
+                value={transitTime}
+                onChange={(e) => onTransitTimeChange(parseFloat(e.target.value))}
+                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-green-500"
+              />
+              <p className="text-[10px] text-slate-400 mt-1">
+                R 피크에서 손가락 맥파가 시작될 때까지의 시간. 혈압이 높을수록 동맥이 팽팽해져 짧아집니다.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {cards.map(card => (
+              <div key={card.label} className="bg-slate-50 rounded border border-slate-200 p-2">
+                <div className="text-[10px] text-slate-500">{card.label}</div>
+                <div className="text-lg font-mono font-bold text-slate-800">{card.value}</div>
+                <div className="text-[10px] text-slate-400">{card.unit}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400 mt-2">
+            최근 {analysisDuration}초 기록에서 측정. PTT는 접선 교차법으로 찾은 맥파 시작점까지의 중앙값이며,
+            혈압은 120/80 mmHg에서 보정한 추정치입니다 (Moens-Korteweg 모델).
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
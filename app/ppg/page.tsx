@@ -1,125 +1,213 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { Activity, Wind, Heart, Droplets, Zap, Info } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { Activity, Wind, Heart, Zap, Info, ListVideo, ScrollText } from 'lucide-react';
+import { ExportSignal } from '@/lib/export';
+import ExportMenu from '@/components/ExportMenu';
+import ShareControls from '@/components/ShareControls';
+import AlarmPanel from '@/components/AlarmPanel';
+import ArtifactControls from '@/components/ArtifactControls';
+import PresetLibrary from '@/components/PresetLibrary';
+import ScenarioPlayer from '@/components/ScenarioPlayer';
+import LongRecording, { LongRecordingChannel } from '@/components/LongRecording';
+import { WaveformGrid } from '@/components/WaveformCanvas';
+import PulseTransitPanel from './PulseTransitPanel';
+import { PresetKey } from '@/lib/ecg/model';
+import { AlarmCheck } from '@/lib/alarms';
+import { ArtifactKind } from '@/lib/artifacts';
+import { DEFAULT_SEED, createRandom } from '@/lib/random';
+import { buildShareUrl, mergeSharedParams, readShareState } from '@/lib/shareLink';
+import { ParamSchema } from '@/lib/paramSchema';
+import { MIN_PULSE_RATE, patientEcgParams } from '@/lib/patient';
+import { PulseTransitSummary, summarizePulseTransit } from '@/lib/pulseTransit';
+import { OximetryReading, measureOximetry } from '@/lib/oximetry';
+import { SignalRequest } from '@/lib/signals';
+import { ECG_SAMPLING_RATE, generateEcg } from '@/lib/signals/ecg';
+import {
+  DEFAULT_PPG_PARAMS, DEFAULT_PULSE_TRANSIT_TIME, IR_DC_LEVEL, PPG_PARAMS_SCHEMA, PPG_SAMPLING_RATE, PpgParams, PpgPoint,
+  RED_DC_LEVEL, generatePpg,
+} from '@/lib/signals/ppg';
 
-/**
- * 가우스 함수 (Gaussian Function)
- * PPG의 부드러운 파형을 만들기 위해 사용
- */
-type Params = {
-  bpm: number;
-  spO2: number;
-  stiffness: number;
-  perfusion: number;
-  respRate: number;
-  respAmp: number;
-  noise: number;
+// 화면 파라미터: 신호 파라미터 + 파장별 표시 여부
+type Params = PpgParams & {
   showRed: boolean;
   showIR: boolean;
 };
 
-type DataPoint = {
-  time: number;
-  ir: number;
-  red: number;
+// 그래프 데이터: ECG 동기화 중이면 같은 시각의 II 유도 전압을 함께 둠
+type PlethPoint = PpgPoint & { ecg?: number };
+type ChartPoint = PlethPoint & { irModulation: number; redModulation: number };
+
+// 공유 링크와 사용자 프리셋 파일 검사용 스키마
+const PPG_PRESET_SCHEMA: ParamSchema<Params> = {
+  ...PPG_PARAMS_SCHEMA,
+  showRed: { type: 'boolean' },
+  showIR: { type: 'boolean' },
+};
+
+// 처음 열었을 때의 파라미터 (공유 링크와 시나리오도 이 상태에서 시작)
+const DEFAULT_PARAMS: Params = {
+  ...DEFAULT_PPG_PARAMS,
+  showRed: true,      // Red 파형 표시 여부
+  showIR: true        // IR 파형 표시 여부
+};
+
+// PPG에서 의미 있는 인공물 (호흡성 기저선 변동은 DC 성분 설정으로 따로 조절)
+const PPG_ARTIFACT_KINDS: ArtifactKind[] = ['emg', 'powerline', 'motion', 'leadOff', 'shivering'];
+const PPG_ARTIFACT_LABELS: Partial<Record<ArtifactKind, string>> = {
+  emg: '센서 잡음 (Sensor Noise)',
+  powerline: '주변광 깜빡임 (Ambient Light)',
+  motion: '손가락 움직임 (Motion)',
+  leadOff: '센서 떨어짐 (Probe Off)',
+};
+
+type PpgAlarmLimits = {
+  spO2Low: number;       // 중간 우선순위 하한 (%)
+  spO2Critical: number;  // 높은 우선순위 하한 (%)
+};
+
+const LOW_PERFUSION_INDEX = 0.6; // % (이보다 약한 맥파는 측정 신뢰도가 떨어짐)
+
+/**
+ * PPG 알람 조건: 맥박 없음, SpO2 하한 2단계와 관류 저하(기술 알람)
+ * 설정값이 아니라 파형에서 잰 값으로 판단하므로, 잡음 때문에 잘못 잰 SpO2에도 알람이 울립니다.
+ * @param {OximetryReading | null} reading - 파형에서 잰 SpO2와 관류 지수 (맥박이 없으면 null)
+ * @param {boolean} pulseless - ECG 동기화 중 맥박이 없는지 (VF, 무수축 등)
+ * @param {PpgAlarmLimits} limits - SpO2 한계값
+ */
+const evaluatePpgAlarms = (reading: OximetryReading | null, pulseless: boolean, limits: PpgAlarmLimits): AlarmCheck[] => {
+  const spO2 = reading?.spO2 ?? null;
+  const perfusionIndex = reading?.perfusionIndex ?? null;
+  const critical = spO2 !== null && spO2 < limits.spO2Critical;
+  const shown = spO2 === null ? '' : spO2.toFixed(0);
+  return [
+    { id: 'NO_PULSE', label: '맥박 없음 (No Pulse)', priority: 'high', active: pulseless },
+    { id: 'SPO2_CRITICAL', label: 'SpO2 심한 저하', priority: 'high', active: critical, detail: `${shown}% < ${limits.spO2Critical}` },
+    { id: 'SPO2_LOW', label: 'SpO2 LOW', priority: 'medium', active: !critical && spO2 !== null && spO2 < limits.spO2Low, detail: `${shown}% < ${limits.spO2Low}` },
+    {
+      id: 'LOW_PERFUSION', label: '관류 약함 (Low Perfusion)', priority: 'low',
+      active: !pulseless && (perfusionIndex === null || perfusionIndex < LOW_PERFUSION_INDEX),
+      detail: perfusionIndex === null ? '맥파 없음' : `PI ${perfusionIndex.toFixed(2)}% < ${LOW_PERFUSION_INDEX}`,
+    },
+  ];
 };
 
-const gaussian = (t: number, center: number, amp: number, width: number): number => {
-  return amp * Math.exp(-Math.pow(t - center, 2) / (2 * width * width));
+// 그래프는 파장별 DC에 대한 변화율(%)로 그림: DC가 달라도 두 파형을 한 축에서 비교할 수 있고, 진폭이 곧 AC/DC
+const toModulation = (value: number, dcLevel: number) => (value / dcLevel - 1) * 100;
+
+// 긴 기록: 길이(초)와 샘플링 주파수(Hz) 선택지, 채널 표시 설정
+const LONG_RECORDING_DURATIONS = [30, 60, 120, 300];
+const LONG_RECORDING_SAMPLING_RATES = [PPG_SAMPLING_RATE, 125, 250];
+const LONG_RECORDING_CHANNELS: Record<string, LongRecordingChannel> = {
+  IR: { color: '#10b981', height: 100 },
+  Red: { color: '#ef4444', height: 100 },
+  II: { color: '#0f172a', range: [-1, 2], height: 80 },
 };
+const LONG_RECORDING_GRID: WaveformGrid = { time: 0.2, color: '#cbd5e1' };
+
+// PTT, 맥박 결손, SpO2는 화면(4초)보다 긴 구간에서 재야 안정적
+const ANALYSIS_SECONDS = 30;
 
 export default function PPGSimulator() {
   // 시뮬레이션 파라미터 상태 관리
-  const [params, setParams] = useState<Params>({
-    bpm: 70,            // 심박수 (Heart Rate)
-    spO2: 98,           // 산소포화도 (Blood Oxygen)
-    stiffness: 0.3,     // 동맥 경직도 (Arterial Stiffness) - 이완기 피크 위치/크기 영향
-    perfusion: 1.0,     // 관류 지수 (Perfusion Index) - AC 성분의 크기
-    respRate: 15,       // 호흡수 (Respiration Rate) - DC 성분 주파수
-    respAmp: 0.2,       // 호흡성 변동 폭 (DC Component Amplitude)
-    noise: 0.02,        // 노이즈 레벨
-    showRed: true,      // Red 파형 표시 여부
-    showIR: true        // IR 파형 표시 여부
-  });
+  const [params, setParams] = useState<Params>(DEFAULT_PARAMS);
 
-  const [data, setData] = useState<DataPoint[]>([]);
+  const [data, setData] = useState<PlethPoint[]>([]);
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [alarmLimits, setAlarmLimits] = useState<PpgAlarmLimits>({ spO2Low: 90, spO2Critical: 85 });
+  const [customPresetId, setCustomPresetId] = useState<string | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
   const duration = 4; // 4초 동안의 데이터
 
+  // ECG 동기화: 심전도 박동마다 PTT 뒤에 맥파가 옴 (끄면 규칙적인 맥박)
+  const [sync, setSync] = useState(true);
+  const [ecgRhythm, setEcgRhythm] = useState<PresetKey>('NORMAL');
+  const [transitTime, setTransitTime] = useState(DEFAULT_PULSE_TRANSIT_TIME);
+  const [pulseSummary, setPulseSummary] = useState<PulseTransitSummary | null>(null);
+  const [oximetry, setOximetry] = useState<OximetryReading | null>(null);
+  const samplingRate = sync ? ECG_SAMPLING_RATE : PPG_SAMPLING_RATE;
+  const ecgParams = useMemo(() => patientEcgParams({ rhythm: ecgRhythm, heartRate: params.bpm }), [ecgRhythm, params.bpm]);
+
   // 파라미터 변경 핸들러
-  const handleParamChange = (key: keyof Omit<Params, 'showIR' | 'showRed'>, value: number) => {
+  const handleParamChange = (key: keyof Omit<Params, 'showIR' | 'showRed' | 'artifacts'>, value: number) => {
     setParams(prev => ({ ...prev, [key]: value }));
   };
 
+  // 공유 링크로 열었으면 링크의 파라미터와 시드를 적용
   useEffect(() => {
-    const generateData = () => {
-      const samplingRate = 60; // Hz (부드러운 곡선을 위해)
-      const totalPoints = duration * samplingRate;
-      const newData: DataPoint[] = [];
-      
-      // 심박 간격 (초)
-      const beatInterval = 60 / params.bpm;
-      
-      // SpO2에 따른 Red/IR 비율 계산 (Beer-Lambert Law 단순화 모델)
-      // SpO2가 낮을수록(저산소), 환원 헤모글로빈이 많아져 Red 흡수가 늘어나고(AC 진폭 감소), 
-      // 상대적으로 IR 대비 Red의 AC/DC 비율(R값)이 커짐.
-      // 시각적 표현을 위해:
-      // SpO2 100%: IR 진폭 > Red 진폭
-      // SpO2 80%: Red 진폭이 상대적으로 커짐 (비율 변화)
-      const irAmplitudeBase = 1.0;
-      // R = (AC_red/DC_red) / (AC_ir/DC_ir). SpO2가 낮으면 R이 커짐.
-      // 여기서는 시각화를 위해 단순 진폭 비율로 표현
-      const rValue = 0.4 + (100 - params.spO2) * 0.03; 
-      const redAmplitudeBase = irAmplitudeBase * rValue;
-
-      for (let i = 0; i < totalPoints; i++) {
-        const t = i / samplingRate;
-        
-        // 1. DC Component (Baseline) - 호흡(Respiration) 영향
-        // 호흡은 보통 0.2~0.4Hz 정도의 저주파
-        const respFreq = params.respRate / 60;
-        const dcComponent = Math.sin(2 * Math.PI * respFreq * t) * params.respAmp;
-
-        // 2. AC Component (Pulsatile) - 심장 박동
-        // 현재 시간 t에서 가장 가까운 이전 박동 시간 찾기
-        const beatIndex = Math.floor(t / beatInterval);
-        const beatTime = t - (beatIndex * beatInterval); // 박동 내에서의 상대 시간 (0 ~ beatInterval)
-
-        // 단일 박동 형태 생성 (Morphology)
-        // Systolic Peak (수축기): 주 피크
-        let acWave = gaussian(beatTime, 0.15, 1.0, 0.06);
-        
-        // Diastolic Peak (이완기) & Dicrotic Notch (중복맥 파임)
-        // 동맥 경직도(stiffness)가 높을수록 반사파가 빨리 돌아와 수축기 피크에 가까워지고 커짐 (Augmentation Index 증가)
-        const diaTime = 0.35 - (params.stiffness * 0.1); // 경직될수록 시간 단축
-        const diaAmp = 0.3 + (params.stiffness * 0.4);   // 경직될수록 진폭 증가
-        acWave += gaussian(beatTime, diaTime, diaAmp, 0.06);
-
-        // 관류(Perfusion)가 약하면 AC 성분 전체가 작아짐
-        acWave *= params.perfusion;
+    const applySharedScenario = () => {
+      const shared = readShareState();
+      if (!shared) return;
+      try {
+        setParams(mergeSharedParams(DEFAULT_PARAMS, shared.params, PPG_PRESET_SCHEMA));
+      } catch (e) {
+        setShareError(e instanceof Error ? e.message : String(e));
+      }
+      if (shared.seed !== undefined) setSeed(shared.seed);
+    };
 
-        // 3. Noise
-        const noiseVal = (Math.random() - 0.5) * params.noise;
+    applySharedScenario();
+  }, []);
 
-        // 4. 최종 파형 합성 (Red vs IR)
-        // PPG는 흡광도를 측정하므로 혈액량이 많을수록(수축기) 빛이 적게 투과됨.
-        // 보통 그래프는 반전시켜서 피크가 위로 가게 그림 (Inverted absorption).
-        
-        const irValue = dcComponent + (acWave * irAmplitudeBase) + noiseVal;
-        const redValue = dcComponent + (acWave * redAmplitudeBase) + noiseVal;
-
-        newData.push({
-          time: parseFloat(t.toFixed(2)),
-          ir: irValue,
-          red: redValue
-        });
+  useEffect(() => {
+    const generateData = () => {
+      // 긴 구간을 만들어 지표를 재고, 앞 4초만 그림 (시드 사용은 긴 기록/내보내기와 같음)
+      if (!sync) {
+        const points = generatePpg(params, ANALYSIS_SECONDS, PPG_SAMPLING_RATE, createRandom(seed));
+        setData(points.slice(0, duration * PPG_SAMPLING_RATE));
+        setPulseSummary(null);
+        setOximetry(measureOximetry(points.map(p => p.ir), points.map(p => p.red), PPG_SAMPLING_RATE));
+        return;
       }
-      setData(newData);
+
+      const ecg = generateEcg(ecgParams, { duration: ANALYSIS_SECONDS, samplingRate: ECG_SAMPLING_RATE, random: createRandom(seed) });
+      const beats = ecg.beats.filter(beat => !beat.blocked);
+      const points = generatePpg(params, ANALYSIS_SECONDS, ECG_SAMPLING_RATE, createRandom(seed), {
+        beats: beats.map(beat => ({ time: beat.time, beatType: beat.beatType })),
+        transitTime,
+      });
+      setPulseSummary(summarizePulseTransit(beats.map(beat => beat.time), points.map(p => p.ir), ECG_SAMPLING_RATE, ANALYSIS_SECONDS));
+      setOximetry(measureOximetry(points.map(p => p.ir), points.map(p => p.red), ECG_SAMPLING_RATE));
+      setData(points.slice(0, duration * ECG_SAMPLING_RATE).map((point, i) => ({ ...point, ecg: ecg.channels[0][i] })));
     };
 
     generateData();
-  }, [params, duration]);
+  }, [params, duration, seed, sync, ecgParams, transitTime]);
+
+  // 심전도에 박동이 있어도 맥파로 이어지지 않으면(VF, 무수축, 무맥성 전기활동) SpO2를 내지 않음
+  const pulseless = pulseSummary !== null && pulseSummary.pulseRate < MIN_PULSE_RATE;
+  const reading = pulseless ? null : oximetry;
+  const alarmChecks = useMemo(() => evaluatePpgAlarms(reading, pulseless, alarmLimits), [reading, pulseless, alarmLimits]);
+
+  const chartData = useMemo(() => data.map((point): ChartPoint => ({
+    ...point,
+    irModulation: toModulation(point.ir, IR_DC_LEVEL),
+    redModulation: toModulation(point.red, RED_DC_LEVEL),
+  })), [data]);
+
+  const buildLongRequest = useCallback((length: number, samplingRate: number): SignalRequest => ({
+    modality: 'ppg', params, duration: length, samplingRate, seed,
+    ...(sync ? { ecg: { params: ecgParams, transitTime } } : {}),
+  }), [params, seed, sync, ecgParams, transitTime]);
+
+  // 화면 구간의 박동 표시: R 피크, 맥파 시작점, 맥박 결손
+  const visiblePulses = useMemo(
+    () => (pulseSummary?.pulses ?? []).filter(pulse => pulse.rPeak < duration),
+    [pulseSummary, duration],
+  );
+
+  // 내보내기: IR, Red 두 채널 (표시 여부와 관계없이 모두 포함), ECG 동기화 중이면 II 유도도 함께
+  const buildExportSignal = (): ExportSignal => ({
+    source: 'PPGSimulator',
+    samplingRate,
+    channels: [
+      ...(sync ? [{ name: 'II', unit: 'mV', values: data.map(p => p.ecg ?? 0) }] : []),
+      { name: 'IR', unit: 'a.u.', values: data.map(p => p.ir) },
+      { name: 'Red', unit: 'a.u.', values: data.map(p => p.red) },
+    ],
+    params: sync ? { ...params, transitTime, ecg: ecgParams } : params,
+  });
 
   return (
     <div className="w-full max-w-4xl mx-auto p-6 bg-slate-50 rounded-xl shadow-lg border border-slate-200 font-sans">
@@ -131,25 +219,94 @@ export default function PPGSimulator() {
         <p className="text-slate-600 text-sm mt-1">
           혈액량 변화에 따른 빛 흡수량 차이를 수학적으로 모델링한 그래프입니다.
         </p>
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+          <ShareControls seed={seed} onSeedChange={setSeed} buildUrl={() => buildShareUrl({ seed, params })} error={shareError} />
+          <ExportMenu getSignal={buildExportSignal} />
+        </div>
+      </div>
+
+      {/* 모니터 알람 */}
+      <AlarmPanel checks={alarmChecks}>
+        <div className="space-y-2">
+          <div>
+            <label className="block text-slate-600 mb-1">SpO2 하한 (Low): {alarmLimits.spO2Low}%</label>
+            <input
+              type="range" min="80" max="98" step="1"
+              value={alarmLimits.spO2Low}
+              onChange={(e) => setAlarmLimits(prev => ({ ...prev, spO2Low: Number(e.target.value) }))}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-red-500"
+            />
+          </div>
+          <div>
+            <label className="block text-slate-600 mb-1">SpO2 위험 하한 (Critical): {alarmLimits.spO2Critical}%</label>
+            <input
+              type="range" min="70" max="90" step="1"
+              value={alarmLimits.spO2Critical}
+              onChange={(e) => setAlarmLimits(prev => ({ ...prev, spO2Critical: Number(e.target.value) }))}
+              className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-red-500"
+            />
+          </div>
+        </div>
+      </AlarmPanel>
+
+      {/* 임상 시나리오: ECG, 인공호흡기 창과 같은 타임라인으로 진행 */}
+      <div className="mb-6 p-4 bg-white rounded-lg border border-slate-200 shadow-sm">
+        <div className="flex items-center gap-2 font-semibold text-slate-700 mb-3">
+          <ListVideo className="w-5 h-5 text-slate-500" />
+          임상 시나리오 (Scenario)
+        </div>
+        <ScenarioPlayer
+          simulator="ppg"
+          schema={PPG_PRESET_SCHEMA}
+          base={DEFAULT_PARAMS}
+          params={params}
+          onApply={(next, scenario) => {
+            setParams(next);
+            setCustomPresetId(null);
+            if (scenario.seed !== undefined) setSeed(scenario.seed);
+          }}
+        />
       </div>
 
       {/* 그래프 영역 */}
       <div className="bg-white rounded-xl p-4 mb-6 shadow-inner border border-slate-200 relative">
+        {sync && (
+          <div className="h-24 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                <XAxis dataKey="time" type="number" domain={[0, duration]} hide />
+                <YAxis hide domain={['auto', 'auto']} />
+                <Line
+                  name="ECG II"
+                  type="linear"
+                  dataKey="ecg"
+                  stroke="#0f172a"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                {visiblePulses.map(pulse => (
+                  <ReferenceLine key={pulse.rPeak} x={pulse.rPeak} stroke="#94a3b8" strokeDasharray="2 4" />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
         <div className="h-80 w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={data} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+            <LineChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
               <XAxis dataKey="time" type="number" domain={[0, duration]} hide />
               <YAxis hide domain={['auto', 'auto']} />
               <Tooltip 
                 contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.9)', borderRadius: '8px', border: '1px solid #ddd' }}
-                labelFormatter={(v) => `Time: ${v}s`}
+                labelFormatter={(v) => `Time: ${Number(v).toFixed(2)}s`}
               />
               <Legend verticalAlign="top" height={36}/>
               {params.showIR && (
                 <Line 
-                  name="Infrared (IR) - 기본 파형" 
+                  name="Infrared (IR) - AC/DC %" 
                   type="monotone" 
-                  dataKey="ir" 
+                  dataKey="irModulation" 
                   stroke="#10b981" 
                   strokeWidth={3} 
                   dot={false} 
@@ -158,9 +315,9 @@ export default function PPGSimulator() {
               )}
               {params.showRed && (
                 <Line 
-                  name="Red Light - SpO2 비교용" 
+                  name="Red Light - AC/DC %" 
                   type="monotone" 
-                  dataKey="red" 
+                  dataKey="redModulation" 
                   stroke="#ef4444" 
                   strokeWidth={2} 
                   strokeDasharray="5 5" 
@@ -168,6 +325,19 @@ export default function PPGSimulator() {
                   isAnimationActive={false}
                 />
               )}
+              {/* R 피크(점선), 맥파 시작점(초록), 맥파가 없는 박동(결손) */}
+              {visiblePulses.map(pulse => (
+                <ReferenceLine
+                  key={`r-${pulse.rPeak}`}
+                  x={pulse.rPeak}
+                  stroke={pulse.detected ? '#94a3b8' : '#dc2626'}
+                  strokeDasharray="2 4"
+                  label={pulse.detected ? undefined : { value: '결손', position: 'insideTop', fill: '#dc2626', fontSize: 11, fontWeight: 'bold' }}
+                />
+              ))}
+              {visiblePulses.filter(pulse => pulse.detected && pulse.foot !== null).map(pulse => (
+                <ReferenceLine key={`f-${pulse.rPeak}`} x={pulse.foot as number} stroke="#10b981" strokeOpacity={0.6} />
+              ))}
             </LineChart>
           </ResponsiveContainer>
         </div>
@@ -181,6 +351,34 @@ export default function PPGSimulator() {
         </div>
       </div>
 
+      {/* ECG 동기화와 PTT */}
+      <PulseTransitPanel
+        enabled={sync}
+        onEnabledChange={setSync}
+        rhythm={ecgRhythm}
+        onRhythmChange={setEcgRhythm}
+        transitTime={transitTime}
+        onTransitTimeChange={setTransitTime}
+        summary={pulseSummary}
+        analysisDuration={ANALYSIS_SECONDS}
+      />
+
+      {/* 긴 기록: 간헐적인 움직임 잡음이나 관류 변화는 긴 구간에서 보임 */}
+      <div className="bg-white rounded-xl p-4 mb-6 border border-slate-200 shadow-sm">
+        <div className="flex items-center gap-2 font-semibold text-slate-700 mb-3">
+          <ScrollText className="w-5 h-5 text-slate-500" />
+          긴 기록 (Long Recording)
+        </div>
+        <LongRecording
+          buildRequest={buildLongRequest}
+          channels={LONG_RECORDING_CHANNELS}
+          durations={LONG_RECORDING_DURATIONS}
+          samplingRates={LONG_RECORDING_SAMPLING_RATES}
+          background="#ffffff"
+          grid={LONG_RECORDING_GRID}
+        />
+      </div>
+
       {/* 컨트롤 패널 */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         
@@ -220,6 +418,33 @@ export default function PPGSimulator() {
                 SpO2가 낮아지면 Red/IR 비율(R)이 증가하여 Red 파형의 진폭이 커집니다.
               </p>
             </div>
+
+            {/* 파형에서 다시 잰 값 (ratio-of-ratios) */}
+            <div>
+              <div className="flex justify-between text-xs font-medium text-slate-600 mb-1">
+                <span>측정값 (Oximeter)</span>
+                {pulseless ? (
+                  <span className="text-red-600 font-bold">맥박 없음 (No Pulse)</span>
+                ) : reading && reading.spO2 === null && (
+                  <span className="text-amber-600 font-bold">맥파 찾는 중 (Pulse Search)</span>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {[
+                  { label: 'SpO2', value: reading && reading.spO2 !== null ? `${reading.spO2.toFixed(0)}%` : '---' },
+                  { label: 'PI', value: reading && reading.perfusionIndex !== null ? `${reading.perfusionIndex.toFixed(2)}%` : '-' },
+                  { label: 'R', value: reading && reading.ratio !== null ? reading.ratio.toFixed(2) : '-' },
+                ].map(item => (
+                  <div key={item.label} className="bg-slate-50 rounded border border-slate-200 p-1">
+                    <div className="text-[10px] text-slate-500">{item.label}</div>
+                    <div className="text-sm font-mono font-bold text-slate-800">{item.value}</div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400 mt-1">
+                박동마다 R = (AC/DC)<sub>Red</sub> ÷ (AC/DC)<sub>IR</sub>을 구해 보정 곡선(SpO2 = 110 − 25R)으로 바꾼 값입니다. 잡음과 움직임이 있으면 설정값과 달라집니다.
+              </p>
+            </div>
           </div>
         </div>
 
@@ -249,8 +474,8 @@ export default function PPGSimulator() {
 
             <div>
               <label className="flex justify-between text-xs font-medium text-slate-600 mb-1">
-                <span>관류 지수 (Perfusion Index)</span>
-                <span>{params.perfusion.toFixed(1)}</span>
+                <span>말초 관류 (Perfusion)</span>
+                <span>{params.perfusion.toFixed(1)}x</span>
               </label>
               <input 
                 type="range" min="0.2" max="2.0" step="0.1" 
@@ -259,7 +484,7 @@ export default function PPGSimulator() {
                 className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-green-500"
               />
               <p className="text-[10px] text-slate-400 mt-1">
-                말초 혈류량이 많을수록 AC 성분(맥박 파형)의 진폭이 커집니다.
+                말초 혈류량이 많을수록 AC 성분(맥박 파형)의 진폭이 커집니다. 관류 지수(PI)는 IR의 AC/DC로 잽니다.
               </p>
             </div>
           </div>
@@ -324,6 +549,34 @@ export default function PPGSimulator() {
 
       </div>
 
+      {/* 4. 잡음 및 인공물 */}
+      <div className="mt-6 bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
+        <div className="flex items-center gap-2 font-semibold text-slate-700 mb-4">
+          <Activity className="w-5 h-5 text-slate-500" />
+          잡음 및 인공물 (Artifacts)
+        </div>
+        <ArtifactControls
+          levels={params.artifacts}
+          onChange={(artifacts) => setParams(p => ({ ...p, artifacts }))}
+          kinds={PPG_ARTIFACT_KINDS}
+          labels={PPG_ARTIFACT_LABELS}
+        />
+      </div>
+
+      {/* 5. 사용자 프리셋 */}
+      <div className="mt-6 bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
+        <PresetLibrary
+          simulator="ppg"
+          schema={PPG_PRESET_SCHEMA}
+          params={params}
+          activeId={customPresetId}
+          onApply={(preset) => {
+            setParams(preset.params);
+            setCustomPresetId(preset.id);
+          }}
+        />
+      </div>
+
       <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-100 flex gap-3">
         <Info className="w-5 h-5 text-blue-500 flex-shrink-0 mt-0.5" />
         <div className="text-xs text-blue-800 space-y-1">
@@ -332,7 +585,7 @@ export default function PPGSimulator() {
             <li><strong>AC Component (맥박):</strong> 뾰족하게 솟은 파형입니다. 수축기(Systolic) 피크와 이완기(Diastolic) 피크로 나뉩니다.</li>
             <li><strong>DC Component (기저선):</strong> 전체 그래프가 물결치듯 위아래로 움직이는 것은 호흡에 의한 혈류량 변화입니다.</li>
             <li><strong>Dicrotic Notch (중복맥 파임):</strong> 큰 피크 뒤에 오는 작은 함몰 부위로, 대동맥 판막이 닫힐 때 발생합니다. 혈관이 노화될수록(Stiffness 증가) 사라집니다.</li>
-            <li><strong>SpO2 원리:</strong> 산소포화도가 100%에 가까울수록 IR(초록색)과 Red(빨간색) 파형의 진폭 차이가 큽니다. 포화도가 떨어지면 Red 파형이 커집니다.</li>
+            <li><strong>SpO2 원리:</strong> 그래프는 파장별 DC에 대한 변화율(%)입니다. 산소포화도가 100%에 가까울수록 IR(초록색)과 Red(빨간색) 파형의 진폭 차이가 크고, 포화도가 떨어지면 Red 파형이 커집니다. 두 진폭의 비(R)로 SpO2를 계산합니다.</li>
           </ul>
         </div>
       </div>
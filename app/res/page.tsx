@@ -1,40 +1,24 @@
 "use client";
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, ScatterChart, Scatter } from 'recharts';
-import { Activity, Settings, Wind, AlertCircle } from 'lucide-react';
-
-type Mode = 'VC' | 'PC';
-type FlowShape = 'Square' | 'Decelerating';
-
-type SimParams = {
-  rr: number;
-  peep: number;
-  tidalVolume: number;
-  pressureControl: number;
-  resistance: number;
-  compliance: number;
-  ieRatio: number;
-  flowShape: FlowShape;
-  triggerEffort: number;
-  overdistension: boolean;
-  autoPeep: boolean;
-};
-
-type GenerateParams = SimParams & { mode: Mode };
-
-type ScalarPoint = {
-  time: number;
-  pressure: number;
-  flow: number;
-  volume: number;
-};
-
-type LoopPoint = {
-  pressure: number;
-  flow: number;
-  volume: number;
-};
+import { Activity, Settings, Wind, AlertCircle, ListVideo, ScrollText } from 'lucide-react';
+import { ExportSignal } from '@/lib/export';
+import ExportMenu from '@/components/ExportMenu';
+import ShareControls from '@/components/ShareControls';
+import AlarmPanel from '@/components/AlarmPanel';
+import PresetLibrary from '@/components/PresetLibrary';
+import ScenarioPlayer from '@/components/ScenarioPlayer';
+import LongRecording, { LongRecordingChannel } from '@/components/LongRecording';
+import { WaveformGrid } from '@/components/WaveformCanvas';
+import { AlarmCheck } from '@/lib/alarms';
+import { buildShareUrl, mergeSharedParams, readShareState } from '@/lib/shareLink';
+import { DEFAULT_SEED } from '@/lib/random';
+import { SignalRequest } from '@/lib/signals';
+import {
+  DEFAULT_VENTILATOR_PARAMS, DEFAULT_VENTILATOR_SETTINGS, FlowShape, ScalarPoint, VENTILATOR_SAMPLING_RATE,
+  VENTILATOR_SETTINGS_SCHEMA, VentilationMode, VentilatorParams, generateBreathData,
+} from '@/lib/signals/ventilator';
 
 type NumericParam =
   | 'rr'
@@ -48,185 +32,93 @@ type NumericParam =
 
 type ToggleParam = 'overdistension' | 'autoPeep';
 
-// --- 수학적 모델링 함수 ---
+type VentAlarmLimits = {
+  pressureHigh: number;  // 최고 기도압 상한 (cmH2O)
+  volumeLow: number;     // 일회 호흡량 하한 (mL)
+};
 
 /**
- * 호흡 사이클 데이터를 생성하는 함수
- * @param {Object} params - 시뮬레이션 파라미터 (Mode, RR, Tidal Volume, PEEP 등)
- * @returns {Object} { scalars: [], loops: [] }
+ * 인공호흡기 알람 조건: 기도압 상한(높음), 일회 호흡량 하한(중간)
+ * @param {ScalarPoint[]} scalars - 압력/유량/용적 파형
+ * @param {VentAlarmLimits} limits - 알람 한계값
  */
-const generateBreathData = (params: GenerateParams): { scalars: ScalarPoint[]; loops: LoopPoint[] } => {
-  const {
-    mode,           // 'VC' (Volume Control) or 'PC' (Pressure Control)
-    rr,             // Respiratory Rate (회/분)
-    peep,           // PEEP (cmH2O)
-    tidalVolume,    // Target Volume for VC (mL)
-    pressureControl,// Target Pressure for PC (cmH2O, above PEEP)
-    resistance,     // Airway Resistance (cmH2O/L/s)
-    compliance,     // Lung Compliance (mL/cmH2O)
-    ieRatio,        // I:E Ratio (1:X의 X값)
-    flowShape,      // 'Square' or 'Decelerating' (VC only)
-    triggerEffort,  // 환자 흡기 노력 (cmH2O, 0이면 없음)
-    overdistension, // 과팽창 여부 (Beak 현상 구현)
-    autoPeep,       // AutoPEEP 구현 (호기 시간 부족)
-  } = params;
-
-  const dataPoints: ScalarPoint[] = [];
-  const loopPoints: LoopPoint[] = [];
-  
-  // 시간 설정
-  const cycleTime = 60 / rr; // 1회 호흡 시간 (초)
-  const inspTime = cycleTime / (1 + ieRatio); // 흡기 시간
-  const expTime = cycleTime - inspTime; // 호기 시간
-  
-  // 시뮬레이션 해상도 및 길이 (2 사이클)
-  const dt = 0.02; 
-  const totalTime = cycleTime * 2; 
-  
-  // 상태 변수 초기화
-  let currentVol = 0; // L
-  let currentFlow = 0; // L/s
-  let currentPressure = peep; // cmH2O
-  
-  // AutoPEEP 시뮬레이션을 위한 잔여 용적 (이전 호흡에서 다 못 뱉은 양)
-  let trappedVolume = autoPeep ? 0.1 : 0; 
-
-  for (let t = 0; t < totalTime; t += dt) {
-    const timeInCycle = t % cycleTime;
-    const isInspiration = timeInCycle < inspTime;
-    
-    // 트리거링 시뮬레이션 (흡기 직전 음압 발생)
-    const isTriggerPhase = timeInCycle > cycleTime - 0.15 || (timeInCycle < 0.1 && t > 0);
-    let musclePressure = 0;
-    if (triggerEffort > 0 && isTriggerPhase) {
-        // 사인파 형태로 음압 생성
-        musclePressure = -triggerEffort * Math.sin(Math.PI * (timeInCycle < 0.1 ? timeInCycle + 0.15 : timeInCycle - (cycleTime - 0.15)) / 0.25);
-    }
-
-    // --- 1. 유량(Flow) 및 압력(Pressure) 계산 ---
-    
-    if (mode === 'VC') {
-      // Volume Control
-      if (isInspiration) {
-        // 흡기: 설정된 유량 패턴
-        const targetVolL = tidalVolume / 1000;
-        
-        if (flowShape === 'Square') {
-          currentFlow = targetVolL / inspTime;
-        } else {
-          // Decelerating Ramp
-          // 면적(=용적)은 같아야 하므로 초기 유량은 Square의 2배에서 시작해 0으로 감
-          const startFlow = (2 * targetVolL) / inspTime;
-          currentFlow = startFlow * (1 - (timeInCycle / inspTime));
-        }
-      } else {
-        // 호기: 수동적 반동 (Exponential Decay)
-        // 시상수(Time Constant) = R * C
-        const timeConstant = resistance * (compliance / 1000); 
-        // AutoPEEP이 있으면 호기 시간이 짧아져 유량이 0이 되기 전 흡기 시작
-        const expTimeElapsed = timeInCycle - inspTime;
-        // 호기 시작 시점의 Peak Expiratory Flow
-        const peakExpFlow = -(currentVol + trappedVolume) / timeConstant; 
-        currentFlow = peakExpFlow * Math.exp(-expTimeElapsed / timeConstant);
-      }
-    } else {
-      // Pressure Control
-      if (isInspiration) {
-        // 흡기: 일정한 압력 유지 -> 유량은 감소
-        const targetPressure = peep + pressureControl;
-        const timeConstant = resistance * (compliance / 1000);
-        // Equation: Flow = (Delta P / R) * e^(-t/RC)
-        currentFlow = (pressureControl / resistance) * Math.exp(-timeInCycle / timeConstant);
-      } else {
-        // 호기: VC와 동일한 메커니즘
-        const timeConstant = resistance * (compliance / 1000);
-        const expTimeElapsed = timeInCycle - inspTime;
-        const peakExpFlow = -(currentVol + trappedVolume) / timeConstant;
-        currentFlow = peakExpFlow * Math.exp(-expTimeElapsed / timeConstant);
-      }
-    }
-
-    // --- 2. 용적(Volume) 적분 ---
-    // V = Integral(Flow) dt
-    if (isInspiration && timeInCycle < dt) {
-        // 흡기 시작 시 리셋 (AutoPEEP 상황 제외하면 0)
-        currentVol = trappedVolume; 
-    }
-    currentVol += currentFlow * dt;
-    
-    // 용적 하한선 보정 (물리적으로 0 미만 불가)
-    if (currentVol < 0) currentVol = 0;
-
-
-    // --- 3. 압력(Pressure) 계산 (운동 방정식) ---
-    // P_vent = (Flow * R) + (Vol / C) + PEEP
-    
-    // 컴플라이언스 비선형성 (Overdistension/Beak 구현)
-    // 용적이 일정 수준을 넘으면 컴플라이언스가 급격히 감소(=Elastance 증가)하여 압력 급상승
-    let effectiveCompliance = compliance;
-    if (overdistension && currentVol > 0.45) { // 450ml 이상에서 과팽창 발생 가정
-        effectiveCompliance = compliance * (1 - (currentVol - 0.45) * 2); 
-        if (effectiveCompliance < 5) effectiveCompliance = 5;
-    }
-
-    const resistivePressure = currentFlow * resistance;
-    const elasticPressure = (currentVol * 1000) / effectiveCompliance; // mL 단위 변환
-    
-    // PC 모드에서는 흡기 시 압력이 설정값으로 고정(이상적 상황)되지만, 
-    // 여기서는 계산된 값을 사용하여 그래픽의 일관성을 유지하거나, 
-    // PC 모드 특유의 Square Pressure Waveform을 강제할 수 있음.
-    // 시뮬레이터의 현실감을 위해 PC 흡기시는 강제 Square Wave 적용
-    if (mode === 'PC' && isInspiration) {
-        currentPressure = peep + pressureControl;
-    } else {
-        currentPressure = resistivePressure + elasticPressure + peep + musclePressure;
-    }
-
-    // 데이터 저장
-    const displayTime = parseFloat(t.toFixed(2));
-    
-    dataPoints.push({
-      time: displayTime,
-      pressure: currentPressure,
-      flow: currentFlow * 60, // L/min 변환
-      volume: currentVol * 1000
-    });
-
-    // 루프 데이터는 한 사이클만 (또는 전체)
-    loopPoints.push({
-      pressure: currentPressure,
-      flow: currentFlow * 60,
-      volume: currentVol * 1000
-    });
-  }
-  
-  return { scalars: dataPoints, loops: loopPoints };
+const evaluateVentAlarms = (scalars: ScalarPoint[], limits: VentAlarmLimits): AlarmCheck[] => {
+  if (scalars.length === 0) return [];
+  const peakPressure = Math.max(...scalars.map(p => p.pressure));
+  const volumes = scalars.map(p => p.volume);
+  const tidalVolume = Math.max(...volumes) - Math.min(...volumes);
+  return [
+    {
+      id: 'PRESSURE_HIGH',
+      label: '기도압 높음 (High Pressure)',
+      priority: 'high',
+      active: peakPressure > limits.pressureHigh,
+      detail: `PIP ${peakPressure.toFixed(1)} > ${limits.pressureHigh} cmH2O`,
+    },
+    {
+      id: 'VOLUME_LOW',
+      label: '일회 호흡량 낮음 (Low Tidal Volume)',
+      priority: 'medium',
+      active: tidalVolume < limits.volumeLow,
+      detail: `Vt ${Math.round(tidalVolume)} < ${limits.volumeLow} mL`,
+    },
+  ];
+};
+
+// 긴 기록: 길이(초)와 샘플링 주파수(Hz) 선택지, 채널 표시 설정 (세로축은 스칼라 그래프와 같게)
+const LONG_RECORDING_DURATIONS = [30, 60, 120, 300];
+const LONG_RECORDING_SAMPLING_RATES = [VENTILATOR_SAMPLING_RATE, 100];
+const LONG_RECORDING_CHANNELS: Record<string, LongRecordingChannel> = {
+  Pressure: { color: '#fbbf24', range: [0, 40], height: 80 },
+  Flow: { color: '#22c55e', range: [-60, 60], height: 80 },
+  Volume: { color: '#3b82f6', range: [0, 800], height: 80 },
 };
+const LONG_RECORDING_GRID: WaveformGrid = { time: 1, color: '#d1d5db' };
 
 // --- 메인 컴포넌트 ---
 
 export default function VentilatorGraphics() {
   // --- 상태 관리 (Controls) ---
-  const [mode, setMode] = useState<Mode>('VC'); // VC, PC
-  const [params, setParams] = useState<SimParams>({
-    rr: 15,
-    peep: 5,
-    tidalVolume: 500, // for VC
-    pressureControl: 15, // for PC
-    resistance: 10, // Normal ~5-10
-    compliance: 50, // Normal ~50-100
-    ieRatio: 2, // 1:2
-    flowShape: 'Decelerating', // Square, Decelerating
-    triggerEffort: 0, // 0: None, >0: Patient Trigger
-    overdistension: false,
-    autoPeep: false,
-  });
+  const [mode, setMode] = useState<VentilationMode>(DEFAULT_VENTILATOR_SETTINGS.mode); // VC, PC
+  const [params, setParams] = useState<VentilatorParams>(DEFAULT_VENTILATOR_PARAMS);
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  const [alarmLimits, setAlarmLimits] = useState<VentAlarmLimits>({ pressureHigh: 40, volumeLow: 300 });
+  const [customPresetId, setCustomPresetId] = useState<string | null>(null);
+
+  // 공유 링크로 열었으면 링크의 모드와 설정을 적용
+  useEffect(() => {
+    const applySharedScenario = () => {
+      const shared = readShareState();
+      if (!shared) return;
+      const sharedMode = shared.mode === 'VC' || shared.mode === 'PC' ? shared.mode : DEFAULT_VENTILATOR_SETTINGS.mode;
+      try {
+        // 모드는 링크의 mode 항목으로 따로 오지만, 스키마가 모드까지 포함하므로 붙여서 검사
+        const { mode: nextMode, ...settings } = mergeSharedParams(
+          { ...DEFAULT_VENTILATOR_SETTINGS, mode: sharedMode }, shared.params, VENTILATOR_SETTINGS_SCHEMA,
+        );
+        setMode(nextMode);
+        setParams(settings);
+      } catch (e) {
+        setShareError(e instanceof Error ? e.message : String(e));
+      }
+    };
+
+    applySharedScenario();
+  }, []);
 
   // 데이터 생성
   const { scalars, loops } = useMemo(() => {
     return generateBreathData({ mode, ...params });
   }, [mode, params]);
 
+  const alarmChecks = useMemo(() => evaluateVentAlarms(scalars, alarmLimits), [scalars, alarmLimits]);
+
+  // 긴 기록은 결정론적 파형이라 시드는 쓰이지 않음
+  const buildLongRequest = useCallback((duration: number, samplingRate: number): SignalRequest => ({
+    modality: 'ventilator', params: { mode, ...params }, duration, samplingRate, seed: DEFAULT_SEED,
+  }), [mode, params]);
+
   // 핸들러
   const handleChange = (key: NumericParam, value: number) => {
     setParams(prev => ({ ...prev, [key]: value }));
@@ -236,6 +128,18 @@ export default function VentilatorGraphics() {
     setParams(prev => ({ ...prev, [key]: !prev[key] }));
   };
 
+  // 내보내기: 압력, 유량, 용적 스칼라 파형
+  const buildExportSignal = (): ExportSignal => ({
+    source: 'VentilatorGraphics',
+    samplingRate: VENTILATOR_SAMPLING_RATE,
+    channels: [
+      { name: 'Pressure', unit: 'cmH2O', values: scalars.map(p => p.pressure) },
+      { name: 'Flow', unit: 'L/min', values: scalars.map(p => p.flow) },
+      { name: 'Volume', unit: 'mL', values: scalars.map(p => p.volume) },
+    ],
+    params: { mode, ...params },
+  });
+
   return (
     <div className="w-full max-w-6xl mx-auto p-4 bg-gray-50 rounded-xl shadow-lg font-sans">
       {/* 헤더 */}
@@ -246,8 +150,12 @@ export default function VentilatorGraphics() {
             Ventilator Graphics Simulator
           </h1>
           <p className="text-gray-500 text-sm mt-1">
-            문서 "Ventilator Graphics Made Easy" 기반 파형 및 루프 시뮬레이션
+            문서 &quot;Ventilator Graphics Made Easy&quot; 기반 파형 및 루프 시뮬레이션
           </p>
+          <div className="mt-3 flex flex-wrap items-center gap-4">
+            <ShareControls buildUrl={() => buildShareUrl({ mode, params })} error={shareError} />
+            <ExportMenu getSignal={buildExportSignal} />
+          </div>
         </div>
         <div className="flex gap-2">
             <button 
@@ -265,6 +173,39 @@ export default function VentilatorGraphics() {
         </div>
       </div>
 
+      {/* 모니터 알람 */}
+      <AlarmPanel checks={alarmChecks}>
+        <div className="space-y-2">
+          <div>
+            <label className="text-xs font-medium text-gray-500">High Pressure Limit: {alarmLimits.pressureHigh} cmH2O</label>
+            <input type="range" min="20" max="60" value={alarmLimits.pressureHigh} onChange={(e) => setAlarmLimits(prev => ({ ...prev, pressureHigh: Number(e.target.value) }))} className="w-full accent-red-600" />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-500">Low Tidal Volume Limit: {alarmLimits.volumeLow} mL</label>
+            <input type="range" min="100" max="600" step="50" value={alarmLimits.volumeLow} onChange={(e) => setAlarmLimits(prev => ({ ...prev, volumeLow: Number(e.target.value) }))} className="w-full accent-red-600" />
+          </div>
+        </div>
+      </AlarmPanel>
+
+      {/* 임상 시나리오: ECG, PPG 창과 같은 타임라인으로 진행 */}
+      <div className="mb-4 bg-white p-4 rounded-lg border shadow-sm">
+        <div className="flex items-center gap-2 font-semibold text-gray-700 mb-3">
+          <ListVideo className="w-5 h-5" />
+          Clinical Scenario
+        </div>
+        <ScenarioPlayer
+          simulator="ventilator"
+          schema={VENTILATOR_SETTINGS_SCHEMA}
+          base={DEFAULT_VENTILATOR_SETTINGS}
+          params={{ mode, ...params }}
+          onApply={({ mode: nextMode, ...settings }) => {
+            setMode(nextMode);
+            setParams(settings);
+            setCustomPresetId(null);
+          }}
+        />
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         
         {/* --- 컨트롤 패널 (좌측) --- */}
@@ -364,6 +305,22 @@ export default function VentilatorGraphics() {
                 <input type="checkbox" checked={params.autoPeep} onChange={() => toggleCheck('autoPeep')} className="w-4 h-4" />
             </label>
           </div>
+
+          {/* 사용자 프리셋 */}
+          <div className="pt-4 border-t">
+            <PresetLibrary
+              simulator="ventilator"
+              schema={VENTILATOR_SETTINGS_SCHEMA}
+              params={{ mode, ...params }}
+              activeId={customPresetId}
+              onApply={(preset) => {
+                const { mode: presetMode, ...presetParams } = preset.params;
+                setMode(presetMode);
+                setParams(presetParams);
+                setCustomPresetId(preset.id);
+              }}
+            />
+          </div>
         </div>
 
         {/* --- 그래프 영역 (우측) --- */}
@@ -433,6 +390,24 @@ export default function VentilatorGraphics() {
                 </div>
             </div>
 
+            {/* 긴 기록 */}
+            <div className="bg-white p-4 rounded-lg border shadow-sm">
+                <h3 className="text-sm font-bold text-gray-500 mb-2 flex items-center gap-1">
+                  <ScrollText className="w-4 h-4" />
+                  긴 기록 (Long Recording)
+                </h3>
+                <LongRecording
+                  buildRequest={buildLongRequest}
+                  channels={LONG_RECORDING_CHANNELS}
+                  durations={LONG_RECORDING_DURATIONS}
+                  samplingRates={LONG_RECORDING_SAMPLING_RATES}
+                  defaultWindow={30}
+                  minWindow={2}
+                  background="#ffffff"
+                  grid={LONG_RECORDING_GRID}
+                />
+            </div>
+
             {/* 2. Loops */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 
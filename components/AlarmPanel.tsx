@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Bell, BellOff, Volume2, VolumeX, CheckCheck, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  ALARM_LOG_EVENT_LABELS, ALARM_PRIORITY_LABELS, AlarmCheck, AlarmPriority,
+  acknowledgeAlarms, createAlarmState, silenceAlarms, soundingPriority, updateAlarms,
+} from '@/lib/alarms';
+import { ALARM_REPEAT_MS, playAlarmTone } from '@/lib/alarmTone';
+
+type AlarmPanelProps = {
+  checks: AlarmCheck[];        // 시뮬레이터가 계산한 현재 알람 조건 (useMemo로 넘길 것)
+  children?: React.ReactNode;  // 알람 한계값 설정 (페이지마다 다름)
+};
+
+// 우선순위별 표시: 높음/중간은 점멸 속도로 구분, 낮음은 점등
+const PRIORITY_STYLES: Record<AlarmPriority, { className: string; flash: string | null }> = {
+  high: { className: 'bg-red-600 text-white border-red-700', flash: '0.5s' },
+  medium: { className: 'bg-yellow-400 text-gray-900 border-yellow-500', flash: '1.5s' },
+  low: { className: 'bg-cyan-100 text-cyan-900 border-cyan-300', flash: null },
+};
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString('ko-KR', { hour12: false });
+
+/**
+ * 알람 표시줄, 확인/무음 버튼, 한계값 설정, 알람 기록
+ * 알람음은 '소리 켜기'를 누른 뒤부터 납니다 (브라우저 자동 재생 정책).
+ */
+export default function AlarmPanel({ checks, children }: AlarmPanelProps) {
+  const [state, setState] = useState(createAlarmState);
+  const [soundOn, setSoundOn] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+  const [now, setNow] = useState(0);
+  const audioRef = useRef<AudioContext | null>(null);
+
+  // 조건이 바뀔 때마다 발생/해제 반영
+  useEffect(() => {
+    const syncAlarms = () => setState(prev => updateAlarms(prev, checks, Date.now()));
+
+    syncAlarms();
+  }, [checks]);
+
+  // 무음 남은 시간 표시와 무음 해제를 위해 1초마다 시각 갱신
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  const priority = soundingPriority(state, now);
+  const silenced = state.silencedUntil !== null && now < state.silencedUntil;
+
+  // 울려야 할 우선순위가 바뀌면 즉시 한 번 울리고 정해진 간격으로 반복
+  useEffect(() => {
+    const context = audioRef.current;
+    if (!soundOn || !context || !priority) return;
+    playAlarmTone(context, priority);
+    const repeat = ALARM_REPEAT_MS[priority];
+    if (repeat === null) return;
+    const id = setInterval(() => playAlarmTone(context, priority), repeat);
+    return () => clearInterval(id);
+  }, [soundOn, priority]);
+
+  const toggleSound = () => {
+    if (!audioRef.current) audioRef.current = new AudioContext();
+    audioRef.current.resume();
+    setSoundOn(v => !v);
+  };
+
+  return (
+    <div className="mb-4 border rounded-lg bg-white text-xs">
+      {/* 알람 표시줄 */}
+      <div className="p-2 flex flex-wrap items-center gap-2">
+        <Bell className="w-4 h-4 text-gray-500" />
+        {state.active.length === 0 && <span className="text-gray-400">알람 없음</span>}
+        {state.active.map(alarm => {
+          const style = PRIORITY_STYLES[alarm.priority];
+          const flashing = style.flash !== null && !alarm.acknowledged;
+          return (
+            <span
+              key={alarm.id}
+              className={`px-2 py-1 rounded border font-bold ${style.className} ${flashing ? 'animate-pulse' : ''}`}
+              style={flashing ? { animationDuration: style.flash ?? undefined } : undefined}
+              title={`우선순위 ${ALARM_PRIORITY_LABELS[alarm.priority]} · ${formatClock(alarm.since)}부터`}
+            >
+              {alarm.label}{alarm.detail ? ` · ${alarm.detail}` : ''}{alarm.acknowledged ? ' ✓' : ''}
+            </span>
+          );
+        })}
+        <div className="ml-auto flex gap-1">
+          <button
+            onClick={() => setState(prev => acknowledgeAlarms(prev, Date.now()))}
+            disabled={!state.active.some(a => !a.acknowledged)}
+            className="px-2 py-1 rounded font-bold flex items-center gap-1 bg-white text-gray-600 border disabled:opacity-40"
+          >
+            <CheckCheck className="w-3 h-3" />
+            확인
+          </button>
+          <button
+            onClick={() => setState(prev => silenceAlarms(prev, Date.now()))}
+            className={`px-2 py-1 rounded font-bold flex items-center gap-1 ${silenced ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+          >
+            <BellOff className="w-3 h-3" />
+            {silenced && state.silencedUntil !== null ? `무음 ${Math.ceil((state.silencedUntil - now) / 1000)}초` : '2분 무음'}
+          </button>
+          <button
+            onClick={toggleSound}
+            className={`px-2 py-1 rounded font-bold flex items-center gap-1 ${soundOn ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+          >
+            {soundOn ? <Volume2 className="w-3 h-3" /> : <VolumeX className="w-3 h-3" />}
+            {soundOn ? '소리 켜짐' : '소리 켜기'}
+          </button>
+          <button
+            onClick={() => setShowLog(v => !v)}
+            className="px-2 py-1 rounded font-bold flex items-center gap-1 bg-white text-gray-600 border"
+          >
+            {showLog ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            설정 · 기록 ({state.log.length})
+          </button>
+        </div>
+      </div>
+
+      {showLog && (
+        <div className="border-t p-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <div className="font-semibold text-gray-700 mb-2">알람 한계값 (Limits)</div>
+            {children}
+          </div>
+          <div>
+            <div className="font-semibold text-gray-700 mb-2">알람 기록 (Alarm History)</div>
+            <div className="max-h-48 overflow-y-auto font-mono space-y-0.5">
+              {state.log.length === 0 && <div className="text-gray-400">기록 없음</div>}
+              {state.log.map((entry, i) => (
+                <div key={`${entry.time}-${entry.id}-${entry.event}-${i}`} className="flex gap-2">
+                  <span className="text-gray-400">{formatClock(entry.time)}</span>
+                  <span className="w-8 text-gray-500">{ALARM_LOG_EVENT_LABELS[entry.event]}</span>
+                  <span className={entry.priority === 'high' ? 'text-red-600' : entry.priority === 'medium' ? 'text-yellow-600' : 'text-gray-700'}>
+                    {entry.label}{entry.detail ? ` (${entry.detail})` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
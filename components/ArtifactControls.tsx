@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import { ARTIFACT_KINDS, ARTIFACT_LABELS, ARTIFACT_MAX, ArtifactKind, ArtifactLevels, MainsFrequency } from '@/lib/artifacts';
+
+type ArtifactControlsProps = {
+  levels: ArtifactLevels;
+  onChange: (levels: ArtifactLevels) => void;
+  kinds?: ArtifactKind[];               // 이 신호에 의미 있는 인공물만 (기본: 전부)
+  labels?: Partial<Record<ArtifactKind, string>>; // 신호에 맞는 이름 (예: PPG의 '센서 떨어짐')
+};
+
+const MAINS_FREQUENCIES: MainsFrequency[] = [50, 60];
+
+/**
+ * 인공물별 세기 슬라이더와 전원 주파수 선택
+ */
+export default function ArtifactControls({ levels, onChange, kinds = ARTIFACT_KINDS, labels = {} }: ArtifactControlsProps) {
+  const mains = levels.mainsFrequency ?? 60;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+      {kinds.map(kind => (
+        <div key={kind}>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            {labels[kind] ?? ARTIFACT_LABELS[kind]}: {kind === 'leadOff' ? `${Math.round(levels[kind] * 100)}%` : levels[kind]}
+          </label>
+          <input
+            type="range" min="0" max={ARTIFACT_MAX[kind]} step={ARTIFACT_MAX[kind] / 50}
+            value={levels[kind]}
+            onChange={(e) => onChange({ ...levels, [kind]: Number(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      ))}
+      {kinds.includes('powerline') && (
+        <div className="flex items-center gap-1 text-xs">
+          <span className="font-medium text-gray-600">전원 주파수</span>
+          {MAINS_FREQUENCIES.map(value => (
+            <button
+              key={value}
+              onClick={() => onChange({ ...levels, mainsFrequency: value })}
+              className={`px-2 py-0.5 rounded font-bold ${mains === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border'}`}
+            >
+              {value} Hz
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
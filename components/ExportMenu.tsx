@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat, ExportSignal, exportSignal } from '@/lib/export';
+
+type ExportMenuProps = {
+  getSignal: () => ExportSignal; // 버튼을 누른 시점의 파형을 만들어 반환
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  edf: 'EDF',
+  'edf+': 'EDF+',
+};
+
+/**
+ * 파형 내보내기 버튼 묶음 (CSV / JSON / EDF / EDF+)
+ */
+export default function ExportMenu({ getSignal }: ExportMenuProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      exportSignal(getSignal(), format);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <Download className="w-3 h-3 text-gray-500" />
+      <span className="font-medium text-gray-600 mr-1">내보내기</span>
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100"
+        >
+          {FORMAT_LABELS[format]}
+        </button>
+      ))}
+      {error && <span className="text-red-600 ml-2">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, Loader2, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import { SignalRequest } from '@/lib/signals';
+import { useGeneratedSignal } from '@/lib/signals/useGeneratedSignal';
+import { valueRange } from '@/lib/decimate';
+import { TimeWindow, centerWindow, clampWindow, panWindow, zoomWindow } from '@/lib/viewport';
+import { ExportAnnotation } from '@/lib/export';
+import WaveformCanvas, { WaveformGrid, WaveformTrace } from './WaveformCanvas';
+
+// 채널 표시 설정. range가 없으면 기록의 최솟값~최댓값에 맞춤
+export type LongRecordingChannel = {
+  color: string;
+  range?: [number, number];
+  height?: number; // px
+};
+
+type LongRecordingProps = {
+  // 기록 길이와 샘플링 주파수로 생성 요청을 만듦 (요청이 바뀔 때만 새로 생성하도록 useCallback으로 넘김)
+  buildRequest: (duration: number, samplingRate: number) => SignalRequest;
+  channels: Record<string, LongRecordingChannel>; // 채널 이름별 표시 설정 (모듈 상수로 넘김)
+  durations: number[];       // 기록 길이 선택지 (초)
+  samplingRates: number[];   // 샘플링 주파수 선택지 (Hz)
+  defaultDuration?: number;  // 처음 기록 길이 (없으면 첫 선택지)
+  defaultSamplingRate?: number;
+  defaultWindow?: number;    // 처음 보이는 구간 길이 (초)
+  minWindow?: number;        // 최대로 확대했을 때 구간 길이 (초)
+  background?: string;
+  grid?: WaveformGrid;
+  markAnnotation?: (annotation: ExportAnnotation) => string | null; // 미니맵에 표시할 주석의 색 (없으면 표시 안 함)
+  controls?: React.ReactNode; // 추가 설정 (예: 유도 선택)
+};
+
+// 휠 한 칸(100)당 약 16% 확대/축소
+const WHEEL_ZOOM_RATE = 0.0015;
+const BUTTON_ZOOM_FACTOR = 2;
+const DEFAULT_CHANNEL_HEIGHT = 120;
+const MINIMAP_HEIGHT = 48;
+
+const formatDuration = (seconds: number) => (seconds < 60 ? `${seconds}초` : `${seconds / 60}분`);
+
+const formatClock = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+};
+
+// 화면의 x 좌표(px)를 보기 구간의 시각으로
+const timeAt = (clientX: number, element: HTMLElement, window: TimeWindow) => {
+  const rect = element.getBoundingClientRect();
+  return window.start + ((clientX - rect.left) / Math.max(rect.width, 1)) * (window.end - window.start);
+};
+
+/**
+ * 긴 기록 패널: 수 분 길이의 파형을 Web Worker에서 생성하고 확대/이동하며 봅니다.
+ * 마우스 휠이나 두 손가락으로 확대/축소하고 드래그로 이동하며, 아래 미니맵에 현재 보기 구간이 표시됩니다.
+ * 가끔 나오는 사건(간헐적 PVC, 주기적 탈포화 등)은 미니맵의 표시로 찾아갈 수 있습니다.
+ */
+export default function LongRecording({
+  buildRequest, channels, durations, samplingRates, defaultDuration, defaultSamplingRate, defaultWindow = 10, minWindow = 0.5,
+  background, grid, markAnnotation, controls,
+}: LongRecordingProps) {
+  const [duration, setDuration] = useState(defaultDuration ?? durations[0]);
+  const [samplingRate, setSamplingRate] = useState(defaultSamplingRate ?? samplingRates[0]);
+  const [drawTime, setDrawTime] = useState<number | null>(null);
+  const [view, setView] = useState<TimeWindow>({ start: 0, end: defaultWindow });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, number>()); // 눌린 포인터별 마지막 x 좌표 (px)
+
+  const request = useMemo(() => buildRequest(duration, samplingRate), [buildRequest, duration, samplingRate]);
+  const { signal, generating, error } = useGeneratedSignal(request);
+  const total = signal ? signal.channels[0].values.length / signal.samplingRate : 0;
+  const visible = clampWindow(view, total, minWindow);
+
+  const rows = useMemo(() => (signal ? signal.channels.map(channel => {
+    const style = channels[channel.name] ?? { color: '#4ade80' };
+    const traces: WaveformTrace[] = [{ values: channel.values, color: style.color }];
+    return {
+      name: channel.name,
+      traces,
+      range: style.range ?? valueRange(channel.values),
+      height: style.height ?? DEFAULT_CHANNEL_HEIGHT,
+    };
+  }) : []), [signal, channels]);
+
+  const markers = useMemo(() => {
+    if (!signal || !markAnnotation || total === 0) return [];
+    return signal.annotations.flatMap(annotation => {
+      const color = markAnnotation(annotation);
+      return color ? [{ position: (annotation.onset / total) * 100, color }] : [];
+    });
+  }, [signal, markAnnotation, total]);
+
+  const handleDraw = useCallback((milliseconds: number) => setDrawTime(milliseconds), []);
+
+  // 휠 확대/축소: React의 onWheel은 passive라 페이지 스크롤을 막을 수 없어 직접 등록
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element || total === 0) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      setView(prev => {
+        const current = clampWindow(prev, total, minWindow);
+        const span = current.end - current.start;
+        // 가로 스크롤(트랙패드, Shift+휠)은 이동
+        if (Math.abs(event.deltaX) > Math.abs(event.deltaY) || event.shiftKey) {
+          const delta = event.shiftKey ? event.deltaY : event.deltaX;
+          return panWindow(current, (delta / element.clientWidth) * span, total, minWindow);
+        }
+        const anchor = timeAt(event.clientX, element, current);
+        return zoomWindow(current, Math.exp(event.deltaY * WHEEL_ZOOM_RATE), anchor, total, minWindow);
+      });
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [total, minWindow]);
+
+  // 드래그(한 손가락)는 이동, 두 손가락은 핀치 확대/축소
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, event.clientX);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const previousX = pointers.get(event.pointerId);
+    if (previousX === undefined || total === 0) return;
+    const element = event.currentTarget;
+    const width = Math.max(element.clientWidth, 1);
+
+    if (pointers.size === 1) {
+      const dx = event.clientX - previousX;
+      setView(prev => {
+        const current = clampWindow(prev, total, minWindow);
+        return panWindow(current, (-dx / width) * (current.end - current.start), total, minWindow);
+      });
+    } else if (pointers.size === 2) {
+      const otherX = [...pointers.entries()].find(([id]) => id !== event.pointerId)?.[1] ?? previousX;
+      const before = Math.abs(previousX - otherX);
+      const after = Math.abs(event.clientX - otherX);
+      if (before > 10 && after > 10) {
+        setView(prev => {
+          const current = clampWindow(prev, total, minWindow);
+          return zoomWindow(current, before / after, timeAt(otherX, element, current), total, minWindow);
+        });
+      }
+    }
+    pointers.set(event.pointerId, event.clientX);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(event.pointerId);
+  };
+
+  // 미니맵: 누르거나 끄는 곳이 보기 구간의 가운데가 됨
+  const moveToMinimap = (event: React.PointerEvent<HTMLDivElement>) => {
+    const element = minimapRef.current;
+    if (!element || total === 0) return;
+    const center = timeAt(event.clientX, element, { start: 0, end: total });
+    setView(prev => centerWindow(clampWindow(prev, total, minWindow), center, total, minWindow));
+  };
+
+  const zoomBy = (factor: number) => {
+    setView(prev => {
+      const current = clampWindow(prev, total, minWindow);
+      return zoomWindow(current, factor, (current.start + current.end) / 2, total, minWindow);
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-semibold text-gray-700">기록 길이</span>
+        {durations.map(seconds => (
+          <button
+            key={seconds}
+            onClick={() => setDuration(seconds)}
+            className={`px-2 py-1 rounded font-bold ${duration === seconds ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+          >
+            {formatDuration(seconds)}
+          </button>
+        ))}
+        <span className="ml-2 font-semibold text-gray-700">샘플링</span>
+        {samplingRates.map(rate => (
+          <button
+            key={rate}
+            onClick={() => setSamplingRate(rate)}
+            className={`px-2 py-1 rounded font-bold ${samplingRate === rate ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+          >
+            {rate} Hz
+          </button>
+        ))}
+        {controls}
+        {generating && (
+          <span className="text-gray-500 flex items-center gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            생성 중…
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-xs rounded p-2 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </div>
+      )}
+
+      <div className={`rounded-lg p-2 border border-gray-300 ${generating ? 'opacity-60' : ''}`} style={{ background }}>
+        {signal ? (
+          <>
+            <div
+              ref={viewportRef}
+              className="space-y-1 cursor-grab active:cursor-grabbing select-none"
+              style={{ touchAction: 'none' }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {rows.map(row => (
+                <WaveformCanvas
+                  key={row.name}
+                  traces={row.traces}
+                  samplingRate={signal.samplingRate}
+                  start={visible.start}
+                  end={visible.end}
+                  range={row.range}
+                  height={row.height}
+                  background={background}
+                  grid={grid}
+                  label={row.name}
+                  onDraw={handleDraw}
+                />
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between text-[11px] font-mono text-gray-500 mt-1">
+              <span>{formatClock(visible.start)}</span>
+              <span className="flex items-center gap-1">
+                <button onClick={() => zoomBy(1 / BUTTON_ZOOM_FACTOR)} className="p-1 rounded hover:bg-gray-200" title="확대">
+                  <ZoomIn className="w-3 h-3" />
+                </button>
+                <button onClick={() => zoomBy(BUTTON_ZOOM_FACTOR)} className="p-1 rounded hover:bg-gray-200" title="축소">
+                  <ZoomOut className="w-3 h-3" />
+                </button>
+                <button onClick={() => setView({ start: 0, end: total })} className="p-1 rounded hover:bg-gray-200" title="전체 보기">
+                  <Maximize2 className="w-3 h-3" />
+                </button>
+                보기 {(visible.end - visible.start).toFixed(1)} s / {total.toFixed(0)} s
+              </span>
+              <span>{formatClock(visible.end)}</span>
+            </div>
+
+            {/* 미니맵: 기록 전체와 현재 보기 구간 */}
+            <div
+              ref={minimapRef}
+              className="relative mt-1 cursor-pointer select-none"
+              style={{ touchAction: 'none' }}
+              onPointerDown={event => {
+                event.currentTarget.setPointerCapture(event.pointerId);
+                moveToMinimap(event);
+              }}
+              onPointerMove={event => {
+                if (event.currentTarget.hasPointerCapture(event.pointerId)) moveToMinimap(event);
+              }}
+            >
+              <WaveformCanvas
+                traces={rows[0].traces}
+                samplingRate={signal.samplingRate}
+                start={0}
+                end={total}
+                range={rows[0].range}
+                height={MINIMAP_HEIGHT}
+                background={background}
+                lineWidth={0.8}
+              />
+              {markers.map((marker, i) => (
+                <div
+                  key={i}
+                  className="absolute top-0 h-1.5 w-px pointer-events-none"
+                  style={{ left: `${marker.position}%`, background: marker.color }}
+                />
+              ))}
+              <div
+                className="absolute top-0 h-full border-2 border-blue-500 bg-blue-500/10 rounded-sm pointer-events-none"
+                style={{
+                  left: `${(visible.start / Math.max(total, 1e-9)) * 100}%`,
+                  width: `${((visible.end - visible.start) / Math.max(total, 1e-9)) * 100}%`,
+                }}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="h-40 flex items-center justify-center text-gray-500 text-sm">파형을 생성하는 중입니다…</div>
+        )}
+      </div>
+
+      {signal && (
+        <div className="text-xs text-gray-500 font-mono flex flex-wrap gap-x-4">
+          <span>{signal.channels.length}채널 × {signal.channels[0].values.length.toLocaleString()} 샘플</span>
+          {signal.annotations.length > 0 && <span>주석 {signal.annotations.length}개</span>}
+          <span>생성 {signal.elapsed.toFixed(0)} ms (Web Worker)</span>
+          {drawTime !== null && <span>그리기 {drawTime.toFixed(1)} ms/채널</span>}
+          <span className="text-gray-400">휠·핀치: 확대/축소 · 드래그: 이동 · 미니맵 클릭: 구간 이동</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import WaveformCanvas, { WaveformTrace } from './WaveformCanvas';
+
+export type MonitorChannel = {
+  label: string;
+  color: string;
+  values: ArrayLike<number>;
+  samplingRate: number;
+  range: [number, number];
+  height?: number; // px
+};
+
+type MonitorTracesProps = {
+  channels: MonitorChannel[];  // 같은 시각(0초)에서 시작하는 파형들
+  windowSeconds: number;       // 화면에 보이는 길이 (초)
+  running: boolean;            // 멈추면 현재 화면을 고정
+  background?: string;
+};
+
+const DEFAULT_HEIGHT = 90;
+
+/**
+ * 다중 파라미터 모니터의 파형 영역
+ * 미리 생성한 버퍼를 모든 채널이 같은 시계로 흘려 보내므로, 채널 사이의 시각이 항상 맞습니다.
+ * 버퍼 끝에 닿으면 처음으로 돌아갑니다.
+ */
+export default function MonitorTraces({ channels, windowSeconds, running, background = '#000000' }: MonitorTracesProps) {
+  const [clock, setClock] = useState(0); // 재생 시간 (초)
+
+  useEffect(() => {
+    if (!running) return;
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) / 1000;
+      last = now;
+      setClock(prev => prev + delta);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [running]);
+
+  const traces = useMemo(
+    () => channels.map((channel): WaveformTrace[] => [{ values: channel.values, color: channel.color }]),
+    [channels],
+  );
+
+  // 가장 짧은 버퍼 안에서 돌려 모든 채널이 같은 구간을 보이게 함
+  const buffer = channels.length > 0 ? Math.min(...channels.map(c => c.values.length / c.samplingRate)) : 0;
+  const loop = buffer - windowSeconds;
+  const end = loop > 0 ? windowSeconds + (clock % loop) : buffer;
+  const start = Math.max(0, end - windowSeconds);
+
+  return (
+    <div className="space-y-1 rounded-lg p-2" style={{ background }}>
+      {channels.map((channel, i) => (
+        <WaveformCanvas
+          key={channel.label}
+          traces={traces[i]}
+          samplingRate={channel.samplingRate}
+          start={start}
+          end={end}
+          range={channel.range}
+          height={channel.height ?? DEFAULT_HEIGHT}
+          background={background}
+          label={channel.label}
+          lineWidth={1.5}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { BookmarkPlus, Download, Trash2, Upload } from 'lucide-react';
+import { downloadFile } from '@/lib/export';
+import { ParamSchema } from '@/lib/paramSchema';
+import {
+  CustomPreset, PresetSimulator,
+  createCustomPreset, loadCustomPresets, mergeCustomPresets, parsePresetFile, saveCustomPresets, toPresetFile,
+} from '@/lib/presets';
+
+type PresetLibraryProps<T> = {
+  simulator: PresetSimulator;
+  schema: ParamSchema<T>;
+  params: T;                         // 저장 버튼을 눌렀을 때 담을 현재 파라미터
+  activeId?: string | null;          // 지금 적용된 사용자 프리셋 (강조 표시)
+  onApply: (preset: CustomPreset<T>) => void;
+  onDelete?: (id: string) => void;   // 적용 중인 프리셋이 지워졌는지 알려줌
+};
+
+/**
+ * 사용자 프리셋 목록, 현재 설정 저장, JSON 모음 파일 가져오기/내보내기
+ * 목록은 브라우저(localStorage)에 시뮬레이터별로 저장됩니다.
+ */
+export default function PresetLibrary<T>({ simulator, schema, params, activeId, onApply, onDelete }: PresetLibraryProps<T>) {
+  const [presets, setPresets] = useState<CustomPreset<T>[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  // 저장된 프리셋 불러오기 (localStorage는 브라우저에서만 읽을 수 있음)
+  useEffect(() => {
+    const loadPresets = () => setPresets(loadCustomPresets(simulator, schema));
+
+    loadPresets();
+  }, [simulator, schema]);
+
+  const updatePresets = (next: CustomPreset<T>[]) => {
+    setPresets(next);
+    saveCustomPresets(simulator, next);
+  };
+
+  const handleSave = () => {
+    if (!label.trim()) return;
+    const preset = createCustomPreset(label, description, params);
+    updatePresets([...presets, preset]);
+    onApply(preset);
+    setSaving(false);
+    setLabel('');
+    setDescription('');
+    setMessage(null);
+  };
+
+  const handleDelete = (id: string) => {
+    updatePresets(presets.filter(preset => preset.id !== id));
+    onDelete?.(id);
+  };
+
+  const handleImport = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+    try {
+      const { presets: imported, skipped } = parsePresetFile(await file.text(), simulator, schema);
+      updatePresets(mergeCustomPresets(presets, imported));
+      setMessage({
+        text: `${imported.length}개 프리셋을 불러왔습니다.${skipped.length > 0 ? ` 형식이 맞지 않는 ${skipped.length}개 제외: ${skipped.join(' / ')}` : ''}`,
+        error: skipped.length > 0,
+      });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(`${simulator}-presets.json`, toPresetFile(simulator, presets), 'application/json');
+  };
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="font-semibold text-gray-700 mr-1">내 프리셋 (Custom)</span>
+        <button
+          onClick={() => setSaving(prev => !prev)}
+          className={`px-2 py-0.5 rounded font-bold flex items-center gap-1 ${saving ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+        >
+          <BookmarkPlus className="w-3 h-3" />
+          현재 설정 저장
+        </button>
+        <label className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1 cursor-pointer">
+          <Upload className="w-3 h-3" />
+          가져오기
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={presets.length === 0}
+          className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1 disabled:opacity-40"
+        >
+          <Download className="w-3 h-3" />
+          내보내기
+        </button>
+      </div>
+
+      {saving && (
+        <div className="p-2 border rounded bg-white space-y-1">
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="이름 (예: 하벽 STEMI + 완전 방실 차단)"
+            className="w-full px-1 py-0.5 border rounded"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="설명 (선택)"
+            rows={2}
+            className="w-full px-1 py-0.5 border rounded resize-none"
+          />
+          <div className="flex justify-end gap-1">
+            <button onClick={() => setSaving(false)} className="px-2 py-0.5 rounded bg-white text-gray-600 border hover:bg-gray-100">
+              취소
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!label.trim()}
+              className="px-2 py-0.5 rounded font-bold bg-blue-600 text-white disabled:opacity-40"
+            >
+              저장
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <div className={message.error ? 'text-red-600' : 'text-green-700'}>{message.text}</div>}
+
+      {presets.length === 0 ? (
+        <div className="text-gray-400">저장한 프리셋이 없습니다.</div>
+      ) : (
+        <div className="space-y-2">
+          {presets.map(preset => (
+            <div
+              key={preset.id}
+              className={`flex items-start gap-2 p-3 rounded-lg text-sm transition-all border ${
+                activeId === preset.id
+                  ? 'bg-blue-50 border-blue-500 ring-1 ring-blue-500'
+                  : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+              }`}
+            >
+              <button onClick={() => onApply(preset)} className="flex-1 text-left">
+                <div className="font-bold text-gray-800">{preset.label}</div>
+                {preset.description && <div className="text-xs text-gray-500 mt-1 line-clamp-2">{preset.description}</div>}
+              </button>
+              <button onClick={() => handleDelete(preset.id)} className="p-1 text-gray-400 hover:text-red-600" title="삭제">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
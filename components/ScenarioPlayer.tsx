@@ -0,0 +1,616 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ArrowDown, ArrowUp, Copy, Download, FilePlus, Link2, Pause, Pencil, Play, Plus, Square, Trash2, Upload,
+} from 'lucide-react';
+import { downloadFile } from '@/lib/export';
+import { ParamSchema } from '@/lib/paramSchema';
+import { PresetSimulator } from '@/lib/presets';
+import {
+  BUILT_IN_SCENARIOS, SCENARIO_TRIGGER_KINDS, SCENARIO_TRIGGER_LABELS,
+  Scenario, ScenarioStep, ScenarioTarget, ScenarioTriggerKind, TimedTrigger,
+  copyScenario, createScenario, createScenarioStep, diffParams, loadScenarios, locateScenario, parseScenarioFile,
+  saveScenarios, scenarioDuration, scenarioParams, scenarioTriggers, stepStartTimes, toScenarioFile, validateScenarioTargets,
+} from '@/lib/scenario';
+
+type ScenarioPlayerProps<T> = {
+  simulator: PresetSimulator;
+  schema: ParamSchema<T>;
+  base: T;     // 시나리오가 시작될 때의 파라미터 (페이지 기본값, 렌더마다 같은 객체여야 함)
+  params: T;   // 현재 설정 (단계 목표로 담을 때 사용)
+  presets?: Record<string, { label: string; params: T }>; // 단계 목표로 고를 수 있는 내장 프리셋 (ECG)
+  onApply: (params: T, scenario: Scenario, preset?: string) => void;
+};
+
+// 다른 창(ECG, PPG, 인공호흡기 페이지)에 재생 상태를 알리는 메시지
+type SyncMessage = {
+  scenario: Scenario;
+  time: number;
+  playing: boolean;
+};
+
+const TICK_MS = 250;
+// 전환 진행률을 몇 단계로 끊어 적용할지 (매 틱마다 파형을 다시 만들지 않도록)
+const PROGRESS_STEPS = 20;
+const SYNC_CHANNEL = 'ecg-visualize-scenario';
+const SIMULATOR_LABELS: Record<PresetSimulator, string> = {
+  ecg: 'ECG',
+  ppg: 'PPG',
+  ventilator: '인공호흡기',
+};
+const MAX_SUMMARY_ITEMS = 4;
+const MAX_CUE_LOG = 5;
+
+// 초 → m:ss
+const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+/**
+ * 아직 울리지 않은 트리거 중 지정 시각까지 도달한 것을 골라 울린 것으로 표시합니다.
+ * @param {TimedTrigger[]} triggers - 시간 순 트리거
+ * @param {Set<string>} fired - 이미 울린 트리거 키 (직접 갱신됨)
+ * @param {number} until - 이 시각까지 (초)
+ * @param {boolean} stopAtPause - 일시정지 트리거에서 멈출지 (다른 창을 따라갈 때는 멈추지 않음)
+ */
+const collectTriggers = (triggers: TimedTrigger[], fired: Set<string>, until: number, stopAtPause: boolean): TimedTrigger[] => {
+  const due: TimedTrigger[] = [];
+  for (const trigger of triggers) {
+    if (trigger.time > until) break;
+    if (fired.has(trigger.key)) continue;
+    fired.add(trigger.key);
+    due.push(trigger);
+    if (stopAtPause && trigger.kind === 'pause') break;
+  }
+  return due;
+};
+
+// 단계 목표 요약 (프리셋 이름과 바꾸는 항목 몇 개)
+const describeTarget = (target: ScenarioTarget | undefined, presets?: Record<string, { label: string }>) => {
+  if (!target || (!target.preset && Object.keys(target.params ?? {}).length === 0)) return '유지';
+  const entries = Object.entries(target.params ?? {});
+  const items = entries
+    .slice(0, MAX_SUMMARY_ITEMS)
+    .map(([key, value]) => `${key} ${typeof value === 'object' ? '…' : String(value)}`);
+  if (entries.length > MAX_SUMMARY_ITEMS) items.push(`외 ${entries.length - MAX_SUMMARY_ITEMS}개`);
+  return [target.preset ? (presets?.[target.preset]?.label ?? target.preset) : null, ...items].filter(Boolean).join(' · ');
+};
+
+/**
+ * 임상 시나리오 재생기와 편집기
+ * 단계별 목표 파라미터를 전환 시간 동안 보간해 페이지에 적용하고, 트리거 시각에 강사용 알림을 띄웁니다.
+ * 같은 브라우저의 다른 창(ECG, PPG, 인공호흡기 페이지)과 재생 위치를 맞춰, 한 타임라인으로 여러 화면을 움직일 수 있습니다.
+ */
+export default function ScenarioPlayer<T extends object>({ simulator, schema, base, params, presets, onApply }: ScenarioPlayerProps<T>) {
+  const [customScenarios, setCustomScenarios] = useState<Scenario[]>([]);
+  const [remoteScenario, setRemoteScenario] = useState<Scenario | null>(null);
+  const [selectedId, setSelectedId] = useState(BUILT_IN_SCENARIOS[0].id);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [remotePlaying, setRemotePlaying] = useState(false);
+  const [linked, setLinked] = useState(true);
+  const [cueLog, setCueLog] = useState<TimedTrigger[]>([]); // 최근 것이 앞
+  const [editing, setEditing] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const timeRef = useRef(0);
+  const firedRef = useRef(new Set<string>());
+  const frameRef = useRef('');
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const onApplyRef = useRef(onApply);
+
+  useEffect(() => {
+    onApplyRef.current = onApply;
+  }, [onApply]);
+
+  // 저장된 시나리오 불러오기 (localStorage는 브라우저에서만 읽을 수 있음)
+  // 다른 탭에서 저장하거나 지운 시나리오도 바로 목록에 보이도록 storage 이벤트마다 다시 읽음
+  useEffect(() => {
+    const loadList = () => setCustomScenarios(loadScenarios());
+
+    loadList();
+    window.addEventListener('storage', loadList);
+    return () => window.removeEventListener('storage', loadList);
+  }, []);
+
+  // 다른 창에서 받은 시나리오가 우선 (같은 id라도 내용이 다를 수 있으므로)
+  const scenario = (remoteScenario?.id === selectedId ? remoteScenario : null)
+    ?? [...BUILT_IN_SCENARIOS, ...customScenarios].find(item => item.id === selectedId)
+    ?? BUILT_IN_SCENARIOS[0];
+  const editable = customScenarios.some(item => item.id === scenario.id);
+  const total = scenarioDuration(scenario);
+  const triggers = useMemo(() => scenarioTriggers(scenario), [scenario]);
+  const errors = useMemo(
+    () => validateScenarioTargets(scenario, simulator, schema, base, presets),
+    [scenario, simulator, schema, base, presets],
+  );
+  const position = locateScenario(scenario, time);
+  const starts = stepStartTimes(scenario);
+
+  // 재생 위치의 파라미터를 페이지에 적용 (단계나 전환 진행률이 바뀔 때만)
+  const applyFrame = useCallback((target: Scenario, at: number) => {
+    const located = locateScenario(target, at);
+    const progress = Math.round(located.progress * PROGRESS_STEPS) / PROGRESS_STEPS;
+    const key = `${target.id}:${located.index}:${progress}`;
+    if (key === frameRef.current) return;
+    frameRef.current = key;
+    if (validateScenarioTargets(target, simulator, schema, base, presets).length > 0) return;
+    const frame = scenarioParams(target, simulator, base, { ...located, progress }, presets);
+    onApplyRef.current(frame.params, target, frame.preset);
+  }, [simulator, schema, base, presets]);
+
+  const broadcast = (state: SyncMessage) => channelRef.current?.postMessage(state);
+
+  // 재생: 실제 시간에 맞춰 진행하고, 트리거를 울리고, 끝이나 일시정지 트리거에서 멈춤
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+    const timer = window.setInterval(() => {
+      const now = performance.now();
+      let next = Math.min(timeRef.current + (now - last) / 1000, total);
+      last = now;
+
+      const due = collectTriggers(triggers, firedRef.current, next, true);
+      const pause = due.find(trigger => trigger.kind === 'pause');
+      if (pause) next = pause.time;
+      if (due.length > 0) setCueLog(prev => [...due.reverse(), ...prev]);
+
+      timeRef.current = next;
+      setTime(next);
+      applyFrame(scenario, next);
+      const stopped = pause !== undefined || next >= total;
+      if (stopped) setPlaying(false);
+      channelRef.current?.postMessage({ scenario, time: next, playing: !stopped } satisfies SyncMessage);
+    }, TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [playing, scenario, triggers, total, applyFrame]);
+
+  // 다른 창과 연동: 재생 중인 창의 위치를 따라감 (일시정지 트리거는 재생하는 창이 처리)
+  useEffect(() => {
+    if (!linked || typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(SYNC_CHANNEL);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      const { scenario: remote, time: remoteTime, playing: remoteIsPlaying } = event.data;
+      const remoteTriggers = scenarioTriggers(remote);
+      if (remoteTime < timeRef.current) {
+        firedRef.current = new Set(remoteTriggers.filter(trigger => trigger.time < remoteTime).map(trigger => trigger.key));
+      }
+      const due = collectTriggers(remoteTriggers, firedRef.current, remoteTime, false);
+      if (due.length > 0) setCueLog(prev => [...due.reverse(), ...prev]);
+
+      setRemoteScenario(remote);
+      setSelectedId(remote.id);
+      setPlaying(false);
+      setRemotePlaying(remoteIsPlaying);
+      timeRef.current = remoteTime;
+      setTime(remoteTime);
+      applyFrame(remote, remoteTime);
+    };
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [linked, applyFrame]);
+
+  // 재생 위치 이동: 그 앞의 트리거는 이미 지난 것으로 보고, 파라미터는 처음부터 재생한 것과 같게 맞춤
+  const seek = (at: number) => {
+    const clamped = Math.min(Math.max(at, 0), total);
+    const passed = triggers.filter(trigger => trigger.time < clamped);
+    firedRef.current = new Set(passed.map(trigger => trigger.key));
+    setCueLog([...passed].reverse());
+    timeRef.current = clamped;
+    setTime(clamped);
+    applyFrame(scenario, clamped);
+    broadcast({ scenario, time: clamped, playing });
+  };
+
+  const handlePlay = () => {
+    if (errors.length > 0) return;
+    if (timeRef.current >= total) seek(0);
+    setPlaying(true);
+    setRemotePlaying(false);
+  };
+
+  const handlePause = () => {
+    setPlaying(false);
+    broadcast({ scenario, time: timeRef.current, playing: false });
+  };
+
+  const handleStop = () => {
+    setPlaying(false);
+    seek(0);
+    broadcast({ scenario, time: 0, playing: false });
+  };
+
+  const selectScenario = (id: string) => {
+    setSelectedId(id);
+    setRemoteScenario(null);
+    setPlaying(false);
+    setCueLog([]);
+    setMessage(null);
+    firedRef.current = new Set();
+    frameRef.current = '';
+    timeRef.current = 0;
+    setTime(0);
+  };
+
+  // --- 사용자 시나리오 편집 ---
+
+  const updateList = (next: Scenario[]) => {
+    setCustomScenarios(next);
+    saveScenarios(next);
+  };
+
+  const updateScenario = (changes: Partial<Scenario>) => {
+    const next = { ...scenario, ...changes };
+    updateList(customScenarios.map(item => (item.id === next.id ? next : item)));
+    setRemoteScenario(null);
+    frameRef.current = ''; // 내용이 바뀌었으니 같은 위치라도 다시 적용
+  };
+
+  const updateStep = (index: number, changes: Partial<ScenarioStep>) => {
+    updateScenario({ steps: scenario.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const updateTarget = (index: number, target: ScenarioTarget | undefined) => {
+    const targets = { ...scenario.steps[index].targets };
+    if (target) targets[simulator] = target;
+    else delete targets[simulator];
+    updateStep(index, { targets });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...scenario.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    updateScenario({ steps });
+  };
+
+  // 현재 페이지 설정을 단계 목표로 담음 (이전 단계까지의 상태와 달라진 항목만)
+  const captureStep = (index: number) => {
+    const previous = scenarioParams(scenario, simulator, base, { index: index - 1, elapsed: 0, progress: 1 }, presets).params;
+    updateTarget(index, { params: diffParams(previous, params) });
+  };
+
+  const addScenario = (source?: Scenario) => {
+    const created = source ? copyScenario(source, `${source.label} (사본)`) : createScenario('새 시나리오');
+    updateList([...customScenarios, created]);
+    selectScenario(created.id);
+    setEditing(true);
+  };
+
+  const deleteScenario = () => {
+    updateList(customScenarios.filter(item => item.id !== scenario.id));
+    selectScenario(BUILT_IN_SCENARIOS[0].id);
+    setEditing(false);
+  };
+
+  const handleImport = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+    try {
+      const { scenarios: imported, skipped } = parseScenarioFile(await file.text());
+      // 이 페이지의 파라미터로 적용할 수 없는 시나리오는 제외
+      const usable = imported.filter(item => {
+        const problems = validateScenarioTargets(item, simulator, schema, base, presets);
+        if (problems.length > 0) skipped.push(`${item.label}: ${problems.join(' ')}`);
+        return problems.length === 0;
+      });
+      const ids = new Set(usable.map(item => item.id));
+      updateList([...customScenarios.filter(item => !ids.has(item.id)), ...usable]);
+      setMessage({
+        text: `${usable.length}개 시나리오를 불러왔습니다.${skipped.length > 0 ? ` 형식이 맞지 않는 ${skipped.length}개 제외: ${skipped.join(' / ')}` : ''}`,
+        error: skipped.length > 0,
+      });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile('scenarios.json', toScenarioFile(editable ? [scenario] : customScenarios), 'application/json');
+  };
+
+  const currentStep = scenario.steps[position.index];
+  const latestCue = cueLog[0];
+
+  return (
+    <div className="space-y-3 text-xs">
+      {/* 시나리오 선택과 목록 관리 */}
+      <div className="flex flex-wrap items-center gap-1">
+        <select
+          value={scenario.id}
+          onChange={(e) => selectScenario(e.target.value)}
+          className="p-1 border rounded text-xs max-w-xs"
+        >
+          <optgroup label="내장 시나리오">
+            {BUILT_IN_SCENARIOS.map(item => <option key={item.id} value={item.id}>{item.label}</option>)}
+          </optgroup>
+          {customScenarios.length > 0 && (
+            <optgroup label="내 시나리오">
+              {customScenarios.map(item => <option key={item.id} value={item.id}>{item.label}</option>)}
+            </optgroup>
+          )}
+          {remoteScenario && !customScenarios.some(item => item.id === remoteScenario.id)
+            && !BUILT_IN_SCENARIOS.some(item => item.id === remoteScenario.id) && (
+            <option value={remoteScenario.id}>{remoteScenario.label} (다른 창)</option>
+          )}
+        </select>
+        <button onClick={() => addScenario()} className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1">
+          <FilePlus className="w-3 h-3" />
+          새로 만들기
+        </button>
+        <button onClick={() => addScenario(scenario)} className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1">
+          <Copy className="w-3 h-3" />
+          복사
+        </button>
+        <button
+          onClick={() => setEditing(prev => !prev)}
+          disabled={!editable}
+          title={editable ? '' : '내장 시나리오는 복사한 뒤 편집할 수 있습니다.'}
+          className={`px-2 py-0.5 rounded font-bold flex items-center gap-1 disabled:opacity-40 ${editing && editable ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border hover:bg-gray-100'}`}
+        >
+          <Pencil className="w-3 h-3" />
+          편집
+        </button>
+        <label className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1 cursor-pointer">
+          <Upload className="w-3 h-3" />
+          가져오기
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={customScenarios.length === 0}
+          className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1 disabled:opacity-40"
+        >
+          <Download className="w-3 h-3" />
+          내보내기
+        </button>
+        {editable && (
+          <button onClick={deleteScenario} className="p-1 text-gray-400 hover:text-red-600" title="삭제">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+        <label className="ml-auto flex items-center gap-1 text-gray-600 cursor-pointer" title="같은 브라우저에서 열린 ECG, PPG, 인공호흡기 창이 같은 위치를 재생합니다.">
+          <input type="checkbox" checked={linked} onChange={(e) => setLinked(e.target.checked)} />
+          <Link2 className="w-3 h-3" />
+          다른 창과 연동
+        </label>
+      </div>
+
+      {scenario.description && <div className="text-gray-500">{scenario.description}</div>}
+      {message && <div className={message.error ? 'text-red-600' : 'text-green-700'}>{message.text}</div>}
+      {errors.length > 0 && (
+        <div className="text-red-600">
+          이 페이지에 적용할 수 없는 단계가 있습니다: {errors.join(' / ')}
+        </div>
+      )}
+
+      {/* 재생 조작 */}
+      <div className="flex items-center gap-2">
+        {playing ? (
+          <button onClick={handlePause} className="p-1.5 rounded bg-blue-600 text-white" title="일시정지">
+            <Pause className="w-4 h-4" />
+          </button>
+        ) : (
+          <button onClick={handlePlay} disabled={errors.length > 0} className="p-1.5 rounded bg-blue-600 text-white disabled:opacity-40" title="재생">
+            <Play className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={handleStop} className="p-1.5 rounded bg-white text-gray-600 border hover:bg-gray-100" title="처음으로">
+          <Square className="w-4 h-4" />
+        </button>
+        <span className="font-mono text-gray-700 w-24">{formatClock(time)} / {formatClock(total)}</span>
+        <input
+          type="range" min="0" max={total} step="1"
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      {/* 단계 타임라인 (눌러서 단계 처음으로 이동) */}
+      <div className="flex h-6 rounded overflow-hidden border">
+        {scenario.steps.map((step, index) => (
+          <button
+            key={index}
+            onClick={() => seek(starts[index])}
+            style={{ flexGrow: step.duration }}
+            className={`basis-0 truncate px-1 text-[10px] border-r last:border-r-0 ${index === position.index ? 'bg-blue-100 text-blue-800 font-bold' : 'bg-gray-50 text-gray-500 hover:bg-gray-100'}`}
+            title={`${step.label} (${formatClock(step.duration)}, 전환 ${step.transition}초)`}
+          >
+            {step.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-gray-600">
+        {currentStep && <span>{position.index + 1}/{scenario.steps.length} 단계: <span className="font-bold text-gray-800">{currentStep.label}</span></span>}
+        {position.progress < 1 && <span className="text-blue-600">전환 중 {Math.round(position.progress * 100)}%</span>}
+        {remotePlaying && <span className="text-green-700">다른 창에서 재생 중</span>}
+      </div>
+
+      {latestCue && (
+        <div className={`p-2 rounded border ${latestCue.kind === 'pause' && !playing && !remotePlaying ? 'bg-amber-100 border-amber-400' : 'bg-amber-50 border-amber-200'}`}>
+          <div className="font-bold text-amber-800">
+            {formatClock(latestCue.time)} {latestCue.message}
+            {latestCue.kind === 'pause' && !playing && !remotePlaying && ' — 처치 후 재생을 눌러 계속'}
+          </div>
+          {cueLog.slice(1, MAX_CUE_LOG).map(cue => (
+            <div key={cue.key} className="text-amber-700">{formatClock(cue.time)} {cue.message}</div>
+          ))}
+        </div>
+      )}
+
+      {/* 편집기 */}
+      {editing && editable && (
+        <div className="p-3 border rounded bg-white space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <input
+              value={scenario.label}
+              onChange={(e) => updateScenario({ label: e.target.value })}
+              placeholder="시나리오 이름"
+              className="sm:col-span-3 px-1 py-0.5 border rounded"
+            />
+            <label className="flex items-center gap-1 text-gray-600">
+              시드
+              <input
+                type="number"
+                value={scenario.seed ?? ''}
+                onChange={(e) => updateScenario({ seed: e.target.value === '' ? undefined : Math.round(Number(e.target.value)) })}
+                placeholder="현재 시드"
+                className="w-full px-1 py-0.5 border rounded"
+              />
+            </label>
+            <textarea
+              value={scenario.description}
+              onChange={(e) => updateScenario({ description: e.target.value })}
+              placeholder="설명 (선택)"
+              rows={2}
+              className="sm:col-span-4 px-1 py-0.5 border rounded resize-none"
+            />
+          </div>
+
+          {scenario.steps.map((step, index) => (
+            <div key={index} className="p-2 border rounded bg-gray-50 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-bold text-gray-500">{index + 1}</span>
+                <input
+                  value={step.label}
+                  onChange={(e) => updateStep(index, { label: e.target.value })}
+                  className="flex-1 min-w-32 px-1 py-0.5 border rounded"
+                />
+                <label className="flex items-center gap-1 text-gray-600">
+                  길이
+                  <input
+                    type="number" min="1" step="1"
+                    value={step.duration}
+                    onChange={(e) => {
+                      const duration = Math.max(1, Number(e.target.value) || 1);
+                      updateStep(index, { duration, transition: Math.min(step.transition, duration) });
+                    }}
+                    className="w-16 px-1 py-0.5 border rounded"
+                  />
+                  초
+                </label>
+                <label className="flex items-center gap-1 text-gray-600">
+                  전환
+                  <input
+                    type="number" min="0" max={step.duration} step="1"
+                    value={step.transition}
+                    onChange={(e) => updateStep(index, { transition: Math.min(Math.max(0, Number(e.target.value) || 0), step.duration) })}
+                    className="w-16 px-1 py-0.5 border rounded"
+                  />
+                  초
+                </label>
+                <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="위로">
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button onClick={() => moveStep(index, 1)} disabled={index === scenario.steps.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="아래로">
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => updateScenario({ steps: scenario.steps.filter((_, i) => i !== index) })}
+                  disabled={scenario.steps.length === 1}
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  title="단계 삭제"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+
+              {/* 이 페이지 시뮬레이터의 목표 */}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-gray-700">{SIMULATOR_LABELS[simulator]} 목표:</span>
+                {presets && (
+                  <select
+                    value={step.targets[simulator]?.preset ?? ''}
+                    onChange={(e) => updateTarget(index, e.target.value
+                      ? { ...step.targets[simulator], preset: e.target.value }
+                      : step.targets[simulator]?.params ? { params: step.targets[simulator]?.params } : undefined)}
+                    className="p-1 border rounded text-xs max-w-48"
+                  >
+                    <option value="">프리셋 유지</option>
+                    {Object.entries(presets).map(([key, preset]) => <option key={key} value={key}>{preset.label}</option>)}
+                  </select>
+                )}
+                <span className="text-gray-500">{describeTarget(step.targets[simulator], presets)}</span>
+                <button onClick={() => captureStep(index)} className="px-2 py-0.5 rounded bg-white text-gray-600 border hover:bg-gray-100">
+                  현재 설정 담기
+                </button>
+                <button onClick={() => updateTarget(index, undefined)} className="px-2 py-0.5 rounded bg-white text-gray-600 border hover:bg-gray-100">
+                  목표 지우기
+                </button>
+              </div>
+              {(Object.keys(step.targets) as PresetSimulator[]).filter(other => other !== simulator).map(other => (
+                <div key={other} className="text-gray-400">{SIMULATOR_LABELS[other]} 목표: {describeTarget(step.targets[other])}</div>
+              ))}
+
+              {/* 트리거 */}
+              {step.triggers.map((trigger, triggerIndex) => (
+                <div key={triggerIndex} className="flex items-center gap-2">
+                  <input
+                    type="number" min="0" max={step.duration} step="1"
+                    value={trigger.at}
+                    onChange={(e) => updateStep(index, {
+                      triggers: step.triggers.map((item, i) => (i === triggerIndex ? { ...item, at: Math.max(0, Number(e.target.value) || 0) } : item)),
+                    })}
+                    className="w-14 px-1 py-0.5 border rounded"
+                  />
+                  <span className="text-gray-500">초</span>
+                  <select
+                    value={trigger.kind}
+                    onChange={(e) => updateStep(index, {
+                      triggers: step.triggers.map((item, i) => (i === triggerIndex ? { ...item, kind: e.target.value as ScenarioTriggerKind } : item)),
+                    })}
+                    className="p-1 border rounded text-xs"
+                  >
+                    {SCENARIO_TRIGGER_KINDS.map(kind => <option key={kind} value={kind}>{SCENARIO_TRIGGER_LABELS[kind]}</option>)}
+                  </select>
+                  <input
+                    value={trigger.message}
+                    onChange={(e) => updateStep(index, {
+                      triggers: step.triggers.map((item, i) => (i === triggerIndex ? { ...item, message: e.target.value } : item)),
+                    })}
+                    placeholder="알림 내용"
+                    className="flex-1 px-1 py-0.5 border rounded"
+                  />
+                  <button
+                    onClick={() => updateStep(index, { triggers: step.triggers.filter((_, i) => i !== triggerIndex) })}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="트리거 삭제"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateStep(index, { triggers: [...step.triggers, { at: 0, kind: 'cue', message: '' }] })}
+                className="text-blue-600 hover:text-blue-800 flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" />
+                트리거 추가
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => updateScenario({ steps: [...scenario.steps, createScenarioStep(`${scenario.steps.length + 1}단계`)] })}
+            className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" />
+            단계 추가
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Dices, Link, Check } from 'lucide-react';
+import { randomSeed } from '@/lib/random';
+
+type ShareControlsProps = {
+  seed?: number;   // 난수를 쓰지 않는 시뮬레이터는 생략 (시드 입력 숨김)
+  onSeedChange?: (seed: number) => void;
+  buildUrl: () => string; // 버튼을 누른 시점의 상태로 공유 링크 생성
+  error?: string | null;  // 열린 링크를 적용하지 못한 이유
+};
+
+/**
+ * 시드 입력과 시나리오 링크 복사 버튼
+ * 같은 링크를 연 사람은 모두 같은 파형(노이즈 포함)을 보게 됩니다.
+ */
+export default function ShareControls({ seed, onSeedChange, buildUrl, error }: ShareControlsProps) {
+  const [copied, setCopied] = useState(false);
+  const [fallbackUrl, setFallbackUrl] = useState<string | null>(null);
+
+  const handleCopy = async () => {
+    const url = buildUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setFallbackUrl(null);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // 클립보드 권한이 없으면 직접 복사할 수 있도록 주소를 보여줌
+      setFallbackUrl(url);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      {seed !== undefined && onSeedChange && (
+        <>
+          <span className="font-medium text-gray-600">시드 (Seed)</span>
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => onSeedChange(Math.trunc(Number(e.target.value)) || 0)}
+            className="w-20 px-1 py-0.5 border rounded font-mono"
+          />
+          <button
+            onClick={() => onSeedChange(randomSeed())}
+            className="p-1 rounded bg-white text-gray-600 border hover:bg-gray-100"
+            title="새 시드"
+          >
+            <Dices className="w-3 h-3" />
+          </button>
+        </>
+      )}
+      <button
+        onClick={handleCopy}
+        className="px-2 py-0.5 rounded font-bold bg-white text-gray-600 border hover:bg-gray-100 flex items-center gap-1"
+      >
+        {copied ? <Check className="w-3 h-3 text-green-600" /> : <Link className="w-3 h-3" />}
+        {copied ? '링크 복사됨' : '시나리오 링크 복사'}
+      </button>
+      {fallbackUrl && (
+        <input
+          readOnly
+          value={fallbackUrl}
+          onFocus={(e) => e.target.select()}
+          className="flex-1 min-w-48 px-1 py-0.5 border rounded font-mono text-[10px]"
+        />
+      )}
+      {error && <span className="w-full text-red-600">{error}</span>}
+    </div>
+  );
+}
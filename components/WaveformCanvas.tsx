@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { minMaxColumns } from '@/lib/decimate';
+
+export type WaveformTrace = {
+  values: ArrayLike<number>;
+  color: string;
+};
+
+// 모눈 간격 (작은 칸). 큰 칸은 작은 칸 5개
+export type WaveformGrid = {
+  time: number;   // 초
+  value?: number; // 신호 단위 (없으면 세로 눈금만)
+  color: string;
+};
+
+type WaveformCanvasProps = {
+  traces: WaveformTrace[];
+  samplingRate: number;
+  start: number;              // 보이는 구간 시작 (초)
+  end: number;                // 보이는 구간 끝 (초)
+  range: [number, number];    // 세로축 범위 [아래, 위]
+  height?: number;            // px
+  background?: string;
+  grid?: WaveformGrid;
+  label?: string;
+  lineWidth?: number;
+  onDraw?: (milliseconds: number) => void; // 한 번 그리는 데 걸린 시간 (성능 표시용)
+};
+
+// 한 열에 이보다 샘플이 많으면 min/max 축약으로 그림
+const DECIMATE_THRESHOLD = 2;
+// 모눈이 이보다 촘촘하면(px) 작은 칸은 생략
+const MIN_GRID_SPACING = 4;
+
+/**
+ * 캔버스 파형 렌더러
+ * SVG 차트는 점마다 DOM 요소를 만들어 수만 점에서 느려지므로, 긴 고해상도 기록은 캔버스에 직접 그립니다.
+ * 픽셀 열마다 최솟값~최댓값을 세로선으로 이어 그려 점이 아무리 많아도 픽셀 수만큼만 그립니다.
+ */
+export default function WaveformCanvas({
+  traces, samplingRate, start, end, range, height = 160, background = '#111827', grid, label, lineWidth = 1.2, onDraw,
+}: WaveformCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+
+  // 컨테이너 폭을 따라감
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // 설정이 바뀌면 다음 화면 갱신 때 한 번만 그림
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const frameId = requestAnimationFrame(() => {
+      const started = performance.now();
+      const dpr = window.devicePixelRatio || 1;
+      const pixelWidth = Math.round(width * dpr);
+      const pixelHeight = Math.round(height * dpr);
+      if (canvas.width !== pixelWidth) canvas.width = pixelWidth;
+      if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      const span = Math.max(end - start, 1e-9);
+      const [bottom, top] = range;
+      const toX = (time: number) => ((time - start) / span) * pixelWidth;
+      const toY = (value: number) => ((top - value) / (top - bottom)) * pixelHeight;
+
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, pixelWidth, pixelHeight);
+
+      // 모눈
+      if (grid) {
+        ctx.strokeStyle = grid.color;
+        ctx.lineWidth = 1;
+        const drawLines = (step: number, major: boolean) => {
+          const pixelStepX = (step * pixelWidth) / span;
+          if (pixelStepX >= MIN_GRID_SPACING) {
+            for (let k = Math.ceil(start / step); k * step <= end; k++) {
+              if (!major && k % 5 === 0) continue;
+              const x = Math.round(toX(k * step)) + 0.5;
+              ctx.moveTo(x, 0);
+              ctx.lineTo(x, pixelHeight);
+            }
+          }
+        };
+        const drawRows = (step: number, major: boolean) => {
+          const pixelStepY = (step * pixelHeight) / (top - bottom);
+          if (pixelStepY >= MIN_GRID_SPACING) {
+            for (let k = Math.ceil(bottom / step); k * step <= top; k++) {
+              if (!major && k % 5 === 0) continue;
+              const y = Math.round(toY(k * step)) + 0.5;
+              ctx.moveTo(0, y);
+              ctx.lineTo(pixelWidth, y);
+            }
+          }
+        };
+        ctx.globalAlpha = 0.15;
+        ctx.beginPath();
+        drawLines(grid.time, false);
+        if (grid.value) drawRows(grid.value, false);
+        ctx.stroke();
+        ctx.globalAlpha = 0.45;
+        ctx.beginPath();
+        drawLines(grid.time * 5, true);
+        if (grid.value) drawRows(grid.value * 5, true);
+        ctx.stroke();
+        ctx.globalAlpha = 1;
+      }
+
+      // 파형
+      ctx.lineWidth = lineWidth * dpr;
+      ctx.lineJoin = 'round';
+      const from = start * samplingRate;
+      const to = end * samplingRate;
+      traces.forEach(trace => {
+        ctx.strokeStyle = trace.color;
+        ctx.beginPath();
+        if ((to - from) / pixelWidth > DECIMATE_THRESHOLD) {
+          const columns = minMaxColumns(trace.values, from, to, pixelWidth);
+          let drawing = false;
+          for (let x = 0; x < pixelWidth; x++) {
+            const min = columns[x * 2];
+            const max = columns[x * 2 + 1];
+            if (Number.isNaN(min)) {
+              drawing = false;
+              continue;
+            }
+            if (drawing) ctx.lineTo(x + 0.5, toY(max));
+            else ctx.moveTo(x + 0.5, toY(max));
+            ctx.lineTo(x + 0.5, toY(min));
+            drawing = true;
+          }
+        } else {
+          const first = Math.max(0, Math.floor(from));
+          const last = Math.min(trace.values.length - 1, Math.ceil(to));
+          for (let i = first; i <= last; i++) {
+            const x = toX(i / samplingRate);
+            const y = toY(trace.values[i]);
+            if (i === first) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+          }
+        }
+        ctx.stroke();
+      });
+
+      if (label) {
+        ctx.fillStyle = '#9ca3af';
+        ctx.font = `${11 * dpr}px monospace`;
+        ctx.fillText(label, 6 * dpr, 14 * dpr);
+      }
+      onDraw?.(performance.now() - started);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [traces, samplingRate, start, end, range, height, background, grid, label, lineWidth, onDraw, width]);
+
+  return (
+    <div ref={containerRef} className="w-full" style={{ height }}>
+      <canvas ref={canvasRef} className="block w-full h-full" />
+    </div>
+  );
+}
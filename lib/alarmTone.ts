@@ -0,0 +1,60 @@
+import { AlarmPriority } from './alarms';
+
+/**
+ * Web Audio 알람음
+ * IEC 60601-1-8의 펄스 묶음을 단순화: 높음은 3+2 펄스 두 번(10개), 중간은 3개, 낮음은 2개.
+ * 우선순위가 높을수록 음이 높고 펄스가 짧습니다.
+ */
+type TonePattern = {
+  frequency: number;  // Hz
+  pulse: number;      // 펄스 길이 (초)
+  onsets: number[];   // 펄스 시작 시각 (초, 묶음 시작 기준)
+};
+
+const pulseTrain = (count: number, spacing: number, start = 0) =>
+  Array.from({ length: count }, (_, i) => start + i * spacing);
+
+const TONE_PATTERNS: Record<AlarmPriority, TonePattern> = {
+  high: {
+    frequency: 960,
+    pulse: 0.12,
+    onsets: [...pulseTrain(3, 0.2), ...pulseTrain(2, 0.2, 0.9), ...pulseTrain(3, 0.2, 2.0), ...pulseTrain(2, 0.2, 2.9)],
+  },
+  medium: { frequency: 720, pulse: 0.18, onsets: pulseTrain(3, 0.3) },
+  low: { frequency: 480, pulse: 0.25, onsets: pulseTrain(2, 0.4) },
+};
+
+// 펄스를 반복하는 간격 (ms). 낮음은 한 번만 울림
+export const ALARM_REPEAT_MS: Record<AlarmPriority, number | null> = {
+  high: 6000,
+  medium: 12000,
+  low: null,
+};
+
+const TONE_VOLUME = 0.15;
+const RAMP = 0.01; // 딸깍 소리를 막기 위한 시작/끝 램프 (초)
+
+/**
+ * 알람음 한 묶음 재생
+ * AudioContext는 브라우저 정책상 사용자 클릭 뒤에 만들어야 소리가 납니다.
+ * @param {AudioContext} context - 오디오 컨텍스트
+ * @param {AlarmPriority} priority - 알람 우선순위
+ */
+export const playAlarmTone = (context: AudioContext, priority: AlarmPriority) => {
+  const { frequency, pulse, onsets } = TONE_PATTERNS[priority];
+  const start = context.currentTime + 0.02;
+  onsets.forEach(onset => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const t0 = start + onset;
+    oscillator.type = 'square';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0, t0);
+    gain.gain.linearRampToValueAtTime(TONE_VOLUME, t0 + RAMP);
+    gain.gain.setValueAtTime(TONE_VOLUME, t0 + pulse - RAMP);
+    gain.gain.linearRampToValueAtTime(0, t0 + pulse);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(t0);
+    oscillator.stop(t0 + pulse);
+  });
+};
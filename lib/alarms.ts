@@ -0,0 +1,132 @@
+/**
+ * 모니터 알람 엔진
+ * 각 시뮬레이터는 현재 파형에서 알람 조건(AlarmCheck)만 계산해 넘기고,
+ * 발생/해제, 확인(Acknowledge), 일시 무음(Silence), 기록은 이 모듈이 공통으로 처리합니다.
+ */
+
+// 알람 우선순위 (IEC 60601-1-8: 높음 = 빨강 빠른 점멸, 중간 = 노랑 느린 점멸, 낮음 = 청록 점등)
+export type AlarmPriority = 'high' | 'medium' | 'low';
+
+export const ALARM_PRIORITIES: AlarmPriority[] = ['high', 'medium', 'low'];
+
+export const ALARM_PRIORITY_LABELS: Record<AlarmPriority, string> = {
+  high: '높음',
+  medium: '중간',
+  low: '낮음',
+};
+
+// 시뮬레이터가 매번 계산하는 알람 조건
+export type AlarmCheck = {
+  id: string;           // 알람 종류 (예: 'ASYSTOLE', 'HR_HIGH')
+  label: string;        // 화면 표시 이름
+  priority: AlarmPriority;
+  active: boolean;      // 지금 조건이 충족되는지
+  detail?: string;      // 측정값 등 부가 정보 (예: 'HR 38 < 50')
+};
+
+// 현재 울리고 있는 알람
+export type ActiveAlarm = AlarmCheck & {
+  since: number;          // 발생 시각 (ms, Date.now 기준)
+  acknowledged: boolean;  // 확인됨: 소리는 멈추고 표시는 점멸 없이 유지
+};
+
+export type AlarmLogEvent = 'raised' | 'cleared' | 'acknowledged' | 'silenced';
+
+export const ALARM_LOG_EVENT_LABELS: Record<AlarmLogEvent, string> = {
+  raised: '발생',
+  cleared: '해제',
+  acknowledged: '확인',
+  silenced: '무음',
+};
+
+export type AlarmLogEntry = {
+  time: number;  // ms (Date.now 기준)
+  id: string;
+  label: string;
+  priority: AlarmPriority | null; // 무음처럼 특정 알람이 아닌 기록은 null
+  event: AlarmLogEvent;
+  detail?: string;
+};
+
+export type AlarmState = {
+  active: ActiveAlarm[];
+  silencedUntil: number | null; // 일시 무음 종료 시각 (ms)
+  log: AlarmLogEntry[];         // 최근 기록이 앞쪽
+};
+
+export const ALARM_SILENCE_MS = 2 * 60 * 1000; // 일시 무음 (2분)
+const MAX_LOG_ENTRIES = 200;
+
+export const createAlarmState = (): AlarmState => ({ active: [], silencedUntil: null, log: [] });
+
+const priorityRank = (priority: AlarmPriority) => ALARM_PRIORITIES.indexOf(priority);
+
+const appendLog = (log: AlarmLogEntry[], entries: AlarmLogEntry[]) =>
+  entries.length === 0 ? log : [...entries.reverse(), ...log].slice(0, MAX_LOG_ENTRIES);
+
+/**
+ * 새로 계산한 알람 조건을 반영 (바뀐 것이 없으면 원래 상태를 그대로 반환)
+ * 이미 울리는 알람은 발생 시각과 확인 여부를 유지하고, 측정값만 갱신합니다.
+ * @param {AlarmState} state - 현재 알람 상태
+ * @param {AlarmCheck[]} checks - 시뮬레이터가 계산한 조건
+ * @param {number} now - 현재 시각 (ms)
+ */
+export const updateAlarms = (state: AlarmState, checks: AlarmCheck[], now: number): AlarmState => {
+  const current = checks.filter(c => c.active);
+  const entries: AlarmLogEntry[] = [];
+
+  state.active
+    .filter(a => !current.some(c => c.id === a.id))
+    .forEach(a => entries.push({ time: now, id: a.id, label: a.label, priority: a.priority, event: 'cleared' }));
+
+  const active = current.map(check => {
+    const existing = state.active.find(a => a.id === check.id);
+    if (existing) return { ...existing, ...check };
+    entries.push({ time: now, id: check.id, label: check.label, priority: check.priority, event: 'raised', detail: check.detail });
+    return { ...check, since: now, acknowledged: false };
+  });
+  active.sort((a, b) => priorityRank(a.priority) - priorityRank(b.priority) || a.since - b.since);
+
+  const unchanged = entries.length === 0
+    && active.length === state.active.length
+    && active.every((a, i) => a.detail === state.active[i].detail);
+  if (unchanged) return state;
+  return { ...state, active, log: appendLog(state.log, entries) };
+};
+
+/**
+ * 울리고 있는 모든 알람 확인 (조건이 계속되면 표시는 남고 소리만 멈춤)
+ * @param {AlarmState} state - 현재 알람 상태
+ * @param {number} now - 현재 시각 (ms)
+ */
+export const acknowledgeAlarms = (state: AlarmState, now: number): AlarmState => {
+  const pending = state.active.filter(a => !a.acknowledged);
+  if (pending.length === 0) return state;
+  return {
+    ...state,
+    active: state.active.map(a => ({ ...a, acknowledged: true })),
+    log: appendLog(state.log, pending.map(a => ({ time: now, id: a.id, label: a.label, priority: a.priority, event: 'acknowledged' as const }))),
+  };
+};
+
+/**
+ * 일시 무음: 정해진 시간 동안 모든 알람음을 멈춤 (표시와 기록은 계속)
+ * @param {AlarmState} state - 현재 알람 상태
+ * @param {number} now - 현재 시각 (ms)
+ */
+export const silenceAlarms = (state: AlarmState, now: number): AlarmState => ({
+  ...state,
+  silencedUntil: now + ALARM_SILENCE_MS,
+  log: appendLog(state.log, [{ time: now, id: 'SILENCE', label: `알람음 ${ALARM_SILENCE_MS / 60000}분 무음`, priority: null, event: 'silenced' }]),
+});
+
+/**
+ * 지금 소리를 내야 하는 가장 높은 우선순위 (없으면 null)
+ * @param {AlarmState} state - 현재 알람 상태
+ * @param {number} now - 현재 시각 (ms)
+ */
+export const soundingPriority = (state: AlarmState, now: number): AlarmPriority | null => {
+  if (state.silencedUntil !== null && now < state.silencedUntil) return null;
+  const pending = state.active.filter(a => !a.acknowledged);
+  return pending.length > 0 ? pending[0].priority : null;
+};
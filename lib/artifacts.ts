@@ -0,0 +1,164 @@
+import { RandomSource } from './random';
+import { ParamSchema } from './paramSchema';
+
+/**
+ * 잡음/인공물 라이브러리 (Artifact Library)
+ * 균일한 백색 잡음 하나 대신, 실제 모니터에서 보이는 인공물을 원인별로 만들어 섞습니다.
+ * 부정맥과 인공물을 구별하는 연습을 위해 각각의 세기를 따로 조절할 수 있습니다.
+ */
+export type ArtifactKind = 'baseline' | 'powerline' | 'emg' | 'motion' | 'leadOff' | 'shivering';
+
+export type MainsFrequency = 50 | 60;
+
+// 인공물별 세기 (leadOff는 0~1 확률, 나머지는 진폭) + 전원 주파수
+export type ArtifactLevels = Record<ArtifactKind, number> & {
+  mainsFrequency?: MainsFrequency; // 기본 60Hz (국내 전원)
+};
+
+export const ARTIFACT_KINDS: ArtifactKind[] = ['baseline', 'powerline', 'emg', 'motion', 'leadOff', 'shivering'];
+
+export const ARTIFACT_LABELS: Record<ArtifactKind, string> = {
+  baseline: '기저선 변동 (Baseline Wander)',
+  powerline: '전원 간섭 (Powerline)',
+  emg: '근전도 (EMG Tremor)',
+  motion: '전극 움직임 (Electrode Motion)',
+  leadOff: '전극 떨어짐 (Lead-off)',
+  shivering: '오한 (Shivering)',
+};
+
+// 슬라이더 범위 (진폭 단위는 신호와 같음: ECG는 mV)
+export const ARTIFACT_MAX: Record<ArtifactKind, number> = {
+  baseline: 0.5,
+  powerline: 0.2,
+  emg: 0.5,
+  motion: 1.5,
+  leadOff: 1,
+  shivering: 0.3,
+};
+
+// 공유 링크와 프리셋 파일 검사용 스키마
+export const ARTIFACT_LEVELS_SCHEMA: ParamSchema<ArtifactLevels> = {
+  baseline: { type: 'number', min: 0, max: ARTIFACT_MAX.baseline },
+  powerline: { type: 'number', min: 0, max: ARTIFACT_MAX.powerline },
+  emg: { type: 'number', min: 0, max: ARTIFACT_MAX.emg },
+  motion: { type: 'number', min: 0, max: ARTIFACT_MAX.motion },
+  leadOff: { type: 'number', min: 0, max: ARTIFACT_MAX.leadOff },
+  shivering: { type: 'number', min: 0, max: ARTIFACT_MAX.shivering },
+  mainsFrequency: { type: 'enum', values: [50, 60], optional: true },
+};
+
+export const NO_ARTIFACTS: ArtifactLevels = {
+  baseline: 0,
+  powerline: 0,
+  emg: 0,
+  motion: 0,
+  leadOff: 0,
+  shivering: 0,
+};
+
+/**
+ * 일부 인공물만 지정해 세기 객체를 만듭니다. (나머지는 0)
+ * @param {Partial<ArtifactLevels>} levels - 지정할 인공물 세기
+ */
+export const artifactLevels = (levels: Partial<ArtifactLevels>): ArtifactLevels => ({ ...NO_ARTIFACTS, ...levels });
+
+// 채널(유도)마다 따로 가지는 상태
+type ArtifactChannel = {
+  gain: number;       // 공통 원인(호흡, 전원, 움직임)이 이 유도에 실리는 정도
+  lastWhite: number;  // 근전도용 직전 백색 잡음
+};
+
+/**
+ * 인공물 생성기 상태
+ * 호흡, 전원, 움직임, 전극 떨어짐은 모든 유도에 함께 나타나고 근전도는 유도마다 독립입니다.
+ */
+export type ArtifactState = {
+  samplingRate: number;
+  random: RandomSource;
+  channels: ArtifactChannel[];
+  breathPhase: number;     // 호흡 위상 (라디안)
+  motion: number;          // 전극 움직임 편위 (지수적으로 감쇠)
+  shiverEnvelope: number;  // 오한 떨림 세기 (0~1, 천천히 변함)
+  leadOffUntil: number;    // 전극이 떨어져 있는 구간의 끝 (초)
+  nextLeadOffCheck: number;
+};
+
+const BREATH_RATE = 0.25;        // Hz (분당 15회)
+const DRIFT_RATE = 0.06;         // Hz (땀, 전극 접촉 변화에 의한 느린 표류)
+const MOTION_EVENT_RATE = 0.8;   // 초당 전극 움직임 발생 횟수 (세기 최대일 때)
+const MOTION_DECAY = 0.15;       // 움직임 편위가 돌아오는 시상수 (초)
+const SHIVER_FREQUENCY = 6;      // Hz (오한 떨림)
+const LEAD_OFF_CHECK = 1;        // 전극 떨어짐 판정 주기 (초)
+const LEAD_OFF_CHANCE = 0.3;     // 세기 1일 때 판정마다 전극이 떨어질 확률
+const LEAD_OFF_MIN = 1;          // 떨어져 있는 시간 (초)
+const LEAD_OFF_MAX = 3;
+
+/**
+ * 인공물 생성기를 만듭니다.
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {RandomSource} random - 난수 생성기
+ * @param {number} channelCount - 채널(유도) 수
+ */
+export const createArtifactState = (samplingRate: number, random: RandomSource, channelCount = 1): ArtifactState => ({
+  samplingRate,
+  random,
+  channels: Array.from({ length: channelCount }, () => ({ gain: 0.7 + 0.3 * random(), lastWhite: 0 })),
+  breathPhase: random() * 2 * Math.PI,
+  motion: 0,
+  shiverEnvelope: 0.5,
+  leadOffUntil: -Infinity,
+  nextLeadOffCheck: 0,
+});
+
+/**
+ * 한 샘플 시점의 모든 채널에 인공물을 더합니다.
+ * 전극이 떨어진 구간은 원래 신호 대신 평탄선이 됩니다.
+ * @param {ArtifactState} state - 생성기 상태 (직접 갱신됨)
+ * @param {ArtifactLevels} levels - 인공물 세기
+ * @param {number} t - 샘플 시각 (초)
+ * @param {number[]} clean - 채널별 원래 신호 값
+ */
+export const applyArtifacts = (state: ArtifactState, levels: ArtifactLevels, t: number, clean: number[]): number[] => {
+  const { random, samplingRate } = state;
+  const dt = 1 / samplingRate;
+
+  // 전극 떨어짐: 일정 주기마다 확률적으로 1~3초 동안 신호가 끊김
+  if (t >= state.nextLeadOffCheck) {
+    state.nextLeadOffCheck = t + LEAD_OFF_CHECK;
+    if (t >= state.leadOffUntil && random() < levels.leadOff * LEAD_OFF_CHANCE) {
+      state.leadOffUntil = t + LEAD_OFF_MIN + (LEAD_OFF_MAX - LEAD_OFF_MIN) * random();
+    }
+  }
+  const leadOff = t < state.leadOffUntil;
+
+  // 기저선 변동: 호흡 주기의 흔들림 + 느린 표류
+  state.breathPhase += 2 * Math.PI * BREATH_RATE * dt;
+  const wander = levels.baseline * (Math.sin(state.breathPhase) + 0.5 * Math.sin(2 * Math.PI * DRIFT_RATE * t));
+
+  // 전원 간섭: 샘플링 주파수보다 높은 성분은 접혀서(aliasing) 보이며, 위상을 90도 옮겨
+  // 100Hz 샘플링에서 50Hz가 0이 되지 않고 톱니 모양으로 보이게 함
+  const mains = levels.mainsFrequency ?? 60;
+  const hum = levels.powerline * Math.cos(2 * Math.PI * mains * t);
+
+  // 전극 움직임: 갑작스러운 편위 후 천천히 돌아오는 스파이크 (세기에 따라 빈도와 크기 증가)
+  state.motion *= Math.exp(-dt / MOTION_DECAY);
+  if (levels.motion > 0 && random() < MOTION_EVENT_RATE * dt * Math.min(1, levels.motion / ARTIFACT_MAX.motion)) {
+    state.motion += (random() < 0.5 ? -1 : 1) * (0.5 + 0.5 * random());
+  }
+  const motion = levels.motion * state.motion;
+
+  // 오한: 6Hz 전후의 떨림이 세졌다 약해졌다 반복
+  state.shiverEnvelope = Math.min(1, Math.max(0.2, state.shiverEnvelope + (random() - 0.5) * 0.05));
+  const shiverWave = levels.shivering * state.shiverEnvelope * Math.sin(2 * Math.PI * SHIVER_FREQUENCY * t + 0.8 * Math.sin(2 * Math.PI * 0.7 * t));
+
+  return clean.map((value, i) => {
+    const channel = state.channels[i % state.channels.length];
+    // 근전도: 고주파 잡음 (백색 잡음의 차분으로 저주파를 줄임, 표준편차는 예전 균일 잡음과 비슷하게 맞춤)
+    const white = random() - 0.5;
+    const emg = levels.emg * (white - channel.lastWhite) * 0.7
+      + levels.shivering * state.shiverEnvelope * (random() - 0.5) * 0.5;
+    channel.lastWhite = white;
+    if (leadOff) return 0;
+    return value + channel.gain * (wander + hum + motion + shiverWave) + emg;
+  });
+};
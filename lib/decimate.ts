@@ -0,0 +1,49 @@
+/**
+ * 화면 해상도에 맞춘 파형 축약 (min/max decimation)
+ * 한 픽셀 열에 여러 샘플이 들어가면 그 열의 최솟값과 최댓값만 남깁니다.
+ * 평균이나 건너뛰기와 달리 QRS처럼 짧고 뾰족한 파형이 사라지지 않습니다.
+ */
+
+/**
+ * 구간 [from, to)의 샘플을 columns개 열로 나눠 열마다 [최소, 최대]를 구합니다.
+ * 반환 배열은 [min0, max0, min1, max1, ...]이며 샘플이 없는 열은 NaN입니다.
+ * @param {ArrayLike<number>} values - 샘플 값
+ * @param {number} from - 시작 샘플 번호 (포함)
+ * @param {number} to - 끝 샘플 번호 (제외)
+ * @param {number} columns - 열 수 (보통 캔버스의 실제 픽셀 폭)
+ */
+export const minMaxColumns = (values: ArrayLike<number>, from: number, to: number, columns: number): Float32Array => {
+  const result = new Float32Array(columns * 2).fill(NaN);
+  const start = Math.max(0, Math.floor(from));
+  const end = Math.min(values.length, Math.ceil(to));
+  const span = to - from;
+  if (columns <= 0 || span <= 0) return result;
+
+  for (let i = start; i < end; i++) {
+    const v = values[i];
+    if (!Number.isFinite(v)) continue;
+    const column = Math.min(columns - 1, Math.floor(((i - from) / span) * columns));
+    const k = column * 2;
+    if (Number.isNaN(result[k]) || v < result[k]) result[k] = v;
+    if (Number.isNaN(result[k + 1]) || v > result[k + 1]) result[k + 1] = v;
+  }
+  return result;
+};
+
+/**
+ * 세로축 범위: 전체 최솟값~최댓값에 위아래 여유를 둡니다.
+ * @param {ArrayLike<number>} values - 샘플 값
+ * @param {number} [padding] - 여유 (범위에 대한 비율, 기본 10%)
+ */
+export const valueRange = (values: ArrayLike<number>, padding = 0.1): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [-1, 1];
+  const pad = Math.max((max - min) * padding, 1e-3);
+  return [min - pad, max + pad];
+};
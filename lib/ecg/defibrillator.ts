@@ -0,0 +1,171 @@
+import { PresetKey, RhythmKind } from './model';
+import { RandomSource } from '../random';
+
+/**
+ * 제세동기 (Defibrillator)
+ * 충전한 에너지를 전달하면 심근 전체가 한꺼번에 탈분극되어, 잠시 멈춘 뒤 리듬이 바뀌거나 그대로 돌아옵니다.
+ * 동기화 모드는 다음 R파에 맞춰 전달하고, 비동기 충격이 T파(취약기)에 떨어지면 심실 세동을 일으킬 수 있습니다.
+ */
+export type ShockOutcome = 'converted' | 'unchanged' | 'asystole' | 'vfib';
+
+// 전기 충격으로 정상 리듬 전환을 기대할 수 있는 리듬
+export type ShockableRhythm = 'vfib' | 'vtach' | 'afib';
+
+/**
+ * 충격 결과 확률 (0~1)
+ * 리듬별 값은 권장 에너지 이상으로 한 번 충격했을 때 동리듬으로 전환될 확률입니다.
+ */
+export type ConversionProbabilities = Record<ShockableRhythm, number> & {
+  postShockAsystole: number; // 심실 리듬을 전환했을 때 동리듬 대신 무수축으로 남을 확률
+  rOnT: number;              // 비동기 충격이 T파 취약기에 떨어졌을 때 심실 세동이 생길 확률
+};
+
+export type ShockRequest = {
+  energy: number;        // J (이상성)
+  synchronized: boolean; // 다음 R파에 맞춰 전달할지
+  probabilities: ConversionProbabilities;
+};
+
+export type ShockRecord = {
+  time: number;          // 전달 시각 (초)
+  energy: number;
+  synchronized: boolean;
+  rhythm: RhythmKind;    // 전달 순간의 리듬
+  onTWave: boolean;      // T파 취약기에 떨어졌는지
+  outcome: ShockOutcome;
+};
+
+/**
+ * 스트림 안의 제세동기 상태
+ * 충격을 요청하면 pending에 두었다가, 비동기는 다음 샘플에서 바로, 동기화는 R파가 오는 샘플에서 전달합니다.
+ */
+export type DefibState = {
+  pending: ShockRequest | null;
+  shocks: ShockRecord[];  // 전달된 충격 기록 (인공물과 표시용)
+  pauseUntil: number;     // 충격 후 전기적 휴지기가 끝나는 시각 (초)
+};
+
+export const SHOCK_ENERGIES = [50, 100, 120, 150, 200, 300, 360];
+export const DEFAULT_SHOCK_ENERGY = 200;
+
+// 이상성 제세동기의 권장 에너지 (J): 이보다 낮으면 전환 확률이 비례해서 줄어듦
+export const RECOMMENDED_ENERGY: Record<ShockableRhythm, number> = {
+  vfib: 200,
+  vtach: 100,
+  afib: 120,
+};
+
+export const DEFAULT_CONVERSION_PROBABILITIES: ConversionProbabilities = {
+  vfib: 0.7,
+  vtach: 0.85,
+  afib: 0.75,
+  postShockAsystole: 0.15,
+  rOnT: 0.5,
+};
+
+export const SHOCKABLE_RHYTHMS: ShockableRhythm[] = ['vfib', 'vtach', 'afib'];
+
+export const SHOCK_OUTCOME_LABELS: Record<ShockOutcome, string> = {
+  converted: '동리듬으로 전환 (ROSC)',
+  unchanged: '리듬 변화 없음',
+  asystole: '충격 후 무수축',
+  vfib: 'T파 위 충격으로 심실 세동 유발 (R-on-T)',
+};
+
+// 결과로 바뀌는 리듬의 프리셋 (변화 없음은 null)
+export const SHOCK_OUTCOME_PRESETS: Record<ShockOutcome, PresetKey | null> = {
+  converted: 'NORMAL',
+  unchanged: null,
+  asystole: 'ASYSTOLE',
+  vfib: 'VFIB',
+};
+
+// 충전 시간 (초): 에너지가 클수록 오래 걸림
+export const chargeTime = (energy: number) => 1 + energy / 100;
+
+// 충격 후 전기적 휴지기 (초)
+const MIN_POST_SHOCK_PAUSE = 1;
+const MAX_POST_SHOCK_PAUSE = 2.5;
+
+// T파 정점 기준 취약기 (초): 상승 지점부터 정점 직후까지
+const VULNERABLE_BEFORE_T = 0.08;
+const VULNERABLE_AFTER_T = 0.02;
+
+// 충격 인공물: 증폭기가 포화되었다가 지수적으로 기저선에 돌아옴
+const SATURATION_TIME = 0.04;     // 초
+const SATURATION_VOLTAGE = 5;     // mV (화면 밖으로 벗어남)
+const RECOVERY_VOLTAGE = 2;       // 포화가 풀린 직후의 편위 (mV, 200J 기준)
+const RECOVERY_TIME = 0.35;       // 회복 시상수 (초)
+const ARTIFACT_DURATION = 2;      // 이후로는 무시 (초)
+
+export const createDefibState = (): DefibState => ({ pending: null, shocks: [], pauseUntil: -Infinity });
+
+// 충격 요청 (이미 대기 중인 요청은 새 요청으로 바뀜)
+export const armShock = (state: DefibState, request: ShockRequest) => {
+  state.pending = request;
+};
+
+// 대기 중인 충격 취소 (충전 해제)
+export const cancelShock = (state: DefibState) => {
+  state.pending = null;
+};
+
+const isShockable = (rhythm: RhythmKind): rhythm is ShockableRhythm =>
+  (SHOCKABLE_RHYTHMS as RhythmKind[]).includes(rhythm);
+
+/**
+ * 에너지를 반영한 전환 확률
+ * @param {ShockableRhythm} rhythm - 충격 순간의 리듬
+ * @param {number} energy - 전달 에너지 (J)
+ * @param {ConversionProbabilities} probabilities - 결과 확률 설정
+ */
+export const conversionProbability = (rhythm: ShockableRhythm, energy: number, probabilities: ConversionProbabilities) =>
+  probabilities[rhythm] * Math.min(1, energy / RECOMMENDED_ENERGY[rhythm]);
+
+/**
+ * 충격 결과를 정합니다.
+ * 조직화된 리듬에서 T파 위에 떨어진 충격은 먼저 R-on-T 확률로 심실 세동을 일으키고,
+ * 그렇지 않으면 충격 가능 리듬만 전환 확률에 따라 바뀝니다. (무수축이나 동리듬은 그대로)
+ * @param {RhythmKind} rhythm - 충격 순간의 리듬
+ * @param {ShockRequest} request - 충격 설정
+ * @param {boolean} onTWave - T파 취약기에 떨어졌는지
+ * @param {RandomSource} random - 난수
+ */
+export const decideShockOutcome = (
+  rhythm: RhythmKind,
+  request: ShockRequest,
+  onTWave: boolean,
+  random: RandomSource,
+): ShockOutcome => {
+  const { probabilities } = request;
+  if (onTWave && rhythm !== 'vfib' && rhythm !== 'asystole' && random() < probabilities.rOnT) return 'vfib';
+  if (!isShockable(rhythm) || random() >= conversionProbability(rhythm, request.energy, probabilities)) return 'unchanged';
+  if (rhythm !== 'afib' && random() < probabilities.postShockAsystole) return 'asystole';
+  return 'converted';
+};
+
+// 충격 후 휴지기 길이 (초)
+export const postShockPause = (random: RandomSource) =>
+  MIN_POST_SHOCK_PAUSE + random() * (MAX_POST_SHOCK_PAUSE - MIN_POST_SHOCK_PAUSE);
+
+/**
+ * R파 뒤 경과 시간이 T파 취약기 안인지
+ * @param {number} sinceR - 마지막 R파부터의 시간 (초)
+ * @param {number} tPeak - R파부터 T파 정점까지의 시간 (초)
+ */
+export const inVulnerablePeriod = (sinceR: number, tPeak: number) =>
+  sinceR >= tPeak - VULNERABLE_BEFORE_T && sinceR <= tPeak + VULNERABLE_AFTER_T;
+
+/**
+ * 가장 최근 충격이 만드는 인공물 전압 (mV)
+ * @param {DefibState} state - 제세동기 상태
+ * @param {number} t - 시각 (초)
+ */
+export const shockArtifact = (state: DefibState, t: number): number => {
+  const shock = state.shocks[state.shocks.length - 1];
+  if (!shock) return 0;
+  const dt = t - shock.time;
+  if (dt < 0 || dt > ARTIFACT_DURATION) return 0;
+  if (dt < SATURATION_TIME) return SATURATION_VOLTAGE;
+  return RECOVERY_VOLTAGE * (shock.energy / DEFAULT_SHOCK_ENERGY) * Math.exp(-(dt - SATURATION_TIME) / RECOVERY_TIME);
+};
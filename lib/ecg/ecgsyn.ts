@@ -0,0 +1,259 @@
+import { EcgGenerator, EcgParams } from './model';
+import { BeatGeometry, LEAD_VECTORS, Vector3, vec } from './leads';
+import { RhythmEvent } from './rhythm';
+import { RandomSource } from '../random';
+
+/**
+ * 동역학 ECG 모델 (ECGSYN, McSharry et al. 2003)
+ * 3차원 상태 (x, y, z)에서 (x, y)는 반지름 1인 극한 주기(limit cycle)를 각속도 ω로 돌고,
+ * z는 궤적의 각도 θ가 각 파형의 각도 θi를 지날 때 끌려 올라가거나 내려갑니다.
+ *   dx/dt = αx − ωy,  dy/dt = αy + ωx,  α = 1 − √(x² + y²)
+ *   dz/dt = −Σ ai·Δθi·exp(−Δθi² / 2bi²) − (z − z0)
+ * ω는 RR 간격 시계열(tachogram)에서 매 순간 정해지므로 박동수가 흔들리고,
+ * 파형 각도와 폭을 박동수에 맞춰 조절해 빠른 박동에서도 T파가 다음 박동과 겹치지 않습니다.
+ *
+ * 12유도를 그릴 수 있도록 z를 파형별 성분으로 나눠 적분한 뒤 각 성분을 파형 방향 벡터에 싣습니다.
+ * (z에 대한 식이 선형이므로 성분들의 합은 원래 모델의 z와 같음)
+ */
+export const ECG_GENERATORS: EcgGenerator[] = ['gaussian', 'ecgsyn'];
+
+export const ECG_GENERATOR_LABELS: Record<EcgGenerator, string> = {
+  gaussian: '가우스 합 (Gaussian)',
+  ecgsyn: '동역학 ODE (ECGSYN)',
+};
+
+// RR 간격 변동의 기본값: 박동수 표준편차 1BPM, LF/HF 0.5 (ECGSYN 기본 설정)
+export const DEFAULT_HR_STD = 1;
+export const DEFAULT_LF_HF_RATIO = 0.5;
+
+type WaveKey = 'P' | 'Q' | 'R' | 'S' | 'ST' | 'T' | 'U' | 'R2' | 'ST2';
+
+const WAVE_KEYS: WaveKey[] = ['P', 'Q', 'R', 'S', 'ST', 'T', 'U', 'R2', 'ST2'];
+
+// 극한 주기 위의 한 파형: 각도(rad), 폭(rad), 목표 진폭(mV), 방향
+type CycleWave = {
+  key: WaveKey;
+  theta: number;
+  width: number;
+  amp: number;
+  dir: Vector3;
+};
+
+/**
+ * RR 간격 시계열의 스펙트럼 모델 (두 봉우리)
+ * Mayer파(혈압 조절, 약 0.1Hz)와 호흡성 동성 부정맥(RSA, 호흡수 약 0.25Hz) 성분을
+ * 무작위 위상의 코사인 합으로 만들어 어느 시각에서든 바로 계산할 수 있습니다.
+ */
+type Tachogram = {
+  phases: number[];      // 주파수 칸별 무작위 위상
+  amplitudes: number[];  // 표준편차가 1이 되도록 맞춘 칸별 진폭
+  lfHfRatio: number;     // amplitudes를 계산한 LF/HF 비 (바뀌면 다시 계산)
+};
+
+export type EcgsynState = {
+  x: number;
+  y: number;
+  z: Record<WaveKey, number>; // 파형별 z 성분 (mV)
+  baseline: number;           // 호흡에 따른 기저선 z0를 따라가는 성분
+  tachogram: Tachogram;
+};
+
+const MAYER_FREQUENCY = 0.1;   // Hz
+const RSA_FREQUENCY = 0.25;    // Hz (분당 호흡 15회)
+const SPECTRUM_WIDTH = 0.01;   // Hz (각 봉우리의 표준편차)
+const SPECTRUM_STEP = 0.005;   // Hz
+const SPECTRUM_MAX = 0.5;      // Hz
+const RESPIRATION_BASELINE = 0.03; // mV (호흡에 따른 기저선 z0 진폭)
+const INTERNAL_RATE = 500;     // Hz, 좁은 R파를 놓치지 않도록 표시 샘플보다 촘촘하게 적분
+
+const spectrumFrequencies = Array.from(
+  { length: Math.round(SPECTRUM_MAX / SPECTRUM_STEP) },
+  (_, i) => (i + 1) * SPECTRUM_STEP,
+);
+
+const peak = (f: number, center: number) =>
+  Math.exp(-Math.pow(f - center, 2) / (2 * SPECTRUM_WIDTH * SPECTRUM_WIDTH));
+
+/**
+ * 스펙트럼 S(f) = LF/HF·N(0.1Hz) + N(0.25Hz)의 칸별 진폭 (합친 표준편차 1)
+ * @param {number} lfHfRatio - 저주파/고주파 파워 비
+ */
+const tachogramAmplitudes = (lfHfRatio: number): number[] => {
+  const power = spectrumFrequencies.map(f => lfHfRatio * peak(f, MAYER_FREQUENCY) + peak(f, RSA_FREQUENCY));
+  const amplitudes = power.map(p => Math.sqrt(p));
+  const variance = amplitudes.reduce((sum, a) => sum + (a * a) / 2, 0);
+  return amplitudes.map(a => a / Math.sqrt(variance));
+};
+
+/**
+ * 새 ECGSYN 상태 (궤적은 θ = −π, 즉 두 박동 사이에서 출발)
+ * @param {RandomSource} random - 난수 생성기 (RR 변동의 위상)
+ */
+export const createEcgsynState = (random: RandomSource): EcgsynState => ({
+  x: -1,
+  y: 0,
+  z: Object.fromEntries(WAVE_KEYS.map(key => [key, 0])) as Record<WaveKey, number>,
+  baseline: 0,
+  tachogram: {
+    phases: spectrumFrequencies.map(() => 2 * Math.PI * random()),
+    amplitudes: tachogramAmplitudes(DEFAULT_LF_HF_RATIO),
+    lfHfRatio: DEFAULT_LF_HF_RATIO,
+  },
+});
+
+/**
+ * 시각 t의 순간 박동수 (BPM): 설정 박동수에 RR 변동을 더함
+ * @param {Tachogram} tachogram - RR 변동 모델 (LF/HF 비가 바뀌었으면 갱신됨)
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {number} t - 시각 (초)
+ */
+const heartRateAt = (tachogram: Tachogram, params: EcgParams, t: number): number => {
+  const ratio = params.lfHfRatio ?? DEFAULT_LF_HF_RATIO;
+  if (ratio !== tachogram.lfHfRatio) {
+    tachogram.lfHfRatio = ratio;
+    tachogram.amplitudes = tachogramAmplitudes(ratio);
+  }
+  const variation = spectrumFrequencies.reduce(
+    (sum, f, i) => sum + tachogram.amplitudes[i] * Math.cos(2 * Math.PI * f * t + tachogram.phases[i]),
+    0,
+  );
+  return Math.max(0, params.bpm + (params.hrStd ?? DEFAULT_HR_STD) * variation);
+};
+
+// T파 각도: 박동이 빨라질수록 넓어지지만 시간으로는 QT가 짧아짐
+const tWaveAngle = (params: EcgParams) => (Math.PI / 2) * Math.sqrt(Math.sqrt(Math.max(params.bpm, 1) / 60));
+
+/**
+ * R파부터 T파 정점까지의 평균 시간 (초)
+ * 궤적이 평균 각속도로 돈다고 보고 계산하므로 RR 변이만큼은 어긋날 수 있습니다.
+ * @param {EcgParams} params - 현재 파라미터
+ */
+export const ecgsynTWaveDelay = (params: EcgParams) => tWaveAngle(params) / ((2 * Math.PI * Math.max(params.bpm, 1)) / 60);
+
+/**
+ * 현재 설정의 파형 배치
+ * ECGSYN의 각도와 폭(P −π/3, Q −π/12, R 0, S π/12, T π/2)을 박동수에 맞춰 조절합니다.
+ * 폭은 √(HR/60), P·T파 각도는 그 제곱근만큼 넓혀, 시간으로는 박동이 빨라질수록 QT가 짧아집니다.
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {BeatGeometry} geometry - 파형 방향 벡터
+ */
+const cycleWaves = (params: EcgParams, geometry: BeatGeometry): CycleWave[] => {
+  const hrFactor = Math.sqrt(Math.max(params.bpm, 1) / 60);
+  const hrFactor2 = Math.sqrt(hrFactor);
+  const qrs = (params.qrsWidthScale || 1) * geometry.widthScale;
+  const tTheta = tWaveAngle(params);
+  const waves: CycleWave[] = [
+    { key: 'P', theta: (-Math.PI / 3) * hrFactor2, width: 0.25 * hrFactor, amp: params.pAmp, dir: geometry.p },
+    { key: 'Q', theta: (-Math.PI / 12) * hrFactor * qrs, width: 0.1 * hrFactor * qrs, amp: params.qAmp, dir: geometry.q },
+    { key: 'R', theta: 0, width: 0.1 * hrFactor * qrs, amp: params.rAmp, dir: geometry.r },
+    { key: 'S', theta: (Math.PI / 12) * hrFactor * qrs, width: 0.1 * hrFactor * qrs, amp: params.sAmp, dir: geometry.s },
+    { key: 'ST', theta: 0.6 * tTheta, width: 0.4 * hrFactor, amp: params.stElevation, dir: geometry.st },
+    { key: 'T', theta: tTheta, width: 0.4 * hrFactor, amp: params.tAmp, dir: geometry.t },
+    { key: 'U', theta: tTheta + 1.2 * hrFactor2, width: 0.35 * hrFactor, amp: params.uAmp, dir: geometry.t },
+  ];
+  // 각 차단의 추가 QRS 성분과 이차성 ST 변화 (가우스 모델과 같은 벡터)
+  if (geometry.rPrime) {
+    const { dir, gain, offset } = geometry.rPrime;
+    waves.push({ key: 'R2', theta: 2 * Math.PI * offset * hrFactor * qrs, width: 0.16 * hrFactor * qrs, amp: params.rAmp * gain, dir });
+  }
+  if (geometry.secondarySt) {
+    waves.push({ key: 'ST2', theta: 0.6 * tTheta, width: 0.4 * hrFactor, amp: 1, dir: geometry.secondarySt });
+  }
+  return waves;
+};
+
+// θ − θi를 −π~π로
+const wrapAngle = (angle: number) => angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+
+type Derivative = { dx: number; dy: number; dz: number[] };
+
+/**
+ * 상태의 시간 미분
+ * 진폭 ai는 평균 박동수에서 z 성분의 꼭대기가 목표 진폭(mV)이 되도록 정합니다.
+ * (Δθ·exp(−Δθ²/2b²)를 시간으로 적분하면 (b²/ω)·exp(−Δθ²/2b²)이므로 ai = 진폭·ω평균 / b²)
+ */
+const derivative = (
+  x: number, y: number, z: number[], omega: number, meanOmega: number, waves: CycleWave[],
+): Derivative => {
+  const alpha = 1 - Math.sqrt(x * x + y * y);
+  const theta = Math.atan2(y, x);
+  return {
+    dx: alpha * x - omega * y,
+    dy: alpha * y + omega * x,
+    dz: waves.map((wave, i) => {
+      const dTheta = wrapAngle(theta - wave.theta);
+      const a = (wave.amp * meanOmega) / (wave.width * wave.width);
+      return -a * dTheta * Math.exp(-(dTheta * dTheta) / (2 * wave.width * wave.width)) - z[i];
+    }),
+  };
+};
+
+/**
+ * 모델을 한 표시 샘플만큼 진행시키고 그 시점의 심장 벡터와 새로 생긴 박동 이벤트를 반환합니다.
+ * @param {EcgsynState} state - 모델 상태 (직접 갱신됨)
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {BeatGeometry} geometry - 파형 방향 벡터
+ * @param {number} t - 샘플 시작 시각 (초)
+ * @param {number} dt - 샘플 간격 (초)
+ */
+export const stepEcgsyn = (
+  state: EcgsynState,
+  params: EcgParams,
+  geometry: BeatGeometry,
+  t: number,
+  dt: number,
+): { v: Vector3; events: RhythmEvent[] } => {
+  const waves = cycleWaves(params, geometry);
+  const omega = (2 * Math.PI * heartRateAt(state.tachogram, params, t)) / 60;
+  const meanOmega = (2 * Math.PI * Math.max(params.bpm, 0)) / 60;
+  const pTheta = waves[0].theta;
+  const events: RhythmEvent[] = [];
+
+  const steps = Math.max(1, Math.ceil(dt * INTERNAL_RATE));
+  const h = dt / steps;
+  let { x, y } = state;
+  let z = waves.map(wave => state.z[wave.key]);
+
+  for (let step = 0; step < steps; step++) {
+    // 4차 Runge-Kutta
+    const k1 = derivative(x, y, z, omega, meanOmega, waves);
+    const k2 = derivative(x + (h / 2) * k1.dx, y + (h / 2) * k1.dy, z.map((v, i) => v + (h / 2) * k1.dz[i]), omega, meanOmega, waves);
+    const k3 = derivative(x + (h / 2) * k2.dx, y + (h / 2) * k2.dy, z.map((v, i) => v + (h / 2) * k2.dz[i]), omega, meanOmega, waves);
+    const k4 = derivative(x + h * k3.dx, y + h * k3.dy, z.map((v, i) => v + h * k3.dz[i]), omega, meanOmega, waves);
+    const before = Math.atan2(y, x);
+    x += (h / 6) * (k1.dx + 2 * k2.dx + 2 * k3.dx + k4.dx);
+    y += (h / 6) * (k1.dy + 2 * k2.dy + 2 * k3.dy + k4.dy);
+    z = z.map((v, i) => v + (h / 6) * (k1.dz[i] + 2 * k2.dz[i] + 2 * k3.dz[i] + k4.dz[i]));
+    const after = Math.atan2(y, x);
+
+    // 궤적이 P파, R파 각도를 지나는 순간을 박동 이벤트로 기록 (−π↔π로 넘어가는 경우 제외)
+    const time = t + (step + 1) * h;
+    if (after - before > 0 && after - before < Math.PI) {
+      if (before < pTheta && after >= pTheta && params.pAmp !== 0) events.push({ time, wave: 'P', beatType: 'N' });
+      if (before < 0 && after >= 0) events.push({ time, wave: 'QRS', beatType: 'N' });
+    }
+  }
+
+  state.x = x;
+  state.y = y;
+  WAVE_KEYS.forEach(key => {
+    state.z[key] = 0;
+  });
+  waves.forEach((wave, i) => {
+    state.z[wave.key] = z[i];
+  });
+  // 호흡에 따른 기저선 z0: −(z − z0) 항으로 천천히 따라감
+  const z0 = RESPIRATION_BASELINE * Math.sin(2 * Math.PI * RSA_FREQUENCY * t);
+  state.baseline += (z0 - state.baseline) * (1 - Math.exp(-dt));
+
+  const v = vec(0, 0, 0);
+  waves.forEach((wave, i) => {
+    v.x += wave.dir.x * z[i];
+    v.y += wave.dir.y * z[i];
+    v.z += wave.dir.z * z[i];
+  });
+  v.x += LEAD_VECTORS.II.x * state.baseline;
+  v.y += LEAD_VECTORS.II.y * state.baseline;
+  v.z += LEAD_VECTORS.II.z * state.baseline;
+  return { v, events };
+};
@@ -0,0 +1,103 @@
+import { Biquad, FilterChain, applyFilterChain, createFilterChain, highPass, lowPass, notch } from '../filters';
+import { ParamSchema } from '../paramSchema';
+
+/**
+ * ECG 표시 필터
+ * 생성된 신호를 화면에 그리기 전에 실제 모니터처럼 거릅니다.
+ * 모니터 모드(0.5Hz 고역 통과)는 기저선을 안정시키지만 위상 왜곡으로 ST 분절을 들어 올리거나 끌어내려,
+ * 진단 모드(0.05Hz)와 비교하면 모니터 화면만 보고 ST 변화를 판단하면 안 되는 이유를 볼 수 있습니다.
+ */
+export type EcgFilterMode = 'off' | 'monitor' | 'diagnostic';
+
+export type EcgFilterSettings = {
+  mode: EcgFilterMode;
+  notch: boolean;     // 전원 간섭 제거 (인공물 설정의 전원 주파수를 따름)
+  baseline: boolean;  // 기저선 변동 제거용 추가 고역 통과
+};
+
+export const NO_ECG_FILTER: EcgFilterSettings = { mode: 'off', notch: false, baseline: false };
+
+export const ECG_FILTER_MODES: EcgFilterMode[] = ['off', 'monitor', 'diagnostic'];
+
+// 공유 링크 검사용 스키마
+export const ECG_FILTER_SCHEMA: ParamSchema<EcgFilterSettings> = {
+  mode: { type: 'enum', values: ECG_FILTER_MODES },
+  notch: { type: 'boolean' },
+  baseline: { type: 'boolean' },
+};
+
+export const ECG_FILTER_MODE_LABELS: Record<EcgFilterMode, string> = {
+  off: '끔 (Raw)',
+  monitor: '모니터 (Monitor)',
+  diagnostic: '진단 (Diagnostic)',
+};
+
+// 모드별 통과 대역 (Hz). 100Hz 샘플링에서는 50Hz 이상 성분이 없으므로 150Hz 저역 통과는 적용되지 않음
+export const ECG_FILTER_BANDS: Record<Exclude<EcgFilterMode, 'off'>, { highPass: number; lowPass: number }> = {
+  monitor: { highPass: 0.5, lowPass: 40 },
+  diagnostic: { highPass: 0.05, lowPass: 150 },
+};
+
+const BASELINE_CUTOFF = 0.67; // Hz (AHA 권고 상한, 심박수 40BPM의 기본 주파수)
+
+/**
+ * 화면 표시용 필터 설명 (예: '0.5–40 Hz · 60 Hz 노치')
+ * @param {EcgFilterSettings} settings - 필터 설정
+ * @param {number} mains - 전원 주파수 (Hz)
+ */
+export const describeEcgFilter = (settings: EcgFilterSettings, mains: number): string => {
+  const parts = [settings.mode === 'off' ? '필터 없음' : `${ECG_FILTER_BANDS[settings.mode].highPass}–${ECG_FILTER_BANDS[settings.mode].lowPass} Hz`];
+  if (settings.baseline) parts.push(`기저선 ${BASELINE_CUTOFF} Hz`);
+  if (settings.notch) parts.push(`${mains} Hz 노치`);
+  return parts.join(' · ');
+};
+
+/**
+ * 설정에 맞는 필터 구간 목록 (고역 통과 → 기저선 → 노치 → 저역 통과 순)
+ * @param {EcgFilterSettings} settings - 필터 설정
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {number} mains - 전원 주파수 (Hz)
+ */
+const ecgFilterSections = (settings: EcgFilterSettings, samplingRate: number, mains: number): Biquad[] => {
+  const sections: (Biquad | null)[] = [];
+  if (settings.mode !== 'off') sections.push(highPass(samplingRate, ECG_FILTER_BANDS[settings.mode].highPass));
+  if (settings.baseline) sections.push(highPass(samplingRate, BASELINE_CUTOFF));
+  if (settings.notch) sections.push(notch(samplingRate, mains));
+  if (settings.mode !== 'off') sections.push(lowPass(samplingRate, ECG_FILTER_BANDS[settings.mode].lowPass));
+  return sections.filter((section): section is Biquad => section !== null);
+};
+
+/**
+ * 채널(유도)별 필터 묶음
+ * 설정이 바뀌면 새로 설계하고, 그 전까지는 상태를 이어서 사용합니다.
+ */
+export type EcgFilterBank = {
+  key: string;           // 현재 필터를 설계한 설정 (바뀌었는지 비교용)
+  chains: FilterChain[];
+};
+
+export const createEcgFilterBank = (): EcgFilterBank => ({ key: '', chains: [] });
+
+/**
+ * 한 샘플 시점의 채널 값들을 거릅니다.
+ * @param {EcgFilterBank} bank - 필터 묶음 (직접 갱신됨)
+ * @param {EcgFilterSettings} settings - 필터 설정
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {number} mains - 전원 주파수 (Hz)
+ * @param {number[]} values - 채널별 입력 값
+ */
+export const applyEcgFilter = (
+  bank: EcgFilterBank,
+  settings: EcgFilterSettings,
+  samplingRate: number,
+  mains: number,
+  values: number[],
+): number[] => {
+  const key = `${settings.mode}/${settings.notch}/${settings.baseline}/${mains}/${values.length}`;
+  if (key !== bank.key) {
+    const sections = ecgFilterSections(settings, samplingRate, mains);
+    bank.key = key;
+    bank.chains = values.map(value => createFilterChain(sections, value));
+  }
+  return values.map((value, i) => applyFilterChain(bank.chains[i], value));
+};
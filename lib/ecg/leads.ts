@@ -0,0 +1,204 @@
+import { Conduction, StTerritory } from './model';
+
+/**
+ * 심장 벡터 (Heart Vector)
+ * x: 환자 왼쪽, y: 아래쪽(inferior), z: 앞쪽(anterior)
+ */
+export type Vector3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+export type LeadName = 'I' | 'II' | 'III' | 'aVR' | 'aVL' | 'aVF' | 'V1' | 'V2' | 'V3' | 'V4' | 'V5' | 'V6';
+
+export const LEAD_NAMES: LeadName[] = ['I', 'II', 'III', 'aVR', 'aVL', 'aVF', 'V1', 'V2', 'V3', 'V4', 'V5', 'V6'];
+
+// 12유도 한 샘플 (Recharts dataKey로 바로 쓸 수 있도록 평탄한 구조)
+export type TwelveLeadPoint = { time: number } & Record<LeadName, number>;
+
+// 흉부 유도는 전극이 심장에 가까워 사지 유도보다 진폭이 큼
+const PRECORDIAL_GAIN = 1.5;
+
+// 정상 QRS 전기축 (도)
+export const NORMAL_AXIS = 60;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export const vec = (x: number, y: number, z: number): Vector3 => ({ x, y, z });
+
+export const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+export const scale = (v: Vector3, k: number): Vector3 => vec(v.x * k, v.y * k, v.z * k);
+
+const normalize = (v: Vector3): Vector3 => scale(v, 1 / Math.sqrt(dot(v, v)));
+
+/**
+ * 전두면(frontal plane)에서 벡터를 회전 (전기축 이동)
+ * @param {Vector3} v - 회전할 벡터
+ * @param {number} deg - 회전 각도 (양수: 시계 방향, 즉 오른쪽 축 편위)
+ */
+const rotateFrontal = (v: Vector3, deg: number): Vector3 => {
+  const c = Math.cos(toRad(deg));
+  const s = Math.sin(toRad(deg));
+  return vec(v.x * c - v.y * s, v.x * s + v.y * c, v.z);
+};
+
+// 육축 기준계(hexaxial reference)의 사지 유도: 각도는 전두면에서 +x(왼쪽) 기준
+const limbLead = (deg: number): Vector3 => vec(Math.cos(toRad(deg)), Math.sin(toRad(deg)), 0);
+
+// 흉부 유도: 수평면에서 +x(왼쪽)부터 앞쪽(+z)으로 잰 각도
+const precordialLead = (deg: number): Vector3 =>
+  scale(vec(Math.cos(toRad(deg)), 0, Math.sin(toRad(deg))), PRECORDIAL_GAIN);
+
+export const LEAD_VECTORS: Record<LeadName, Vector3> = {
+  I: limbLead(0),
+  II: limbLead(60),
+  III: limbLead(120),
+  aVR: limbLead(-150),
+  aVL: limbLead(-30),
+  aVF: limbLead(90),
+  V1: precordialLead(115),
+  V2: precordialLead(90),
+  V3: precordialLead(75),
+  V4: precordialLead(60),
+  V5: precordialLead(30),
+  V6: precordialLead(0),
+};
+
+/**
+ * 심장 벡터를 12개 유도에 투영합니다.
+ * @param {Vector3} v - 현재 시점의 심장 벡터
+ */
+export const projectLeads = (v: Vector3): Record<LeadName, number> => {
+  const leads = {} as Record<LeadName, number>;
+  LEAD_NAMES.forEach(name => {
+    leads[name] = dot(v, LEAD_VECTORS[name]);
+  });
+  return leads;
+};
+
+/**
+ * 전도 유형별 각 파형 성분의 방향
+ * 파형 파라미터(pAmp, rAmp 등)는 II 유도에서 보이는 진폭으로 정의되어 있으므로,
+ * 방향 벡터를 II 유도 투영값으로 나눠 II 유도의 진폭이 파라미터와 같아지게 합니다.
+ */
+type ConductionPattern = {
+  p: Vector3;
+  q: Vector3;
+  r: Vector3;
+  s: Vector3;
+  t: Vector3;
+  widthScale: number;
+  // 추가 QRS 성분 (RBBB의 R', LBBB의 패인 R) - R파 진폭 대비 비율
+  rPrime?: { dir: Vector3; gain: number; offset: number };
+  // 전도 장애에 따른 2차성 ST 변화 방향 (단위 벡터 × stGain mV)
+  secondarySt?: { dir: Vector3; gain: number };
+};
+
+// 심실에서 시작된 박동(PVC, VT, 심실 이탈)과 조율된 박동은 전도계를 거치지 않으므로 별도의 패턴 사용
+export type ConductionPatternKey = Conduction | 'ventricular' | 'paced';
+
+const CONDUCTION_PATTERNS: Record<ConductionPatternKey, ConductionPattern> = {
+  normal: {
+    p: vec(0.5, 0.85, 0.15),
+    q: vec(-0.6, -0.2, 0.75),   // 중격: 왼쪽 → 오른쪽, 앞쪽 (V1의 r, V6의 q)
+    r: vec(0.5, 0.866, -0.18),  // 좌심실 주 탈분극: 왼쪽 아래, 약간 뒤쪽
+    s: vec(-0.3, -0.8, -0.5),   // 기저부: 위쪽, 뒤쪽
+    t: vec(0.6, 0.7, 0.35),     // 재분극: QRS와 같은 방향 (일치성 T파)
+    widthScale: 1,
+  },
+  RBBB: {
+    p: vec(0.5, 0.85, 0.15),
+    q: vec(-0.6, -0.2, 0.75),
+    r: vec(0.5, 0.866, -0.18),
+    s: vec(-0.3, -0.8, -0.5),
+    t: vec(0.7, 0.6, -0.2),     // V1-V3 T파 역위
+    widthScale: 1.3,
+    // 늦은 우심실 탈분극: 오른쪽 앞쪽 (V1의 rsR', I/V6의 넓은 S)
+    rPrime: { dir: normalize(vec(-0.65, 0.1, 0.75)), gain: 0.6, offset: 0.08 },
+  },
+  LBBB: {
+    p: vec(0.5, 0.85, 0.15),
+    q: vec(0, 0, 0),            // 중격 탈분극이 거꾸로 진행하여 q파 소실
+    r: vec(0.75, 0.55, -0.65),  // 크고 넓은 왼쪽-뒤쪽 벡터 (V1의 깊은 QS)
+    s: vec(-0.3, -0.8, -0.5),
+    t: vec(-0.4, 0.75, 0.6),    // QRS와 반대 방향 (불일치성 ST-T)
+    widthScale: 1.6,
+    rPrime: { dir: normalize(vec(0.85, 0.2, -0.5)), gain: 0.7, offset: 0.06 }, // V6의 패인(notched) R
+    secondarySt: { dir: normalize(vec(-0.6, 0.1, 0.8)), gain: 0.15 },
+  },
+  ventricular: {
+    // 우심실 유출로 기원: 좌각 차단 모양(V1의 깊은 S)에 하방 전기축
+    p: vec(0.5, 0.85, 0.15),
+    q: vec(0, 0, 0),
+    r: vec(0.3, 0.9, -0.5),
+    s: vec(-0.3, -0.8, -0.5),
+    t: vec(0.3, 0.9, -0.5),     // T파 진폭을 음수로 주어 QRS와 반대 방향으로 그림
+    widthScale: 2.2,
+  },
+  paced: {
+    // 우심실 첨부 조율: 좌각 차단 모양(V1의 깊은 QS)에 좌상방 전기축 (II, III, aVF 음성)
+    // II 유도 투영이 음수이므로 R파 진폭을 음수로 주어 원래 방향으로 그림
+    p: vec(0.5, 0.85, 0.15),
+    q: vec(0, 0, 0),
+    r: vec(0.45, -0.7, -0.6),
+    s: vec(0, 0, 0),
+    t: vec(0.45, -0.7, -0.6),   // T파 진폭을 양수로 주어 QRS와 반대 방향으로 그림
+    widthScale: 2,
+  },
+};
+
+// 경색 부위별 ST 상승 방향 (단위 벡터: 해당 부위 유도에서 stElevation만큼 상승)
+const ST_DIRECTIONS: Record<StTerritory, Vector3> = {
+  inferior: normalize(vec(-0.2, 1, 0.1)),   // II, III, aVF 상승 / aVL 대칭 하강
+  anterior: normalize(vec(0.2, 0.25, 1)),   // V1-V4 상승
+  lateral: normalize(vec(1, -0.35, 0.1)),   // I, aVL, V5-V6 상승 / III, aVF 대칭 하강
+};
+
+/**
+ * 비트 하나의 파형 성분 벡터 (진폭 1 기준)
+ * 비트가 예약될 때 한 번 계산해 두고 샘플마다 진폭만 곱해서 사용합니다.
+ */
+export type BeatGeometry = {
+  p: Vector3;
+  q: Vector3;
+  r: Vector3;
+  s: Vector3;
+  t: Vector3;
+  st: Vector3;
+  widthScale: number;
+  rPrime?: { dir: Vector3; gain: number; offset: number };
+  secondarySt?: Vector3;
+};
+
+/**
+ * II 유도 진폭이 1이 되도록 맞춘 뒤 전기축만큼 회전한 방향 벡터
+ */
+const leadTwoUnit = (dir: Vector3, rotation: number): Vector3 => {
+  const projection = dot(dir, LEAD_VECTORS.II);
+  if (projection === 0) return vec(0, 0, 0);
+  return rotateFrontal(scale(dir, 1 / projection), rotation);
+};
+
+/**
+ * 전도 유형, 전기축, ST 부위로부터 비트의 벡터 구성을 계산합니다.
+ * @param {ConductionPatternKey} conduction - 심실 내 전도 유형 (심실성 박동은 'ventricular')
+ * @param {number} axis - QRS 전기축 (도)
+ * @param {StTerritory} [stTerritory] - ST 상승 부위 (없으면 II 유도 방향)
+ */
+export const beatGeometry = (conduction: ConductionPatternKey, axis: number, stTerritory?: StTerritory): BeatGeometry => {
+  const pattern = CONDUCTION_PATTERNS[conduction];
+  const rotation = axis - NORMAL_AXIS;
+  return {
+    p: leadTwoUnit(pattern.p, 0),
+    q: leadTwoUnit(pattern.q, rotation),
+    r: leadTwoUnit(pattern.r, rotation),
+    s: leadTwoUnit(pattern.s, rotation),
+    t: leadTwoUnit(pattern.t, rotation),
+    st: stTerritory ? ST_DIRECTIONS[stTerritory] : LEAD_VECTORS.II,
+    widthScale: pattern.widthScale,
+    rPrime: pattern.rPrime && { ...pattern.rPrime, dir: rotateFrontal(pattern.rPrime.dir, rotation) },
+    secondarySt: pattern.secondarySt && scale(rotateFrontal(pattern.secondarySt.dir, rotation), pattern.secondarySt.gain),
+  };
+};
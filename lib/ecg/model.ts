@@ -0,0 +1,347 @@
+import { ARTIFACT_LEVELS_SCHEMA, ArtifactLevels, artifactLevels } from '../artifacts';
+import { ParamSchema } from '../paramSchema';
+
+// 심실 내 전도 유형 (각 차단의 특징적 QRS 형태는 leads.ts의 벡터로 정의)
+export type Conduction = 'normal' | 'RBBB' | 'LBBB';
+
+// ST 상승이 나타나는 심근 부위
+export type StTerritory = 'inferior' | 'anterior' | 'lateral';
+
+// 기본 리듬 (박동을 만드는 주 조율부위)
+export type RhythmKind = 'sinus' | 'afib' | 'junctional' | 'vtach' | 'vfib' | 'asystole';
+
+// 이소성 박동 패턴
+export type Ectopy = 'none' | 'pvc' | 'bigeminy' | 'trigeminy' | 'pac';
+
+// 방실 전도 차단
+export type AvBlock = 'none' | 'first' | 'mobitz1' | 'mobitz2' | 'complete';
+
+// 심박조율기 모드 (NBG 코드: 조율 부위 / 감지 부위 / 감지 시 반응)
+export type PacingMode = 'AAI' | 'VVI' | 'DDD';
+
+// 심박조율기 오작동
+export type PacerFault = 'none' | 'noCapture' | 'undersensing' | 'oversensing' | 'noOutput';
+
+// 파형 생성 모델: 가우스 파형의 합 또는 동역학 ODE (ecgsyn.ts)
+export type EcgGenerator = 'gaussian' | 'ecgsyn';
+
+export type Pacemaker = {
+  mode: PacingMode;
+  lowerRate: number;              // 하한 박동수 (BPM): 이보다 느려지면 조율
+  avDelay: number;                // 방실 지연 (초, DDD)
+  atrialSensitivity: number;      // 심방 감지 역치 (mV, 심내 전위가 이보다 작으면 감지 못함)
+  ventricularSensitivity: number; // 심실 감지 역치 (mV)
+  fault: PacerFault;
+};
+
+export type EcgParams = {
+  bpm: number;
+  pAmp: number;
+  pWidth: number;
+  qAmp: number;
+  rAmp: number;
+  sAmp: number;
+  tAmp: number;
+  tWidth: number;
+  uAmp: number;
+  artifacts: ArtifactLevels; // 잡음/인공물 세기 (lib/artifacts.ts)
+  irregularity: number;
+  stElevation: number;
+  qrsWidthScale?: number;
+  // 파형 위치와 폭 (초, R파 기준, 없으면 DEFAULT_WAVE_SHAPE). Q/R/S는 QRS 폭 배율이 곱해짐
+  qOffset?: number;
+  qWidth?: number;
+  rWidth?: number;
+  sOffset?: number;
+  sWidth?: number;
+  tOffset?: number;         // T파 중심 (넓은 QRS에서는 그만큼 더 늦어짐)
+  uOffset?: number;         // U파 중심 (T파 기준)
+  uWidth?: number;
+  axis?: number;            // QRS 전기축 (도, 기본 60)
+  conduction?: Conduction;  // 기본 'normal'
+  stTerritory?: StTerritory; // 없으면 II 유도 방향으로 상승
+  rhythm?: RhythmKind;      // 기본 'sinus'
+  ectopy?: Ectopy;          // 기본 'none'
+  ectopyRate?: number;      // 산발성 조기 박동 확률 (박동당, 'pvc'/'pac')
+  avBlock?: AvBlock;        // 기본 'none'
+  prInterval?: number;      // PR 간격 (초, 기본 0.16)
+  blockRatio?: number;      // 2도 방실 차단 그룹 크기 (4 → 4:3 전도)
+  escapeRate?: number;      // 완전 방실 차단 시 이탈 박동수 (BPM)
+  pacemaker?: Pacemaker;    // 없으면 심박조율기 없음
+  generator?: EcgGenerator; // 기본 'gaussian'
+  hrStd?: number;           // ECGSYN 박동수 변동 표준편차 (BPM, 기본 1)
+  lfHfRatio?: number;       // ECGSYN RR 변동의 Mayer파/RSA 파워 비 (기본 0.5)
+};
+
+// 흔히 쓰는 초기 설정값 (하한 60BPM, 방실 지연 0.16초, 심방 0.5mV / 심실 2.5mV 감지)
+export const DEFAULT_PACEMAKER: Pacemaker = {
+  mode: 'VVI',
+  lowerRate: 60,
+  avDelay: 0.16,
+  atrialSensitivity: 0.5,
+  ventricularSensitivity: 2.5,
+  fault: 'none',
+};
+
+/**
+ * 일부 설정만 지정해 심박조율기 설정을 만듭니다. (나머지는 기본값)
+ * @param {Partial<Pacemaker>} settings - 지정할 설정
+ */
+export const pacemakerSettings = (settings: Partial<Pacemaker>): Pacemaker => ({ ...DEFAULT_PACEMAKER, ...settings });
+
+export type WaveShape = Required<Pick<EcgParams, 'qOffset' | 'qWidth' | 'rWidth' | 'sOffset' | 'sWidth' | 'tOffset' | 'uOffset' | 'uWidth'>>;
+
+// 기본 파형 위치와 폭 (편집기로 바꾸기 전의 정상 박동 모양)
+export const DEFAULT_WAVE_SHAPE: WaveShape = {
+  qOffset: -0.04,
+  qWidth: 0.02,
+  rWidth: 0.03,
+  sOffset: 0.04,
+  sWidth: 0.03,
+  tOffset: 0.25,
+  uOffset: 0.2,
+  uWidth: 0.06,
+};
+
+/**
+ * 파라미터에 지정되지 않은 파형 위치/폭을 기본값으로 채웁니다.
+ * @param {EcgParams} params - ECG 파라미터
+ */
+export const waveShape = (params: EcgParams): WaveShape => ({
+  qOffset: params.qOffset ?? DEFAULT_WAVE_SHAPE.qOffset,
+  qWidth: params.qWidth ?? DEFAULT_WAVE_SHAPE.qWidth,
+  rWidth: params.rWidth ?? DEFAULT_WAVE_SHAPE.rWidth,
+  sOffset: params.sOffset ?? DEFAULT_WAVE_SHAPE.sOffset,
+  sWidth: params.sWidth ?? DEFAULT_WAVE_SHAPE.sWidth,
+  tOffset: params.tOffset ?? DEFAULT_WAVE_SHAPE.tOffset,
+  uOffset: params.uOffset ?? DEFAULT_WAVE_SHAPE.uOffset,
+  uWidth: params.uWidth ?? DEFAULT_WAVE_SHAPE.uWidth,
+});
+
+// 공유 링크와 사용자 프리셋 파일 검사용 스키마 (범위는 화면 슬라이더보다 넉넉하게)
+const PACEMAKER_SCHEMA: ParamSchema<Pacemaker> = {
+  mode: { type: 'enum', values: ['AAI', 'VVI', 'DDD'] },
+  lowerRate: { type: 'number', min: 20, max: 180 },
+  avDelay: { type: 'number', min: 0.05, max: 0.4 },
+  atrialSensitivity: { type: 'number', min: 0, max: 20 },
+  ventricularSensitivity: { type: 'number', min: 0, max: 20 },
+  fault: { type: 'enum', values: ['none', 'noCapture', 'undersensing', 'oversensing', 'noOutput'] },
+};
+
+export const ECG_PARAMS_SCHEMA: ParamSchema<EcgParams> = {
+  bpm: { type: 'number', min: 0, max: 300 },
+  pAmp: { type: 'number', min: -5, max: 5 },
+  pWidth: { type: 'number', min: 0, max: 0.5 },
+  qAmp: { type: 'number', min: -5, max: 5 },
+  rAmp: { type: 'number', min: -5, max: 5 },
+  sAmp: { type: 'number', min: -5, max: 5 },
+  tAmp: { type: 'number', min: -5, max: 5 },
+  tWidth: { type: 'number', min: 0, max: 0.5 },
+  uAmp: { type: 'number', min: -5, max: 5 },
+  artifacts: { type: 'object', fields: ARTIFACT_LEVELS_SCHEMA },
+  irregularity: { type: 'number', min: 0, max: 1 },
+  stElevation: { type: 'number', min: -5, max: 5 },
+  qrsWidthScale: { type: 'number', min: 0.5, max: 5, optional: true },
+  qOffset: { type: 'number', min: -0.5, max: 0, optional: true },
+  qWidth: { type: 'number', min: 0, max: 0.5, optional: true },
+  rWidth: { type: 'number', min: 0, max: 0.5, optional: true },
+  sOffset: { type: 'number', min: 0, max: 0.5, optional: true },
+  sWidth: { type: 'number', min: 0, max: 0.5, optional: true },
+  tOffset: { type: 'number', min: 0, max: 1, optional: true },
+  uOffset: { type: 'number', min: 0, max: 1, optional: true },
+  uWidth: { type: 'number', min: 0, max: 0.5, optional: true },
+  axis: { type: 'number', min: -180, max: 180, optional: true },
+  conduction: { type: 'enum', values: ['normal', 'RBBB', 'LBBB'], optional: true },
+  stTerritory: { type: 'enum', values: ['inferior', 'anterior', 'lateral'], optional: true },
+  rhythm: { type: 'enum', values: ['sinus', 'afib', 'junctional', 'vtach', 'vfib', 'asystole'], optional: true },
+  ectopy: { type: 'enum', values: ['none', 'pvc', 'bigeminy', 'trigeminy', 'pac'], optional: true },
+  ectopyRate: { type: 'number', min: 0, max: 1, optional: true },
+  avBlock: { type: 'enum', values: ['none', 'first', 'mobitz1', 'mobitz2', 'complete'], optional: true },
+  prInterval: { type: 'number', min: 0, max: 1, optional: true },
+  blockRatio: { type: 'number', min: 2, max: 10, optional: true },
+  escapeRate: { type: 'number', min: 0, max: 100, optional: true },
+  pacemaker: { type: 'object', fields: PACEMAKER_SCHEMA, optional: true },
+  generator: { type: 'enum', values: ['gaussian', 'ecgsyn'], optional: true },
+  hrStd: { type: 'number', min: 0, max: 20, optional: true },
+  lfHfRatio: { type: 'number', min: 0, max: 10, optional: true },
+};
+
+export type Preset = {
+  label: string;
+  description: string;
+  params: EcgParams;
+};
+
+export type EcgPoint = {
+  time: number;
+  voltage: number;
+};
+
+/**
+ * 가우스 함수 (Gaussian Function)
+ * 특정 시간 t에서의 파형 높이를 반환합니다.
+ * @param {number} t - 현재 시간
+ * @param {number} center - 파형의 중심 시간 (offset)
+ * @param {number} amp - 파형의 진폭 (Amplitude)
+ * @param {number} width - 파형의 너비 (Standard Deviation)
+ */
+export const gaussian = (t: number, center: number, amp: number, width: number): number => {
+  if (width === 0) return 0;
+  return amp * Math.exp(-Math.pow(t - center, 2) / (2 * width * width));
+};
+
+// 문서 내용을 바탕으로 한 프리셋 설정
+export const PRESETS: Record<string, Preset> = {
+  NORMAL: {
+    label: "정상 동성 리듬 (Normal Sinus Rhythm)",
+    description: "규칙적인 P-QRS-T 파형. 심박수 60-100bpm.",
+    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0 }
+  },
+  TACHYCARDIA: {
+    label: "동성 빈맥 (Sinus Tachycardia)",
+    description: "정상 파형이나 심박수가 100bpm 이상으로 빠름.",
+    params: { bpm: 130, pAmp: 0.15, pWidth: 0.03, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.06, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0 }
+  },
+  BRADYCARDIA: {
+    label: "동성 서맥 (Sinus Bradycardia)",
+    description: "정상 파형이나 심박수가 60bpm 미만으로 느림.",
+    params: { bpm: 45, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0 }
+  },
+  AFIB: {
+    label: "심방 세동 (Atrial Fibrillation)",
+    description: "P파가 없고 불규칙한 기저선 떨림. RR 간격이 불규칙함.",
+    params: { bpm: 90, pAmp: 0, pWidth: 0, qAmp: -0.1, rAmp: 1.0, sAmp: -0.2, tAmp: 0.2, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.1 }), irregularity: 0.8, stElevation: 0, rhythm: 'afib' }
+  },
+  PVC: {
+    label: "심실 조기 수축 (PVC)",
+    description: "P파 없이 일찍 나타나는 넓은 QRS와 반대 방향 T파, 뒤따르는 완전 보상성 휴지기.",
+    params: { bpm: 80, pAmp: 0.1, pWidth: 0.04, qAmp: -0.2, rAmp: 1.3, sAmp: -0.4, tAmp: 0.4, tWidth: 0.1, uAmp: 0, artifacts: artifactLevels({ emg: 0.05 }), irregularity: 0, stElevation: 0, ectopy: 'pvc', ectopyRate: 0.2 }
+  },
+  BIGEMINY: {
+    label: "심실 이단맥 (Ventricular Bigeminy)",
+    description: "정상 박동과 PVC가 번갈아 나타남 (N-V-N-V).",
+    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, ectopy: 'bigeminy' }
+  },
+  TRIGEMINY: {
+    label: "심실 삼단맥 (Ventricular Trigeminy)",
+    description: "정상 박동 두 번마다 PVC가 한 번 나타남 (N-N-V).",
+    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, ectopy: 'trigeminy' }
+  },
+  PAC: {
+    label: "심방 조기 수축 (PAC)",
+    description: "모양이 다른 P파가 일찍 나타나고 좁은 QRS가 뒤따름. 불완전 보상성 휴지기.",
+    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, ectopy: 'pac', ectopyRate: 0.2 }
+  },
+  JUNCTIONAL: {
+    label: "접합부 리듬 (Junctional Rhythm)",
+    description: "심박수 40-60bpm, 좁은 QRS, P파 소실 또는 QRS 직전의 역행성(역위) P파.",
+    params: { bpm: 50, pAmp: 0.12, pWidth: 0.03, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, rhythm: 'junctional' }
+  },
+  AVB1: {
+    label: "1도 방실 차단 (1st Degree AV Block)",
+    description: "모든 P파가 전도되지만 PR 간격이 0.2초 이상으로 일정하게 연장됨.",
+    params: { bpm: 70, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'first', prInterval: 0.3 }
+  },
+  MOBITZ1: {
+    label: "2도 방실 차단 Mobitz I (Wenckebach)",
+    description: "PR 간격이 점점 길어지다가 QRS 하나가 탈락함 (4:3 전도).",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'mobitz1', blockRatio: 4 }
+  },
+  MOBITZ2: {
+    label: "2도 방실 차단 Mobitz II",
+    description: "PR 간격은 일정하나 갑자기 QRS가 탈락함 (3:2 전도). 완전 차단으로 진행 위험.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'mobitz2', blockRatio: 3 }
+  },
+  CHB: {
+    label: "3도 (완전) 방실 차단 (Complete Heart Block)",
+    description: "P파와 QRS가 서로 무관하게 뜀 (방실 해리). 느리고 넓은 심실 이탈 리듬.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'complete', escapeRate: 35 }
+  },
+  VTACH: {
+    label: "심실 빈맥 (Ventricular Tachycardia)",
+    description: "매우 빠르고 넓은 QRS 복합체. P파와 T파 구분이 어려움.",
+    params: { bpm: 180, pAmp: 0, pWidth: 0, qAmp: 0, rAmp: 1.5, sAmp: -0.5, tAmp: -0.4, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.05 }), irregularity: 0.05, stElevation: 0, qrsWidthScale: 1.4, rhythm: 'vtach' }
+  },
+  VFIB: {
+    label: "심실 세동 (Ventricular Fibrillation)",
+    description: "무질서하고 불규칙한 파형. 심정지 직전 단계.",
+    params: { bpm: 0, pAmp: 0, pWidth: 0, qAmp: 0, rAmp: 0, sAmp: 0, tAmp: 0, tWidth: 0, uAmp: 0, artifacts: artifactLevels({ emg: 0.4 }), irregularity: 1.0, stElevation: 0, rhythm: 'vfib' }
+  },
+  HYPERKALEMIA: {
+    label: "고칼륨혈증 (Hyperkalemia)",
+    description: "뾰족하고 높은 T파(Tall T, V2-V4에서 두드러짐), P파 소실 또는 평탄화.",
+    params: { bpm: 70, pAmp: 0.05, pWidth: 0.04, qAmp: -0.15, rAmp: 1.0, sAmp: -0.25, tAmp: 0.9, tWidth: 0.06, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0 }
+  },
+  HYPOKALEMIA: {
+    label: "저칼륨혈증 (Hypokalemia)",
+    description: "T파 평탄화 및 U파 출현.",
+    params: { bpm: 70, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.1, tWidth: 0.08, uAmp: 0.15, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0 }
+  },
+  STEMI: {
+    label: "하벽 심근경색 (Inferior STEMI)",
+    description: "II, III, aVF에서 ST 분절 상승 (J-point 상승), aVL에서 대칭성 ST 하강.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.3, rAmp: 1.0, sAmp: -0.1, tAmp: 0.4, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0.35, stTerritory: 'inferior' }
+  },
+  ANTERIOR_STEMI: {
+    label: "전벽 심근경색 (Anterior STEMI)",
+    description: "V1-V4에서 ST 분절 상승. 좌전하행지(LAD) 폐색. 12유도 화면에서 확인.",
+    params: { bpm: 85, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.0, sAmp: -0.25, tAmp: 0.4, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0.3, stTerritory: 'anterior' }
+  },
+  RBBB: {
+    label: "우각 차단 (RBBB)",
+    description: "넓은 QRS, V1의 rsR' (토끼 귀 모양), I과 V6의 넓고 늦은 S파.",
+    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.1, sAmp: -0.25, tAmp: 0.25, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, conduction: 'RBBB' }
+  },
+  LBBB: {
+    label: "좌각 차단 (LBBB)",
+    description: "넓은 QRS, V1의 깊은 QS, V6의 넓고 패인 R파. ST-T가 QRS와 반대 방향.",
+    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: 0, rAmp: 1.1, sAmp: -0.1, tAmp: 0.25, tWidth: 0.09, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, conduction: 'LBBB' }
+  },
+  PACED_AAI: {
+    label: "심방 조율 (AAI Pacing)",
+    description: "동기능 부전으로 느린 동성 리듬을 심방에서 조율. 조율 스파이크 뒤에 P파, 정상 전도된 좁은 QRS.",
+    params: { bpm: 40, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, pacemaker: pacemakerSettings({ mode: 'AAI', lowerRate: 70 }) }
+  },
+  PACED_VVI: {
+    label: "심실 조율 (VVI Pacing)",
+    description: "완전 방실 차단에서 하한 박동수로 심실을 조율. 스파이크 직후 넓은 QRS(좌각 차단 모양), P파는 따로 뜀.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'complete', escapeRate: 30, pacemaker: pacemakerSettings({ mode: 'VVI', lowerRate: 60 }) }
+  },
+  PACED_DDD: {
+    label: "이중 방 조율 (DDD Pacing)",
+    description: "동성 P파를 감지하고 방실 지연 뒤 심실을 조율 (심방 추적). P파마다 심실 스파이크와 넓은 QRS가 뒤따름.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'complete', escapeRate: 30, pacemaker: pacemakerSettings({ mode: 'DDD', lowerRate: 60 }) }
+  },
+  PACER_NO_CAPTURE: {
+    label: "조율 실패: 포획 실패 (Failure to Capture)",
+    description: "조율 스파이크는 나오지만 일부 스파이크 뒤에 QRS가 따라오지 않음. 빠진 QRS만큼 심박수가 느려짐.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'complete', escapeRate: 30, pacemaker: pacemakerSettings({ mode: 'VVI', lowerRate: 60, fault: 'noCapture' }) }
+  },
+  PACER_UNDERSENSING: {
+    label: "감지 실패: 과소 감지 (Undersensing)",
+    description: "자발 QRS를 감지하지 못해 스파이크가 정해진 간격으로 계속 나옴. QRS나 T파 위에 스파이크가 떨어지기도 함.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, pacemaker: pacemakerSettings({ mode: 'VVI', lowerRate: 60, fault: 'undersensing' }) }
+  },
+  PACER_OVERSENSING: {
+    label: "감지 실패: 과다 감지 (Oversensing)",
+    description: "근전위 등 심장 외 신호를 QRS로 잘못 감지해 조율이 억제됨. 하한 박동수보다 긴 휴지기.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'complete', escapeRate: 30, pacemaker: pacemakerSettings({ mode: 'VVI', lowerRate: 60, fault: 'oversensing' }) }
+  },
+  PACER_NO_OUTPUT: {
+    label: "조율 실패: 출력 없음 (Failure to Pace)",
+    description: "조율할 때가 되어도 스파이크가 나오지 않음 (배터리 소진, 전극선 단선). 스파이크 없는 긴 휴지기.",
+    params: { bpm: 80, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ emg: 0.02 }), irregularity: 0, stElevation: 0, avBlock: 'complete', escapeRate: 30, pacemaker: pacemakerSettings({ mode: 'VVI', lowerRate: 60, fault: 'noOutput' }) }
+  },
+  ARTIFACT: {
+    label: "인공물 (Artifact, 정상 동성 리듬)",
+    description: "전극 움직임과 떨림이 VT/VF처럼 보이지만, 잡음 사이로 규칙적인 QRS가 그대로 이어짐. 환자 상태부터 확인.",
+    params: { bpm: 75, pAmp: 0.15, pWidth: 0.04, qAmp: -0.15, rAmp: 1.2, sAmp: -0.25, tAmp: 0.3, tWidth: 0.08, uAmp: 0, artifacts: artifactLevels({ baseline: 0.15, emg: 0.05, motion: 1.0, shivering: 0.15 }), irregularity: 0, stElevation: 0 }
+  },
+  ASYSTOLE: {
+    label: "심장 무수축 (Asystole)",
+    description: "거의 평탄한 선 (약간의 노이즈).",
+    params: { bpm: 0, pAmp: 0, pWidth: 0, qAmp: 0, rAmp: 0, sAmp: 0, tAmp: 0, tWidth: 0, uAmp: 0, artifacts: artifactLevels({ emg: 0.03 }), irregularity: 0, stElevation: 0, rhythm: 'asystole' }
+  }
+};
+
+export type PresetKey = keyof typeof PRESETS;
@@ -0,0 +1,92 @@
+import { PacerFault, Pacemaker, PacingMode } from './model';
+
+/**
+ * 심박조율기 (Pacemaker)
+ * 리듬 엔진 안에서 또 하나의 조율부위처럼 동작합니다. 자발 박동을 감지하면 시계를 다시 맞추고(억제),
+ * 하한 간격 안에 자발 박동이 없으면 조율 스파이크를 냅니다. 오작동은 스파이크마다 확률적으로 나타납니다.
+ */
+export type PacerChamber = 'A' | 'V';
+
+export const PACING_MODES: PacingMode[] = ['AAI', 'VVI', 'DDD'];
+
+export const PACING_MODE_LABELS: Record<PacingMode, string> = {
+  AAI: 'AAI (심방 조율)',
+  VVI: 'VVI (심실 조율)',
+  DDD: 'DDD (이중 방 조율)',
+};
+
+export const PACER_FAULTS: PacerFault[] = ['none', 'noCapture', 'undersensing', 'oversensing', 'noOutput'];
+
+export const PACER_FAULT_LABELS: Record<PacerFault, string> = {
+  none: '정상 작동',
+  noCapture: '포획 실패 (Failure to Capture)',
+  undersensing: '과소 감지 (Undersensing)',
+  oversensing: '과다 감지 (Oversensing)',
+  noOutput: '출력 없음 (Failure to Pace)',
+};
+
+/**
+ * 조율기 시계
+ * DDD는 심실 사건 기준으로 심방 조율 시각(하한 간격 - 방실 지연)을, 심방 사건 기준으로 심실 조율 시각을 정합니다.
+ */
+export type PacerState = {
+  nextAtrial: number;      // 다음 심방 조율 시각 (초, 없으면 Infinity)
+  nextVentricular: number; // 다음 심실 조율 시각
+  settingsKey: string;     // 모드/박동수가 바뀌었는지 확인용
+};
+
+// 감지 전극에서 보이는 자발 심내 전위 (mV). 감지 역치가 이보다 높으면 감지하지 못함
+const ATRIAL_SIGNAL = 2;
+const VENTRICULAR_SIGNAL = 8;
+
+// 오작동이 나타나는 비율 (스파이크 또는 조율 시점마다)
+const CAPTURE_FAILURE_RATE = 0.5;
+const OVERSENSING_RATE = 0.5;
+const NO_OUTPUT_RATE = 0.5;
+
+// 스파이크부터 포획된 파형 중심까지의 시간 (초): 넓은 QRS가 스파이크 직후 시작되도록
+export const PACED_P_DELAY = 0.04;
+export const PACED_QRS_DELAY = 0.08;
+
+export const createPacerState = (): PacerState => ({ nextAtrial: Infinity, nextVentricular: Infinity, settingsKey: '' });
+
+// 하한 간격 (초)
+export const lowerRateInterval = (pacemaker: Pacemaker) => 60 / Math.max(pacemaker.lowerRate, 1);
+
+// 이 모드가 해당 심장 방을 조율/감지하는지
+export const pacesChamber = (mode: PacingMode, chamber: PacerChamber) => mode === 'DDD' || mode[0] === chamber;
+
+/**
+ * 자발 탈분극을 감지하는지 (과소 감지 오작동이거나 역치가 심내 전위보다 높으면 놓침)
+ * @param {Pacemaker} pacemaker - 조율기 설정
+ * @param {PacerChamber} chamber - 탈분극이 일어난 방
+ */
+export const sensesChamber = (pacemaker: Pacemaker, chamber: PacerChamber): boolean => {
+  if (!pacesChamber(pacemaker.mode, chamber) || pacemaker.fault === 'undersensing') return false;
+  return chamber === 'A'
+    ? ATRIAL_SIGNAL >= pacemaker.atrialSensitivity
+    : VENTRICULAR_SIGNAL >= pacemaker.ventricularSensitivity;
+};
+
+/**
+ * 조율 시각이 되었을 때의 동작
+ * 'pace': 스파이크 출력, 'inhibited': 잡음을 박동으로 잘못 감지해 억제됨, 'silent': 출력 회로 고장
+ * @param {Pacemaker} pacemaker - 조율기 설정
+ * @param {() => number} random - 0~1 난수 함수
+ */
+export const pacerOutput = (pacemaker: Pacemaker, random: () => number): 'pace' | 'inhibited' | 'silent' => {
+  if (pacemaker.fault === 'oversensing' && random() < OVERSENSING_RATE) return 'inhibited';
+  if (pacemaker.fault === 'noOutput' && random() < NO_OUTPUT_RATE) return 'silent';
+  return 'pace';
+};
+
+/**
+ * 스파이크가 심근을 포획하는지 (불응기 중이면 정상 조율기라도 포획되지 않음)
+ * @param {Pacemaker} pacemaker - 조율기 설정
+ * @param {boolean} refractory - 심근이 불응기인지
+ * @param {() => number} random - 0~1 난수 함수
+ */
+export const pacerCaptures = (pacemaker: Pacemaker, refractory: boolean, random: () => number): boolean => {
+  if (refractory) return false;
+  return !(pacemaker.fault === 'noCapture' && random() < CAPTURE_FAILURE_RATE);
+};
@@ -0,0 +1,402 @@
+import { EcgParams, Pacemaker } from './model';
+import {
+  PACED_P_DELAY, PACED_QRS_DELAY, PacerState, createPacerState, lowerRateInterval, pacerCaptures, pacerOutput,
+  pacesChamber, sensesChamber,
+} from './pacemaker';
+
+/**
+ * 박동 유형 (MIT-BIH 주석 기호 방식)
+ * N: 정상 전도, A: 심방 조기 수축, V: 심실 조기 수축/심실성, J: 접합부, E: 심실 이탈, /: 심박조율
+ */
+export type BeatType = 'N' | 'A' | 'V' | 'J' | 'E' | '/';
+
+export const BEAT_TYPE_LABELS: Record<BeatType, string> = {
+  N: '정상 (Normal)',
+  A: '심방 조기 수축 (PAC)',
+  V: '심실성 (PVC/VT)',
+  J: '접합부 (Junctional)',
+  E: '심실 이탈 (Ventricular Escape)',
+  '/': '심박조율 (Paced)',
+};
+
+/**
+ * 리듬 엔진이 만드는 개별 탈분극 이벤트
+ * 심방(P)과 심실(QRS)을 따로 예약하므로 방실 해리나 전도 차단을 표현할 수 있습니다.
+ * PACE는 심박조율기의 자극(스파이크)으로, 포획되면 바로 뒤에 P파나 QRS가 따로 예약됩니다.
+ */
+export type RhythmEvent = {
+  time: number;          // P파 또는 R파 중심 시각 (초), PACE는 스파이크 시각
+  wave: 'P' | 'QRS' | 'PACE';
+  beatType: BeatType;
+  blocked?: boolean;     // 방실 차단으로 전도되지 않은 P파
+  retrograde?: boolean;  // 접합부에서 거꾸로 올라간 역행성 P파
+};
+
+/**
+ * 리듬 엔진 상태
+ * 동방결절(sinus)과 하위 조율부위(escape/자동능)를 독립된 시계로 다룹니다.
+ */
+export type RhythmState = {
+  nextSinus: number;      // 다음 동방결절 발화 시각 (P파)
+  nextEscape: number;     // 다음 하위 조율부위 발화 시각 (QRS)
+  pendingEctopic: { time: number; beatType: 'A' | 'V' } | null;
+  lastQrs: number;        // 마지막 심실 탈분극 시각
+  refractoryUntil: number; // 심실 불응기 종료 시각
+  normalRun: number;      // 마지막 이소성 박동 이후 연속된 정상 박동 수
+  blockIndex: number;     // 2도 방실 차단 그룹 안에서의 P파 순번
+  modeKey: string;        // 리듬/차단 유형이 바뀌었는지 확인용
+  pacer: PacerState;      // 심박조율기 시계
+};
+
+export const DEFAULT_PR_INTERVAL = 0.16;
+const DEFAULT_ESCAPE_RATE = 40;
+const DEFAULT_ECTOPY_RATE = 0.15;
+const VENTRICULAR_REFRACTORY = 0.45; // 심실 탈분극 후 다음 전도가 막히는 시간 (초)
+const MIN_INTERVAL = 0.2;            // 최소 박동 간격 (초)
+const UPPER_TRACKING_RATE = 130;     // DDD가 P파를 따라 심실을 조율하는 최대 박동수 (BPM)
+
+export const createRhythmState = (firstEventTime: number): RhythmState => ({
+  nextSinus: firstEventTime,
+  nextEscape: firstEventTime,
+  pendingEctopic: null,
+  lastQrs: -Infinity,
+  refractoryUntil: -Infinity,
+  normalRun: 0,
+  blockIndex: 0,
+  modeKey: '',
+  pacer: createPacerState(),
+});
+
+const rhythmOf = (params: EcgParams) => params.rhythm ?? 'sinus';
+
+// 이 리듬에서 동방결절이 P파를 만드는지
+const sinusActive = (params: EcgParams) => rhythmOf(params) === 'sinus' && params.bpm > 0;
+
+// 하위 조율부위의 박동수 (심방세동의 심실 반응, 접합부, 심실 빈맥, 완전 차단의 이탈 박동)
+const escapeRateOf = (params: EcgParams): number => {
+  switch (rhythmOf(params)) {
+    case 'afib':
+    case 'junctional':
+    case 'vtach':
+      return params.bpm;
+    case 'sinus':
+      return params.avBlock === 'complete' ? params.escapeRate ?? DEFAULT_ESCAPE_RATE : 0;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * 기본 박동수에 불규칙성을 더한 다음 간격 (초)
+ * 불규칙성이 있으면 간격이 랜덤하게 변함 (동성 부정맥, 심방세동 등)
+ */
+const jitteredInterval = (rate: number, irregularity: number, random: () => number): number => {
+  const baseInterval = 60 / rate;
+  const variance = irregularity > 0 ? (random() - 0.5) * 2 * irregularity * baseInterval * 0.5 : 0;
+  return Math.max(MIN_INTERVAL, baseInterval + variance);
+};
+
+/**
+ * 심실 사건(감지 또는 조율 시점) 뒤 조율기 시계 재설정
+ * 조율 출력이 없거나 억제된 경우에도 시계는 그대로 다시 돕니다.
+ */
+const resetAfterVentricle = (state: RhythmState, pacemaker: Pacemaker, time: number) => {
+  const interval = lowerRateInterval(pacemaker);
+  if (pacemaker.mode === 'VVI') {
+    state.pacer.nextVentricular = time + interval;
+  } else if (pacemaker.mode === 'DDD') {
+    state.pacer.nextAtrial = time + interval - pacemaker.avDelay;
+    state.pacer.nextVentricular = time + interval;
+  }
+};
+
+/**
+ * 심방 사건 뒤 조율기 시계 재설정 (DDD는 방실 지연 뒤 심실 조율을 예약하되 상한 박동수를 넘지 않음)
+ */
+const resetAfterAtrium = (state: RhythmState, pacemaker: Pacemaker, time: number) => {
+  if (pacemaker.mode === 'AAI') {
+    state.pacer.nextAtrial = time + lowerRateInterval(pacemaker);
+  } else if (pacemaker.mode === 'DDD') {
+    state.pacer.nextAtrial = Infinity;
+    state.pacer.nextVentricular = Math.max(time + pacemaker.avDelay, state.lastQrs + 60 / UPPER_TRACKING_RATE);
+  }
+};
+
+/**
+ * 심박조율기 설정이 바뀌면 마지막 QRS 기준으로 시계를 다시 맞춤
+ */
+const syncPacer = (state: RhythmState, params: EcgParams, earliest: number) => {
+  const pacemaker = params.pacemaker;
+  const settingsKey = pacemaker ? `${pacemaker.mode}:${pacemaker.lowerRate}:${pacemaker.avDelay}` : '';
+  if (settingsKey === state.pacer.settingsKey) return;
+  state.pacer.settingsKey = settingsKey;
+  if (!pacemaker) {
+    state.pacer.nextAtrial = Infinity;
+    state.pacer.nextVentricular = Infinity;
+    return;
+  }
+  const next = Math.max(state.lastQrs + lowerRateInterval(pacemaker), earliest);
+  const atrialLead = pacemaker.mode === 'DDD' ? pacemaker.avDelay : 0;
+  state.pacer.nextAtrial = pacesChamber(pacemaker.mode, 'A') ? Math.max(next - atrialLead, earliest) : Infinity;
+  state.pacer.nextVentricular = pacesChamber(pacemaker.mode, 'V') ? next : Infinity;
+};
+
+/**
+ * 리듬 설정이 바뀌었거나 멈춰 있던 조율부위가 다시 활성화되면 시계를 맞춥니다.
+ * @param {RhythmState} state - 리듬 상태 (직접 갱신됨)
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {number} earliest - 새로 예약할 수 있는 가장 이른 시각
+ */
+export const syncRhythm = (state: RhythmState, params: EcgParams, earliest: number) => {
+  const escapeRate = escapeRateOf(params);
+  const modeKey = `${rhythmOf(params)}:${params.avBlock ?? 'none'}`;
+
+  if (modeKey !== state.modeKey) {
+    state.modeKey = modeKey;
+    state.pendingEctopic = null;
+    state.blockIndex = 0;
+    state.nextEscape = escapeRate > 0 ? Math.max(state.lastQrs + 60 / escapeRate, earliest) : Infinity;
+  }
+
+  if (!sinusActive(params)) {
+    state.nextSinus = Infinity;
+  } else if (!Number.isFinite(state.nextSinus)) {
+    state.nextSinus = earliest;
+  }
+
+  if (escapeRate <= 0) {
+    state.nextEscape = Infinity;
+  } else if (!Number.isFinite(state.nextEscape)) {
+    state.nextEscape = Math.max(state.lastQrs + 60 / escapeRate, earliest);
+  }
+
+  syncPacer(state, params, earliest);
+};
+
+/**
+ * 다음 이벤트가 발생할 시각 (이 시각이 가까워지면 advanceRhythm을 호출)
+ */
+export const rhythmHorizon = (state: RhythmState): number =>
+  Math.min(state.nextSinus, state.nextEscape, state.pendingEctopic?.time ?? Infinity, state.pacer.nextAtrial, state.pacer.nextVentricular);
+
+/**
+ * 방실 전도 지연 (PR 간격). 2도 차단으로 탈락하는 P파면 null을 반환합니다.
+ */
+const conductionDelay = (state: RhythmState, params: EcgParams): number | null => {
+  const pr = params.prInterval ?? DEFAULT_PR_INTERVAL;
+  const groupSize = Math.max(2, Math.round(params.blockRatio ?? 4));
+
+  switch (params.avBlock) {
+    case 'mobitz1': {
+      // Wenckebach: PR이 점점 늘어나되 증가폭은 줄어들고, 그룹 마지막 P파는 탈락
+      const index = state.blockIndex;
+      state.blockIndex = (index + 1) % groupSize;
+      if (index === groupSize - 1) return null;
+      return pr + 0.16 * (1 - Math.pow(0.5, index));
+    }
+    case 'mobitz2': {
+      // PR은 일정하지만 그룹 마지막 P파가 예고 없이 탈락
+      const index = state.blockIndex;
+      state.blockIndex = (index + 1) % groupSize;
+      return index === groupSize - 1 ? null : pr;
+    }
+    default:
+      return pr;
+  }
+};
+
+/**
+ * 정상 전도된 박동 뒤에 이소성 박동을 예약할지 결정합니다.
+ */
+const planEctopy = (state: RhythmState, params: EcgParams, qrsTime: number, random: () => number) => {
+  const ectopy = params.ectopy ?? 'none';
+  const rr = 60 / Math.max(params.bpm, 1);
+  state.pendingEctopic = null;
+  state.normalRun++;
+
+  let fire = false;
+  switch (ectopy) {
+    case 'bigeminy':
+      fire = state.normalRun >= 1;
+      break;
+    case 'trigeminy':
+      fire = state.normalRun >= 2;
+      break;
+    case 'pvc':
+    case 'pac':
+      fire = random() < (params.ectopyRate ?? DEFAULT_ECTOPY_RATE);
+      break;
+  }
+  if (!fire) return;
+
+  state.normalRun = 0;
+  if (ectopy === 'pac') {
+    // 조기 P파: 다음 동성 P파보다 일찍 발생
+    const pr = params.prInterval ?? DEFAULT_PR_INTERVAL;
+    state.pendingEctopic = { time: qrsTime + Math.max(0.6 * rr, 0.35) - pr, beatType: 'A' };
+  } else {
+    // PVC: 선행 QRS로부터 일정한 연결 간격(coupling interval) 후 발생
+    state.pendingEctopic = { time: qrsTime + Math.max(0.55 * rr, 0.32), beatType: 'V' };
+  }
+};
+
+const markQrs = (state: RhythmState, time: number) => {
+  state.lastQrs = time;
+  state.refractoryUntil = time + VENTRICULAR_REFRACTORY;
+};
+
+// 자발 QRS를 조율기가 감지하면 심실 조율을 억제
+const senseVentricle = (state: RhythmState, params: EcgParams, time: number) => {
+  if (params.pacemaker && sensesChamber(params.pacemaker, 'V')) resetAfterVentricle(state, params.pacemaker, time);
+};
+
+/**
+ * 심실 조율: 스파이크를 내고, 포획되면 넓은 QRS를 예약
+ * 포획된 박동은 심실을 탈분극시키므로 하위 조율부위(이탈 박동)의 시계도 다시 시작됩니다.
+ */
+const paceVentricle = (state: RhythmState, params: EcgParams, pacemaker: Pacemaker, random: () => number): RhythmEvent[] => {
+  const time = state.pacer.nextVentricular;
+  resetAfterVentricle(state, pacemaker, time);
+  if (pacerOutput(pacemaker, random) !== 'pace') return [];
+
+  const events: RhythmEvent[] = [{ time, wave: 'PACE', beatType: '/' }];
+  // 심실 세동 중이거나 직전 QRS의 불응기 안이면 포획되지 않음
+  const refractory = time < state.refractoryUntil || rhythmOf(params) === 'vfib';
+  if (!pacerCaptures(pacemaker, refractory, random)) return events;
+
+  const qrsTime = time + PACED_QRS_DELAY;
+  markQrs(state, qrsTime);
+  const escapeRate = escapeRateOf(params);
+  if (escapeRate > 0) state.nextEscape = Math.max(state.nextEscape, qrsTime + 60 / escapeRate);
+  if (state.pendingEctopic && state.pendingEctopic.time < state.refractoryUntil) state.pendingEctopic = null;
+  events.push({ time: qrsTime, wave: 'QRS', beatType: '/' });
+  return events;
+};
+
+// 전도된 QRS보다 먼저 심실 조율 시각이 오면 조율이 앞섬 (DDD의 방실 지연 경과, 과소 감지 등)
+const paceVentricleBefore = (state: RhythmState, params: EcgParams, time: number, random: () => number): RhythmEvent[] =>
+  params.pacemaker && state.pacer.nextVentricular < time ? paceVentricle(state, params, params.pacemaker, random) : [];
+
+/**
+ * 심방 탈분극(P파)을 방실 결절을 거쳐 심실로 전도시킵니다.
+ * @param {RhythmState} state - 리듬 상태 (직접 갱신됨)
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {RhythmEvent} p - P파 이벤트
+ * @param {boolean} paced - 조율된 P파인지 (조율기가 자기 자극을 다시 감지하지 않음)
+ * @param {() => number} random - 0~1 난수 함수
+ */
+const conductAtrialBeat = (state: RhythmState, params: EcgParams, p: RhythmEvent, paced: boolean, random: () => number): RhythmEvent[] => {
+  if (!paced && params.pacemaker && sensesChamber(params.pacemaker, 'A')) resetAfterAtrium(state, params.pacemaker, p.time);
+
+  // 완전 방실 차단: P파는 심실과 무관하게 계속 뜀 (방실 해리)
+  if (params.avBlock === 'complete') return [p];
+
+  const pr = conductionDelay(state, params);
+  if (pr === null) return [{ ...p, blocked: true }];
+  const qrsTime = p.time + pr;
+  const pacedEvents = paceVentricleBefore(state, params, qrsTime, random);
+  if (qrsTime < state.refractoryUntil) {
+    // 직전 PVC(또는 조율된 박동)의 불응기에 걸린 P파 (대개 ST-T에 묻혀 보이지 않음)
+    return [p, ...pacedEvents];
+  }
+  markQrs(state, qrsTime);
+  senseVentricle(state, params, qrsTime);
+  planEctopy(state, params, qrsTime, random);
+  return [p, ...pacedEvents, { time: qrsTime, wave: 'QRS', beatType: 'N' }];
+};
+
+/**
+ * 심방 조율: 스파이크를 내고, 포획되면 P파가 동방결절을 재설정한 뒤 정상 경로로 전도
+ */
+const paceAtrium = (state: RhythmState, params: EcgParams, pacemaker: Pacemaker, random: () => number): RhythmEvent[] => {
+  const time = state.pacer.nextAtrial;
+  resetAfterAtrium(state, pacemaker, time);
+  if (pacerOutput(pacemaker, random) !== 'pace') return [];
+
+  const spike: RhythmEvent = { time, wave: 'PACE', beatType: '/' };
+  if (!pacerCaptures(pacemaker, false, random)) return [spike];
+
+  const pTime = time + PACED_P_DELAY;
+  if (sinusActive(params)) state.nextSinus = pTime + jitteredInterval(params.bpm, params.irregularity, random);
+  return [spike, ...conductAtrialBeat(state, params, { time: pTime, wave: 'P', beatType: 'N' }, true, random)];
+};
+
+/**
+ * 가장 먼저 도래한 조율부위를 발화시키고, 그 결과로 생기는 이벤트들을 반환합니다.
+ * @param {RhythmState} state - 리듬 상태 (직접 갱신됨)
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {() => number} random - 0~1 난수 함수
+ */
+export const advanceRhythm = (state: RhythmState, params: EcgParams, random: () => number = Math.random): RhythmEvent[] => {
+  const rhythm = rhythmOf(params);
+  const ectopic = state.pendingEctopic;
+  const { pacemaker } = params;
+
+  // 0. 심박조율기: 자발 박동보다 먼저 조율 시각이 오면 조율
+  const pacerTime = Math.min(state.pacer.nextAtrial, state.pacer.nextVentricular);
+  if (pacemaker && pacerTime <= Math.min(state.nextSinus, state.nextEscape, ectopic?.time ?? Infinity)) {
+    return state.pacer.nextAtrial <= state.pacer.nextVentricular
+      ? paceAtrium(state, params, pacemaker, random)
+      : paceVentricle(state, params, pacemaker, random);
+  }
+
+  // 1. 이소성 박동 (PVC / PAC)
+  if (ectopic && ectopic.time <= state.nextSinus && ectopic.time <= state.nextEscape) {
+    state.pendingEctopic = null;
+    if (ectopic.beatType === 'V') {
+      // 동방결절은 그대로 뛰지만 다음 P파는 불응기에 걸려 전도되지 않음 → 완전 보상성 휴지기
+      markQrs(state, ectopic.time);
+      senseVentricle(state, params, ectopic.time);
+      return [{ time: ectopic.time, wave: 'QRS', beatType: 'V' }];
+    }
+    // PAC는 동방결절을 재설정 → 불완전 보상성 휴지기
+    const qrsTime = ectopic.time + (params.prInterval ?? DEFAULT_PR_INTERVAL);
+    state.nextSinus = ectopic.time + jitteredInterval(params.bpm, params.irregularity, random);
+    if (pacemaker && sensesChamber(pacemaker, 'A')) resetAfterAtrium(state, pacemaker, ectopic.time);
+    markQrs(state, qrsTime);
+    senseVentricle(state, params, qrsTime);
+    return [
+      { time: ectopic.time, wave: 'P', beatType: 'A' },
+      { time: qrsTime, wave: 'QRS', beatType: 'A' },
+    ];
+  }
+
+  // 2. 동방결절 발화 (P파)
+  if (state.nextSinus <= state.nextEscape) {
+    const pTime = state.nextSinus;
+    state.nextSinus = pTime + jitteredInterval(params.bpm, params.irregularity, random);
+    return conductAtrialBeat(state, params, { time: pTime, wave: 'P', beatType: 'N' }, false, random);
+  }
+
+  // 3. 하위 조율부위 발화 (QRS)
+  const qrsTime = state.nextEscape;
+  const rate = escapeRateOf(params);
+  if (rate <= 0) {
+    state.nextEscape = Infinity;
+    return [];
+  }
+  state.nextEscape = qrsTime + jitteredInterval(rate, rhythm === 'afib' || rhythm === 'vtach' ? params.irregularity : 0, random);
+
+  if (rhythm === 'afib' && qrsTime < state.refractoryUntil) {
+    // 직전 PVC의 불응기 안이라 전도되지 않음 (심방세동에서 PVC 뒤의 긴 RR)
+    return [];
+  }
+  markQrs(state, qrsTime);
+  senseVentricle(state, params, qrsTime);
+
+  switch (rhythm) {
+    case 'afib':
+      planEctopy(state, params, qrsTime, random);
+      return [{ time: qrsTime, wave: 'QRS', beatType: 'N' }];
+    case 'junctional':
+      return [
+        { time: qrsTime - 0.05, wave: 'P', beatType: 'J', retrograde: true },
+        { time: qrsTime, wave: 'QRS', beatType: 'J' },
+      ];
+    case 'vtach':
+      return [{ time: qrsTime, wave: 'QRS', beatType: 'V' }];
+    default:
+      // 완전 방실 차단의 이탈 박동: 40bpm 이상이면 접합부(좁은 QRS), 미만이면 심실(넓은 QRS)
+      return [{ time: qrsTime, wave: 'QRS', beatType: rate >= DEFAULT_ESCAPE_RATE ? 'J' : 'E' }];
+  }
+};
@@ -0,0 +1,433 @@
+import { DEFAULT_WAVE_SHAPE, EcgGenerator, EcgParams, EcgPoint, WaveShape, gaussian, waveShape } from './model';
+import {
+  BeatGeometry, LEAD_NAMES, LEAD_VECTORS, NORMAL_AXIS, TwelveLeadPoint, Vector3,
+  beatGeometry, dot, projectLeads, vec,
+} from './leads';
+import { DEFAULT_PR_INTERVAL, RhythmEvent, RhythmState, advanceRhythm, createRhythmState, rhythmHorizon, syncRhythm } from './rhythm';
+import { RandomSource } from '../random';
+import { ArtifactState, applyArtifacts, createArtifactState } from '../artifacts';
+import { EcgFilterBank, EcgFilterSettings, NO_ECG_FILTER, applyEcgFilter, createEcgFilterBank } from './filters';
+import { EcgsynState, createEcgsynState, ecgsynTWaveDelay, stepEcgsyn } from './ecgsyn';
+import { DefibState, createDefibState, decideShockOutcome, inVulnerablePeriod, postShockPause, shockArtifact } from './defibrillator';
+
+/**
+ * 스트림에 예약된 하나의 파형 (P파 또는 QRS-T 복합체)
+ * 예약되는 순간의 파라미터를 복사해 두므로, 박동 도중 설정이 바뀌어도
+ * 이미 진행 중인 파형은 끊기지 않고 끝까지 그려집니다.
+ */
+type ScheduledWave = {
+  event: RhythmEvent;
+  morph: EcgParams;
+  geometry: BeatGeometry;
+};
+
+/**
+ * 세동파 발진기: 주파수와 진폭이 조금씩 무작위로 흔들리는 진동
+ * 하나의 사인파와 달리 f파의 크기와 간격이 매번 달라 실제 심방 세동처럼 불규칙합니다.
+ */
+type FibrillatoryWave = {
+  phase: number;      // 라디안
+  frequency: number;  // Hz
+  amplitude: number;  // 상대 크기 (0.4~1.2)
+};
+
+/**
+ * 실시간(연속) ECG 생성기의 상태
+ * 샘플을 조금씩 이어서 뽑아낼 수 있도록 시간, 리듬 엔진 상태 등을 보관합니다.
+ */
+export type EcgStream = {
+  samplingRate: number;
+  random: RandomSource;   // 노이즈와 리듬 변동에 쓰는 난수 (시드를 주면 재현 가능)
+  sampleIndex: number;    // 다음에 생성할 샘플 번호
+  rhythm: RhythmState;    // 심방/심실 이벤트 예약 상태
+  waves: ScheduledWave[]; // 아직 현재 파형에 영향을 주는 P파/QRS-T
+  events: RhythmEvent[];  // 지금까지 예약된 이벤트 기록 (박동 라벨 표시용)
+  fibLevel: number;       // 심실 세동파 세기 (0~1, 리듬 전환 시 서서히 변함)
+  afibLevel: number;      // 심방 세동 f파 세기 (0~1)
+  fWave: FibrillatoryWave; // 심방 세동 f파 발진기
+  artifacts: ArtifactState; // 잡음/인공물 생성기 (12유도 각각의 채널)
+  filter: EcgFilterBank;    // 표시 필터 상태
+  generator: EcgGenerator;  // 지금 쓰고 있는 파형 생성 모델
+  ecgsyn: EcgsynState | null; // 동역학 모델 상태 (ECGSYN을 쓸 때만)
+  defib: DefibState;          // 제세동기 (대기 중인 충격과 전달 기록)
+};
+
+// 파형이 이벤트 시각 기준으로 영향을 주는 범위 (초)
+const WAVE_LEAD_TIME = 0.3;
+const WAVE_TAIL_TIME = 1.0;
+// 세동파가 나타나거나 사라질 때의 시상수 (초)
+const RHYTHM_FADE_TIME = 0.3;
+// 이벤트 기록 최대 개수 (오래된 것부터 버림)
+const MAX_EVENT_LOG = 1000;
+
+const fibTarget = (params: EcgParams) => (params.rhythm === 'vfib' ? 1 : 0);
+const afibTarget = (params: EcgParams) => (params.rhythm === 'afib' ? 1 : 0);
+
+// 심방 세동 f파: 분당 350~600회 (6~9Hz)
+const F_WAVE_MIN_HZ = 5.5;
+const F_WAVE_MAX_HZ = 9;
+const F_WAVE_AMP = 0.06; // mV
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * f파 발진기를 한 샘플 진행시키고 값을 반환 (-1~1 범위 근처)
+ * @param {FibrillatoryWave} wave - 발진기 상태 (직접 갱신됨)
+ * @param {RandomSource} random - 난수 생성기
+ * @param {number} dt - 샘플 간격 (초)
+ */
+const advanceFibrillatoryWave = (wave: FibrillatoryWave, random: RandomSource, dt: number): number => {
+  wave.frequency = clamp(wave.frequency + (random() - 0.5) * 0.4, F_WAVE_MIN_HZ, F_WAVE_MAX_HZ);
+  wave.amplitude = clamp(wave.amplitude + (random() - 0.5) * 0.08, 0.4, 1.2);
+  wave.phase += 2 * Math.PI * wave.frequency * dt;
+  return wave.amplitude * Math.sin(wave.phase);
+};
+
+/**
+ * 새 ECG 스트림을 만듭니다.
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {EcgParams} params - 시작 파라미터 (세동파 세기를 처음부터 맞춰 둠)
+ * @param {RandomSource} random - 난수 생성기 (기본 Math.random)
+ * @param {number} firstEventTime - 첫 P파(또는 QRS) 시각 (초)
+ */
+export const createEcgStream = (
+  samplingRate: number,
+  params: EcgParams,
+  random: RandomSource = Math.random,
+  firstEventTime = 0.05,
+): EcgStream => ({
+  samplingRate,
+  random,
+  sampleIndex: 0,
+  rhythm: createRhythmState(firstEventTime),
+  waves: [],
+  events: [],
+  fibLevel: fibTarget(params),
+  afibLevel: afibTarget(params),
+  fWave: { phase: 0, frequency: (F_WAVE_MIN_HZ + F_WAVE_MAX_HZ) / 2, amplitude: 0.8 },
+  artifacts: createArtifactState(samplingRate, random, LEAD_NAMES.length),
+  filter: createEcgFilterBank(),
+  generator: params.generator ?? 'gaussian',
+  ecgsyn: params.generator === 'ecgsyn' ? createEcgsynState(random) : null,
+  defib: createDefibState(),
+});
+
+/**
+ * 심실성 박동(PVC, 이탈 박동)의 형태: 넓고 큰 QRS, P파 없음, QRS와 반대 방향의 T파
+ * 심실 빈맥 리듬에서는 설정된 파라미터를 그대로 사용합니다. 편집한 파형 위치/폭은 따르지 않습니다.
+ */
+const ventricularMorph = (params: EcgParams): EcgParams => ({
+  ...params,
+  ...DEFAULT_WAVE_SHAPE,
+  pAmp: 0,
+  qAmp: 0,
+  rAmp: Math.max(params.rAmp * 1.3, 1.2),
+  sAmp: -0.3,
+  tAmp: -0.5,
+  tWidth: 0.1,
+  uAmp: 0,
+  stElevation: 0,
+  qrsWidthScale: 1,
+});
+
+/**
+ * 우심실 조율 박동의 형태: 넓고 음성인(II 유도) QRS와 반대 방향의 T파
+ * 전기축은 전극 위치로 정해지므로 설정된 전기축을 따르지 않습니다.
+ */
+const pacedMorph = (params: EcgParams): EcgParams => ({
+  ...params,
+  ...DEFAULT_WAVE_SHAPE,
+  pAmp: 0,
+  qAmp: 0,
+  rAmp: -1.0,
+  sAmp: 0,
+  tAmp: 0.35,
+  uAmp: 0,
+  stElevation: 0,
+  qrsWidthScale: 1,
+});
+
+const logEvent = (stream: EcgStream, event: RhythmEvent) => {
+  stream.events.push(event);
+  if (stream.events.length > MAX_EVENT_LOG) stream.events.shift();
+};
+
+const scheduleWave = (stream: EcgStream, event: RhythmEvent, params: EcgParams) => {
+  const paced = event.wave === 'QRS' && event.beatType === '/';
+  const ventricular = event.wave === 'QRS' && (event.beatType === 'V' || event.beatType === 'E');
+  const morph = paced ? pacedMorph(params) : ventricular && params.rhythm !== 'vtach' ? ventricularMorph(params) : params;
+  const geometry = paced
+    ? beatGeometry('paced', NORMAL_AXIS)
+    : beatGeometry(
+      ventricular ? 'ventricular' : params.conduction ?? 'normal',
+      params.axis ?? NORMAL_AXIS,
+      params.stTerritory,
+    );
+  stream.waves.push({ event, morph, geometry });
+  logEvent(stream, event);
+};
+
+// v += dir * amp (샘플마다 새 객체를 만들지 않도록 직접 누적)
+const accumulate = (v: Vector3, dir: Vector3, amp: number) => {
+  if (amp === 0) return;
+  v.x += dir.x * amp;
+  v.y += dir.y * amp;
+  v.z += dir.z * amp;
+};
+
+// 세동파의 방향: VF는 두 성분이 서로 다른 방향, AF의 f파는 V1에서 가장 잘 보임
+const VF_DIRECTION_A = LEAD_VECTORS.II;
+const VF_DIRECTION_B = vec(0.5, 0.9, 1.1);
+const AFIB_DIRECTION = vec(-0.3, 1.5, 2.6);
+
+// 조율 스파이크: 실제 폭(약 0.5ms)은 샘플 간격보다 짧으므로 모니터처럼 한 샘플 폭으로 강조해서 그림
+const PACE_SPIKE_DIRECTION = vec(0.2, 1, 0.5);
+const PACE_SPIKE_AMP = 1.5; // mV (II 유도 기준)
+
+/**
+ * P파 (심방 탈분극)
+ * PAC는 이소성 초점에서 시작해 모양이 조금 다르고, 역행성 P파는 II 유도에서 뒤집혀 보입니다.
+ */
+const accumulateP = (v: Vector3, dt: number, wave: ScheduledWave) => {
+  const { event, morph, geometry } = wave;
+  let amp = morph.pAmp;
+  if (event.beatType === 'A') amp *= 0.8;
+  if (event.retrograde) amp = -0.7 * Math.abs(morph.pAmp);
+  accumulate(v, geometry.p, gaussian(dt, 0, amp, morph.pWidth));
+};
+
+// ST 상승 곡선의 중심 (R파 기준 초): T파 중심보다 0.1초 앞
+export const stCenter = (shape: WaveShape) => shape.tOffset - 0.1;
+
+// T파 중심 (R파 기준 초): 넓은 QRS에서는 그만큼 늦게
+const tWaveCenter = (shape: WaveShape, qrsWidthMult: number) => shape.tOffset + 0.04 * (qrsWidthMult - 1);
+
+/**
+ * QRS-T 복합체 (심실 탈분극 + 재분극)
+ * @param {Vector3} v - 결과를 누적할 벡터
+ * @param {number} dt - R파 기준 상대 시간
+ * @param {ScheduledWave} wave - 예약된 QRS 이벤트 (파라미터와 벡터 구성)
+ */
+const accumulateQrs = (v: Vector3, dt: number, wave: ScheduledWave) => {
+  const { morph: params, geometry } = wave;
+  const shape = waveShape(params);
+  const qrsWidthMult = (params.qrsWidthScale || 1.0) * geometry.widthScale;
+
+  // Q Wave (심실 중격 탈분극) - R파 직전
+  accumulate(v, geometry.q, gaussian(dt, shape.qOffset * qrsWidthMult, params.qAmp, shape.qWidth * qrsWidthMult));
+
+  // R Wave (주 심실 탈분극) - 기준점 0
+  accumulate(v, geometry.r, gaussian(dt, 0, params.rAmp, shape.rWidth * qrsWidthMult));
+
+  // S Wave (심실 기저부 탈분극) - R파 직후
+  accumulate(v, geometry.s, gaussian(dt, shape.sOffset * qrsWidthMult, params.sAmp, shape.sWidth * qrsWidthMult));
+
+  // 각 차단의 추가 QRS 성분 (RBBB의 R', LBBB의 패인 R)
+  if (geometry.rPrime) {
+    const { dir, gain, offset } = geometry.rPrime;
+    accumulate(v, dir, gaussian(dt, offset * qrsWidthMult, params.rAmp * gain, 0.025 * qrsWidthMult));
+  }
+
+  // ST Segment & T Wave (심실 재분극)
+  // ST Elevation 구현을 위해 S파 이후 T파 이전 구간을 들어올림
+  if (dt > 0.08 && dt < shape.tOffset) {
+    // 부드러운 ST 상승 곡선 (T파가 옮겨지면 함께 이동)
+    const stShape = Math.exp(-Math.pow(dt - stCenter(shape), 2) / (2 * 0.1 * 0.1));
+    accumulate(v, geometry.st, params.stElevation * stShape);
+    if (geometry.secondarySt) accumulate(v, geometry.secondarySt, stShape);
+  }
+
+  // T Wave - R파보다 약 0.25초 후 (넓은 QRS에서는 그만큼 늦게)
+  const tCenter = tWaveCenter(shape, qrsWidthMult);
+  accumulate(v, geometry.t, gaussian(dt, tCenter, params.tAmp, params.tWidth));
+
+  // U Wave - T파 후 (저칼륨혈증 등)
+  if (params.uAmp !== 0) {
+    accumulate(v, geometry.t, gaussian(dt, tCenter + shape.uOffset, params.uAmp, shape.uWidth));
+  }
+};
+
+/**
+ * 잡음과 리듬 없이 정상 전도된 한 박동(P파 + QRS-T)의 II 유도 파형
+ * 파형 편집기에서 현재 설정의 모양을 크게 보여 줄 때 사용합니다.
+ * @param {EcgParams} params - ECG 파라미터
+ * @param {number[]} times - R파 기준 상대 시간들 (초)
+ */
+export const beatTemplate = (params: EcgParams, times: number[]): number[] => {
+  const geometry = beatGeometry(params.conduction ?? 'normal', params.axis ?? NORMAL_AXIS, params.stTerritory);
+  const pr = params.prInterval ?? DEFAULT_PR_INTERVAL;
+  const p: ScheduledWave = { event: { time: -pr, wave: 'P', beatType: 'N' }, morph: params, geometry };
+  const qrs: ScheduledWave = { event: { time: 0, wave: 'QRS', beatType: 'N' }, morph: params, geometry };
+  return times.map(t => {
+    const v = vec(0, 0, 0);
+    accumulateP(v, t + pr, p);
+    accumulateQrs(v, t, qrs);
+    return dot(v, LEAD_VECTORS.II);
+  });
+};
+
+/**
+ * 지금 샘플이 어떤 박동의 T파 취약기에 있는지
+ * 가우스 모델은 예약된 QRS-T의 T파 중심을, 동역학 모델은 마지막 R파와 평균 QT를 기준으로 봅니다.
+ */
+const onTWave = (stream: EcgStream, params: EcgParams, t: number): boolean => {
+  if (stream.generator === 'ecgsyn') {
+    const lastQrs = [...stream.events].reverse().find(event => event.wave === 'QRS');
+    return !!lastQrs && inVulnerablePeriod(t - lastQrs.time, ecgsynTWaveDelay(params));
+  }
+  return stream.waves.some(wave => {
+    if (wave.event.wave !== 'QRS') return false;
+    const qrsWidthMult = (wave.morph.qrsWidthScale || 1.0) * wave.geometry.widthScale;
+    return inVulnerablePeriod(t - wave.event.time, tWaveCenter(waveShape(wave.morph), qrsWidthMult));
+  });
+};
+
+/**
+ * 대기 중인 충격을 전달할 때가 되었으면 전달합니다.
+ * 비동기 충격은 바로, 동기화 충격은 R파 샘플에서 전달하며 R파가 없는 리듬(세동, 무수축)에서는 계속 기다립니다.
+ * 충격은 심근 전체를 탈분극시키므로 진행 중인 파형을 지우고 휴지기 뒤에 리듬 엔진을 다시 시작합니다.
+ * @param {boolean} rPeak - 지금 샘플이 R파인지
+ */
+const deliverPendingShock = (stream: EcgStream, params: EcgParams, t: number, rPeak: boolean) => {
+  const request = stream.defib.pending;
+  if (!request || (request.synchronized && !rPeak)) return;
+
+  const rhythm = params.rhythm ?? 'sinus';
+  const vulnerable = !request.synchronized && onTWave(stream, params, t);
+  const outcome = decideShockOutcome(rhythm, request, vulnerable, stream.random);
+  stream.defib.pending = null;
+  stream.defib.shocks.push({
+    time: t, energy: request.energy, synchronized: request.synchronized, rhythm, onTWave: vulnerable, outcome,
+  });
+
+  const pauseUntil = t + postShockPause(stream.random);
+  stream.defib.pauseUntil = pauseUntil;
+  stream.waves = [];
+  stream.rhythm = createRhythmState(pauseUntil);
+  if (outcome !== 'unchanged') {
+    stream.fibLevel = 0;
+    stream.afibLevel = 0;
+  }
+};
+
+/**
+ * 스트림을 한 샘플 진행시키고 그 시점의 심장 벡터를 반환합니다. (노이즈 제외)
+ */
+const nextHeartVector = (stream: EcgStream, params: EcgParams): { t: number; v: Vector3 } => {
+  const t = stream.sampleIndex / stream.samplingRate;
+  const fade = 1 - Math.exp(-1 / (stream.samplingRate * RHYTHM_FADE_TIME));
+
+  // 생성 모델을 바꾸면 새 모델을 처음부터 시작 (가우스 모델은 리듬 엔진 시계를 현재 시각으로 맞춤)
+  const generator = params.generator ?? 'gaussian';
+  if (generator !== stream.generator) {
+    stream.generator = generator;
+    stream.waves = [];
+    if (generator === 'ecgsyn') stream.ecgsyn = createEcgsynState(stream.random);
+    else stream.rhythm = createRhythmState(t + WAVE_LEAD_TIME);
+  }
+
+  // 동역학 모델: 동성 리듬만 만들며, 리듬 엔진과 세동파는 쓰지 않음
+  if (stream.ecgsyn && generator === 'ecgsyn') {
+    const geometry = beatGeometry(params.conduction ?? 'normal', params.axis ?? NORMAL_AXIS, params.stTerritory);
+    const { v, events } = stepEcgsyn(stream.ecgsyn, params, geometry, t, 1 / stream.samplingRate);
+    events.forEach(event => logEvent(stream, event));
+    deliverPendingShock(stream, params, t, events.some(event => event.wave === 'QRS'));
+    stream.sampleIndex++;
+    return { t, v };
+  }
+
+  // 파형이 시작되기 전에 이벤트를 미리 예약 (P파 앞부분이 이벤트 시각보다 먼저 나타나므로)
+  // 충격 후 휴지기 동안은 새 박동을 예약하지 않음
+  if (t + WAVE_LEAD_TIME >= stream.defib.pauseUntil) {
+    syncRhythm(stream.rhythm, params, t + WAVE_LEAD_TIME);
+    while (rhythmHorizon(stream.rhythm) <= t + WAVE_LEAD_TIME) {
+      advanceRhythm(stream.rhythm, params, stream.random).forEach(event => scheduleWave(stream, event, params));
+    }
+  }
+  stream.waves = stream.waves.filter(wave => t - wave.event.time < WAVE_TAIL_TIME);
+  deliverPendingShock(
+    stream,
+    params,
+    t,
+    stream.waves.some(wave => wave.event.wave === 'QRS' && Math.abs(t - wave.event.time) * stream.samplingRate < 0.5),
+  );
+
+  // 리듬 전환 시 세동파가 갑자기 나타나거나 사라지지 않도록 서서히 변화
+  stream.fibLevel += (fibTarget(params) - stream.fibLevel) * fade;
+  stream.afibLevel += (afibTarget(params) - stream.afibLevel) * fade;
+
+  const v = vec(0, 0, 0);
+  stream.waves.forEach(wave => {
+    const dt = t - wave.event.time;
+    if (wave.event.wave === 'PACE') {
+      if (Math.abs(dt) * stream.samplingRate < 0.5) accumulate(v, PACE_SPIKE_DIRECTION, PACE_SPIKE_AMP / dot(PACE_SPIKE_DIRECTION, LEAD_VECTORS.II));
+    } else if (wave.event.wave === 'P') {
+      if (dt < WAVE_LEAD_TIME) accumulateP(v, dt, wave);
+    } else {
+      accumulateQrs(v, dt, wave);
+    }
+  });
+
+  // V-Fib: 불규칙한 사인파들의 합으로 세동 표현
+  accumulate(v, VF_DIRECTION_A, stream.fibLevel * Math.sin(t * 30) * 0.2);
+  accumulate(v, VF_DIRECTION_B, stream.fibLevel * Math.sin(t * 45) * 0.15);
+
+  // 심방세동(AFIB)의 경우 기저선이 불규칙하게 떨림 (f-waves)
+  const fWave = advanceFibrillatoryWave(stream.fWave, stream.random, 1 / stream.samplingRate);
+  accumulate(v, AFIB_DIRECTION, stream.afibLevel * fWave * F_WAVE_AMP);
+
+  stream.sampleIndex++;
+  return { t, v };
+};
+
+// 충격 인공물과 잡음을 더한 뒤 표시 필터를 거친 채널 값
+const measureChannels = (stream: EcgStream, params: EcgParams, filter: EcgFilterSettings, t: number, clean: number[]) => {
+  const shock = shockArtifact(stream.defib, t);
+  const noisy = applyArtifacts(stream.artifacts, params.artifacts, t, shock === 0 ? clean : clean.map(v => v + shock));
+  return applyEcgFilter(stream.filter, filter, stream.samplingRate, params.artifacts.mainsFrequency ?? 60, noisy);
+};
+
+/**
+ * 스트림에서 다음 샘플들을 이어서 생성합니다.
+ * 파라미터는 호출할 때마다 바뀌어도 되며, 변경은 다음 박동부터 반영됩니다.
+ * @param {EcgStream} stream - 생성기 상태 (직접 갱신됨)
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {number} count - 생성할 샘플 수
+ * @param {EcgFilterSettings} filter - 표시 필터 (기본: 거르지 않음)
+ */
+export const readEcgSamples = (stream: EcgStream, params: EcgParams, count: number, filter = NO_ECG_FILTER): EcgPoint[] => {
+  const points: EcgPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const { t, v } = nextHeartVector(stream, params);
+    // 모니터 화면은 II 유도 (리듬 관찰용 표준 유도)
+    const [voltage] = measureChannels(stream, params, filter, t, [dot(v, LEAD_VECTORS.II)]);
+    points.push({ time: t, voltage });
+  }
+  return points;
+};
+
+/**
+ * 스트림에서 12유도 샘플들을 이어서 생성합니다.
+ * @param {EcgStream} stream - 생성기 상태 (직접 갱신됨)
+ * @param {EcgParams} params - 현재 파라미터
+ * @param {number} count - 생성할 샘플 수
+ * @param {EcgFilterSettings} filter - 표시 필터 (기본: 거르지 않음)
+ */
+export const readTwelveLeadSamples = (
+  stream: EcgStream,
+  params: EcgParams,
+  count: number,
+  filter = NO_ECG_FILTER,
+): TwelveLeadPoint[] => {
+  const points: TwelveLeadPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const { t, v } = nextHeartVector(stream, params);
+    const leads = projectLeads(v);
+    const measured = measureChannels(stream, params, filter, t, LEAD_NAMES.map(name => leads[name]));
+    LEAD_NAMES.forEach((name, i) => {
+      leads[name] = measured[i];
+    });
+    points.push({ time: t, ...leads });
+  }
+  return points;
+};
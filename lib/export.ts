@@ -0,0 +1,268 @@
+/**
+ * 시뮬레이터 파형 내보내기 (CSV / JSON / EDF / EDF+)
+ * 세 페이지(ECG, PPG, 인공호흡기)가 같은 형식으로 신호를 내보낼 수 있도록
+ * 채널 단위의 공통 구조로 바꾼 뒤 파일을 만듭니다.
+ */
+
+export type ExportChannel = {
+  name: string;       // 채널 이름 (예: 'II', 'IR', 'Pressure')
+  unit: string;       // 물리 단위 (예: 'mV', 'cmH2O', 'a.u.')
+  values: number[];
+};
+
+// EDF+ 주석 및 JSON 주석 (예: 박동 위치)
+export type ExportAnnotation = {
+  onset: number;      // 초 (기록 시작 기준)
+  duration?: number;
+  text: string;
+};
+
+export type ExportSignal = {
+  source: string;        // 생성한 시뮬레이터 (예: 'ECGSimulator')
+  samplingRate: number;  // Hz (모든 채널 공통)
+  channels: ExportChannel[];
+  params: Record<string, unknown>; // 파형을 만든 파라미터
+  annotations?: ExportAnnotation[];
+};
+
+export type ExportFormat = 'csv' | 'json' | 'edf' | 'edf+';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'edf', 'edf+'];
+
+const sampleCount = (signal: ExportSignal) => Math.min(...signal.channels.map(c => c.values.length));
+
+/**
+ * CSV: 주석(#) 줄에 샘플링 주파수와 파라미터를 적고, 첫 열은 시간(초)
+ * @param {ExportSignal} signal - 내보낼 신호
+ */
+export const toCsv = (signal: ExportSignal): string => {
+  const n = sampleCount(signal);
+  const lines = [
+    `# source: ${signal.source}`,
+    `# sampling_rate_hz: ${signal.samplingRate}`,
+    `# units: ${signal.channels.map(c => `${c.name}=${c.unit}`).join(', ')}`,
+    `# params: ${JSON.stringify(signal.params)}`,
+    ['time_s', ...signal.channels.map(c => `${c.name}_${c.unit}`)].join(','),
+  ];
+  for (let i = 0; i < n; i++) {
+    const time = (i / signal.samplingRate).toFixed(4);
+    lines.push([time, ...signal.channels.map(c => c.values[i].toFixed(5))].join(','));
+  }
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * 주석 CSV: 한 줄에 주석 하나 (CSV 파형 파일과 짝을 이루는 박동 라벨)
+ * @param {ExportSignal} signal - 내보낼 신호
+ */
+export const toAnnotationCsv = (signal: ExportSignal): string => {
+  const lines = ['onset_s,duration_s,text'];
+  (signal.annotations ?? []).forEach(a => {
+    lines.push([a.onset.toFixed(4), a.duration?.toFixed(4) ?? '', a.text].join(','));
+  });
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * JSON: 메타데이터와 채널별 배열
+ * @param {ExportSignal} signal - 내보낼 신호
+ */
+export const toJson = (signal: ExportSignal): string =>
+  JSON.stringify({
+    source: signal.source,
+    samplingRate: signal.samplingRate,
+    sampleCount: sampleCount(signal),
+    params: signal.params,
+    channels: signal.channels.map(c => ({ name: c.name, unit: c.unit, data: c.values.slice(0, sampleCount(signal)) })),
+    annotations: signal.annotations ?? [],
+  }, null, 2);
+
+// --- EDF ---
+
+// 고정 폭 ASCII 필드 (EDF 헤더는 모두 공백으로 채운 ASCII)
+const field = (value: string | number, width: number): string => {
+  const ascii = String(value).replace(/[^\x20-\x7e]/g, '_');
+  return ascii.slice(0, width).padEnd(width, ' ');
+};
+
+// 8칸에 들어가도록 숫자를 줄여서 표기
+// direction이 'down'/'up'이면 줄인 값이 원래 값보다 커지지/작아지지 않도록 내림/올림
+const numberField = (value: number, direction: 'nearest' | 'down' | 'up' = 'nearest'): string => {
+  for (let digits = 6; digits >= 0; digits--) {
+    const step = 10 ** -digits;
+    let rounded = Number(value.toFixed(digits));
+    if (direction === 'down' && rounded > value) rounded -= step;
+    if (direction === 'up' && rounded < value) rounded += step;
+    const text = String(Number(rounded.toFixed(digits)));
+    if (text.length <= 8) return field(text, 8);
+  }
+  const rounded = direction === 'down' ? Math.floor(value) : direction === 'up' ? Math.ceil(value) : Math.round(value);
+  return field(rounded, 8);
+};
+
+const pad2 = (v: number) => String(v).padStart(2, '0');
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const DIGITAL_MIN = -32768;
+const DIGITAL_MAX = 32767;
+const RECORD_SECONDS = 1; // 데이터 레코드 길이
+
+/**
+ * 최솟값과 최댓값 (긴 기록도 다루도록 펼침 인자 대신 반복문으로 셈)
+ * @param {number[]} values - 값 목록
+ */
+const extent = (values: number[]): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return [min, max];
+};
+
+/**
+ * EDF+ 주석 신호의 한 레코드 내용 (TAL: Time-stamped Annotations Lists)
+ * 첫 TAL은 레코드 시작 시각을 나타내는 시간 기록용 주석입니다.
+ */
+const recordTals = (recordStart: number, annotations: ExportAnnotation[]): string => {
+  let tal = `+${recordStart}\x14\x14\x00`;
+  annotations.forEach(a => {
+    const duration = a.duration !== undefined ? `\x15${a.duration}` : '';
+    tal += `+${Number(a.onset.toFixed(4))}${duration}\x14${a.text.replace(/[^\x20-\x7e]/g, '_')}\x14\x00`;
+  });
+  return tal;
+};
+
+/**
+ * EDF(European Data Format) 또는 EDF+ 파일을 만듭니다.
+ * 레코드 길이는 1초이므로 샘플링 주파수는 정수여야 합니다. 마지막 레코드는 마지막 값으로 채웁니다.
+ * @param {ExportSignal} signal - 내보낼 신호
+ * @param {boolean} plus - EDF+ (연속 기록, 주석 채널 포함) 여부
+ * @param {Date} startDate - 기록 시작 시각
+ */
+export const toEdf = (signal: ExportSignal, plus: boolean, startDate = new Date()): Uint8Array<ArrayBuffer> => {
+  const fs = Math.round(signal.samplingRate);
+  if (Math.abs(fs - signal.samplingRate) > 1e-9) throw new Error('EDF는 정수 샘플링 주파수만 지원합니다.');
+
+  const n = sampleCount(signal);
+  const recordCount = Math.max(1, Math.ceil(n / (fs * RECORD_SECONDS)));
+  const perRecord = fs * RECORD_SECONDS;
+
+  // 레코드별 주석 (주석 신호 길이는 가장 긴 레코드에 맞춤, 샘플당 2바이트)
+  const annotations = signal.annotations ?? [];
+  const tals = Array.from({ length: recordCount }, (_, r) =>
+    recordTals(r * RECORD_SECONDS, annotations.filter(a => Math.floor(a.onset / RECORD_SECONDS) === r)));
+  const annotationSamples = plus ? Math.ceil(tals.reduce((longest, t) => Math.max(longest, t.length), 0) / 2) : 0;
+
+  const channels = signal.channels.map(c => {
+    const values = c.values.slice(0, n);
+    let [min, max] = extent(values);
+    if (!(max > min)) {
+      min -= 1;
+      max += 1;
+    }
+    // 헤더에 적히는(8자로 줄인) 값으로 변환해야 읽는 쪽에서 같은 값으로 복원됨
+    // 범위가 좁아지면 양 끝 샘플이 잘리므로 최솟값은 내림, 최댓값은 올림
+    return { ...c, values, min: parseFloat(numberField(min, 'down')), max: parseFloat(numberField(max, 'up')) };
+  });
+  const signalCount = channels.length + (plus ? 1 : 0);
+  const headerBytes = 256 * (1 + signalCount);
+
+  // 고정 헤더 (256바이트)
+  const date = `${pad2(startDate.getDate())}.${pad2(startDate.getMonth() + 1)}.${pad2(startDate.getFullYear() % 100)}`;
+  const time = `${pad2(startDate.getHours())}.${pad2(startDate.getMinutes())}.${pad2(startDate.getSeconds())}`;
+  const plusDate = `${pad2(startDate.getDate())}-${MONTHS[startDate.getMonth()]}-${startDate.getFullYear()}`;
+  let header = field('0', 8);
+  header += field(plus ? 'X X X X' : 'Simulated', 80);
+  header += field(plus ? `Startdate ${plusDate} X X ${signal.source}` : signal.source, 80);
+  header += field(date, 8);
+  header += field(time, 8);
+  header += field(headerBytes, 8);
+  header += field(plus ? 'EDF+C' : '', 44);
+  header += field(recordCount, 8);
+  header += numberField(RECORD_SECONDS);
+  header += field(signalCount, 4);
+
+  // 신호별 헤더 (항목마다 모든 신호를 이어서 기록)
+  const labels = [...channels.map(c => c.name), ...(plus ? ['EDF Annotations'] : [])];
+  const columns: [number, (i: number) => string][] = [
+    [16, i => labels[i]],
+    [80, i => (i < channels.length ? 'Simulated' : '')],
+    [8, i => (i < channels.length ? channels[i].unit : '')],
+    [8, i => (i < channels.length ? numberField(channels[i].min) : '-1')],
+    [8, i => (i < channels.length ? numberField(channels[i].max) : '1')],
+    [8, () => String(DIGITAL_MIN)],
+    [8, () => String(DIGITAL_MAX)],
+    [80, () => ''],
+    [8, i => String(i < channels.length ? perRecord : annotationSamples)],
+    [32, () => ''],
+  ];
+  columns.forEach(([width, value]) => {
+    for (let i = 0; i < signalCount; i++) header += field(value(i), width);
+  });
+
+  const recordBytes = 2 * (perRecord * channels.length + annotationSamples);
+  const bytes = new Uint8Array(headerBytes + recordCount * recordBytes);
+  for (let i = 0; i < headerBytes; i++) bytes[i] = header.charCodeAt(i);
+
+  // 데이터 레코드: 16비트 리틀 엔디언 정수
+  const view = new DataView(bytes.buffer);
+  let offset = headerBytes;
+  for (let r = 0; r < recordCount; r++) {
+    channels.forEach(c => {
+      const scale = (DIGITAL_MAX - DIGITAL_MIN) / (c.max - c.min);
+      for (let k = 0; k < perRecord; k++) {
+        const value = c.values[Math.min(r * perRecord + k, n - 1)];
+        const digital = Math.round(DIGITAL_MIN + (value - c.min) * scale);
+        view.setInt16(offset, Math.max(DIGITAL_MIN, Math.min(DIGITAL_MAX, digital)), true);
+        offset += 2;
+      }
+    });
+    if (plus) {
+      for (let k = 0; k < annotationSamples * 2; k++) {
+        bytes[offset + k] = k < tals[r].length ? tals[r].charCodeAt(k) : 0;
+      }
+      offset += annotationSamples * 2;
+    }
+  }
+  return bytes;
+};
+
+/**
+ * 브라우저에서 파일 다운로드
+ * @param {string} fileName - 저장할 파일 이름
+ * @param {BlobPart} content - 파일 내용
+ * @param {string} mimeType - MIME 형식
+ */
+export const downloadFile = (fileName: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // 다운로드가 시작된 뒤에 URL 해제
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * 신호를 원하는 형식으로 변환해 다운로드합니다.
+ * @param {ExportSignal} signal - 내보낼 신호
+ * @param {ExportFormat} format - 파일 형식
+ */
+export const exportSignal = (signal: ExportSignal, format: ExportFormat) => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const baseName = `${signal.source}-${stamp}`;
+  switch (format) {
+    case 'csv':
+      downloadFile(`${baseName}.csv`, toCsv(signal), 'text/csv');
+      break;
+    case 'json':
+      downloadFile(`${baseName}.json`, toJson(signal), 'application/json');
+      break;
+    case 'edf':
+    case 'edf+':
+      downloadFile(`${baseName}.edf`, toEdf(signal, format === 'edf+'), 'application/octet-stream');
+      break;
+  }
+};
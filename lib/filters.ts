@@ -0,0 +1,116 @@
+/**
+ * 디지털 필터 (IIR 2차 구간, Biquad)
+ * 실제 모니터처럼 샘플이 들어오는 대로 하나씩 거르는 인과(causal) 필터입니다.
+ * 계수는 RBJ Audio EQ Cookbook의 설계식을 따릅니다.
+ */
+
+// 정규화된 계수 (a0 = 1)
+export type Biquad = {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+};
+
+// 전치 직접형 II(Transposed Direct Form II)의 내부 상태
+type BiquadStage = Biquad & {
+  z1: number;
+  z2: number;
+};
+
+export type FilterChain = BiquadStage[];
+
+const normalize = (b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): Biquad => ({
+  b0: b0 / a0,
+  b1: b1 / a0,
+  b2: b2 / a0,
+  a1: a1 / a0,
+  a2: a2 / a0,
+});
+
+/**
+ * 2차 저역 통과 필터 (기본 Q는 Butterworth)
+ * 차단 주파수가 나이퀴스트 주파수 이상이면 거를 성분이 없으므로 null을 반환합니다.
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {number} cutoff - 차단 주파수 (Hz)
+ * @param {number} q - 공진 계수
+ */
+export const lowPass = (samplingRate: number, cutoff: number, q = Math.SQRT1_2): Biquad | null => {
+  if (cutoff >= samplingRate / 2) return null;
+  const w0 = (2 * Math.PI * cutoff) / samplingRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  return normalize((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+/**
+ * 2차 고역 통과 필터 (기본 Q는 Butterworth)
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {number} cutoff - 차단 주파수 (Hz)
+ * @param {number} q - 공진 계수
+ */
+export const highPass = (samplingRate: number, cutoff: number, q = Math.SQRT1_2): Biquad => {
+  const w0 = (2 * Math.PI * cutoff) / samplingRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  return normalize((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+};
+
+/**
+ * 샘플링 후 실제로 보이는 주파수 (나이퀴스트 주파수 이상은 접혀 들어옴)
+ * @param {number} frequency - 원래 주파수 (Hz)
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ */
+export const aliasFrequency = (frequency: number, samplingRate: number): number =>
+  Math.abs(frequency - samplingRate * Math.round(frequency / samplingRate));
+
+/**
+ * 노치(대역 제거) 필터: 단위원 위의 영점과 바로 안쪽의 극점으로 한 주파수만 제거
+ * 샘플링 주파수보다 높은 주파수는 접힌 위치를 제거하며, 나이퀴스트 주파수(예: 100Hz 샘플링의 50Hz)도 처리합니다.
+ * 접힌 주파수가 0Hz에 가까우면 직류 성분까지 지워지므로 null을 반환합니다.
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {number} frequency - 제거할 주파수 (Hz)
+ * @param {number} bandwidth - 제거 대역폭 (Hz, -3dB)
+ */
+export const notch = (samplingRate: number, frequency: number, bandwidth = 2): Biquad | null => {
+  const aliased = aliasFrequency(frequency, samplingRate);
+  if (aliased < bandwidth) return null;
+  const cos = Math.cos((2 * Math.PI * aliased) / samplingRate);
+  const r = 1 - (Math.PI * bandwidth) / samplingRate;
+  // 직류 이득이 1이 되도록 분자를 맞춤
+  const k = (1 - 2 * r * cos + r * r) / (2 - 2 * cos);
+  return { b0: k, b1: -2 * cos * k, b2: k, a1: -2 * r * cos, a2: r * r };
+};
+
+/**
+ * 필터 구간들을 직렬로 연결한 필터를 만듭니다.
+ * 처음 입력이 0이 아니어도(예: 기저선이 떠 있는 도중 필터를 바꿈) 출렁이지 않도록
+ * 내부 상태를 일정한 입력 initial에 대한 정상 상태로 맞춰 둡니다.
+ * @param {Biquad[]} sections - 앞에서부터 적용할 구간
+ * @param {number} initial - 시작 시점의 입력 값
+ */
+export const createFilterChain = (sections: Biquad[], initial = 0): FilterChain => {
+  let x = initial;
+  return sections.map(section => {
+    const { b0, b1, b2, a1, a2 } = section;
+    const y = (x * (b0 + b1 + b2)) / (1 + a1 + a2);
+    const z2 = b2 * x - a2 * y;
+    const z1 = b1 * x - a1 * y + z2;
+    x = y;
+    return { ...section, z1, z2 };
+  });
+};
+
+/**
+ * 샘플 하나를 필터에 통과시킵니다.
+ * @param {FilterChain} chain - 필터 (내부 상태가 직접 갱신됨)
+ * @param {number} x - 입력 샘플
+ */
+export const applyFilterChain = (chain: FilterChain, x: number): number =>
+  chain.reduce((input, stage) => {
+    const y = stage.b0 * input + stage.z1;
+    stage.z1 = stage.b1 * input - stage.a1 * y + stage.z2;
+    stage.z2 = stage.b2 * input - stage.a2 * y;
+    return y;
+  }, x);
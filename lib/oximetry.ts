@@ -0,0 +1,157 @@
+/**
+ * 맥박 산소측정 (ratio-of-ratios)
+ * 박동마다 적색(Red)과 적외선(IR) 각각의 맥동 성분(AC)을 평균 투과광(DC)으로 나누고,
+ * 두 비의 비 R = (AC_red/DC_red) / (AC_ir/DC_ir)을 경험적 보정 곡선으로 SpO2로 바꿉니다.
+ * 관류 지수(PI)는 IR의 AC/DC (%)입니다. 실제 산소포화도계처럼 파형만 보고 계산하므로 잡음과 인공물에 영향을 받습니다.
+ */
+
+// 경험적 보정 곡선: SpO2 = intercept - slope·R (%)
+export type OximetryCalibration = {
+  intercept: number;
+  slope: number;
+};
+
+export type OximetryBeat = {
+  start: number;          // 맥파 시작(foot) 시각 (초)
+  end: number;            // 다음 맥파 시작 시각 (초)
+  ratio: number;          // R
+  perfusionIndex: number; // IR AC/DC (%)
+};
+
+export type OximetryReading = {
+  beats: OximetryBeat[];
+  ratio: number | null;          // 박동별 R의 중앙값 (잴 수 있는 박동이 너무 적으면 null)
+  spO2: number | null;           // %
+  perfusionIndex: number | null; // %
+};
+
+// 흔히 쓰는 선형 근사 (R = 0.4 → 100%, R = 1.0 → 85%)
+export const DEFAULT_OXIMETRY_CALIBRATION: OximetryCalibration = { intercept: 110, slope: 25 };
+
+// 박동 사이 간격의 한계 (초, 240~20 BPM)
+const MIN_BEAT_INTERVAL = 0.25;
+const MAX_BEAT_INTERVAL = 3;
+// 상승 기울기가 기록 상위 2% 기울기의 이 비율을 넘으면 맥파 상승으로 봄
+const UPSTROKE_PERCENTILE = 0.98;
+const UPSTROKE_RATIO = 0.5;
+// 상승 시작점 앞에서 맥파 시작(골)을 찾는 길이 (초)
+const FOOT_SEARCH = 0.3;
+// 이보다 작은 관류 지수의 박동은 잡음으로 보고 버림 (%)
+const MIN_PERFUSION_INDEX = 0.1;
+// 잴 수 있는 박동이 이보다 적거나 이보다 느린 빈도(/분)로만 나오면 맥박이 없는 것으로 봄
+// (맥박이 없어도 잡음이 가끔 박동 검사를 통과하므로, 그 몇 개로 SpO2를 내지 않음)
+const MIN_VALID_BEATS = 3;
+const MIN_VALID_BEAT_RATE = 20;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * 보정 곡선으로 R을 SpO2로 바꿉니다. (0~100%로 제한)
+ * @param {number} ratio - R
+ * @param {OximetryCalibration} [calibration] - 보정 곡선
+ */
+export const spO2FromRatio = (ratio: number, calibration: OximetryCalibration = DEFAULT_OXIMETRY_CALIBRATION): number =>
+  Math.min(100, Math.max(0, calibration.intercept - calibration.slope * ratio));
+
+/**
+ * 보정 곡선의 역함수: 이 SpO2에서 나와야 할 R (생성기가 씀)
+ * @param {number} spO2 - 산소포화도 (%)
+ * @param {OximetryCalibration} [calibration] - 보정 곡선
+ */
+export const ratioFromSpO2 = (spO2: number, calibration: OximetryCalibration = DEFAULT_OXIMETRY_CALIBRATION): number =>
+  (calibration.intercept - spO2) / calibration.slope;
+
+/**
+ * IR 맥파에서 박동마다 맥파 시작(골) 샘플을 찾습니다.
+ * 상승 기울기가 기준을 넘는 지점마다 그 앞 구간의 최솟값을 맥파 시작으로 봅니다.
+ * @param {ArrayLike<number>} ir - 적외선 맥파
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ */
+export const findPulseFeet = (ir: ArrayLike<number>, samplingRate: number): number[] => {
+  if (ir.length < 3) return [];
+  const slopes: number[] = [];
+  for (let k = 0; k + 1 < ir.length; k++) slopes.push(ir[k + 1] - ir[k]);
+  const sorted = [...slopes].sort((a, b) => a - b);
+  const threshold = sorted[Math.floor((sorted.length - 1) * UPSTROKE_PERCENTILE)] * UPSTROKE_RATIO;
+  if (threshold <= 0) return [];
+
+  const refractory = Math.round(MIN_BEAT_INTERVAL * samplingRate);
+  const search = Math.round(FOOT_SEARCH * samplingRate);
+  const feet: number[] = [];
+  let lastOnset = -Infinity;
+  for (let k = 1; k < slopes.length; k++) {
+    if (slopes[k] < threshold || slopes[k - 1] >= threshold || k - lastOnset < refractory) continue;
+    lastOnset = k;
+    let foot = k;
+    for (let j = Math.max(0, k - search); j <= k; j++) if (ir[j] < ir[foot]) foot = j;
+    if (feet.length === 0 || foot > feet[feet.length - 1]) feet.push(foot);
+  }
+  return feet;
+};
+
+/**
+ * 한 박동 구간의 AC와 DC
+ * 두 맥파 시작점을 잇는 직선을 빼서(호흡성 기저선 변동 제거) 가장 높이 솟은 값을 AC, 구간 평균을 DC로 봅니다.
+ */
+const beatComponents = (values: ArrayLike<number>, from: number, to: number) => {
+  let ac = 0;
+  let sum = 0;
+  for (let k = from; k <= to; k++) {
+    const baseline = values[from] + ((values[to] - values[from]) * (k - from)) / (to - from);
+    ac = Math.max(ac, values[k] - baseline);
+    sum += values[k];
+  }
+  return { ac, dc: sum / (to - from + 1) };
+};
+
+/**
+ * Red/IR 두 파장 맥파로 SpO2와 관류 지수를 계산합니다.
+ * @param {ArrayLike<number>} ir - 적외선 맥파 (DC 포함)
+ * @param {ArrayLike<number>} red - 적색 맥파 (DC 포함, ir과 같은 시각)
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {OximetryCalibration} [calibration] - 보정 곡선
+ */
+export const measureOximetry = (
+  ir: ArrayLike<number>,
+  red: ArrayLike<number>,
+  samplingRate: number,
+  calibration: OximetryCalibration = DEFAULT_OXIMETRY_CALIBRATION,
+): OximetryReading => {
+  const feet = findPulseFeet(ir, samplingRate);
+  const beats: OximetryBeat[] = [];
+  for (let i = 0; i + 1 < feet.length; i++) {
+    const from = feet[i];
+    const to = feet[i + 1];
+    if (to - from > MAX_BEAT_INTERVAL * samplingRate) continue;
+    const irBeat = beatComponents(ir, from, to);
+    const redBeat = beatComponents(red, from, to);
+    // 센서가 떨어져 빛이 없거나 맥동이 없는 구간은 잴 수 없음
+    if (irBeat.dc <= 0 || redBeat.dc <= 0 || irBeat.ac <= 0 || redBeat.ac <= 0) continue;
+    const perfusionIndex = (irBeat.ac / irBeat.dc) * 100;
+    if (perfusionIndex < MIN_PERFUSION_INDEX) continue;
+    beats.push({
+      start: from / samplingRate,
+      end: to / samplingRate,
+      ratio: (redBeat.ac / redBeat.dc) / (irBeat.ac / irBeat.dc),
+      perfusionIndex,
+    });
+  }
+
+  const duration = ir.length / samplingRate;
+  if (beats.length < Math.max(MIN_VALID_BEATS, (duration * MIN_VALID_BEAT_RATE) / 60)) {
+    return { beats, ratio: null, spO2: null, perfusionIndex: null };
+  }
+
+  const ratio = median(beats.map(beat => beat.ratio));
+  return {
+    beats,
+    ratio,
+    spO2: ratio === null ? null : spO2FromRatio(ratio, calibration),
+    perfusionIndex: median(beats.map(beat => beat.perfusionIndex)),
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * 파라미터 스키마
+ * 공유 링크처럼 밖에서 들어온 파라미터를 화면에 적용하기 전에 타입과 범위를 검사합니다.
+ * 세 시뮬레이터(ECG, PPG, 인공호흡기)가 각자의 스키마를 정의해 같은 검사 함수를 씁니다.
+ */
+
+/**
+ * 파라미터 스키마의 항목 하나
+ * optional이면 빠져 있어도 되며, 객체 항목은 안쪽 항목을 같은 규칙으로 검사합니다.
+ */
+export type ParamField =
+  | { type: 'number'; min?: number; max?: number; optional?: boolean }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'enum'; values: readonly (string | number)[]; optional?: boolean }
+  | { type: 'object'; fields: ParamSchema; optional?: boolean };
+
+// 파라미터 타입의 모든 항목을 빠짐없이 나열해야 함 (새 파라미터를 추가하면 스키마도 고치도록)
+export type ParamSchema<T = Record<string, unknown>> = { [K in keyof Required<T>]-?: ParamField };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 값이 스키마에 맞는지 검사하고 문제 목록을 반환합니다. (빈 배열이면 통과)
+ * 스키마에 없는 항목도 오류로 봅니다. 손으로 고친 링크나 다른 시뮬레이터의 값을 잘못 넣은 경우를 잡기 위함
+ * @param {ParamSchema} schema - 파라미터 스키마
+ * @param {unknown} value - 검사할 값
+ * @param {string} path - 오류 메시지에 붙일 상위 항목 이름
+ */
+export const validateParams = (schema: ParamSchema, value: unknown, path = ''): string[] => {
+  if (!isPlainObject(value)) return [`${path || 'params'}: 객체가 아닙니다.`];
+  const errors: string[] = [];
+
+  Object.entries(schema).forEach(([key, field]) => {
+    const name = `${path}${key}`;
+    const item = value[key];
+    if (item === undefined) {
+      if (!field.optional) errors.push(`${name}: 값이 없습니다.`);
+      return;
+    }
+    switch (field.type) {
+      case 'number':
+        if (typeof item !== 'number' || !Number.isFinite(item)) errors.push(`${name}: 숫자가 아닙니다.`);
+        else if ((field.min !== undefined && item < field.min) || (field.max !== undefined && item > field.max)) {
+          errors.push(`${name}: ${field.min ?? '-∞'}~${field.max ?? '∞'} 범위를 벗어났습니다. (${item})`);
+        }
+        break;
+      case 'boolean':
+        if (typeof item !== 'boolean') errors.push(`${name}: true/false가 아닙니다.`);
+        break;
+      case 'enum':
+        if (!field.values.includes(item as string | number)) errors.push(`${name}: ${field.values.join(', ')} 중 하나가 아닙니다.`);
+        break;
+      case 'object':
+        errors.push(...validateParams(field.fields, item, `${name}.`));
+        break;
+    }
+  });
+
+  Object.keys(value).forEach(key => {
+    if (!(key in schema)) errors.push(`${path}${key}: 알 수 없는 항목입니다.`);
+  });
+  return errors;
+};
@@ -0,0 +1,87 @@
+/**
+ * 환자 생리 상태 (다중 파라미터 모니터 공용)
+ * 심박수, 리듬, 산소포화도, 호흡을 한곳에 두고 각 시뮬레이터의 파라미터를 여기서 만듭니다.
+ * 한 번 바꾸면 ECG, 맥파(PPG), 인공호흡기 파형이 함께 바뀌어 실제 모니터처럼 서로 어긋나지 않습니다.
+ */
+
+import { EcgParams, PRESETS, PresetKey } from './ecg/model';
+import { DEFAULT_PPG_PARAMS, DEFAULT_PULSE_TRANSIT_TIME, PpgParams } from './signals/ppg';
+import { DEFAULT_VENTILATOR_SETTINGS, VentilatorSettings } from './signals/ventilator';
+
+export type PatientState = {
+  rhythm: PresetKey;    // 심전도 리듬 (ECG 내장 프리셋)
+  heartRate: number;    // 심박수 (BPM, 동방결절/심방 박동수)
+  spO2: number;         // 산소포화도 (%)
+  perfusion: number;    // 말초 관류 (맥파 AC 성분 배율)
+  transitTime: number;  // 맥파 전달 시간 PTT (초, 짧을수록 혈압이 높음)
+  respRate: number;     // 호흡수 (/분)
+  tidalVolume: number;  // 일회 호흡량 (mL)
+  peep: number;         // 호기말 양압 (cmH2O)
+  compliance: number;   // 폐 유순도 (mL/cmH2O)
+  resistance: number;   // 기도 저항 (cmH2O/L/s)
+};
+
+export const DEFAULT_PATIENT: PatientState = {
+  rhythm: 'NORMAL',
+  heartRate: 75,
+  spO2: 98,
+  perfusion: 1,
+  transitTime: DEFAULT_PULSE_TRANSIT_TIME,
+  respRate: 15,
+  tidalVolume: 500,
+  peep: 5,
+  compliance: 50,
+  resistance: 10,
+};
+
+// 박동수를 따로 정하지 않는 리듬 (프리셋의 bpm이 0)
+export const isRatelessRhythm = (rhythm: PresetKey) => PRESETS[rhythm].params.bpm === 0;
+
+// 맥파에서 센 맥박수가 이보다 느리면 맥박이 없는 것으로 봄 (SpO2, 맥박수 측정 불가)
+export const MIN_PULSE_RATE = 20;
+
+/**
+ * 리듬을 바꿉니다. 리듬 프리셋의 대표 심박수를 따르며, 박동수가 없는 리듬(VF, 무수축)은 이전 값을 둡니다.
+ * @param {PatientState} patient - 현재 상태
+ * @param {PresetKey} rhythm - 새 리듬
+ */
+export const withRhythm = (patient: PatientState, rhythm: PresetKey): PatientState => ({
+  ...patient,
+  rhythm,
+  heartRate: isRatelessRhythm(rhythm) ? patient.heartRate : PRESETS[rhythm].params.bpm,
+});
+
+/**
+ * ECG 파라미터: 리듬 프리셋에 심박수만 덮어씁니다.
+ * @param {PatientState} patient - 환자 상태
+ */
+export const patientEcgParams = (patient: Pick<PatientState, 'rhythm' | 'heartRate'>): EcgParams => {
+  const preset = PRESETS[patient.rhythm].params;
+  return isRatelessRhythm(patient.rhythm) ? preset : { ...preset, bpm: patient.heartRate };
+};
+
+/**
+ * 맥파(PPG) 파라미터
+ * 맥박은 심전도 박동에 맞춰 만들므로(patientEcgParams와 함께 ECG 동기화로 요청), 여기서는 맥파의 모양과 산소포화도만 정합니다.
+ * @param {PatientState} patient - 환자 상태
+ */
+export const patientPpgParams = (patient: Pick<PatientState, 'heartRate' | 'spO2' | 'perfusion' | 'respRate'>): PpgParams => ({
+  ...DEFAULT_PPG_PARAMS,
+  bpm: patient.heartRate,
+  spO2: patient.spO2,
+  perfusion: patient.perfusion,
+  respRate: patient.respRate,
+});
+
+/**
+ * 인공호흡기 설정 (볼륨 조절 환기)
+ * @param {PatientState} patient - 환자 상태
+ */
+export const patientVentilatorSettings = (patient: PatientState): VentilatorSettings => ({
+  ...DEFAULT_VENTILATOR_SETTINGS,
+  rr: patient.respRate,
+  tidalVolume: patient.tidalVolume,
+  peep: patient.peep,
+  compliance: patient.compliance,
+  resistance: patient.resistance,
+});
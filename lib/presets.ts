@@ -0,0 +1,177 @@
+/**
+ * 사용자 프리셋 라이브러리
+ * 현재 파라미터를 이름을 붙여 브라우저(localStorage)에 저장하고,
+ * 여러 프리셋을 버전이 붙은 JSON 파일로 내보내거나 불러옵니다.
+ * 세 시뮬레이터(ECG, PPG, 인공호흡기)가 각자의 파라미터 스키마로 같은 파일 형식을 씁니다.
+ */
+
+import { ParamSchema, validateParams } from './paramSchema';
+
+export type PresetSimulator = 'ecg' | 'ppg' | 'ventilator';
+
+export type CustomPreset<T> = {
+  id: string;
+  label: string;
+  description: string;
+  params: T;
+  createdAt: string; // ISO 8601
+};
+
+// 프리셋 모음 파일 형식
+export const PRESET_FILE_FORMAT = 'ecg-visualize-presets';
+export const PRESET_FILE_VERSION = 1;
+
+type PresetFile = {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  simulator: PresetSimulator;
+  exportedAt: string;
+  presets: CustomPreset<unknown>[];
+};
+
+const SIMULATOR_LABELS: Record<PresetSimulator, string> = {
+  ecg: 'ECG',
+  ppg: 'PPG',
+  ventilator: '인공호흡기',
+};
+
+const storageKey = (simulator: PresetSimulator) => `custom-presets-${simulator}`;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const newPresetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 현재 파라미터로 새 사용자 프리셋을 만듭니다.
+ * @param {string} label - 이름
+ * @param {string} description - 설명
+ * @param {T} params - 저장할 파라미터
+ */
+export const createCustomPreset = <T>(label: string, description: string, params: T): CustomPreset<T> => ({
+  id: newPresetId(),
+  label: label.trim(),
+  description: description.trim(),
+  params,
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * 프리셋 목록에서 형식이 맞는 것만 골라냅니다.
+ * @param {unknown} list - 프리셋 배열로 보이는 값
+ * @param {ParamSchema<T>} schema - 파라미터 스키마
+ * @param {(message: string) => void} onError - 걸러낸 프리셋마다 호출
+ */
+const readPresetList = <T>(list: unknown, schema: ParamSchema<T>, onError: (message: string) => void): CustomPreset<T>[] => {
+  if (!Array.isArray(list)) {
+    onError('프리셋 목록(presets)이 배열이 아닙니다.');
+    return [];
+  }
+  const presets: CustomPreset<T>[] = [];
+  list.forEach((item: unknown, index) => {
+    const name = isPlainObject(item) && typeof item.label === 'string' && item.label ? item.label : `#${index + 1}`;
+    if (!isPlainObject(item) || typeof item.label !== 'string' || !item.label.trim()) {
+      onError(`${name}: 이름(label)이 없습니다.`);
+      return;
+    }
+    const errors = validateParams(schema as ParamSchema, item.params);
+    if (errors.length > 0) {
+      onError(`${name}: ${errors.join(' ')}`);
+      return;
+    }
+    presets.push({
+      id: typeof item.id === 'string' && item.id ? item.id : newPresetId(),
+      label: item.label.trim(),
+      description: typeof item.description === 'string' ? item.description : '',
+      params: item.params as T,
+      createdAt: typeof item.createdAt === 'string' ? item.createdAt : new Date().toISOString(),
+    });
+  });
+  return presets;
+};
+
+/**
+ * 저장된 사용자 프리셋 불러오기 (없거나 손상된 항목은 건너뜀)
+ * @param {PresetSimulator} simulator - 시뮬레이터 종류
+ * @param {ParamSchema<T>} schema - 파라미터 스키마
+ */
+export const loadCustomPresets = <T>(simulator: PresetSimulator, schema: ParamSchema<T>): CustomPreset<T>[] => {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(storageKey(simulator)) ?? '[]');
+    return readPresetList(parsed, schema, () => {});
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 사용자 프리셋 저장 (저장 공간이 막혀 있으면 이번 세션에서만 유지)
+ * @param {PresetSimulator} simulator - 시뮬레이터 종류
+ * @param {CustomPreset<T>[]} presets - 전체 목록
+ */
+export const saveCustomPresets = <T>(simulator: PresetSimulator, presets: CustomPreset<T>[]) => {
+  try {
+    window.localStorage.setItem(storageKey(simulator), JSON.stringify(presets));
+  } catch {
+    // 사생활 보호 모드 등에서는 저장하지 않음
+  }
+};
+
+/**
+ * 프리셋 모음 파일 내용 (JSON)
+ * @param {PresetSimulator} simulator - 시뮬레이터 종류
+ * @param {CustomPreset<T>[]} presets - 내보낼 프리셋
+ */
+export const toPresetFile = <T>(simulator: PresetSimulator, presets: CustomPreset<T>[]): string => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    simulator,
+    exportedAt: new Date().toISOString(),
+    presets,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * 프리셋 모음 파일 읽기
+ * 파일 자체가 다른 형식이거나 더 새 버전이면 예외를 던지고,
+ * 일부 프리셋만 스키마에 맞지 않으면 그것만 빼고 나머지를 돌려줍니다.
+ * @param {string} text - 파일 내용
+ * @param {PresetSimulator} simulator - 불러오는 시뮬레이터 종류
+ * @param {ParamSchema<T>} schema - 파라미터 스키마
+ */
+export const parsePresetFile = <T>(
+  text: string,
+  simulator: PresetSimulator,
+  schema: ParamSchema<T>,
+): { presets: CustomPreset<T>[]; skipped: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('JSON 파일이 아니거나 내용이 손상되었습니다.');
+  }
+  if (!isPlainObject(parsed) || parsed.format !== PRESET_FILE_FORMAT) throw new Error('프리셋 모음 파일이 아닙니다.');
+  if (typeof parsed.version !== 'number' || parsed.version > PRESET_FILE_VERSION) {
+    throw new Error(`지원하지 않는 파일 버전입니다: ${String(parsed.version)} (${PRESET_FILE_VERSION} 이하만 가능)`);
+  }
+  if (parsed.simulator !== simulator) {
+    const label = SIMULATOR_LABELS[parsed.simulator as PresetSimulator] ?? String(parsed.simulator);
+    throw new Error(`${label} 프리셋 파일입니다. ${SIMULATOR_LABELS[simulator]} 페이지에서는 불러올 수 없습니다.`);
+  }
+
+  const skipped: string[] = [];
+  const presets = readPresetList(parsed.presets, schema, message => skipped.push(message));
+  return { presets, skipped };
+};
+
+/**
+ * 불러온 프리셋을 기존 목록에 합칩니다. (같은 id는 새 것으로 교체)
+ * @param {CustomPreset<T>[]} current - 기존 목록
+ * @param {CustomPreset<T>[]} incoming - 불러온 프리셋
+ */
+export const mergeCustomPresets = <T>(current: CustomPreset<T>[], incoming: CustomPreset<T>[]): CustomPreset<T>[] => {
+  const ids = new Set(incoming.map(preset => preset.id));
+  return [...current.filter(preset => !ids.has(preset.id)), ...incoming];
+};
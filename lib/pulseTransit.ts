@@ -0,0 +1,152 @@
+/**
+ * 맥파 전달 시간(PTT)과 맥박 결손 분석
+ * ECG의 R 피크에서 손가락 맥파가 시작(foot)되기까지의 시간을 박동마다 재고,
+ * 맥파가 거의 없는 박동(맥박 결손)을 골라냅니다. 혈압이 오르면 동맥이 팽팽해져 맥파가 빨리 전달되므로
+ * PTT로 커프 없이 혈압을 추정할 수 있습니다. (보정값이 필요한 추정치)
+ */
+
+import { DEFAULT_PULSE_TRANSIT_TIME } from './signals/ppg';
+
+export type PulseMeasurement = {
+  rPeak: number;          // R 피크 시각 (초)
+  foot: number | null;    // 맥파 시작 시각 (초, 상승이 없으면 null)
+  ptt: number | null;     // foot - rPeak (초)
+  amplitude: number;      // 맥파 높이 (골에서 최고점까지)
+  detected: boolean;      // 맥박으로 셀 만큼 큰지 (아니면 맥박 결손)
+};
+
+export type PulseTransitSummary = {
+  pulses: PulseMeasurement[];
+  ptt: number | null;     // 감지된 맥박의 PTT 중앙값 (초)
+  heartRate: number;      // ECG 박동수 (BPM)
+  pulseRate: number;      // 감지된 맥박수 (BPM)
+  deficit: number;        // 맥박 결손 (heartRate - pulseRate, BPM)
+};
+
+export type BloodPressure = {
+  systolic: number;   // mmHg
+  diastolic: number;  // mmHg
+  mean: number;       // mmHg
+};
+
+// 커프 보정: 이 PTT에서 측정한 혈압
+export type BpCalibration = {
+  ptt: number;        // 초
+  systolic: number;   // mmHg
+  diastolic: number;  // mmHg
+};
+
+// 기본 보정값: 정상 혈압(120/80)에서 잰 손가락 PTT (생성기의 기본 맥파 전달 시간)
+export const DEFAULT_BP_CALIBRATION: BpCalibration = { ptt: DEFAULT_PULSE_TRANSIT_TIME, systolic: 120, diastolic: 80 };
+
+// R 피크 직후 이만큼은 맥파가 올 수 없음 (초, 전기-기계 지연)
+const MIN_PTT = 0.08;
+// 마지막 박동 뒤에 맥파를 찾는 길이 (초)
+const LAST_PULSE_WINDOW = 1.0;
+// 맥파 높이는 가장 가파른 상승 앞뒤 이 구간에서만 잼 (초, 호흡성 기저선 변동이 섞이지 않게)
+const UPSTROKE_WINDOW = 0.3;
+// 맥파 높이가 보통 맥파의 이 비율보다 작으면 결손
+const DETECTION_RATIO = 0.5;
+// 보통 맥파 높이: 상위 20% 지점 (이단맥처럼 약한 맥파가 절반이어도 흔들리지 않게)
+const TYPICAL_AMPLITUDE_PERCENTILE = 0.8;
+// 이보다 작은 맥파는 관류가 없는 것으로 봄 (a.u., 잡음과 기저선 변동보다 크게)
+const MIN_AMPLITUDE = 0.15;
+// 동맥벽 탄성 계수의 압력 의존성 γ (1/mmHg, Moens-Korteweg 식에 E = E0·e^(γP)를 넣은 모델)
+const ELASTIC_PRESSURE_COEFFICIENT = 0.017;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * 박동마다 맥파 시작 시각을 찾습니다. (intersecting tangent 방법)
+ * R 피크 뒤 구간에서 상승 기울기가 가장 큰 점의 접선이 직전 골의 높이와 만나는 시각을 맥파 시작으로 봅니다.
+ * @param {number[]} rPeaks - R 피크 시각 (초, 시간 순)
+ * @param {ArrayLike<number>} pleth - 맥파 (IR)
+ * @param {number} samplingRate - 맥파 샘플링 주파수 (Hz)
+ */
+export const measurePulses = (rPeaks: number[], pleth: ArrayLike<number>, samplingRate: number): PulseMeasurement[] => {
+  const raw = rPeaks.map((rPeak, i) => {
+    const from = Math.ceil((rPeak + MIN_PTT) * samplingRate);
+    const windowEnd = i + 1 < rPeaks.length ? rPeaks[i + 1] + MIN_PTT : rPeak + LAST_PULSE_WINDOW;
+    const to = Math.min(pleth.length - 1, Math.floor(windowEnd * samplingRate));
+    if (to - from < 3) return { rPeak, foot: null, ptt: null, amplitude: 0 };
+
+    // 가장 가파른 상승
+    let steepest = from;
+    let slope = -Infinity;
+    for (let k = from; k < to; k++) {
+      const d = pleth[k + 1] - pleth[k];
+      if (d > slope) {
+        slope = d;
+        steepest = k;
+      }
+    }
+    if (slope <= 0) return { rPeak, foot: null, ptt: null, amplitude: 0 };
+
+    // 상승 직전의 골과 상승 직후의 최고점
+    const upstroke = Math.round(UPSTROKE_WINDOW * samplingRate);
+    let valley = pleth[steepest];
+    for (let k = Math.max(from, steepest - upstroke); k <= steepest; k++) valley = Math.min(valley, pleth[k]);
+    let peak = pleth[steepest];
+    for (let k = steepest; k <= Math.min(to, steepest + upstroke); k++) peak = Math.max(peak, pleth[k]);
+
+    // 접선 y = pleth[steepest] + slope·(k - steepest)가 골의 높이와 만나는 점
+    // (차분으로 구한 접선은 두 샘플을 그대로 지나므로 따로 반 샘플을 보정하지 않음)
+    const crossing = steepest - (pleth[steepest] - valley) / slope;
+    const foot = crossing / samplingRate;
+    return { rPeak, foot, ptt: foot - rPeak, amplitude: peak - valley };
+  });
+
+  const amplitudes = raw.filter(pulse => pulse.foot !== null).map(pulse => pulse.amplitude).sort((a, b) => a - b);
+  const typical = amplitudes.length > 0 ? amplitudes[Math.floor((amplitudes.length - 1) * TYPICAL_AMPLITUDE_PERCENTILE)] : 0;
+  return raw.map(pulse => ({
+    ...pulse,
+    detected: pulse.foot !== null && pulse.amplitude >= MIN_AMPLITUDE && pulse.amplitude >= typical * DETECTION_RATIO,
+  }));
+};
+
+/**
+ * 기록 전체의 PTT, 박동수, 맥박수, 맥박 결손
+ * @param {number[]} rPeaks - R 피크 시각 (초, 시간 순)
+ * @param {ArrayLike<number>} pleth - 맥파 (IR)
+ * @param {number} samplingRate - 맥파 샘플링 주파수 (Hz)
+ * @param {number} duration - 기록 길이 (초)
+ */
+export const summarizePulseTransit = (
+  rPeaks: number[],
+  pleth: ArrayLike<number>,
+  samplingRate: number,
+  duration: number,
+): PulseTransitSummary => {
+  const pulses = measurePulses(rPeaks, pleth, samplingRate);
+  const detected = pulses.filter((pulse): pulse is PulseMeasurement & { ptt: number } => pulse.detected && pulse.ptt !== null);
+  // 기록 끝에 걸친 박동은 맥파가 아직 오지 않았을 수 있으므로 결손으로 세지 않음
+  const missed = pulses.filter(pulse => !pulse.detected && pulse.rPeak + LAST_PULSE_WINDOW <= duration);
+  const perMinute = duration > 0 ? 60 / duration : 0;
+  const heartRate = pulses.length * perMinute;
+  const pulseRate = (pulses.length - missed.length) * perMinute;
+  return {
+    pulses,
+    ptt: median(detected.map(pulse => pulse.ptt)),
+    heartRate,
+    pulseRate,
+    deficit: heartRate - pulseRate,
+  };
+};
+
+/**
+ * PTT로 혈압을 추정합니다.
+ * 보정 시점보다 PTT가 짧아진 만큼 혈압이 올랐다고 보며(ΔP = 2/γ · ln(PTT₀/PTT)), 이완기압도 같은 만큼 움직인다고 단순화합니다.
+ * @param {number} ptt - 맥파 전달 시간 (초)
+ * @param {BpCalibration} [calibration] - 커프 보정값
+ */
+export const estimateBloodPressure = (ptt: number, calibration: BpCalibration = DEFAULT_BP_CALIBRATION): BloodPressure => {
+  const delta = (2 / ELASTIC_PRESSURE_COEFFICIENT) * Math.log(calibration.ptt / ptt);
+  const systolic = calibration.systolic + delta;
+  const diastolic = calibration.diastolic + delta;
+  return { systolic, diastolic, mean: diastolic + (systolic - diastolic) / 3 };
+};
@@ -0,0 +1,30 @@
+/**
+ * 시드 기반 난수 생성기
+ * 같은 시드로 만든 생성기는 항상 같은 수열을 내므로, 노이즈나 RR 변동이 있는 파형도
+ * 다른 컴퓨터에서 똑같이 다시 만들 수 있습니다.
+ */
+
+// 0 이상 1 미만의 난수를 반환하는 함수 (Math.random과 같은 형태)
+export type RandomSource = () => number;
+
+export const DEFAULT_SEED = 1;
+
+/**
+ * Mulberry32 생성기 (32비트 상태, 빠르고 분포가 고름)
+ * @param {number} seed - 32비트 정수 시드
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 새 시드 (사용자가 '다른 파형'을 원할 때)
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 1_000_000);
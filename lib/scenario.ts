@@ -0,0 +1,508 @@
+/**
+ * 임상 시나리오 타임라인
+ * "정상 동성 리듬 2분 → 동성 빈맥 → VT → VF → 무수축"처럼 단계를 이어 붙이고,
+ * 단계마다 각 시뮬레이터(ECG, PPG, 인공호흡기)의 목표 파라미터와 전환 시간, 강사용 알림(트리거)을 지정합니다.
+ * 같은 시나리오는 어느 페이지에서 재생하든 같은 시각에 같은 파라미터가 되도록 시간만으로 상태를 계산합니다.
+ */
+
+import { ParamSchema, validateParams } from './paramSchema';
+import { PresetSimulator } from './presets';
+
+// cue: 화면에 알림만 표시, pause: 알림과 함께 재생을 멈춤 (강사의 처치를 기다릴 때)
+export type ScenarioTriggerKind = 'cue' | 'pause';
+
+export type ScenarioTrigger = {
+  at: number;                // 단계 시작부터의 시각 (초)
+  kind: ScenarioTriggerKind;
+  message: string;
+};
+
+/**
+ * 한 시뮬레이터의 단계 목표
+ * preset은 페이지의 내장 프리셋 키(ECG), params는 그 위에 덮어쓸 항목입니다.
+ * 둘 다 없으면(또는 목표가 없으면) 이전 단계 상태를 그대로 유지합니다.
+ */
+export type ScenarioTarget = {
+  preset?: string;
+  params?: Record<string, unknown>;
+};
+
+export type ScenarioStep = {
+  label: string;
+  duration: number;    // 단계 길이 (초)
+  transition: number;  // 이전 단계에서 목표까지 옮겨 가는 시간 (초, 0이면 즉시)
+  targets: Partial<Record<PresetSimulator, ScenarioTarget>>;
+  triggers: ScenarioTrigger[];
+};
+
+export type Scenario = {
+  id: string;
+  label: string;
+  description: string;
+  seed?: number;       // 재생할 때 쓸 난수 시드 (같은 파형을 다시 보기 위함)
+  steps: ScenarioStep[];
+};
+
+// 재생 위치: 몇 번째 단계의 어디쯤인지
+export type ScenarioPosition = {
+  index: number;
+  elapsed: number;   // 단계 시작부터 지난 시간 (초)
+  progress: number;  // 전환 진행률 (0~1, 전환이 끝났으면 1)
+};
+
+// 시나리오 전체 타임라인에서 본 트리거
+export type TimedTrigger = ScenarioTrigger & {
+  key: string;        // 단계와 순서로 만든 고유 키 (이미 울린 트리거 기록용)
+  time: number;       // 시나리오 시작부터의 시각 (초)
+  stepIndex: number;
+};
+
+export const SCENARIO_TRIGGER_KINDS: ScenarioTriggerKind[] = ['cue', 'pause'];
+export const SCENARIO_TRIGGER_LABELS: Record<ScenarioTriggerKind, string> = {
+  cue: '알림 (Cue)',
+  pause: '일시정지 (Pause)',
+};
+
+// 시나리오 모음 파일 형식
+export const SCENARIO_FILE_FORMAT = 'ecg-visualize-scenarios';
+export const SCENARIO_FILE_VERSION = 1;
+
+const STORAGE_KEY = 'clinical-scenarios';
+
+/**
+ * 내장 시나리오
+ * ECG는 내장 프리셋 키로, PPG와 인공호흡기는 바꿀 항목만 적습니다.
+ */
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'builtin-cardiac-arrest',
+    label: '심정지 진행 (NSR → 빈맥 → VT → VF → 무수축)',
+    description: '안정된 환자가 빈맥을 거쳐 맥박 없는 심실 리듬, 무수축으로 악화되는 과정. 단계마다 리듬 판독과 처치 시점을 확인합니다.',
+    seed: 1,
+    steps: [
+      {
+        label: '정상 동성 리듬',
+        duration: 120,
+        transition: 0,
+        targets: {
+          ecg: { preset: 'NORMAL' },
+          ppg: { params: { bpm: 75, spO2: 98, perfusion: 1 } },
+          ventilator: { params: { triggerEffort: 2 } },
+        },
+        triggers: [{ at: 0, kind: 'cue', message: '초기 평가: 활력 징후 안정, 자발 호흡 있음' }],
+      },
+      {
+        label: '동성 빈맥',
+        duration: 60,
+        transition: 20,
+        targets: {
+          ecg: { preset: 'TACHYCARDIA' },
+          ppg: { params: { bpm: 130, spO2: 94, perfusion: 0.6 } },
+        },
+        triggers: [{ at: 10, kind: 'cue', message: '빈맥의 원인 감별 (통증, 저혈량, 저산소)' }],
+      },
+      {
+        label: '심실 빈맥',
+        duration: 45,
+        transition: 5,
+        targets: {
+          ecg: { preset: 'VTACH' },
+          ppg: { params: { bpm: 180, spO2: 90, perfusion: 0.2 } },
+        },
+        triggers: [{ at: 15, kind: 'pause', message: '맥박 확인: 맥박이 있는 VT인가?' }],
+      },
+      {
+        label: '심실 세동',
+        duration: 60,
+        transition: 3,
+        targets: {
+          ecg: { preset: 'VFIB' },
+          ppg: { params: { perfusion: 0, spO2: 80 } },
+          ventilator: { params: { triggerEffort: 0 } },
+        },
+        triggers: [
+          { at: 0, kind: 'cue', message: '심정지: 가슴 압박 시작, 제세동기 준비' },
+          { at: 20, kind: 'pause', message: '제세동 시행' },
+        ],
+      },
+      {
+        label: '무수축',
+        duration: 60,
+        transition: 10,
+        targets: {
+          ecg: { preset: 'ASYSTOLE' },
+        },
+        triggers: [{ at: 5, kind: 'cue', message: '무수축: 제세동 적응증 아님. 가슴 압박과 에피네프린' }],
+      },
+    ],
+  },
+  {
+    id: 'builtin-bronchospasm',
+    label: '기관지 경련과 저산소 (Bronchospasm)',
+    description: '기도 저항이 높아지며 최고 기도압 상승과 AutoPEEP, SpO2 저하, 빈맥이 함께 나타났다가 기관지 확장제로 회복됩니다.',
+    seed: 1,
+    steps: [
+      {
+        label: '기저 상태',
+        duration: 60,
+        transition: 0,
+        targets: {
+          ecg: { preset: 'NORMAL' },
+          ppg: { params: { bpm: 75, spO2: 98, perfusion: 1 } },
+          ventilator: { params: { resistance: 10, compliance: 50, autoPeep: false } },
+        },
+        triggers: [],
+      },
+      {
+        label: '기관지 경련',
+        duration: 90,
+        transition: 30,
+        targets: {
+          ecg: { preset: 'TACHYCARDIA', params: { bpm: 115 } },
+          ppg: { params: { bpm: 115, spO2: 88, perfusion: 0.7 } },
+          ventilator: { params: { resistance: 35, autoPeep: true } },
+        },
+        triggers: [
+          { at: 15, kind: 'cue', message: '최고 기도압 상승, 호기 유량이 기저선으로 돌아오지 않음' },
+          { at: 60, kind: 'pause', message: '기관지 확장제 투여' },
+        ],
+      },
+      {
+        label: '회복',
+        duration: 90,
+        transition: 60,
+        targets: {
+          ecg: { preset: 'NORMAL', params: { bpm: 90 } },
+          ppg: { params: { bpm: 90, spO2: 95, perfusion: 0.9 } },
+          ventilator: { params: { resistance: 15, autoPeep: false } },
+        },
+        triggers: [],
+      },
+    ],
+  },
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 시나리오 전체 길이 (초)
+ * @param {Scenario} scenario - 시나리오
+ */
+export const scenarioDuration = (scenario: Scenario): number =>
+  scenario.steps.reduce((sum, step) => sum + step.duration, 0);
+
+/**
+ * 각 단계의 시작 시각 (초)
+ * @param {Scenario} scenario - 시나리오
+ */
+export const stepStartTimes = (scenario: Scenario): number[] => {
+  let start = 0;
+  return scenario.steps.map(step => {
+    const time = start;
+    start += step.duration;
+    return time;
+  });
+};
+
+/**
+ * 시각을 단계와 전환 진행률로 바꿉니다. (범위를 벗어나면 처음/끝에 붙임)
+ * @param {Scenario} scenario - 시나리오
+ * @param {number} time - 시나리오 시작부터의 시각 (초)
+ */
+export const locateScenario = (scenario: Scenario, time: number): ScenarioPosition => {
+  const starts = stepStartTimes(scenario);
+  let index = 0;
+  while (index < scenario.steps.length - 1 && time >= starts[index + 1]) index++;
+  const step = scenario.steps[index];
+  if (!step) return { index: 0, elapsed: 0, progress: 1 };
+  const elapsed = Math.min(Math.max(time - starts[index], 0), step.duration);
+  const progress = step.transition > 0 ? Math.min(elapsed / step.transition, 1) : 1;
+  return { index, elapsed, progress };
+};
+
+/**
+ * 두 파라미터 사이를 보간합니다.
+ * 숫자는 선형으로, 묶음(객체)은 항목별로 옮겨 가며, 리듬 종류 같은 선택 값은 전환 중간에 바뀝니다.
+ * @param {T} from - 시작 파라미터
+ * @param {T} to - 목표 파라미터
+ * @param {number} progress - 진행률 (0~1)
+ */
+export const interpolateParams = <T>(from: T, to: T, progress: number): T => {
+  if (progress <= 0) return from;
+  if (progress >= 1) return to;
+  if (typeof from === 'number' && typeof to === 'number') {
+    // 정수끼리(심박수, 호흡수 등)는 중간값도 정수로 둠
+    const value = from + (to - from) * progress;
+    return (Number.isInteger(from) && Number.isInteger(to) ? Math.round(value) : value) as T;
+  }
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const result: Record<string, unknown> = {};
+    new Set([...Object.keys(from), ...Object.keys(to)]).forEach(key => {
+      const value = interpolateParams(from[key], to[key], progress);
+      if (value !== undefined) result[key] = value;
+    });
+    return result as T;
+  }
+  return progress < 0.5 ? from : to;
+};
+
+/**
+ * 단계 목표를 적용한 파라미터
+ * 내장 프리셋을 고르면 프리셋을 직접 고를 때처럼 이전 상태를 버리고 프리셋에서 다시 시작합니다.
+ * @param {T} current - 이전 단계까지의 파라미터
+ * @param {ScenarioTarget} target - 단계 목표
+ * @param {Record<string, { params: T }>} [presets] - 페이지의 내장 프리셋
+ */
+const applyTarget = <T>(current: T, target: ScenarioTarget, presets?: Record<string, { params: T }>): T => ({
+  ...(target.preset && presets?.[target.preset] ? presets[target.preset].params : current),
+  ...(target.params as Partial<T> | undefined),
+});
+
+/**
+ * 재생 위치에서의 시뮬레이터 파라미터
+ * 처음 단계부터 목표를 차례로 쌓아 올리므로, 중간으로 건너뛰어도 처음부터 재생한 것과 같은 상태가 됩니다.
+ * @param {Scenario} scenario - 시나리오
+ * @param {PresetSimulator} simulator - 파라미터를 구할 시뮬레이터
+ * @param {T} base - 시나리오가 시작될 때의 파라미터 (페이지 기본값)
+ * @param {ScenarioPosition} position - 재생 위치
+ * @param {Record<string, { params: T }>} [presets] - 페이지의 내장 프리셋 (ECG)
+ * @returns 파라미터와, 마지막으로 지정된 내장 프리셋 키
+ */
+export const scenarioParams = <T>(
+  scenario: Scenario,
+  simulator: PresetSimulator,
+  base: T,
+  position: ScenarioPosition,
+  presets?: Record<string, { params: T }>,
+): { params: T; preset?: string } => {
+  let previous = base;
+  let current = base;
+  let preset: string | undefined;
+  scenario.steps.slice(0, position.index + 1).forEach(step => {
+    previous = current;
+    const target = step.targets[simulator];
+    if (!target) return;
+    current = applyTarget(current, target, presets);
+    if (target.preset) preset = target.preset;
+  });
+  return { params: interpolateParams(previous, current, position.progress), preset };
+};
+
+/**
+ * 시나리오의 모든 트리거를 시간 순으로 나열합니다.
+ * @param {Scenario} scenario - 시나리오
+ */
+export const scenarioTriggers = (scenario: Scenario): TimedTrigger[] => {
+  const starts = stepStartTimes(scenario);
+  return scenario.steps
+    .flatMap((step, stepIndex) => step.triggers.map((trigger, i) => ({
+      ...trigger,
+      key: `${stepIndex}-${i}`,
+      time: starts[stepIndex] + Math.min(trigger.at, step.duration),
+      stepIndex,
+    })))
+    .sort((a, b) => a.time - b.time);
+};
+
+/**
+ * 이전 상태와 달라진 항목만 골라냅니다. (현재 설정을 단계 목표로 담을 때)
+ * @param {T} previous - 이전 단계까지의 파라미터
+ * @param {T} next - 담을 파라미터
+ */
+export const diffParams = <T extends object>(previous: T, next: T): Record<string, unknown> => {
+  const changes: Record<string, unknown> = {};
+  Object.entries(next).forEach(([key, value]) => {
+    if (JSON.stringify(value) !== JSON.stringify((previous as Record<string, unknown>)[key])) changes[key] = value;
+  });
+  return changes;
+};
+
+/**
+ * 한 시뮬레이터의 단계 목표가 파라미터 스키마에 맞는지 검사합니다.
+ * 목표는 일부 항목만 담으므로 페이지 기본값 위에 덮어쓴 결과를 검사합니다.
+ * @param {Scenario} scenario - 시나리오
+ * @param {PresetSimulator} simulator - 검사할 시뮬레이터
+ * @param {ParamSchema<T>} schema - 파라미터 스키마
+ * @param {T} base - 페이지 기본 파라미터
+ * @param {Record<string, { params: T }>} [presets] - 페이지의 내장 프리셋
+ */
+export const validateScenarioTargets = <T>(
+  scenario: Scenario,
+  simulator: PresetSimulator,
+  schema: ParamSchema<T>,
+  base: T,
+  presets?: Record<string, { params: T }>,
+): string[] => scenario.steps.flatMap((step, index) => {
+  const target = step.targets[simulator];
+  if (!target) return [];
+  const name = `${index + 1}단계(${step.label})`;
+  if (target.preset && !presets?.[target.preset]) return [`${name}: 알 수 없는 프리셋 ${target.preset}`];
+  return validateParams(schema as ParamSchema, applyTarget(base, target, presets))
+    .map(error => `${name}: ${error}`);
+});
+
+const newScenarioId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 빈 단계 (기본 1분, 전환 없음)
+ * @param {string} label - 단계 이름
+ */
+export const createScenarioStep = (label: string): ScenarioStep => ({
+  label,
+  duration: 60,
+  transition: 0,
+  targets: {},
+  triggers: [],
+});
+
+/**
+ * 기존 시나리오를 복사해 편집할 수 있는 사용자 시나리오를 만듭니다.
+ * @param {Scenario} source - 원본 (내장 시나리오 등)
+ * @param {string} label - 새 이름
+ */
+export const copyScenario = (source: Scenario, label: string): Scenario => ({
+  ...JSON.parse(JSON.stringify(source)) as Scenario,
+  id: newScenarioId(),
+  label,
+});
+
+/**
+ * 새 사용자 시나리오 (단계 하나)
+ * @param {string} label - 이름
+ */
+export const createScenario = (label: string): Scenario => ({
+  id: newScenarioId(),
+  label,
+  description: '',
+  steps: [createScenarioStep('1단계')],
+});
+
+/**
+ * 시나리오 구조 검사 (파라미터 내용은 페이지마다 validateScenarioTargets로 따로 검사)
+ * @param {unknown} value - 시나리오로 보이는 값
+ */
+const readScenario = (value: unknown): Scenario => {
+  if (!isPlainObject(value)) throw new Error('시나리오가 객체가 아닙니다.');
+  if (typeof value.label !== 'string' || !value.label.trim()) throw new Error('이름(label)이 없습니다.');
+  if (!Array.isArray(value.steps) || value.steps.length === 0) throw new Error(`${value.label}: 단계(steps)가 없습니다.`);
+
+  const steps = value.steps.map((step: unknown, index): ScenarioStep => {
+    const name = `${value.label} ${index + 1}단계`;
+    if (!isPlainObject(step)) throw new Error(`${name}: 객체가 아닙니다.`);
+    const { duration, transition } = step;
+    if (typeof duration !== 'number' || !(duration > 0)) throw new Error(`${name}: 길이(duration)는 0보다 커야 합니다.`);
+    if (typeof transition !== 'number' || transition < 0) throw new Error(`${name}: 전환 시간(transition)이 올바르지 않습니다.`);
+
+    const targets: ScenarioStep['targets'] = {};
+    if (step.targets !== undefined && !isPlainObject(step.targets)) throw new Error(`${name}: targets가 객체가 아닙니다.`);
+    Object.entries(step.targets ?? {}).forEach(([simulator, target]) => {
+      if (!['ecg', 'ppg', 'ventilator'].includes(simulator)) throw new Error(`${name}: 알 수 없는 시뮬레이터 ${simulator}`);
+      if (!isPlainObject(target)) throw new Error(`${name}: ${simulator} 목표가 객체가 아닙니다.`);
+      if (target.preset !== undefined && typeof target.preset !== 'string') throw new Error(`${name}: preset이 문자열이 아닙니다.`);
+      if (target.params !== undefined && !isPlainObject(target.params)) throw new Error(`${name}: params가 객체가 아닙니다.`);
+      targets[simulator as PresetSimulator] = { preset: target.preset as string | undefined, params: target.params as Record<string, unknown> | undefined };
+    });
+
+    if (step.triggers !== undefined && !Array.isArray(step.triggers)) throw new Error(`${name}: triggers가 배열이 아닙니다.`);
+    const triggers = ((step.triggers ?? []) as unknown[]).map((trigger): ScenarioTrigger => {
+      if (!isPlainObject(trigger) || typeof trigger.at !== 'number' || trigger.at < 0
+        || !SCENARIO_TRIGGER_KINDS.includes(trigger.kind as ScenarioTriggerKind) || typeof trigger.message !== 'string') {
+        throw new Error(`${name}: 트리거 형식이 올바르지 않습니다.`);
+      }
+      return { at: trigger.at, kind: trigger.kind as ScenarioTriggerKind, message: trigger.message };
+    });
+
+    return {
+      label: typeof step.label === 'string' ? step.label : `${index + 1}단계`,
+      duration,
+      transition: Math.min(transition, duration),
+      targets,
+      triggers,
+    };
+  });
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : newScenarioId(),
+    label: value.label.trim(),
+    description: typeof value.description === 'string' ? value.description : '',
+    seed: typeof value.seed === 'number' && Number.isInteger(value.seed) ? value.seed : undefined,
+    steps,
+  };
+};
+
+/**
+ * 시나리오 목록에서 형식이 맞는 것만 골라냅니다.
+ * @param {unknown} list - 시나리오 배열로 보이는 값
+ * @param {(message: string) => void} onError - 걸러낸 시나리오마다 호출
+ */
+const readScenarioList = (list: unknown, onError: (message: string) => void): Scenario[] => {
+  if (!Array.isArray(list)) {
+    onError('시나리오 목록(scenarios)이 배열이 아닙니다.');
+    return [];
+  }
+  const scenarios: Scenario[] = [];
+  list.forEach(item => {
+    try {
+      scenarios.push(readScenario(item));
+    } catch (e) {
+      onError(e instanceof Error ? e.message : String(e));
+    }
+  });
+  return scenarios;
+};
+
+/**
+ * 저장된 사용자 시나리오 불러오기 (세 페이지가 같은 목록을 씀)
+ */
+export const loadScenarios = (): Scenario[] => {
+  try {
+    return readScenarioList(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]'), () => {});
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * 사용자 시나리오 저장 (저장 공간이 막혀 있으면 이번 세션에서만 유지)
+ * @param {Scenario[]} scenarios - 전체 목록
+ */
+export const saveScenarios = (scenarios: Scenario[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    // 사생활 보호 모드 등에서는 저장하지 않음
+  }
+};
+
+/**
+ * 시나리오 모음 파일 내용 (JSON)
+ * @param {Scenario[]} scenarios - 내보낼 시나리오
+ */
+export const toScenarioFile = (scenarios: Scenario[]): string => JSON.stringify({
+  format: SCENARIO_FILE_FORMAT,
+  version: SCENARIO_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  scenarios,
+}, null, 2);
+
+/**
+ * 시나리오 모음 파일 읽기
+ * 파일 자체가 다른 형식이거나 더 새 버전이면 예외를 던지고, 형식이 맞지 않는 시나리오만 빼고 돌려줍니다.
+ * @param {string} text - 파일 내용
+ */
+export const parseScenarioFile = (text: string): { scenarios: Scenario[]; skipped: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('JSON 파일이 아니거나 내용이 손상되었습니다.');
+  }
+  if (!isPlainObject(parsed) || parsed.format !== SCENARIO_FILE_FORMAT) throw new Error('시나리오 모음 파일이 아닙니다.');
+  if (typeof parsed.version !== 'number' || parsed.version > SCENARIO_FILE_VERSION) {
+    throw new Error(`지원하지 않는 파일 버전입니다: ${String(parsed.version)} (${SCENARIO_FILE_VERSION} 이하만 가능)`);
+  }
+  const skipped: string[] = [];
+  const scenarios = readScenarioList(parsed.scenarios, message => skipped.push(message));
+  return { scenarios, skipped };
+};
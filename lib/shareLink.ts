@@ -0,0 +1,109 @@
+/**
+ * 시나리오 공유 링크
+ * 프리셋, 모든 파라미터, 화면 모드, 시드, 표시 필터를 URL 쿼리에 담습니다.
+ * 정적 내보내기(output: "export")에서도 동작하도록 서버가 아닌 브라우저에서 쿼리를 읽고 씁니다.
+ */
+
+import { ParamSchema, validateParams } from './paramSchema';
+
+export type ShareState = {
+  preset?: string;
+  mode?: string;
+  seed?: number;
+  params?: Record<string, unknown>;
+  filter?: Record<string, unknown>; // 표시 필터 설정 (ECG)
+};
+
+const SHARE_KEYS = ['preset', 'mode', 'seed', 'params', 'filter'];
+
+type ParamValue = number | string | boolean;
+
+const isParamValue = (value: unknown): value is ParamValue =>
+  (typeof value === 'number' && Number.isFinite(value)) || typeof value === 'string' || typeof value === 'boolean';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 현재 페이지 주소에 시나리오를 담은 링크를 만듭니다.
+ * @param {ShareState} state - 공유할 상태
+ */
+export const buildShareUrl = (state: ShareState): string => {
+  const query = new URLSearchParams();
+  if (state.preset) query.set('preset', state.preset);
+  if (state.mode) query.set('mode', state.mode);
+  if (state.seed !== undefined) query.set('seed', String(state.seed));
+  if (state.params) query.set('params', JSON.stringify(state.params));
+  if (state.filter) query.set('filter', JSON.stringify(state.filter));
+  return `${window.location.origin}${window.location.pathname}?${query.toString()}`;
+};
+
+/**
+ * 쿼리 값의 JSON 객체를 읽습니다.
+ * 잘린 링크 등으로 JSON이 깨졌으면 undefined (그 항목만 무시하고 나머지는 적용)
+ */
+const parseJsonObject = (text: string | null): Record<string, unknown> | undefined => {
+  if (!text) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return isPlainObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * 현재 주소의 쿼리에서 공유된 시나리오를 읽습니다. (없으면 null)
+ */
+export const readShareState = (): ShareState | null => {
+  const query = new URLSearchParams(window.location.search);
+  if (![...query.keys()].some(key => SHARE_KEYS.includes(key))) return null;
+
+  const state: ShareState = {};
+  const preset = query.get('preset');
+  const mode = query.get('mode');
+  const seed = Number(query.get('seed'));
+  if (preset) state.preset = preset;
+  if (mode) state.mode = mode;
+  if (query.has('seed') && Number.isInteger(seed)) state.seed = seed;
+
+  const params = parseJsonObject(query.get('params'));
+  const filter = parseJsonObject(query.get('filter'));
+  if (params) state.params = params;
+  if (filter) state.filter = filter;
+  return state;
+};
+
+/**
+ * 공유된 파라미터를 기본값 위에 항목별로 덮어씁니다.
+ * 기본값에 있는 항목은 같은 타입일 때만, 없는 항목(선택 파라미터)은 단순 값일 때만 받아들입니다.
+ * 객체로 된 파라미터는 항목별로 같은 규칙을 적용합니다.
+ */
+const overlayParams = <T extends object>(base: T, shared: Record<string, unknown>): T => {
+  const merged = { ...base } as Record<string, unknown>;
+  Object.entries(shared).forEach(([key, value]) => {
+    const current = merged[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      // 묶음 파라미터(예: 인공물 세기)는 항목별로 합침
+      merged[key] = overlayParams(current, value);
+    } else if (current === undefined ? isParamValue(value) : !isPlainObject(current) && typeof current === typeof value) {
+      merged[key] = value;
+    }
+  });
+  return merged as T;
+};
+
+/**
+ * 공유된 파라미터를 기본값 위에 덮어쓰고 페이지의 파라미터 스키마로 검사합니다.
+ * 손으로 고친 링크처럼 범위를 벗어나거나 알 수 없는 값이 있으면 적용하지 않고 오류를 던집니다. (호출한 쪽은 기본값을 유지)
+ * @param {T} base - 기본 파라미터 (프리셋 등)
+ * @param {Record<string, unknown> | undefined} shared - 링크에서 읽은 파라미터
+ * @param {ParamSchema<T>} schema - 페이지의 파라미터 스키마
+ */
+export const mergeSharedParams = <T extends object>(base: T, shared: Record<string, unknown> | undefined, schema: ParamSchema<T>): T => {
+  if (!shared) return base;
+  const merged = overlayParams(base, shared);
+  const errors = validateParams(schema as ParamSchema, merged);
+  if (errors.length > 0) throw new Error(`공유 링크의 파라미터가 올바르지 않아 기본값으로 열었습니다: ${errors.join(', ')}`);
+  return merged;
+};
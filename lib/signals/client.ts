@@ -0,0 +1,72 @@
+import { SignalRequest } from './index';
+import { DenseSignal, SignalWorkerRequest, SignalWorkerResponse } from './dense';
+
+/**
+ * 신호 생성 워커 연결 (화면 스레드 쪽)
+ * 슬라이더를 끄는 동안 요청이 쌓이지 않도록 한 번에 하나만 생성하고,
+ * 그동안 들어온 요청은 가장 최근 것 하나만 남깁니다. 밀려난 요청은 null로 끝납니다.
+ */
+export type SignalWorker = {
+  generate: (request: SignalRequest) => Promise<DenseSignal | null>;
+  terminate: () => void;
+};
+
+type QueuedRequest = {
+  request: SignalRequest;
+  resolve: (signal: DenseSignal | null) => void;
+  reject: (error: Error) => void;
+};
+
+export const createSignalWorker = (): SignalWorker => {
+  const worker = new Worker(new URL('./worker.ts', import.meta.url));
+  let nextId = 1;
+  let running: (QueuedRequest & { id: number }) | null = null;
+  let queued: QueuedRequest | null = null;
+
+  const start = (item: QueuedRequest) => {
+    running = { ...item, id: nextId++ };
+    const message: SignalWorkerRequest = { id: running.id, request: item.request };
+    worker.postMessage(message);
+  };
+
+  worker.onmessage = (event: MessageEvent<SignalWorkerResponse>) => {
+    const response = event.data;
+    if (!running || response.id !== running.id) return;
+    const finished = running;
+    running = null;
+    if ('error' in response) finished.reject(new Error(response.error));
+    else finished.resolve(response.signal);
+    if (queued) {
+      const next = queued;
+      queued = null;
+      start(next);
+    }
+  };
+
+  worker.onerror = (event) => {
+    const message = event.message || '신호 생성 워커에서 오류가 발생했습니다.';
+    running?.reject(new Error(message));
+    queued?.reject(new Error(message));
+    running = null;
+    queued = null;
+  };
+
+  return {
+    generate: (request) => new Promise((resolve, reject) => {
+      const item = { request, resolve, reject };
+      if (!running) {
+        start(item);
+        return;
+      }
+      queued?.resolve(null);
+      queued = item;
+    }),
+    terminate: () => {
+      worker.terminate();
+      running?.resolve(null);
+      queued?.resolve(null);
+      running = null;
+      queued = null;
+    },
+  };
+};
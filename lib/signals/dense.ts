@@ -0,0 +1,41 @@
+import { ExportAnnotation, ExportSignal } from '../export';
+import { SignalRequest } from './index';
+
+/**
+ * 긴 기록용 신호 형식
+ * 채널 값을 Float32Array로 담아 Web Worker에서 복사 없이(transfer) 넘겨받고, 캔버스 렌더러가 바로 읽습니다.
+ */
+export type DenseChannel = {
+  name: string;
+  unit: string;
+  values: Float32Array;
+};
+
+export type DenseSignal = {
+  samplingRate: number;
+  channels: DenseChannel[];
+  annotations: ExportAnnotation[];
+  params: Record<string, unknown>;
+  elapsed: number; // 생성에 걸린 시간 (ms)
+};
+
+// 워커와 주고받는 메시지 (id로 요청과 응답을 짝지음)
+export type SignalWorkerRequest = { id: number; request: SignalRequest };
+export type SignalWorkerResponse = { id: number; signal: DenseSignal } | { id: number; error: string };
+
+/**
+ * 생성한 신호를 긴 기록용 형식으로 바꿉니다.
+ * @param {ExportSignal} signal - 생성한 신호
+ * @param {number} elapsed - 생성에 걸린 시간 (ms)
+ */
+export const toDenseSignal = (signal: ExportSignal, elapsed: number): DenseSignal => ({
+  samplingRate: signal.samplingRate,
+  channels: signal.channels.map(c => ({ name: c.name, unit: c.unit, values: Float32Array.from(c.values) })),
+  annotations: signal.annotations ?? [],
+  params: signal.params,
+  elapsed,
+});
+
+// 워커에서 넘길 때 소유권을 옮길 버퍼 목록
+export const denseBuffers = (signal: DenseSignal): ArrayBuffer[] =>
+  signal.channels.map(c => c.values.buffer as ArrayBuffer);
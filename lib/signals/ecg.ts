@@ -0,0 +1,64 @@
+import { RandomSource } from '../random';
+import { EcgParams } from '../ecg/model';
+import { LEAD_NAMES, LeadName } from '../ecg/leads';
+import { RhythmEvent } from '../ecg/rhythm';
+import { EcgFilterSettings, NO_ECG_FILTER } from '../ecg/filters';
+import { createEcgStream, readEcgSamples, readTwelveLeadSamples } from '../ecg/stream';
+
+/**
+ * ECG 생성기 (화면 없이 쓰는 진입점)
+ * 실시간 모니터와 같은 스트림 엔진으로 긴 구간을 만들고, 박동 주석(QRS 유형)을 함께 모읍니다.
+ */
+export type EcgSignalOptions = {
+  duration: number;       // 길이 (초)
+  samplingRate: number;   // Hz
+  random: RandomSource;   // 노이즈와 리듬 변동에 쓰는 난수 (같은 시드면 같은 결과)
+  twelveLead?: boolean;   // 12유도 전체 (기본: 모니터 II 유도만)
+  filter?: EcgFilterSettings;
+};
+
+export type EcgSignal = {
+  leads: LeadName[];
+  channels: number[][];   // 유도별 전압 (mV), leads와 같은 순서
+  beats: RhythmEvent[];   // 구간 안의 QRS와 차단된 P파 (시간 순)
+};
+
+export const ECG_SAMPLING_RATE = 100; // Hz (화면 기본값)
+
+// 이벤트 기록을 놓치지 않도록 나눠서 생성하는 길이 (초)
+const CHUNK_SECONDS = 1;
+
+/**
+ * ECG 파형과 박동 주석을 생성합니다.
+ * 스트림의 이벤트 기록은 길이가 제한되어 있어, 조금씩 생성하며 새로 예약된 이벤트를 모아 둡니다.
+ * @param {EcgParams} params - ECG 파라미터
+ * @param {EcgSignalOptions} options - 길이, 샘플링 주파수, 난수, 유도 선택
+ */
+export const generateEcg = (params: EcgParams, options: EcgSignalOptions): EcgSignal => {
+  const { duration, samplingRate, random, twelveLead = false, filter = NO_ECG_FILTER } = options;
+  const stream = createEcgStream(samplingRate, params, random);
+  const leads: LeadName[] = twelveLead ? LEAD_NAMES : ['II'];
+  const channels: number[][] = leads.map(() => []);
+  const seen = new Set<RhythmEvent>();
+  const beats: RhythmEvent[] = [];
+  const total = Math.round(duration * samplingRate);
+
+  while (stream.sampleIndex < total) {
+    const count = Math.min(Math.round(CHUNK_SECONDS * samplingRate), total - stream.sampleIndex);
+    if (twelveLead) {
+      readTwelveLeadSamples(stream, params, count, filter).forEach(point => {
+        leads.forEach((name, i) => channels[i].push(point[name]));
+      });
+    } else {
+      readEcgSamples(stream, params, count, filter).forEach(point => channels[0].push(point.voltage));
+    }
+    stream.events.forEach(event => {
+      if (seen.has(event)) return;
+      seen.add(event);
+      if ((event.wave === 'QRS' || event.blocked) && event.time >= 0 && event.time < duration) beats.push(event);
+    });
+  }
+
+  beats.sort((a, b) => a.time - b.time);
+  return { leads, channels, beats };
+};
@@ -0,0 +1,99 @@
+import { createRandom } from '../random';
+import { ExportSignal } from '../export';
+import { EcgParams } from '../ecg/model';
+import { EcgFilterSettings } from '../ecg/filters';
+import { ECG_SAMPLING_RATE, generateEcg } from './ecg';
+import { PPG_SAMPLING_RATE, PpgParams, generatePpg } from './ppg';
+import { VENTILATOR_SAMPLING_RATE, VentilatorSettings, generateBreathData } from './ventilator';
+
+/**
+ * 신호 생성 라이브러리 (React 없이 사용)
+ * 세 시뮬레이터의 파형을 같은 요청 형식으로 만들고, 내보내기와 같은 채널 구조(ExportSignal)로 돌려줍니다.
+ * 명령줄 생성기(scripts/generate-signals.ts)가 이 모듈로 학습용 데이터셋을 만듭니다.
+ */
+export type SignalModality = 'ecg' | 'ppg' | 'ventilator';
+
+export const SIGNAL_MODALITIES: SignalModality[] = ['ecg', 'ppg', 'ventilator'];
+
+export const DEFAULT_SAMPLING_RATES: Record<SignalModality, number> = {
+  ecg: ECG_SAMPLING_RATE,
+  ppg: PPG_SAMPLING_RATE,
+  ventilator: VENTILATOR_SAMPLING_RATE,
+};
+
+type SignalRequestBase = {
+  duration: number;      // 초
+  samplingRate: number;  // Hz
+  seed: number;          // 난수 시드 (인공호흡기 파형은 난수를 쓰지 않음)
+  label?: string;        // 데이터셋 라벨 (예: 프리셋 이름)
+};
+
+// ECG에 맞춰 맥파를 만들 때: 같은 시드로 만든 II 유도의 박동마다 맥파 전달 시간 뒤에 맥파가 옴
+export type PpgEcgSync = {
+  params: EcgParams;
+  transitTime: number; // 초
+};
+
+export type SignalRequest =
+  | (SignalRequestBase & { modality: 'ecg'; params: EcgParams; twelveLead?: boolean; filter?: EcgFilterSettings })
+  | (SignalRequestBase & { modality: 'ppg'; params: PpgParams; ecg?: PpgEcgSync })
+  | (SignalRequestBase & { modality: 'ventilator'; params: VentilatorSettings });
+
+/**
+ * 요청한 신호를 생성합니다.
+ * ECG는 박동 유형(MIT-BIH 기호)을 주석으로 붙이고, 라벨과 시드는 파라미터 기록에 함께 남깁니다.
+ * @param {SignalRequest} request - 종류, 파라미터, 길이, 샘플링 주파수, 시드
+ */
+export const generateSignal = (request: SignalRequest): ExportSignal => {
+  const { duration, samplingRate, seed, label } = request;
+  const meta = { ...(label !== undefined ? { label } : {}), seed };
+
+  switch (request.modality) {
+    case 'ecg': {
+      const ecg = generateEcg(request.params, {
+        duration, samplingRate, random: createRandom(seed), twelveLead: request.twelveLead, filter: request.filter,
+      });
+      return {
+        source: 'ECGSimulator',
+        samplingRate,
+        channels: ecg.leads.map((name, i) => ({ name, unit: 'mV', values: ecg.channels[i] })),
+        params: { ...meta, ...request.params },
+        annotations: ecg.beats.map(beat => ({ onset: beat.time, text: beat.blocked ? 'P' : beat.beatType })),
+      };
+    }
+    case 'ppg': {
+      // ECG 동기화면 II 유도를 함께 담고 박동 주석을 붙임
+      const sync = request.ecg;
+      const ecg = sync ? generateEcg(sync.params, { duration, samplingRate, random: createRandom(seed) }) : null;
+      const beats = ecg ? ecg.beats.filter(beat => !beat.blocked) : [];
+      const points = generatePpg(
+        request.params, duration, samplingRate, createRandom(seed),
+        sync ? { beats: beats.map(beat => ({ time: beat.time, beatType: beat.beatType })), transitTime: sync.transitTime } : undefined,
+      );
+      return {
+        source: 'PPGSimulator',
+        samplingRate,
+        channels: [
+          ...(ecg ? [{ name: 'II', unit: 'mV', values: ecg.channels[0] }] : []),
+          { name: 'IR', unit: 'a.u.', values: points.map(p => p.ir) },
+          { name: 'Red', unit: 'a.u.', values: points.map(p => p.red) },
+        ],
+        params: { ...meta, ...request.params, ...(sync ? { transitTime: sync.transitTime, ecg: sync.params } : {}) },
+        ...(ecg ? { annotations: beats.map(beat => ({ onset: beat.time, text: beat.beatType })) } : {}),
+      };
+    }
+    case 'ventilator': {
+      const { scalars } = generateBreathData(request.params, { duration, samplingRate });
+      return {
+        source: 'VentilatorGraphics',
+        samplingRate,
+        channels: [
+          { name: 'Pressure', unit: 'cmH2O', values: scalars.map(p => p.pressure) },
+          { name: 'Flow', unit: 'L/min', values: scalars.map(p => p.flow) },
+          { name: 'Volume', unit: 'mL', values: scalars.map(p => p.volume) },
+        ],
+        params: { ...meta, ...request.params },
+      };
+    }
+  }
+};
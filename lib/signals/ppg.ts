@@ -0,0 +1,217 @@
+import { RandomSource } from '../random';
+import { ParamSchema } from '../paramSchema';
+import { ARTIFACT_LEVELS_SCHEMA, ArtifactLevels, applyArtifacts, artifactLevels, createArtifactState } from '../artifacts';
+import { ratioFromSpO2 } from '../oximetry';
+
+/**
+ * PPG (광용적맥파) 생성기
+ * 박동마다 수축기/이완기 두 가우스 피크로 맥파를 만들고, 호흡성 기저선과 인공물을 더해
+ * 적외선(IR)과 적색(Red) 두 파장의 파형을 만듭니다.
+ */
+export type PpgParams = {
+  bpm: number;
+  spO2: number;
+  stiffness: number;
+  perfusion: number;
+  respRate: number;
+  respAmp: number;
+  artifacts: ArtifactLevels;
+};
+
+export type PpgPoint = {
+  time: number;
+  ir: number;
+  red: number;
+};
+
+// 파라미터 파일 검사용 스키마
+export const PPG_PARAMS_SCHEMA: ParamSchema<PpgParams> = {
+  bpm: { type: 'number', min: 20, max: 250 },
+  spO2: { type: 'number', min: 50, max: 100 },
+  stiffness: { type: 'number', min: 0, max: 1 },
+  perfusion: { type: 'number', min: 0, max: 5 },
+  respRate: { type: 'number', min: 0, max: 60 },
+  respAmp: { type: 'number', min: 0, max: 2 },
+  artifacts: { type: 'object', fields: ARTIFACT_LEVELS_SCHEMA },
+};
+
+export const DEFAULT_PPG_PARAMS: PpgParams = {
+  bpm: 70,            // 심박수 (Heart Rate)
+  spO2: 98,           // 산소포화도 (Blood Oxygen)
+  stiffness: 0.3,     // 동맥 경직도 (Arterial Stiffness) - 이완기 피크 위치/크기 영향
+  perfusion: 1.0,     // 관류 지수 (Perfusion Index) - AC 성분의 크기
+  respRate: 15,       // 호흡수 (Respiration Rate) - DC 성분 주파수
+  respAmp: 0.2,       // 호흡성 변동 폭 (DC Component Amplitude)
+  artifacts: artifactLevels({ emg: 0.02 }), // 잡음/인공물 세기
+};
+
+export const PPG_SAMPLING_RATE = 60; // Hz (부드러운 곡선을 위해)
+
+// 파장별 평균 투과광 (DC, a.u.). 관류 1에서 IR의 AC/DC가 2%가 되도록 맞춤
+export const IR_DC_LEVEL = 50;
+export const RED_DC_LEVEL = 30;
+
+// ECG 동기화: R 피크 하나마다 맥파 하나
+export type PulseSource = {
+  time: number;      // R 피크 시각 (초)
+  beatType: string;  // MIT-BIH 박동 기호 (N, V, A, ...)
+};
+
+export type PpgSync = {
+  beats: PulseSource[];  // 시간 순
+  transitTime: number;   // 맥파 전달 시간 PTT: R 피크에서 손가락 맥파가 시작(foot)될 때까지 (초)
+};
+
+export type PlannedPulse = {
+  rPeak: number;     // 초
+  arrival: number;   // 맥파 시작 시각 (초)
+  strength: number;  // 박출량 비율 (규칙적인 박동 = 1)
+};
+
+export const DEFAULT_PULSE_TRANSIT_TIME = 0.22; // 초 (손가락, 정상 혈압)
+
+// 확장기 충만: 직전 RR이 짧을수록 심실이 덜 차서 박출량이 줄어듦 (Frank-Starling)
+const ISOVOLUMIC_TIME = 0.12;       // 충만이 시작되기 전 시간 (초)
+const FILLING_TIME_CONSTANT = 0.4;  // 충만 시간 상수 (초)
+const MAX_PULSE_STRENGTH = 1.3;     // 보상성 휴지기 뒤 박동의 증강 상한
+// 심실 기원 박동(PVC, VT)은 비동기 수축이라 박출량이 작고 박출이 늦음
+const VENTRICULAR_STRENGTH = 0.6;
+const VENTRICULAR_EJECTION_DELAY = 0.04; // 초
+// 한 맥파가 영향을 주는 길이 (초, 이완기 피크 꼬리까지)
+const PULSE_SPAN = 1.0;
+// 수축기 피크: 맥파 모양 시작부터 중심까지의 시간과 폭 (초)
+const SYSTOLIC_CENTER = 0.15;
+const SYSTOLIC_WIDTH = 0.06;
+// 맥파 모양 시작부터 맥파 시작(foot)까지 (초): 수축기 피크 상승의 변곡점(중심 - 폭)에서 그은 접선이 기저선과 만나는 점.
+// ECG 동기화에서는 접선 교차법으로 잰 PTT가 설정한 전달 시간과 같도록 모양을 이만큼 앞당김
+const PULSE_FOOT_OFFSET = SYSTOLIC_CENTER - 2 * SYSTOLIC_WIDTH;
+// 맥파 시작보다 이만큼 앞에서부터 더함 (수축기 피크 중심 - 4·폭. 값이 거의 0이라 맥파 앞에 계단이 생기지 않음)
+const PULSE_LEAD = 2 * SYSTOLIC_WIDTH;
+
+/**
+ * 가우스 함수 (Gaussian Function)
+ * PPG의 부드러운 파형을 만들기 위해 사용
+ */
+const gaussian = (t: number, center: number, amp: number, width: number): number => {
+  return amp * Math.exp(-Math.pow(t - center, 2) / (2 * width * width));
+};
+
+/**
+ * 박동 하나의 맥파 모양 (맥파 시작부터의 시간)
+ * @param {number} beatTime - 맥파 시작부터 지난 시간 (초)
+ * @param {number} stiffness - 동맥 경직도
+ */
+const pulseShape = (beatTime: number, stiffness: number): number => {
+  // Systolic Peak (수축기): 주 피크
+  const systolic = gaussian(beatTime, SYSTOLIC_CENTER, 1.0, SYSTOLIC_WIDTH);
+
+  // Diastolic Peak (이완기) & Dicrotic Notch (중복맥 파임)
+  // 동맥 경직도(stiffness)가 높을수록 반사파가 빨리 돌아와 수축기 피크에 가까워지고 커짐 (Augmentation Index 증가)
+  const diaTime = 0.35 - (stiffness * 0.1); // 경직될수록 시간 단축
+  const diaAmp = 0.3 + (stiffness * 0.4);   // 경직될수록 진폭 증가
+  return systolic + gaussian(beatTime, diaTime, diaAmp, 0.06);
+};
+
+const diastolicFilling = (rr: number) => 1 - Math.exp(-Math.max(rr - ISOVOLUMIC_TIME, 0) / FILLING_TIME_CONSTANT);
+
+/**
+ * ECG 박동마다 맥파의 도착 시각과 세기를 정합니다.
+ * 세기는 직전 RR 동안의 충만 정도를 기록의 평균 RR과 비교한 값이라, 규칙적인 리듬은 모두 1입니다.
+ * 짧은 RR 뒤의 박동(PVC, 심방 세동의 짧은 주기)은 맥파가 작거나 거의 없어 맥박 결손이 생깁니다.
+ * @param {PpgSync} sync - R 피크 목록과 맥파 전달 시간
+ */
+export const planPulses = (sync: PpgSync): PlannedPulse[] => {
+  const { beats, transitTime } = sync;
+  // 기준 RR: 평균 (이단맥처럼 짧고 긴 간격이 번갈아 나와도 바탕 주기에 가까움)
+  const reference = beats.length > 1 ? (beats[beats.length - 1].time - beats[0].time) / (beats.length - 1) : 1;
+  const referenceFilling = diastolicFilling(reference);
+
+  return beats.map((beat, i) => {
+    const rr = i > 0 ? beat.time - beats[i - 1].time : reference;
+    const ventricular = beat.beatType === 'V';
+    const filling = Math.min(diastolicFilling(rr) / referenceFilling, MAX_PULSE_STRENGTH);
+    return {
+      rPeak: beat.time,
+      arrival: beat.time + transitTime + (ventricular ? VENTRICULAR_EJECTION_DELAY : 0),
+      strength: filling * (ventricular ? VENTRICULAR_STRENGTH : 1),
+    };
+  });
+};
+
+/**
+ * PPG 파형을 생성합니다.
+ * ECG 박동 목록(sync)을 주면 R 피크마다 맥파 전달 시간 뒤에 맥파가 오고, 없으면 params.bpm 간격으로 규칙적으로 뜁니다.
+ * @param {PpgParams} params - PPG 파라미터
+ * @param {number} duration - 길이 (초)
+ * @param {number} samplingRate - 샘플링 주파수 (Hz)
+ * @param {RandomSource} random - 인공물에 쓰는 난수 (같은 시드면 같은 결과)
+ * @param {PpgSync} [sync] - ECG 동기화 (R 피크 목록과 맥파 전달 시간)
+ */
+export const generatePpg = (
+  params: PpgParams,
+  duration: number,
+  samplingRate: number,
+  random: RandomSource,
+  sync?: PpgSync,
+): PpgPoint[] => {
+  const artifacts = createArtifactState(samplingRate, random, 2);
+  const totalPoints = Math.round(duration * samplingRate);
+  const points: PpgPoint[] = [];
+  const pulses = sync ? planPulses(sync) : null;
+  let firstPulse = 0; // 아직 영향이 남아 있는 첫 맥파
+
+  // 심박 간격 (초)
+  const beatInterval = 60 / params.bpm;
+
+  // SpO2에 따른 Red/IR 비율 계산 (Beer-Lambert Law 단순화 모델)
+  // SpO2가 낮을수록(저산소), 환원 헤모글로빈이 많아져 Red 흡수가 늘어나고,
+  // IR 대비 Red의 AC/DC 비율(R값)이 커짐.
+  // SpO2 100%: Red의 AC/DC < IR의 AC/DC
+  // SpO2 80%: Red의 AC/DC가 상대적으로 커짐 (비율 변화)
+  const irAmplitudeBase = 1.0;
+  // R = (AC_red/DC_red) / (AC_ir/DC_ir). 산소포화도계의 보정 곡선을 거꾸로 써서,
+  // 파형에서 다시 잰 SpO2가 설정값과 같아지게 함
+  const rValue = ratioFromSpO2(params.spO2);
+  const redAmplitudeBase = irAmplitudeBase * rValue * (RED_DC_LEVEL / IR_DC_LEVEL);
+
+  for (let i = 0; i < totalPoints; i++) {
+    const t = i / samplingRate;
+
+    // 1. DC Component (Baseline) - 호흡(Respiration) 영향
+    // 호흡은 보통 0.2~0.4Hz 정도의 저주파. 투과광 전체가 같은 비율로 흔들리므로 파장별 DC에 비례
+    const respFreq = params.respRate / 60;
+    const dcComponent = Math.sin(2 * Math.PI * respFreq * t) * params.respAmp;
+    const respModulation = 1 + dcComponent / IR_DC_LEVEL;
+
+    // 2. AC Component (Pulsatile) - 심장 박동
+    let acWave = 0;
+    if (pulses) {
+      // ECG 동기화: 빠른 리듬에서는 앞 맥파의 꼬리와 겹쳐 더해짐
+      while (firstPulse < pulses.length && pulses[firstPulse].arrival < t - PULSE_SPAN) firstPulse++;
+      for (let k = firstPulse; k < pulses.length && pulses[k].arrival - PULSE_LEAD <= t; k++) {
+        acWave += pulses[k].strength * pulseShape(t - pulses[k].arrival + PULSE_FOOT_OFFSET, params.stiffness);
+      }
+    } else {
+      // 현재 시간 t에서 가장 가까운 이전 박동 시간 찾기
+      const beatIndex = Math.floor(t / beatInterval);
+      const beatTime = t - (beatIndex * beatInterval); // 박동 내에서의 상대 시간 (0 ~ beatInterval)
+      acWave = pulseShape(beatTime, params.stiffness);
+    }
+
+    // 관류(Perfusion)가 약하면 AC 성분 전체가 작아짐
+    acWave *= params.perfusion;
+
+    // 3. 최종 파형 합성 (Red vs IR)
+    // PPG는 흡광도를 측정하므로 혈액량이 많을수록(수축기) 빛이 적게 투과됨.
+    // 보통 그래프는 반전시켜서 피크가 위로 가게 그림 (Inverted absorption).
+
+    // 4. 잡음/인공물 (두 파장이 같은 센서를 지나므로 움직임, 떨어짐은 함께 나타남)
+    const [irValue, redValue] = applyArtifacts(artifacts, params.artifacts, t, [
+      IR_DC_LEVEL * respModulation + (acWave * irAmplitudeBase),
+      RED_DC_LEVEL * respModulation + (acWave * redAmplitudeBase),
+    ]);
+
+    points.push({ time: t, ir: irValue, red: redValue });
+  }
+  return points;
+};
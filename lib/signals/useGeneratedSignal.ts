@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import { SignalRequest } from './index';
+import { DenseSignal } from './dense';
+import { SignalWorker, createSignalWorker } from './client';
+
+type GeneratedResult = {
+  request: SignalRequest;
+  signal: DenseSignal;
+};
+
+/**
+ * 요청한 신호를 Web Worker에서 생성해 돌려주는 훅
+ * 컴포넌트마다 워커 하나를 두고, 요청이 바뀌면 가장 최근 요청만 생성합니다.
+ * 새 신호가 나올 때까지는 이전 신호를 그대로 돌려주므로 화면이 비지 않습니다.
+ * @param {SignalRequest | null} request - 생성 요청 (null이면 생성하지 않음). useMemo로 넘겨야 매번 다시 생성하지 않음
+ */
+export const useGeneratedSignal = (request: SignalRequest | null) => {
+  const [result, setResult] = useState<GeneratedResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<SignalWorker | null>(null);
+
+  useEffect(() => {
+    const worker = createSignalWorker();
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // 밀려난 요청은 null로 끝나므로 무시
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker || !request) return;
+    let cancelled = false;
+    worker.generate(request)
+      .then(signal => {
+        if (cancelled || !signal) return;
+        setResult({ request, signal });
+        setError(null);
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(e.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  return {
+    signal: result?.signal ?? null,
+    generating: request !== null && result?.request !== request && !error,
+    error,
+  };
+};
@@ -0,0 +1,238 @@
+import { ParamSchema } from '../paramSchema';
+
+/**
+ * 인공호흡기 파형 생성기
+ * 운동 방정식(P = Flow × R + V / C + PEEP)으로 압력, 유량, 용적 스칼라 파형과 루프 데이터를 만듭니다.
+ */
+export type VentilationMode = 'VC' | 'PC';
+export type FlowShape = 'Square' | 'Decelerating';
+
+export type VentilatorParams = {
+  rr: number;
+  peep: number;
+  tidalVolume: number;
+  pressureControl: number;
+  resistance: number;
+  compliance: number;
+  ieRatio: number;
+  flowShape: FlowShape;
+  triggerEffort: number;
+  overdistension: boolean;
+  autoPeep: boolean;
+};
+
+// 환기 모드까지 포함한 전체 설정
+export type VentilatorSettings = VentilatorParams & { mode: VentilationMode };
+
+// 프리셋/파라미터 파일 검사용 스키마 (환기 모드까지 함께 저장)
+export const VENTILATOR_SETTINGS_SCHEMA: ParamSchema<VentilatorSettings> = {
+  mode: { type: 'enum', values: ['VC', 'PC'] },
+  rr: { type: 'number', min: 1, max: 60 },
+  peep: { type: 'number', min: 0, max: 30 },
+  tidalVolume: { type: 'number', min: 50, max: 1500 },
+  pressureControl: { type: 'number', min: 0, max: 50 },
+  resistance: { type: 'number', min: 1, max: 100 },
+  compliance: { type: 'number', min: 5, max: 200 },
+  ieRatio: { type: 'number', min: 0.5, max: 6 },
+  flowShape: { type: 'enum', values: ['Square', 'Decelerating'] },
+  triggerEffort: { type: 'number', min: 0, max: 20 },
+  overdistension: { type: 'boolean' },
+  autoPeep: { type: 'boolean' },
+};
+
+// 처음 열었을 때의 설정 (시나리오도 이 상태에서 시작)
+export const DEFAULT_VENTILATOR_PARAMS: VentilatorParams = {
+  rr: 15,
+  peep: 5,
+  tidalVolume: 500, // for VC
+  pressureControl: 15, // for PC
+  resistance: 10, // Normal ~5-10
+  compliance: 50, // Normal ~50-100
+  ieRatio: 2, // 1:2
+  flowShape: 'Decelerating', // Square, Decelerating
+  triggerEffort: 0, // 0: None, >0: Patient Trigger
+  overdistension: false,
+  autoPeep: false,
+};
+export const DEFAULT_VENTILATOR_SETTINGS: VentilatorSettings = { mode: 'VC', ...DEFAULT_VENTILATOR_PARAMS };
+
+export type ScalarPoint = {
+  time: number;
+  pressure: number;
+  flow: number;
+  volume: number;
+};
+
+export type LoopPoint = {
+  pressure: number;
+  flow: number;
+  volume: number;
+};
+
+// --- 수학적 모델링 함수 ---
+
+export const VENTILATOR_SAMPLING_RATE = 50; // 시뮬레이션 해상도 (Hz, 0.02초 간격)
+
+export type BreathDataOptions = {
+  duration?: number;     // 길이 (초, 기본 2 사이클)
+  samplingRate?: number; // Hz
+};
+
+/**
+ * 호흡 사이클 데이터를 생성하는 함수
+ * @param {VentilatorSettings} params - 시뮬레이션 파라미터 (Mode, RR, Tidal Volume, PEEP 등)
+ * @param {BreathDataOptions} options - 생성 길이와 해상도
+ * @returns {Object} { scalars: [], loops: [] }
+ */
+export const generateBreathData = (
+  params: VentilatorSettings,
+  options: BreathDataOptions = {},
+): { scalars: ScalarPoint[]; loops: LoopPoint[] } => {
+  const {
+    mode,           // 'VC' (Volume Control) or 'PC' (Pressure Control)
+    rr,             // Respiratory Rate (회/분)
+    peep,           // PEEP (cmH2O)
+    tidalVolume,    // Target Volume for VC (mL)
+    pressureControl,// Target Pressure for PC (cmH2O, above PEEP)
+    resistance,     // Airway Resistance (cmH2O/L/s)
+    compliance,     // Lung Compliance (mL/cmH2O)
+    ieRatio,        // I:E Ratio (1:X의 X값)
+    flowShape,      // 'Square' or 'Decelerating' (VC only)
+    triggerEffort,  // 환자 흡기 노력 (cmH2O, 0이면 없음)
+    overdistension, // 과팽창 여부 (Beak 현상 구현)
+    autoPeep,       // AutoPEEP 구현 (호기 시간 부족)
+  } = params;
+
+  const dataPoints: ScalarPoint[] = [];
+  const loopPoints: LoopPoint[] = [];
+  
+  // 시간 설정
+  const cycleTime = 60 / rr; // 1회 호흡 시간 (초)
+  const inspTime = cycleTime / (1 + ieRatio); // 흡기 시간
+  
+  // 시뮬레이션 해상도 및 길이 (기본 2 사이클)
+  const samplingRate = options.samplingRate ?? VENTILATOR_SAMPLING_RATE;
+  const dt = 1 / samplingRate;
+  const totalTime = options.duration ?? cycleTime * 2;
+  // 시간을 dt씩 더해 가면 부동소수 오차로 마지막에 샘플이 하나 더 생기므로 샘플 번호로 셈
+  const sampleCount = Math.round(totalTime * samplingRate);
+  
+  // 상태 변수 초기화
+  let currentVol = 0; // L
+  let currentFlow = 0; // L/s
+  let currentPressure = peep; // cmH2O
+  
+  // AutoPEEP 시뮬레이션을 위한 잔여 용적 (이전 호흡에서 다 못 뱉은 양)
+  const trappedVolume = autoPeep ? 0.1 : 0; 
+
+  for (let i = 0; i < sampleCount; i++) {
+    const t = i / samplingRate;
+    const timeInCycle = t % cycleTime;
+    const isInspiration = timeInCycle < inspTime;
+    
+    // 트리거링 시뮬레이션 (흡기 직전 음압 발생)
+    const isTriggerPhase = timeInCycle > cycleTime - 0.15 || (timeInCycle < 0.1 && t > 0);
+    let musclePressure = 0;
+    if (triggerEffort > 0 && isTriggerPhase) {
+        // 사인파 형태로 음압 생성
+        musclePressure = -triggerEffort * Math.sin(Math.PI * (timeInCycle < 0.1 ? timeInCycle + 0.15 : timeInCycle - (cycleTime - 0.15)) / 0.25);
+    }
+
+    // --- 1. 유량(Flow) 및 압력(Pressure) 계산 ---
+    
+    if (mode === 'VC') {
+      // Volume Control
+      if (isInspiration) {
+        // 흡기: 설정된 유량 패턴
+        const targetVolL = tidalVolume / 1000;
+        
+        if (flowShape === 'Square') {
+          currentFlow = targetVolL / inspTime;
+        } else {
+          // Decelerating Ramp
+          // 면적(=용적)은 같아야 하므로 초기 유량은 Square의 2배에서 시작해 0으로 감
+          const startFlow = (2 * targetVolL) / inspTime;
+          currentFlow = startFlow * (1 - (timeInCycle / inspTime));
+        }
+      } else {
+        // 호기: 수동적 반동 (Exponential Decay)
+        // 시상수(Time Constant) = R * C
+        const timeConstant = resistance * (compliance / 1000); 
+        // AutoPEEP이 있으면 호기 시간이 짧아져 유량이 0이 되기 전 흡기 시작
+        const expTimeElapsed = timeInCycle - inspTime;
+        // 호기 시작 시점의 Peak Expiratory Flow
+        const peakExpFlow = -(currentVol + trappedVolume) / timeConstant; 
+        currentFlow = peakExpFlow * Math.exp(-expTimeElapsed / timeConstant);
+      }
+    } else {
+      // Pressure Control
+      if (isInspiration) {
+        // 흡기: 일정한 압력 유지 -> 유량은 감소
+        const timeConstant = resistance * (compliance / 1000);
+        // Equation: Flow = (Delta P / R) * e^(-t/RC)
+        currentFlow = (pressureControl / resistance) * Math.exp(-timeInCycle / timeConstant);
+      } else {
+        // 호기: VC와 동일한 메커니즘
+        const timeConstant = resistance * (compliance / 1000);
+        const expTimeElapsed = timeInCycle - inspTime;
+        const peakExpFlow = -(currentVol + trappedVolume) / timeConstant;
+        currentFlow = peakExpFlow * Math.exp(-expTimeElapsed / timeConstant);
+      }
+    }
+
+    // --- 2. 용적(Volume) 적분 ---
+    // V = Integral(Flow) dt
+    if (isInspiration && timeInCycle < dt) {
+        // 흡기 시작 시 리셋 (AutoPEEP 상황 제외하면 0)
+        currentVol = trappedVolume; 
+    }
+    currentVol += currentFlow * dt;
+    
+    // 용적 하한선 보정 (물리적으로 0 미만 불가)
+    if (currentVol < 0) currentVol = 0;
+
+
+    // --- 3. 압력(Pressure) 계산 (운동 방정식) ---
+    // P_vent = (Flow * R) + (Vol / C) + PEEP
+    
+    // 컴플라이언스 비선형성 (Overdistension/Beak 구현)
+    // 용적이 일정 수준을 넘으면 컴플라이언스가 급격히 감소(=Elastance 증가)하여 압력 급상승
+    let effectiveCompliance = compliance;
+    if (overdistension && currentVol > 0.45) { // 450ml 이상에서 과팽창 발생 가정
+        effectiveCompliance = compliance * (1 - (currentVol - 0.45) * 2); 
+        if (effectiveCompliance < 5) effectiveCompliance = 5;
+    }
+
+    const resistivePressure = currentFlow * resistance;
+    const elasticPressure = (currentVol * 1000) / effectiveCompliance; // mL 단위 변환
+    
+    // PC 모드에서는 흡기 시 압력이 설정값으로 고정(이상적 상황)되지만, 
+    // 여기서는 계산된 값을 사용하여 그래픽의 일관성을 유지하거나, 
+    // PC 모드 특유의 Square Pressure Waveform을 강제할 수 있음.
+    // 시뮬레이터의 현실감을 위해 PC 흡기시는 강제 Square Wave 적용
+    if (mode === 'PC' && isInspiration) {
+        currentPressure = peep + pressureControl;
+    } else {
+        currentPressure = resistivePressure + elasticPressure + peep + musclePressure;
+    }
+
+    // 데이터 저장
+    const displayTime = parseFloat(t.toFixed(6));
+    
+    dataPoints.push({
+      time: displayTime,
+      pressure: currentPressure,
+      flow: currentFlow * 60, // L/min 변환
+      volume: currentVol * 1000
+    });
+
+    // 루프 데이터는 한 사이클만 (또는 전체)
+    loopPoints.push({
+      pressure: currentPressure,
+      flow: currentFlow * 60,
+      volume: currentVol * 1000
+    });
+  }
+  
+  return { scalars: dataPoints, loops: loopPoints };
+};
@@ -0,0 +1,19 @@
+import { generateSignal } from './index';
+import { SignalWorkerRequest, SignalWorkerResponse, denseBuffers, toDenseSignal } from './dense';
+
+/**
+ * 신호 생성 Web Worker
+ * 수 분 길이의 고해상도 파형은 생성에 수백 ms~수 초가 걸리므로 화면 스레드 밖에서 만듭니다.
+ */
+self.onmessage = (event: MessageEvent<SignalWorkerRequest>) => {
+  const { id, request } = event.data;
+  let response: SignalWorkerResponse;
+  try {
+    const started = performance.now();
+    const signal = generateSignal(request);
+    response = { id, signal: toDenseSignal(signal, performance.now() - started) };
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(response, { transfer: 'signal' in response ? denseBuffers(response.signal) : [] });
+};
@@ -0,0 +1,58 @@
+/**
+ * 긴 기록의 보기 구간 (확대/이동)
+ * 보기 구간은 항상 기록 [0, total] 안에 있고, 최소 길이보다 좁아지지 않습니다.
+ */
+export type TimeWindow = {
+  start: number; // 초
+  end: number;   // 초
+};
+
+/**
+ * 보기 구간을 기록 범위 안으로 맞춥니다. 길이가 기록보다 길면 기록 전체를 보여줍니다.
+ * @param {TimeWindow} window - 보기 구간
+ * @param {number} total - 기록 길이 (초)
+ * @param {number} minSpan - 최소 보기 길이 (초)
+ */
+export const clampWindow = (window: TimeWindow, total: number, minSpan: number): TimeWindow => {
+  const span = Math.min(Math.max(window.end - window.start, minSpan), total);
+  const start = Math.min(Math.max(window.start, 0), total - span);
+  return { start, end: start + span };
+};
+
+/**
+ * 기준 시각을 고정한 채 보기 구간을 확대/축소합니다. (마우스 휠, 핀치)
+ * @param {TimeWindow} window - 보기 구간
+ * @param {number} factor - 길이 배율 (1보다 작으면 확대)
+ * @param {number} anchor - 화면에서 제자리에 남을 시각 (초)
+ * @param {number} total - 기록 길이 (초)
+ * @param {number} minSpan - 최소 보기 길이 (초)
+ */
+export const zoomWindow = (window: TimeWindow, factor: number, anchor: number, total: number, minSpan: number): TimeWindow => {
+  const span = window.end - window.start;
+  const nextSpan = Math.min(Math.max(span * factor, minSpan), total);
+  const ratio = span > 0 ? (anchor - window.start) / span : 0.5;
+  const start = anchor - ratio * nextSpan;
+  return clampWindow({ start, end: start + nextSpan }, total, minSpan);
+};
+
+/**
+ * 보기 구간을 길이 그대로 옮깁니다. (드래그)
+ * @param {TimeWindow} window - 보기 구간
+ * @param {number} delta - 옮길 시간 (초, 양수면 뒤로)
+ * @param {number} total - 기록 길이 (초)
+ * @param {number} minSpan - 최소 보기 길이 (초)
+ */
+export const panWindow = (window: TimeWindow, delta: number, total: number, minSpan: number): TimeWindow =>
+  clampWindow({ start: window.start + delta, end: window.end + delta }, total, minSpan);
+
+/**
+ * 보기 구간의 가운데를 주어진 시각으로 옮깁니다. (미니맵 클릭)
+ * @param {TimeWindow} window - 보기 구간
+ * @param {number} center - 가운데에 올 시각 (초)
+ * @param {number} total - 기록 길이 (초)
+ * @param {number} minSpan - 최소 보기 길이 (초)
+ */
+export const centerWindow = (window: TimeWindow, center: number, total: number, minSpan: number): TimeWindow => {
+  const half = (window.end - window.start) / 2;
+  return clampWindow({ start: center - half, end: center + half }, total, minSpan);
+};
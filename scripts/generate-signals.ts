@@ -0,0 +1,203 @@
+/**
+ * 명령줄 신호 생성기
+ * 브라우저 없이 ECG, PPG, 인공호흡기 파형을 만들어 파일로 씁니다. (학습용 라벨 데이터셋)
+ *
+ *   pnpm generate --modality ecg --preset AFIB --duration 600 --fs 500 --seed 1 --format csv --out data/afib.csv
+ *   pnpm generate --modality ecg --preset VTACH --count 20 --out data/vtach
+ *   pnpm generate --modality ppg --preset BIGEMINY --ptt 0.2 --duration 60 --out data/bigeminy-ppg.csv
+ *
+ * --count가 2 이상이면 --out을 폴더로 보고, 시드를 1씩 늘려 가며 파일을 하나씩 만듭니다.
+ * ECG를 CSV로 쓰면 박동 라벨을 같은 이름의 .beats.csv 파일에 따로 씁니다.
+ * PPG에 --preset이나 --ptt를 주면 그 리듬의 II 유도 박동마다 맥파를 만들고 II 유도와 박동 라벨을 함께 씁니다.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { ECG_PARAMS_SCHEMA, EcgParams, PRESETS } from '@/lib/ecg/model';
+import { DEFAULT_SEED } from '@/lib/random';
+import { EXPORT_FORMATS, ExportFormat, ExportSignal, toAnnotationCsv, toCsv, toEdf, toJson } from '@/lib/export';
+import { ParamSchema, validateParams } from '@/lib/paramSchema';
+import { DEFAULT_SAMPLING_RATES, SIGNAL_MODALITIES, SignalModality, SignalRequest, generateSignal } from '@/lib/signals';
+import { DEFAULT_PPG_PARAMS, DEFAULT_PULSE_TRANSIT_TIME, PPG_PARAMS_SCHEMA } from '@/lib/signals/ppg';
+import { DEFAULT_VENTILATOR_SETTINGS, VENTILATOR_SETTINGS_SCHEMA } from '@/lib/signals/ventilator';
+
+const USAGE = `사용법: pnpm generate --modality <ecg|ppg|ventilator> [옵션]
+
+  --modality <종류>   ecg, ppg, ventilator
+  --preset <이름>     ECG 프리셋 (기본 NORMAL, PPG는 이 리듬에 맞춰 맥파를 만듦): ${Object.keys(PRESETS).join(', ')}
+  --ptt <초>          PPG 맥파 전달 시간 (ECG 동기화, 기본 ${DEFAULT_PULSE_TRANSIT_TIME})
+  --params <파일>     기본값(또는 프리셋) 위에 덮어쓸 파라미터 JSON 파일
+  --duration <초>     길이 (기본 10)
+  --fs <Hz>           샘플링 주파수 (기본 ECG ${DEFAULT_SAMPLING_RATES.ecg}, PPG ${DEFAULT_SAMPLING_RATES.ppg}, 인공호흡기 ${DEFAULT_SAMPLING_RATES.ventilator})
+  --seed <정수>       난수 시드 (기본 ${DEFAULT_SEED})
+  --count <개수>      시드를 1씩 늘려 가며 만들 파일 수 (기본 1)
+  --format <형식>     ${EXPORT_FORMATS.join(', ')} (기본 csv)
+  --leads <ii|12>     ECG 유도 (기본 ii)
+  --out <경로>        출력 파일 (--count가 2 이상이면 폴더, 생략하면 표준 출력)
+  --help              이 도움말
+`;
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: '.csv',
+  json: '.json',
+  edf: '.edf',
+  'edf+': '.edf',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 양수 옵션 읽기 (정수만 허용할 수도 있음)
+const readNumber = (value: string | undefined, fallback: number, name: string, integer = false): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) throw new Error(`--${name} 값이 올바르지 않습니다: ${value}`);
+  return parsed;
+};
+
+/**
+ * 기본 파라미터 위에 파일의 파라미터를 한 단계 깊이까지 합치고 스키마로 검사합니다.
+ * @param {T} base - 기본 파라미터
+ * @param {string | undefined} file - 파라미터 JSON 파일 경로
+ * @param {ParamSchema<T>} schema - 파라미터 스키마
+ */
+const readParams = <T extends object>(base: T, file: string | undefined, schema: ParamSchema<T>): T => {
+  if (!file) return base;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch {
+    throw new Error(`파라미터 파일을 읽을 수 없습니다: ${file}`);
+  }
+  if (!isPlainObject(parsed)) throw new Error('파라미터 파일은 JSON 객체여야 합니다.');
+
+  const merged: Record<string, unknown> = Object.fromEntries(Object.entries(base));
+  Object.entries(parsed).forEach(([key, value]) => {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? { ...current, ...value } : value;
+  });
+  const errors = validateParams(schema as ParamSchema, merged);
+  if (errors.length > 0) throw new Error(`파라미터가 올바르지 않습니다: ${errors.join(', ')}`);
+  return merged as T;
+};
+
+/**
+ * 옵션에서 생성 요청을 만듭니다. (여러 개를 만들 때는 이 시드부터 1씩 늘림)
+ */
+const buildRequest = (values: Record<string, string | boolean | undefined>): SignalRequest => {
+  const modality = values.modality as SignalModality | undefined;
+  if (!modality || !SIGNAL_MODALITIES.includes(modality)) {
+    throw new Error(`--modality는 ${SIGNAL_MODALITIES.join(', ')} 중 하나여야 합니다.`);
+  }
+  const preset = values.preset as string | undefined;
+  if (preset !== undefined && modality === 'ventilator') throw new Error('--preset은 ECG와 PPG에서만 쓸 수 있습니다.');
+  if (preset !== undefined && !(preset in PRESETS)) throw new Error(`알 수 없는 ECG 프리셋입니다: ${preset}`);
+  if (values.ptt !== undefined && modality !== 'ppg') throw new Error('--ptt는 PPG에서만 쓸 수 있습니다.');
+
+  const duration = readNumber(values.duration as string | undefined, 10, 'duration');
+  const samplingRate = readNumber(values.fs as string | undefined, DEFAULT_SAMPLING_RATES[modality], 'fs');
+  if (duration <= 0 || samplingRate <= 0) throw new Error('--duration과 --fs는 0보다 커야 합니다.');
+  const seed = readNumber(values.seed as string | undefined, DEFAULT_SEED, 'seed', true);
+  const paramsFile = values.params as string | undefined;
+
+  switch (modality) {
+    case 'ecg': {
+      const key = preset ?? 'NORMAL';
+      const leads = (values.leads as string | undefined) ?? 'ii';
+      if (leads !== 'ii' && leads !== '12') throw new Error('--leads는 ii 또는 12여야 합니다.');
+      return {
+        modality,
+        params: readParams<EcgParams>(PRESETS[key].params, paramsFile, ECG_PARAMS_SCHEMA),
+        label: key,
+        twelveLead: leads === '12',
+        duration,
+        samplingRate,
+        seed,
+      };
+    }
+    case 'ppg': {
+      const params = readParams(DEFAULT_PPG_PARAMS, paramsFile, PPG_PARAMS_SCHEMA);
+      if (preset === undefined && values.ptt === undefined) return { modality, params, duration, samplingRate, seed };
+      const transitTime = readNumber(values.ptt as string | undefined, DEFAULT_PULSE_TRANSIT_TIME, 'ptt');
+      if (transitTime <= 0) throw new Error('--ptt는 0보다 커야 합니다.');
+      const key = preset ?? 'NORMAL';
+      return { modality, params, label: key, ecg: { params: PRESETS[key].params, transitTime }, duration, samplingRate, seed };
+    }
+    case 'ventilator':
+      return {
+        modality,
+        params: readParams(DEFAULT_VENTILATOR_SETTINGS, paramsFile, VENTILATOR_SETTINGS_SCHEMA),
+        duration,
+        samplingRate,
+        seed,
+      };
+  }
+};
+
+const encode = (signal: ExportSignal, format: ExportFormat): string | Uint8Array =>
+  format === 'csv' ? toCsv(signal) : format === 'json' ? toJson(signal) : toEdf(signal, format === 'edf+');
+
+/**
+ * 신호 하나를 파일로 씁니다. ECG CSV는 박동 라벨 파일을 함께 씁니다.
+ * @param {string} path - 출력 파일 경로
+ */
+const writeSignal = (signal: ExportSignal, format: ExportFormat, path: string) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, encode(signal, format));
+  if (format === 'csv' && signal.annotations) {
+    writeFileSync(join(dirname(path), `${basename(path, extname(path))}.beats.csv`), toAnnotationCsv(signal));
+  }
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      modality: { type: 'string' },
+      preset: { type: 'string' },
+      params: { type: 'string' },
+      duration: { type: 'string' },
+      fs: { type: 'string' },
+      seed: { type: 'string' },
+      count: { type: 'string' },
+      format: { type: 'string' },
+      leads: { type: 'string' },
+      ptt: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const request = buildRequest(values);
+  const count = readNumber(values.count, 1, 'count', true);
+  if (count < 1) throw new Error('--count는 1 이상이어야 합니다.');
+  const format = (values.format ?? 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) throw new Error(`--format은 ${EXPORT_FORMATS.join(', ')} 중 하나여야 합니다.`);
+  if (!values.out && (count > 1 || format === 'edf' || format === 'edf+')) {
+    throw new Error('여러 파일이나 EDF를 만들 때는 --out이 필요합니다.');
+  }
+
+  for (let i = 0; i < count; i++) {
+    const seed = request.seed + i;
+    const signal = generateSignal({ ...request, seed });
+    if (!values.out) {
+      process.stdout.write(encode(signal, format));
+    } else if (count === 1) {
+      writeSignal(signal, format, values.out);
+    } else {
+      const name = [request.modality, request.label?.toLowerCase(), `seed${seed}`].filter(Boolean).join('-') + FILE_EXTENSIONS[format];
+      writeSignal(signal, format, join(values.out, name));
+      process.stderr.write(`${name}\n`);
+    }
+  }
+};
+
+try {
+  main();
+} catch (e) {
+  process.stderr.write(`오류: ${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+  process.exit(1);
+}